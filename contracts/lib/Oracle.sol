@@ -0,0 +1,229 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title Oracle
+ * @notice 记录 tick 累计值的观测环形缓冲区，用于计算时间加权平均价格（TWAP）
+ * @dev 改写自 Uniswap V3 的 Oracle 库，只保留 tickCumulative。
+ *      每个区块最多写入一条观测；写满当前长度后，如果 cardinalityNext 更大则扩展到该长度，否则覆盖最旧的观测。
+ *      时间戳按 uint32 截断，比较时会处理溢出回绕
+ */
+library Oracle {
+    // 缓冲区长度为 0，池子尚未初始化
+    error OracleUninitialized();
+    // 查询的时间早于缓冲区中最旧的观测
+    error ObservationTooOld(uint32 target, uint32 oldest);
+
+    struct Observation {
+        // 观测所在区块的时间戳
+        uint32 blockTimestamp;
+        // tick * 经过秒数的累计值
+        int56 tickCumulative;
+        // 该位置是否已写入观测
+        bool initialized;
+    }
+
+    /**
+     * @notice 在上一条观测的基础上推进到 blockTimestamp，期间的 tick 保持为 tick
+     */
+    function transform(
+        Observation memory last,
+        uint32 blockTimestamp,
+        int24 tick
+    ) private pure returns (Observation memory) {
+        unchecked {
+            uint32 delta = blockTimestamp - last.blockTimestamp;
+            return
+                Observation({
+                    blockTimestamp: blockTimestamp,
+                    tickCumulative: last.tickCumulative + int56(tick) * int56(uint56(delta)),
+                    initialized: true
+                });
+        }
+    }
+
+    /**
+     * @notice 写入第一条观测，在池子初始化时调用
+     * @return cardinality 缓冲区长度
+     * @return cardinalityNext 下次扩展到的长度
+     */
+    function initialize(
+        Observation[65535] storage self,
+        uint32 time
+    ) internal returns (uint16 cardinality, uint16 cardinalityNext) {
+        self[0] = Observation({blockTimestamp: time, tickCumulative: 0, initialized: true});
+        return (1, 1);
+    }
+
+    /**
+     * @notice 写入一条观测，同一区块内重复写入会被忽略
+     * @param index 最新一条观测的索引
+     * @param tick 上一条观测之后到现在为止生效的 tick
+     * @return indexUpdated 写入后最新一条观测的索引
+     * @return cardinalityUpdated 写入后的缓冲区长度
+     */
+    function write(
+        Observation[65535] storage self,
+        uint16 index,
+        uint32 blockTimestamp,
+        int24 tick,
+        uint16 cardinality,
+        uint16 cardinalityNext
+    ) internal returns (uint16 indexUpdated, uint16 cardinalityUpdated) {
+        Observation memory last = self[index];
+        if (last.blockTimestamp == blockTimestamp) return (index, cardinality);
+
+        // 只有写到当前缓冲区末尾时才扩展长度，保证观测按时间顺序排列
+        cardinalityUpdated = cardinalityNext > cardinality && index == cardinality - 1 ? cardinalityNext : cardinality;
+        indexUpdated = (index + 1) % cardinalityUpdated;
+        self[indexUpdated] = transform(last, blockTimestamp, tick);
+    }
+
+    /**
+     * @notice 预先写入新增位置的存储槽，使扩展后的写入不需要支付首次写入的 gas
+     * @return 新的 cardinalityNext，不大于当前值时保持不变
+     */
+    function grow(Observation[65535] storage self, uint16 current, uint16 next) internal returns (uint16) {
+        if (current == 0) revert OracleUninitialized();
+        if (next <= current) return current;
+        for (uint16 i = current; i < next; i++) {
+            self[i].blockTimestamp = 1;
+        }
+        return next;
+    }
+
+    /**
+     * @notice 比较两个可能已经回绕的时间戳，time 为当前时间，a 和 b 都不晚于 time
+     */
+    function lte(uint32 time, uint32 a, uint32 b) private pure returns (bool) {
+        if (a <= time && b <= time) return a <= b;
+        uint256 aAdjusted = a > time ? a : a + 2 ** 32;
+        uint256 bAdjusted = b > time ? b : b + 2 ** 32;
+        return aAdjusted <= bAdjusted;
+    }
+
+    /**
+     * @notice 在已写入的观测中二分查找 target 两侧的观测
+     * @dev 调用前需确认 target 不早于最旧的观测、早于最新的观测
+     */
+    function binarySearch(
+        Observation[65535] storage self,
+        uint32 time,
+        uint32 target,
+        uint16 index,
+        uint16 cardinality
+    ) private view returns (Observation memory beforeOrAt, Observation memory atOrAfter) {
+        // 最旧的观测
+        uint256 l = (index + 1) % cardinality;
+        // 最新的观测
+        uint256 r = l + cardinality - 1;
+        uint256 i;
+        while (true) {
+            i = (l + r) / 2;
+            beforeOrAt = self[i % cardinality];
+            // 缓冲区刚扩展、尚未写满时，跳过未写入的位置
+            if (!beforeOrAt.initialized) {
+                l = i + 1;
+                continue;
+            }
+            atOrAfter = self[(i + 1) % cardinality];
+
+            bool targetAtOrAfter = lte(time, beforeOrAt.blockTimestamp, target);
+            if (targetAtOrAfter && lte(time, target, atOrAfter.blockTimestamp)) break;
+            if (!targetAtOrAfter) {
+                r = i - 1;
+            } else {
+                l = i + 1;
+            }
+        }
+    }
+
+    /**
+     * @notice 找到 target 两侧的观测，target 不早于最新观测时以当前 tick 推算出 atOrAfter
+     */
+    function getSurroundingObservations(
+        Observation[65535] storage self,
+        uint32 time,
+        uint32 target,
+        int24 tick,
+        uint16 index,
+        uint16 cardinality
+    ) private view returns (Observation memory beforeOrAt, Observation memory atOrAfter) {
+        beforeOrAt = self[index];
+        if (lte(time, beforeOrAt.blockTimestamp, target)) {
+            if (beforeOrAt.blockTimestamp == target) {
+                return (beforeOrAt, atOrAfter);
+            }
+            return (beforeOrAt, transform(beforeOrAt, target, tick));
+        }
+
+        // 缓冲区未写满时，最旧的观测在索引 0
+        beforeOrAt = self[(index + 1) % cardinality];
+        if (!beforeOrAt.initialized) beforeOrAt = self[0];
+        if (!lte(time, beforeOrAt.blockTimestamp, target)) revert ObservationTooOld(target, beforeOrAt.blockTimestamp);
+
+        return binarySearch(self, time, target, index, cardinality);
+    }
+
+    /**
+     * @notice 返回 secondsAgo 秒前的 tick 累计值，两条观测之间按线性插值
+     */
+    function observeSingle(
+        Observation[65535] storage self,
+        uint32 time,
+        uint32 secondsAgo,
+        int24 tick,
+        uint16 index,
+        uint16 cardinality
+    ) internal view returns (int56 tickCumulative) {
+        unchecked {
+            if (secondsAgo == 0) {
+                Observation memory last = self[index];
+                if (last.blockTimestamp != time) last = transform(last, time, tick);
+                return last.tickCumulative;
+            }
+
+            uint32 target = time - secondsAgo;
+            (Observation memory beforeOrAt, Observation memory atOrAfter) = getSurroundingObservations(
+                self,
+                time,
+                target,
+                tick,
+                index,
+                cardinality
+            );
+
+            if (target == beforeOrAt.blockTimestamp) {
+                return beforeOrAt.tickCumulative;
+            } else if (target == atOrAfter.blockTimestamp) {
+                return atOrAfter.tickCumulative;
+            }
+            // 两条观测之间 tick 不变，累计值的差正好是区间长度的整数倍
+            uint56 observationTimeDelta = atOrAfter.blockTimestamp - beforeOrAt.blockTimestamp;
+            uint56 targetDelta = target - beforeOrAt.blockTimestamp;
+            return
+                beforeOrAt.tickCumulative +
+                ((atOrAfter.tickCumulative - beforeOrAt.tickCumulative) / int56(observationTimeDelta)) *
+                int56(targetDelta);
+        }
+    }
+
+    /**
+     * @notice 批量返回每个 secondsAgo 对应的 tick 累计值
+     */
+    function observe(
+        Observation[65535] storage self,
+        uint32 time,
+        uint32[] memory secondsAgos,
+        int24 tick,
+        uint16 index,
+        uint16 cardinality
+    ) internal view returns (int56[] memory tickCumulatives) {
+        if (cardinality == 0) revert OracleUninitialized();
+
+        tickCumulatives = new int56[](secondsAgos.length);
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            tickCumulatives[i] = observeSingle(self, time, secondsAgos[i], tick, index, cardinality);
+        }
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title Pagination
+ * @notice 按 offset / limit 分页读取列表的辅助函数
+ */
+library Pagination {
+    /**
+     * @notice 计算从 offset 开始最多 limit 个元素的一页实际包含的元素个数
+     * @dev offset 不小于 total 时返回 0，limit 可以传 type(uint256).max 表示读到末尾
+     * @param total 列表总长度
+     */
+    function pageSize(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256) {
+        if (offset >= total) return 0;
+        uint256 remaining = total - offset;
+        return limit < remaining ? limit : remaining;
+    }
+}
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title Path
+ * @notice 多跳交易路径的编码与解析
+ * @dev 路径按交易方向紧密编码：token(20 bytes) | index(4 bytes) | token(20 bytes) | index(4 bytes) | token ...
+ *      精确输入和精确输出使用同一方向（第一个 token 为输入代币，最后一个 token 为输出代币）
+ */
+library Path {
+    uint256 private constant ADDR_SIZE = 20;
+    uint256 private constant INDEX_SIZE = 4;
+    // 每一跳在路径中占用的长度（token + index）
+    uint256 private constant HOP_SIZE = ADDR_SIZE + INDEX_SIZE;
+
+    // 路径长度不是 ADDR_SIZE + n * HOP_SIZE（n >= 1）
+    error InvalidPath(uint256 length);
+
+    /**
+     * @notice 返回路径中的跳数，并校验编码长度
+     * @param path 编码后的路径
+     */
+    function numHops(bytes calldata path) internal pure returns (uint256) {
+        if (path.length < HOP_SIZE + ADDR_SIZE || (path.length - ADDR_SIZE) % HOP_SIZE != 0) {
+            revert InvalidPath(path.length);
+        }
+        return (path.length - ADDR_SIZE) / HOP_SIZE;
+    }
+
+    /**
+     * @notice 解析第 i 跳
+     * @param path 编码后的路径
+     * @param i 跳的序号，从 0 开始
+     * @return tokenIn 本跳的输入代币
+     * @return index 本跳使用的池子索引
+     * @return tokenOut 本跳的输出代币
+     */
+    function decodeHop(
+        bytes calldata path,
+        uint256 i
+    ) internal pure returns (address tokenIn, uint32 index, address tokenOut) {
+        uint256 offset = i * HOP_SIZE;
+        tokenIn = address(bytes20(path[offset:offset + ADDR_SIZE]));
+        index = uint32(bytes4(path[offset + ADDR_SIZE:offset + HOP_SIZE]));
+        tokenOut = address(bytes20(path[offset + HOP_SIZE:offset + HOP_SIZE + ADDR_SIZE]));
+    }
+}
@@ -0,0 +1,128 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import '@openzeppelin/contracts/utils/Strings.sol';
+
+/**
+ * @title PositionSVG
+ * @notice 生成头寸 NFT 的 SVG 图片
+ * @dev 所有字符串参数都应已完成 XML 转义，价格等数值由调用方格式化
+ */
+library PositionSVG {
+    // 区间条的起点与宽度（像素）
+    uint256 private constant BAR_X = 28;
+    uint256 private constant BAR_WIDTH = 234;
+
+    struct Params {
+        uint256 tokenId;
+        string symbol0;
+        string symbol1;
+        // 例如 0.3%
+        string feeTier;
+        uint32 index;
+        string priceLower;
+        string priceUpper;
+        string priceCurrent;
+        bool inRange;
+        uint128 liquidity;
+        // 当前 tick 在区间中的位置，以万分比表示，超出区间时取 0 或 10000
+        uint256 rangePosition;
+        // 背景渐变两端的色相，取值 [0, 360)
+        uint256 hue0;
+        uint256 hue1;
+    }
+
+    function generate(Params memory params) internal pure returns (string memory) {
+        return
+            string.concat(
+                '<svg xmlns="http://www.w3.org/2000/svg" width="290" height="500" viewBox="0 0 290 500" ',
+                'font-family="monospace" fill="#ffffff">',
+                _background(params.hue0, params.hue1),
+                _header(params),
+                _prices(params),
+                _range(params.inRange, params.rangePosition),
+                _footer(params.tokenId, params.liquidity),
+                '</svg>'
+            );
+    }
+
+    function _background(uint256 hue0, uint256 hue1) private pure returns (string memory) {
+        return
+            string.concat(
+                '<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">',
+                '<stop offset="0" stop-color="hsl(',
+                Strings.toString(hue0),
+                ',60%,22%)"/><stop offset="1" stop-color="hsl(',
+                Strings.toString(hue1),
+                ',60%,22%)"/></linearGradient></defs>',
+                '<rect width="290" height="500" rx="20" fill="url(#bg)"/>',
+                '<rect x="12" y="12" width="266" height="476" rx="14" fill="none" stroke="#ffffff" ',
+                'stroke-opacity="0.25"/>'
+            );
+    }
+
+    function _header(Params memory params) private pure returns (string memory) {
+        return
+            string.concat(
+                '<text x="28" y="56" font-size="24" font-weight="bold">',
+                params.symbol0,
+                '/',
+                params.symbol1,
+                '</text><text x="28" y="82" font-size="14" fill-opacity="0.7">',
+                params.feeTier,
+                ' fee - pool #',
+                Strings.toString(params.index),
+                '</text>'
+            );
+    }
+
+    function _prices(Params memory params) private pure returns (string memory) {
+        return
+            string.concat(
+                '<text x="28" y="140" font-size="12" fill-opacity="0.7">Min price</text>',
+                '<text x="28" y="162" font-size="16">',
+                params.priceLower,
+                '</text><text x="150" y="140" font-size="12" fill-opacity="0.7">Max price</text>',
+                '<text x="150" y="162" font-size="16">',
+                params.priceUpper,
+                '</text><text x="28" y="190" font-size="12" fill-opacity="0.7">',
+                params.symbol1,
+                ' per ',
+                params.symbol0,
+                '</text><text x="28" y="300" font-size="14">Current price: ',
+                params.priceCurrent,
+                '</text>'
+            );
+    }
+
+    /**
+     * @dev 区间条与当前价格标记，区间内为绿色，区间外为红色
+     */
+    function _range(bool inRange, uint256 rangePosition) private pure returns (string memory) {
+        string memory color = inRange ? '#3fb950' : '#f85149';
+        return
+            string.concat(
+                '<rect x="28" y="240" width="234" height="6" rx="3" fill-opacity="0.2"/>',
+                '<circle cx="',
+                Strings.toString(BAR_X + (BAR_WIDTH * rangePosition) / 10000),
+                '" cy="243" r="7" fill="',
+                color,
+                '"/><text x="28" y="326" font-size="14" fill="',
+                color,
+                '">',
+                inRange ? 'In range' : 'Out of range',
+                '</text>'
+            );
+    }
+
+    function _footer(uint256 tokenId, uint128 liquidity) private pure returns (string memory) {
+        return
+            string.concat(
+                '<text x="28" y="430" font-size="12">ID: ',
+                Strings.toString(tokenId),
+                '</text><text x="28" y="454" font-size="12">Liquidity: ',
+                Strings.toString(liquidity),
+                '</text>'
+            );
+    }
+}
@@ -14,10 +14,39 @@ contract Factory is IFactory {
     // 对于同一对代币，可以创建多个不同费用和价格范围的池
     mapping(address => mapping(address => address[])) public pools;
 
+    // 按创建顺序记录的全部池子及其在代币对中的索引，用于分页枚举
+    PoolEntry[] public override allPools;
+
     // 临时存储池的参数，在 CREATE2 构造时由 Pool 读取
     // 使用临时存储的原因：CREATE2 constructor 不能接收参数
     Parameters public override parameters;
 
+    // 工厂 owner，由部署者担任
+    address public override owner;
+
+    constructor() {
+        owner = msg.sender;
+        emit OwnerChanged(address(0), msg.sender);
+    }
+
+    /**
+     * @notice 转移工厂的 owner
+     * @dev 新 owner 立即获得所有池子的协议手续费设置与提取权限
+     * @param _owner 新 owner 地址
+     */
+    function setOwner(address _owner) external override {
+        if (msg.sender != owner) revert NotOwner(msg.sender);
+        emit OwnerChanged(owner, _owner);
+        owner = _owner;
+    }
+
+    /**
+     * @notice 已创建的池子总数
+     */
+    function allPoolsLength() external view override returns (uint256) {
+        return allPools.length;
+    }
+
     /**
      * @dev 对代币地址进行排序，确保 token0 < token1
      * @notice 保证同一对代币的规范化顺序，便于统一管理和查询
@@ -37,17 +66,18 @@ contract Factory is IFactory {
      * @param token0 第一个代币地址
      * @param token1 第二个代币地址
      * @param index 池的索引位置
-     * @return pool 返回的池合约地址
+     * @return pool 返回的池合约地址，不存在时为零地址
      */
     function getPool(address token0, address token1, uint32 index) external view override returns (address pool) {
         // 检查两个代币地址是否相同
-        require(token0 != token1, 'Identical addresses');
+        if (token0 == token1) revert IdenticalAddresses(token0);
         // 检查代币地址是否为零地址
-        require(token0 != address(0) && token1 != address(0), 'Zero address');
+        if (token0 == address(0) || token1 == address(0)) revert ZeroAddress();
         // 对代币地址进行规范化排序
         (address token0_, address token1_) = sortTokens(token0, token1);
-        // 返回指定索引的池地址
-        return pools[token0_][token1_][index];
+        // 返回指定索引的池地址，索引超出范围时返回零地址，由调用方报告 PoolNotFound
+        address[] storage tokenPools = pools[token0_][token1_];
+        return index < tokenPools.length ? tokenPools[index] : address(0);
     }
 
     /**
@@ -68,7 +98,7 @@ contract Factory is IFactory {
         uint24 fee
     ) external override returns (address pool) {
         // 步骤1: 验证代币地址有效性
-        require(token0 != token1, 'Identical addresses');
+        if (token0 == token1) revert IdenticalAddresses(token0);
 
         // 步骤2: 对代币地址进行规范化排序，确保统一的查询顺序
         (address token0_, address token1_) = sortTokens(token0, token1);
@@ -107,8 +137,9 @@ contract Factory is IFactory {
         // Pool 的 constructor 会从 parameters 中读取配置参数
         pool = address(new Pool{salt: salt}());
 
-        // 步骤8: 将新创建的池地址添加到池列表中
+        // 步骤8: 将新创建的池地址添加到代币对的池列表与全局列表中
         pools[token0_][token1_].push(pool);
+        allPools.push(PoolEntry({pool: pool, index: uint32(tokenPools.length - 1)}));
 
         // 步骤9: 清空临时存储的参数，节省 gas
         delete parameters;
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import './interfaces/IMulticall.sol';
+import './PeripheryPayments.sol';
+
+/**
+ * @title Multicall
+ * @dev 通过 delegatecall 调用自身，msg.sender 与 msg.value 在每个子调用中保持不变；
+ *      子调用末尾的 ETH 退款推迟到整个 multicall 结束，使多个 payable 子调用可以共用随交易发送的 ETH
+ */
+abstract contract Multicall is PeripheryPayments, IMulticall {
+    /**
+     * @notice 依次执行 data 中的调用并返回各自的返回数据
+     * @dev 任一子调用失败时原样冒泡其 revert 数据；随交易发送 ETH 时所有子调用都必须是 payable 的
+     * @param data 对本合约函数的 ABI 编码调用
+     * @return results 与 data 一一对应的返回数据
+     */
+    function multicall(bytes[] calldata data) external payable override returns (bytes[] memory results) {
+        // 嵌套的 multicall 由最外层统一退款
+        bool outermost = !refundDeferred;
+        refundDeferred = true;
+
+        results = new bytes[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            (bool success, bytes memory result) = address(this).delegatecall(data[i]);
+            if (!success) {
+                assembly {
+                    revert(add(result, 0x20), mload(result))
+                }
+            }
+            results[i] = result;
+        }
+
+        if (outermost) {
+            refundDeferred = false;
+            refundETH();
+        }
+    }
+}
@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+
+import './interfaces/IPeripheryPayments.sol';
+import './interfaces/IWETH9.sol';
+
+/**
+ * @title PeripheryPayments
+ * @dev SwapRouter / PositionManager 共用的支付逻辑：
+ *      - 调用者随交易发送的 ETH 在回调中包装为 WETH9 支付给池子
+ *      - 需要时将收到的 WETH9 解包为 ETH 转给接收者
+ *      - 交易结束时退还未用完的 ETH
+ */
+abstract contract PeripheryPayments is IPeripheryPayments {
+    address public immutable override WETH9;
+
+    // multicall 执行期间为 true，此时子调用不退款，由 multicall 在结束时统一退还
+    bool internal transient refundDeferred;
+
+    constructor(address WETH9_) {
+        WETH9 = WETH9_;
+    }
+
+    // 只接收 WETH9 解包时转回的 ETH，用户的 ETH 必须随 payable 函数调用发送
+    receive() external payable {
+        if (msg.sender != WETH9) revert NotWETH9(msg.sender);
+    }
+
+    /**
+     * @notice 从 payer 向 recipient 支付代币
+     * @dev token 为 WETH9 且合约持有足够的 ETH 时，直接包装调用者发送的 ETH 支付；
+     *      payer 为本合约时（多跳的中间代币、collect 到本合约的代币）直接转账，否则使用 payer 的授权额度
+     */
+    function pay(address token, address payer, address recipient, uint256 value) internal {
+        if (token == WETH9 && payer != address(this) && address(this).balance >= value) {
+            IWETH9(WETH9).deposit{value: value}();
+            IWETH9(WETH9).transfer(recipient, value);
+        } else if (payer == address(this)) {
+            IERC20(token).transfer(recipient, value);
+        } else {
+            IERC20(token).transferFrom(payer, recipient, value);
+        }
+    }
+
+    /**
+     * @notice 将本合约持有的 amount 个 WETH9 解包，并把 ETH 转给 recipient
+     */
+    function unwrapWETH9(uint256 amount, address recipient) internal {
+        if (amount > 0) {
+            IWETH9(WETH9).withdraw(amount);
+            sendETH(recipient, amount);
+        }
+    }
+
+    /**
+     * @notice 把本合约剩余的 ETH 全部退还给 msg.sender
+     * @dev 在 payable 入口的末尾调用，调用者多发送的 ETH（例如精确输出交易的上限与实际输入之差）在同一交易内返还
+     */
+    function refundETH() internal {
+        if (!refundDeferred && address(this).balance > 0) {
+            sendETH(msg.sender, address(this).balance);
+        }
+    }
+
+    function sendETH(address recipient, uint256 amount) private {
+        (bool success, ) = recipient.call{value: amount}('');
+        if (!success) revert ETHTransferFailed(recipient, amount);
+    }
+}
@@ -16,6 +16,7 @@ import '@uniswap/v3-core/contracts/libraries/SqrtPriceMath.sol';
 import '@uniswap/v3-core/contracts/libraries/TransferHelper.sol';
 import '@uniswap/v3-core/contracts/libraries/FixedPoint128.sol';
 import '../lib/LiquidityMath.sol';
+import '../lib/Oracle.sol';
 // 导入自定义的IPool接口
 import './interfaces/IPool.sol';
 // 导入自定义的IFactory接口
@@ -27,6 +28,7 @@ import 'hardhat/console.sol';
 contract Pool is IPool {
     // 使用SafeCast库进行uint256类型的安全转换
     using SafeCast for uint256;
+    using Oracle for Oracle.Observation[65535];
 
     // 工厂合约地址，不可变
     address public immutable override factory;
@@ -52,6 +54,18 @@ contract Pool is IPool {
     // 当前的tick
     int24 public override tick;
 
+    // 协议手续费比例：低4位对应token0，高4位对应token1，与价格、tick 共用一个存储槽
+    uint8 public override feeProtocol;
+
+    // 最新一条观测在环形缓冲区中的索引
+    uint16 public override observationIndex;
+
+    // 环形缓冲区当前使用的长度
+    uint16 public override observationCardinality;
+
+    // 当前长度写满后扩展到的长度
+    uint16 public override observationCardinalityNext;
+
     // 当前的流动性数量
     uint128 public override liquidity;
 
@@ -61,6 +75,20 @@ contract Pool is IPool {
     // 全局手续费增长1（以128位小数表示）
     uint256 public override feeGrowthGlobal1X128;
 
+    // 累计未提取的协议手续费
+    struct ProtocolFees {
+        uint128 token0;
+        uint128 token1;
+    }
+
+    ProtocolFees public override protocolFees;
+
+    // tick 累计值的观测环形缓冲区
+    Oracle.Observation[65535] public override observations;
+
+    // 重入锁，只在当前交易内有效
+    bool private transient locked;
+
     /**
      * @title Position
      * @notice 表示流动性提供者在某个价格区间内的头寸信息
@@ -122,19 +150,74 @@ contract Pool is IPool {
         (factory, token0, token1, tickLower, tickUpper, fee) = IFactory(msg.sender).parameters();
     }
 
+    /**
+     * @dev 只允许工厂的 owner 调用
+     */
+    modifier onlyFactoryOwner() {
+        if (msg.sender != IFactory(factory).owner()) revert NotFactoryOwner(msg.sender);
+        _;
+    }
+
+    /**
+     * @dev 禁止在回调中重入池子。mint / swap / flash 以回调前后的余额差校验支付，
+     *      重入的 mint 或 swap 转入的代币会被同时计为外层调用的支付
+     */
+    modifier lock() {
+        if (locked) revert Locked();
+        locked = true;
+        _;
+        locked = false;
+    }
+
     /**
      * @dev 初始化流动性池，设置初始价格
      * @param _sqrtPriceX96 初始价格的平方根，乘以2^96的定点数表示
      */
     function initialize(uint160 _sqrtPriceX96) external override {
         // 检查池是否已经初始化
-        require(sqrtPriceX96 == 0, 'Pool: already initialized');
+        if (sqrtPriceX96 != 0) revert AlreadyInitialized(sqrtPriceX96);
         // 计算初始tick值
         tick = TickMath.getTickAtSqrtRatio(_sqrtPriceX96);
         // 确保初始tick在有效范围内
-        require(tick >= tickLower && tick < tickUpper, 'Pool: initial tick out of range');
+        if (tick < tickLower || tick >= tickUpper) revert InitialTickOutOfRange(tick, tickLower, tickUpper);
         // 设置池的当前价格
         sqrtPriceX96 = _sqrtPriceX96;
+        // 写入预言机的第一条观测
+        (observationCardinality, observationCardinalityNext) = observations.initialize(_blockTimestamp());
+    }
+
+    /**
+     * @dev 截断为 uint32 的区块时间戳，预言机按此记录观测
+     */
+    function _blockTimestamp() private view returns (uint32) {
+        return uint32(block.timestamp);
+    }
+
+    /**
+     * @notice 返回每个 secondsAgo 秒前的 tick 累计值
+     * @param secondsAgos 距当前区块时间的秒数，0 表示当前
+     * @return tickCumulatives 与 secondsAgos 一一对应的 tick 累计值
+     */
+    function observe(uint32[] calldata secondsAgos) external view override returns (int56[] memory tickCumulatives) {
+        return
+            observations.observe(_blockTimestamp(), secondsAgos, tick, observationIndex, observationCardinality);
+    }
+
+    /**
+     * @notice 增加预言机环形缓冲区的目标长度
+     * @dev 新增的存储槽在此预先写入，由调用者支付 gas
+     * @param _observationCardinalityNext 期望保留的观测数量
+     */
+    function increaseObservationCardinalityNext(uint16 _observationCardinalityNext) external override {
+        uint16 observationCardinalityNextOld = observationCardinalityNext;
+        uint16 observationCardinalityNextNew = observations.grow(
+            observationCardinalityNextOld,
+            _observationCardinalityNext
+        );
+        observationCardinalityNext = observationCardinalityNextNew;
+        if (observationCardinalityNextOld != observationCardinalityNextNew) {
+            emit IncreaseObservationCardinalityNext(observationCardinalityNextOld, observationCardinalityNextNew);
+        }
     }
 
     /**
@@ -234,7 +317,7 @@ contract Pool is IPool {
             abi.encodeWithSelector(IERC20.balanceOf.selector, address(this))
         );
         // 检查调用是否成功且返回数据长度正确
-        require(success && data.length >= 32, 'Pool: token0 balance query failed');
+        if (!success || data.length < 32) revert BalanceQueryFailed(token0);
         // 解码返回的余额数据
         return abi.decode(data, (uint256));
     }
@@ -250,11 +333,25 @@ contract Pool is IPool {
             abi.encodeWithSelector(IERC20.balanceOf.selector, address(this))
         );
         // 检查调用是否成功且返回数据长度正确
-        require(success && data.length >= 32, 'Pool: token1 balance query failed');
+        if (!success || data.length < 32) revert BalanceQueryFailed(token1);
         // 解码返回的余额数据
         return abi.decode(data, (uint256));
     }
 
+    /**
+     * @dev 校验回调后池子收到的代币不少于应付数量
+     * @param token 被校验的代币
+     * @param expected 应付数量
+     * @param balanceBefore 回调前的余额
+     * @param balanceAfter 回调后的余额
+     */
+    function checkPayment(address token, uint256 expected, uint256 balanceBefore, uint256 balanceAfter) private pure {
+        if (balanceAfter < balanceBefore + expected) {
+            uint256 received = balanceAfter > balanceBefore ? balanceAfter - balanceBefore : 0;
+            revert InsufficientPayment(token, expected, received);
+        }
+    }
+
     /**
      * @notice 向流动性池中添加流动性
      * @dev 调用者需实现 IMintCallback 回调以转入所需的 token0 和 token1
@@ -268,9 +365,9 @@ contract Pool is IPool {
         address recipient,
         uint128 amount,
         bytes calldata data
-    ) external override returns (uint256 amount0, uint256 amount1) {
+    ) external override lock returns (uint256 amount0, uint256 amount1) {
         // 验证输入：流动性必须大于 0
-        require(amount > 0, 'Pool: amount must be greater than zero');
+        if (amount == 0) revert ZeroAmount();
 
         // 步骤1: 调整持仓并计算需要的 token0 与 token1 数量
         // _modifyPosition 会根据当前价格和 tick 范围计算出 amount0 和 amount1（可为负）
@@ -297,10 +394,10 @@ contract Pool is IPool {
 
         // 步骤5: 回调后校验实际转账数量是否满足要求，防止回调方少转或作恶
         if (amount0 > 0) {
-            require(balance0() >= balance0Before + amount0, 'Pool: insufficient token0 amount');
+            checkPayment(token0, amount0, balance0Before, balance0());
         }
         if (amount1 > 0) {
-            require(balance1() >= balance1Before + amount1, 'Pool: insufficient token1 amount');
+            checkPayment(token1, amount1, balance1Before, balance1());
         }
 
         // 步骤6: 发出 Mint 事件
@@ -320,7 +417,7 @@ contract Pool is IPool {
         address recipient,
         uint128 amount0Requested,
         uint128 amount1Requested
-    ) external override returns (uint128 amount0, uint128 amount1) {
+    ) external override lock returns (uint128 amount0, uint128 amount1) {
         // 步骤1: 获取调用者的持仓信息
         Position storage position = positions[msg.sender];
 
@@ -349,10 +446,11 @@ contract Pool is IPool {
      * @return amount0 结算得到的 token0 数量
      * @return amount1 结算得到的 token1 数量
      */
-    function burn(uint128 amount) external override returns (uint256 amount0, uint256 amount1) {
+    function burn(uint128 amount) external override lock returns (uint256 amount0, uint256 amount1) {
         // 验证输入
-        require(amount > 0, 'Pool: amount must be greater than zero');
-        require(positions[msg.sender].liquidity >= amount, 'Pool: insufficient liquidity to burn');
+        if (amount == 0) revert ZeroAmount();
+        uint128 positionLiquidity = positions[msg.sender].liquidity;
+        if (positionLiquidity < amount) revert InsufficientLiquidity(positionLiquidity, amount);
 
         // 步骤1: 调整持仓以移除流动性，_modifyPosition 返回移除对应的 token 变化（有符号）
         (int256 amount0Int, int256 amount1Int) = _modifyPosition(
@@ -375,6 +473,53 @@ contract Pool is IPool {
         emit Burn(msg.sender, amount, amount0, amount1);
     }
 
+    /**
+     * @notice 设置协议手续费比例
+     * @dev 与 Uniswap V3 相同，比例 N 表示协议收取手续费的 1/N，0 表示关闭
+     * @param feeProtocol0 token0 手续费的协议比例，0 或 4~10
+     * @param feeProtocol1 token1 手续费的协议比例，0 或 4~10
+     */
+    function setFeeProtocol(uint8 feeProtocol0, uint8 feeProtocol1) external override onlyFactoryOwner {
+        if (
+            (feeProtocol0 != 0 && (feeProtocol0 < 4 || feeProtocol0 > 10)) ||
+            (feeProtocol1 != 0 && (feeProtocol1 < 4 || feeProtocol1 > 10))
+        ) {
+            revert InvalidFeeProtocol(feeProtocol0, feeProtocol1);
+        }
+        uint8 feeProtocolOld = feeProtocol;
+        feeProtocol = feeProtocol0 + (feeProtocol1 << 4);
+        emit SetFeeProtocol(feeProtocolOld % 16, feeProtocolOld >> 4, feeProtocol0, feeProtocol1);
+    }
+
+    /**
+     * @notice 提取累计的协议手续费
+     * @dev 提取的数量不会超过当前累计值
+     * @param recipient 接收地址
+     * @param amount0Requested 请求提取的 token0 数量
+     * @param amount1Requested 请求提取的 token1 数量
+     * @return amount0 实际提取的 token0 数量
+     * @return amount1 实际提取的 token1 数量
+     */
+    function collectProtocol(
+        address recipient,
+        uint128 amount0Requested,
+        uint128 amount1Requested
+    ) external override lock onlyFactoryOwner returns (uint128 amount0, uint128 amount1) {
+        amount0 = amount0Requested > protocolFees.token0 ? protocolFees.token0 : amount0Requested;
+        amount1 = amount1Requested > protocolFees.token1 ? protocolFees.token1 : amount1Requested;
+
+        if (amount0 > 0) {
+            protocolFees.token0 -= amount0;
+            TransferHelper.safeTransfer(token0, recipient, amount0);
+        }
+        if (amount1 > 0) {
+            protocolFees.token1 -= amount1;
+            TransferHelper.safeTransfer(token1, recipient, amount1);
+        }
+
+        emit CollectProtocol(msg.sender, recipient, amount0, amount1);
+    }
+
     struct SwapState {
         int256 amountSpecifiedRemaining;
         int256 amountCalculated;
@@ -387,7 +532,8 @@ contract Pool is IPool {
 
     /**
      * @notice 在池中进行代币兑换
-     * @dev 支持精确输入或精确输出的兑换，调用者需实现 ISwapCallback 回调
+     * @dev 支持精确输入或精确输出的兑换，调用者需实现 ISwapCallback 回调；
+     *      两种方式都按输入代币收取手续费，精确输出时返回的输入数量已包含手续费
      * @param recipient 兑换得到代币的接收地址
      * @param zeroForOne true 表示 token0 换 token1，false 表示 token1 换 token0
      * @param amountSpecified 兑换的数量（正数为输入，负数为输出）
@@ -402,15 +548,16 @@ contract Pool is IPool {
         int256 amountSpecified,
         uint160 sqrtPriceLimitX96,
         bytes calldata data
-    ) external override returns (int256 amount0, int256 amount1) {
+    ) external override lock returns (int256 amount0, int256 amount1) {
         // 输入校验：amountSpecified 必须非 0，并且 sqrtPriceLimitX96 在合法范围内
-        require(amountSpecified != 0, 'Pool: amount must be greater than zero');
-        require(
+        if (amountSpecified == 0) revert ZeroAmount();
+        if (
             zeroForOne
-                ? sqrtPriceLimitX96 < sqrtPriceX96 && sqrtPriceLimitX96 > TickMath.MIN_SQRT_RATIO
-                : sqrtPriceLimitX96 > sqrtPriceX96 && sqrtPriceLimitX96 < TickMath.MAX_SQRT_RATIO,
-            'Pool: invalid sqrtPriceLimitX96'
-        );
+                ? sqrtPriceLimitX96 >= sqrtPriceX96 || sqrtPriceLimitX96 <= TickMath.MIN_SQRT_RATIO
+                : sqrtPriceLimitX96 <= sqrtPriceX96 || sqrtPriceLimitX96 >= TickMath.MAX_SQRT_RATIO
+        ) {
+            revert InvalidSqrtPriceLimit(sqrtPriceLimitX96, sqrtPriceX96);
+        }
 
         // 步骤1: 判断是精确输入（exactInput）还是精确输出
         bool exactInput = amountSpecified > 0;
@@ -444,11 +591,32 @@ contract Pool is IPool {
         );
 
         // 步骤5: 使用计算得到的新价格更新池的价格与 tick
+        // tick 变化时先以旧 tick 写入一条观测，记录截至本区块的 tick 累计值
         sqrtPriceX96 = state.sqrtPriceX96;
-        tick = TickMath.getTickAtSqrtRatio(state.sqrtPriceX96);
+        int24 tickNew = TickMath.getTickAtSqrtRatio(state.sqrtPriceX96);
+        if (tickNew != tick) {
+            (observationIndex, observationCardinality) = observations.write(
+                observationIndex,
+                _blockTimestamp(),
+                tick,
+                observationCardinality,
+                observationCardinalityNext
+            );
+            tick = tickNew;
+        }
 
-        // 步骤6: 更新手续费全局累积量
-        state.feeGrowthGlobalX128 += FullMath.mulDiv(state.feeAmount, FixedPoint128.Q128, liquidity);
+        // 步骤6: 协议按比例抽取输入代币的手续费，剩余部分计入 LP 的手续费全局累积量
+        uint8 feeProtocolIn = zeroForOne ? feeProtocol % 16 : feeProtocol >> 4;
+        uint256 protocolFee;
+        if (feeProtocolIn > 0) {
+            protocolFee = state.feeAmount / feeProtocolIn;
+            if (zeroForOne) {
+                protocolFees.token0 += uint128(protocolFee);
+            } else {
+                protocolFees.token1 += uint128(protocolFee);
+            }
+        }
+        state.feeGrowthGlobalX128 += FullMath.mulDiv(state.feeAmount - protocolFee, FixedPoint128.Q128, liquidity);
 
         if (zeroForOne) {
             feeGrowthGlobal0X128 = state.feeGrowthGlobalX128;
@@ -462,7 +630,8 @@ contract Pool is IPool {
             state.amountCalculated = state.amountCalculated - state.amountOut.toInt256();
         } else {
             state.amountSpecifiedRemaining += state.amountOut.toInt256();
-            state.amountCalculated = state.amountCalculated + state.amountIn.toInt256();
+            // 精确输出时调用方需支付的输入包含手续费，否则计入 feeGrowth 的手续费无资金支撑
+            state.amountCalculated = state.amountCalculated + (state.amountIn + state.feeAmount).toInt256();
         }
 
         // 步骤8: 组合最终返回值：amount0, amount1（表示本次 swap 中输入/输出的量）
@@ -474,7 +643,7 @@ contract Pool is IPool {
         if (zeroForOne) {
             uint256 balance0Before = balance0();
             ISwapCallback(msg.sender).swapCallback(amount0, amount1, data);
-            require(balance0Before + (uint256(amount0)) <= balance0(), 'Pool: insufficient token0 amount');
+            checkPayment(token0, uint256(amount0), balance0Before, balance0());
             // 如果本次 swap 需要向接收方转出 token1（amount1 < 0），则执行转出
             if (amount1 < 0) {
                 TransferHelper.safeTransfer(token1, recipient, uint256(-amount1));
@@ -482,7 +651,7 @@ contract Pool is IPool {
         } else {
             uint256 balance1Before = balance1();
             ISwapCallback(msg.sender).swapCallback(amount0, amount1, data);
-            require(balance1Before + uint256(amount1) <= balance1(), 'Pool: insufficient token1 amount');
+            checkPayment(token1, uint256(amount1), balance1Before, balance1());
             if (amount0 < 0) {
                 TransferHelper.safeTransfer(token0, recipient, uint256(-amount0));
             }
@@ -491,4 +660,64 @@ contract Pool is IPool {
         // 步骤10: 发出 Swap 事件以记录本次交易的结果
         emit Swap(msg.sender, recipient, amount0, amount1, sqrtPriceX96, liquidity, tick);
     }
+
+    /**
+     * @notice 从池中借出代币，在回调中归还并支付手续费
+     * @dev 调用者需实现 IFlashCallback 回调。手续费按 swap 的费率对借出数量向上取整，
+     *      多付的部分一并视为手续费；协议按比例抽取后，剩余部分计入 LP 的手续费全局累积量
+     * @param recipient 借出代币的接收地址
+     * @param amount0 借出的 token0 数量
+     * @param amount1 借出的 token1 数量
+     * @param data 回调参数
+     */
+    function flash(
+        address recipient,
+        uint256 amount0,
+        uint256 amount1,
+        bytes calldata data
+    ) external override lock {
+        // 手续费按流动性分配，没有流动性时无法计入 feeGrowth
+        uint128 _liquidity = liquidity;
+        if (_liquidity == 0) revert ZeroLiquidity();
+
+        // 步骤1: 计算手续费并快照余额
+        uint256 fee0 = FullMath.mulDivRoundingUp(amount0, fee, 1e6);
+        uint256 fee1 = FullMath.mulDivRoundingUp(amount1, fee, 1e6);
+        uint256 balance0Before = balance0();
+        uint256 balance1Before = balance1();
+
+        // 步骤2: 转出借出的代币并触发回调
+        if (amount0 > 0) {
+            TransferHelper.safeTransfer(token0, recipient, amount0);
+        }
+        if (amount1 > 0) {
+            TransferHelper.safeTransfer(token1, recipient, amount1);
+        }
+        IFlashCallback(msg.sender).flashCallback(fee0, fee1, data);
+
+        // 步骤3: 回调后余额不少于借出前的余额加手续费
+        uint256 balance0After = balance0();
+        uint256 balance1After = balance1();
+        checkPayment(token0, fee0, balance0Before, balance0After);
+        checkPayment(token1, fee1, balance1Before, balance1After);
+
+        // 步骤4: 与 swap 相同，协议按比例抽取实际支付的手续费，剩余部分计入 LP 的手续费全局累积量
+        uint256 paid0 = balance0After - balance0Before;
+        uint256 paid1 = balance1After - balance1Before;
+        if (paid0 > 0) {
+            uint8 feeProtocol0 = feeProtocol % 16;
+            uint256 protocolFee0 = feeProtocol0 == 0 ? 0 : paid0 / feeProtocol0;
+            if (protocolFee0 > 0) protocolFees.token0 += uint128(protocolFee0);
+            feeGrowthGlobal0X128 += FullMath.mulDiv(paid0 - protocolFee0, FixedPoint128.Q128, _liquidity);
+        }
+        if (paid1 > 0) {
+            uint8 feeProtocol1 = feeProtocol >> 4;
+            uint256 protocolFee1 = feeProtocol1 == 0 ? 0 : paid1 / feeProtocol1;
+            if (protocolFee1 > 0) protocolFees.token1 += uint128(protocolFee1);
+            feeGrowthGlobal1X128 += FullMath.mulDiv(paid1 - protocolFee1, FixedPoint128.Q128, _liquidity);
+        }
+
+        // 步骤5: 发出 Flash 事件
+        emit Flash(msg.sender, recipient, amount0, amount1, paid0, paid1);
+    }
 }
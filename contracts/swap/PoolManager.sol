@@ -2,6 +2,7 @@
 pragma solidity ^0.8.28;
 pragma abicoder v2;
 
+import '../lib/Pagination.sol';
 import './interfaces/IPoolManager.sol';
 import './interfaces/IPool.sol';
 import './Factory.sol';
@@ -45,20 +46,7 @@ contract PoolManager is IPoolManager, Factory {
             address[] memory addressList = pools[pairs[i].token0][pairs[i].token1];
             // 步骤2.1: 遍历该列表并读取每个池的详细信息
             for (uint32 j = 0; j < addressList.length; j++) {
-                IPool pool = IPool(addressList[j]);
-                poolInfos[index] = PoolInfo({
-                    token0: pairs[i].token0,
-                    token1: pairs[i].token1,
-                    pool: addressList[j],
-                    fee: pool.fee(),
-                    feeProtocol: 0,
-                    tickLower: pool.tickLower(),
-                    tickUpper: pool.tickUpper(),
-                    tick: pool.tick(),
-                    sqrtPriceX96: pool.sqrtPriceX96(),
-                    liquidity: pool.liquidity(),
-                    index: j
-                });
+                poolInfos[index] = _poolInfo(addressList[j], pairs[i].token0, pairs[i].token1, j);
                 index++;
             }
         }
@@ -67,6 +55,47 @@ contract PoolManager is IPoolManager, Factory {
         return poolInfos;
     }
 
+    /**
+     * @notice 按创建顺序分页返回池子信息，与 getAllPools 不同，每次调用的开销只与 limit 有关
+     * @dev 包含直接通过 Factory.createPool 创建、尚未初始化的池子（sqrtPriceX96 为 0）
+     * @param offset 起始位置，超出池子总数时返回空数组
+     * @param limit 最多返回的池子个数
+     */
+    function getPools(uint256 offset, uint256 limit) external view override returns (PoolInfo[] memory poolInfos) {
+        poolInfos = new PoolInfo[](Pagination.pageSize(allPools.length, offset, limit));
+        for (uint256 i = 0; i < poolInfos.length; i++) {
+            PoolEntry storage entry = allPools[offset + i];
+            IPool pool = IPool(entry.pool);
+            poolInfos[i] = _poolInfo(entry.pool, pool.token0(), pool.token1(), entry.index);
+        }
+    }
+
+    /**
+     * @dev 读取池子的配置与当前状态
+     */
+    function _poolInfo(
+        address _pool,
+        address token0,
+        address token1,
+        uint32 index
+    ) private view returns (PoolInfo memory) {
+        IPool pool = IPool(_pool);
+        return
+            PoolInfo({
+                token0: token0,
+                token1: token1,
+                pool: _pool,
+                fee: pool.fee(),
+                feeProtocol: pool.feeProtocol(),
+                tickLower: pool.tickLower(),
+                tickUpper: pool.tickUpper(),
+                tick: pool.tick(),
+                sqrtPriceX96: pool.sqrtPriceX96(),
+                liquidity: pool.liquidity(),
+                index: index
+            });
+    }
+
     /**
      * @notice 如果指定配置的池不存在则创建并（可选）初始化
      * @dev 要求 params.token0 < params.token1（调用方需预先排序），调用 Factory.createPool 创建或返回池。
@@ -76,7 +105,7 @@ contract PoolManager is IPoolManager, Factory {
      */
     function createPoolIfNecessary(CreatePoolParams calldata params) external override returns (address _pool) {
         // 步骤1: 验证 token 顺序（这里要求调用方传入已排序的 token0 < token1）
-        require(params.token0 < params.token1, 'Token0 must be less than token1');
+        if (params.token0 >= params.token1) revert TokensNotSorted(params.token0, params.token1);
         // 步骤2: 委托 Factory.createPool 来创建或获取具有相同配置的池
         _pool = this.createPool(params.token0, params.token1, params.tickLower, params.tickUpper, params.fee);
         IPool pool = IPool(_pool);
@@ -0,0 +1,284 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import '@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol';
+import '@openzeppelin/contracts/utils/Base64.sol';
+import '@openzeppelin/contracts/utils/Strings.sol';
+import '@openzeppelin/contracts/utils/math/Math.sol';
+import '@uniswap/v3-core/contracts/libraries/FullMath.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import '../lib/PositionSVG.sol';
+import './interfaces/IPositionDescriptor.sol';
+import './interfaces/IPool.sol';
+
+/**
+ * @title PositionDescriptor
+ * @notice 生成头寸 NFT 的 tokenURI：JSON 元数据与 SVG 图片都直接在链上生成
+ * @dev 价格均为 1 个 token0 可兑换的 token1 数量（已按两者的 decimals 换算），保留 5 位有效数字
+ */
+contract PositionDescriptor is IPositionDescriptor {
+    uint256 private constant SIGNIFICANT_DIGITS = 5;
+    // decimals 超过该值的代币按 18 处理，避免价格换算溢出
+    uint8 private constant MAX_DECIMALS = 36;
+
+    // 头寸及所在池子的展示信息，symbol 未转义
+    struct Metadata {
+        string symbol0;
+        string symbol1;
+        string feeTier;
+        string priceLower;
+        string priceUpper;
+        string priceCurrent;
+        bool inRange;
+        uint256 rangePosition;
+    }
+
+    /**
+     * @inheritdoc IPositionDescriptor
+     */
+    function tokenURI(
+        IPositionManager.PositionInfo calldata position,
+        address pool
+    ) external view override returns (string memory) {
+        Metadata memory metadata = _metadata(position, pool);
+        string memory image = PositionSVG.generate(
+            PositionSVG.Params({
+                tokenId: position.id,
+                symbol0: _escapeXml(metadata.symbol0),
+                symbol1: _escapeXml(metadata.symbol1),
+                feeTier: metadata.feeTier,
+                index: position.index,
+                priceLower: metadata.priceLower,
+                priceUpper: metadata.priceUpper,
+                priceCurrent: metadata.priceCurrent,
+                inRange: metadata.inRange,
+                liquidity: position.liquidity,
+                rangePosition: metadata.rangePosition,
+                hue0: uint256(uint160(position.token0)) % 360,
+                hue1: uint256(uint160(position.token1)) % 360
+            })
+        );
+        return
+            string.concat(
+                'data:application/json;base64,',
+                Base64.encode(
+                    bytes(
+                        string.concat(
+                            '{"name":"',
+                            _name(metadata),
+                            '","description":"',
+                            _description(position, pool, metadata),
+                            '","image":"data:image/svg+xml;base64,',
+                            Base64.encode(bytes(image)),
+                            '","attributes":',
+                            _attributes(position, metadata),
+                            '}'
+                        )
+                    )
+                )
+            );
+    }
+
+    function _metadata(
+        IPositionManager.PositionInfo calldata position,
+        address pool
+    ) private view returns (Metadata memory metadata) {
+        metadata.symbol0 = _symbol(position.token0);
+        metadata.symbol1 = _symbol(position.token1);
+        metadata.feeTier = string.concat(_decimalString(position.fee, 4), '%');
+
+        uint8 decimals0 = _decimals(position.token0);
+        uint8 decimals1 = _decimals(position.token1);
+        metadata.priceLower = _formatPrice(
+            _price(TickMath.getSqrtRatioAtTick(position.tickLower), decimals0, decimals1)
+        );
+        metadata.priceUpper = _formatPrice(
+            _price(TickMath.getSqrtRatioAtTick(position.tickUpper), decimals0, decimals1)
+        );
+        metadata.priceCurrent = _formatPrice(_price(IPool(pool).sqrtPriceX96(), decimals0, decimals1));
+
+        // 与 Pool 的规则一致：tickLower <= tick < tickUpper 时头寸的流动性处于激活状态
+        int24 tick = IPool(pool).tick();
+        metadata.inRange = position.tickLower <= tick && tick < position.tickUpper;
+        if (tick >= position.tickUpper) {
+            metadata.rangePosition = 10000;
+        } else if (tick > position.tickLower) {
+            metadata.rangePosition =
+                (uint256(int256(tick - position.tickLower)) * 10000) /
+                uint256(int256(position.tickUpper - position.tickLower));
+        }
+    }
+
+    function _name(Metadata memory metadata) private pure returns (string memory) {
+        return
+            string.concat(
+                'JSwap V1 - ',
+                metadata.feeTier,
+                ' - ',
+                Strings.escapeJSON(metadata.symbol0),
+                '/',
+                Strings.escapeJSON(metadata.symbol1),
+                ' - ',
+                metadata.priceLower,
+                '<>',
+                metadata.priceUpper
+            );
+    }
+
+    function _description(
+        IPositionManager.PositionInfo calldata position,
+        address pool,
+        Metadata memory metadata
+    ) private pure returns (string memory) {
+        string memory symbol0 = Strings.escapeJSON(metadata.symbol0);
+        string memory symbol1 = Strings.escapeJSON(metadata.symbol1);
+        return
+            string.concat(
+                string.concat(
+                    'This NFT represents a liquidity position in a JSwap V1 ',
+                    symbol0,
+                    '-',
+                    symbol1,
+                    ' pool. The owner of this NFT can modify or redeem the position.\\n\\nPool Address: ',
+                    Strings.toHexString(pool),
+                    '\\n',
+                    symbol0,
+                    ' Address: ',
+                    Strings.toHexString(position.token0),
+                    '\\n'
+                ),
+                symbol1,
+                ' Address: ',
+                Strings.toHexString(position.token1),
+                '\\nFee Tier: ',
+                metadata.feeTier,
+                '\\nToken ID: ',
+                Strings.toString(position.id)
+            );
+    }
+
+    /**
+     * @dev liquidity 可能超过 JavaScript 的安全整数范围，以字符串形式给出
+     */
+    function _attributes(
+        IPositionManager.PositionInfo calldata position,
+        Metadata memory metadata
+    ) private pure returns (string memory) {
+        return
+            string.concat(
+                string.concat(
+                    '[{"trait_type":"Token0","value":"',
+                    Strings.escapeJSON(metadata.symbol0),
+                    '"},{"trait_type":"Token1","value":"',
+                    Strings.escapeJSON(metadata.symbol1),
+                    '"},{"trait_type":"Fee Tier","value":"',
+                    metadata.feeTier,
+                    '"},{"trait_type":"Pool Index","value":',
+                    Strings.toString(position.index),
+                    '},{"trait_type":"Min Price","value":"',
+                    metadata.priceLower,
+                    '"},{"trait_type":"Max Price","value":"',
+                    metadata.priceUpper
+                ),
+                '"},{"trait_type":"Current Price","value":"',
+                metadata.priceCurrent,
+                '"},{"trait_type":"In Range","value":"',
+                metadata.inRange ? 'Yes' : 'No',
+                '"},{"trait_type":"Liquidity","value":"',
+                Strings.toString(position.liquidity),
+                '"}]'
+            );
+    }
+
+    /**
+     * @dev symbol() 调用 revert 时（例如未实现该函数），使用地址的前 3 个字节
+     */
+    function _symbol(address token) private view returns (string memory) {
+        try IERC20Metadata(token).symbol() returns (string memory symbol) {
+            return symbol;
+        } catch {
+            return Strings.toHexString(uint160(token) >> 136, 3);
+        }
+    }
+
+    function _decimals(address token) private view returns (uint8) {
+        try IERC20Metadata(token).decimals() returns (uint8 decimals) {
+            return decimals <= MAX_DECIMALS ? decimals : 18;
+        } catch {
+            return 18;
+        }
+    }
+
+    /**
+     * @dev 以 18 位小数的定点数返回 1 个 token0 可兑换的 token1 数量
+     */
+    function _price(uint160 sqrtPriceX96, uint8 decimals0, uint8 decimals1) private pure returns (uint256) {
+        uint256 ratioX128 = FullMath.mulDiv(sqrtPriceX96, sqrtPriceX96, 1 << 64);
+        if (decimals0 >= decimals1) {
+            return FullMath.mulDiv(ratioX128, 10 ** (18 + decimals0 - decimals1), 1 << 128);
+        }
+        return FullMath.mulDiv(ratioX128, 1e18, (1 << 128) * 10 ** (decimals1 - decimals0));
+    }
+
+    /**
+     * @dev 四舍五入保留 SIGNIFICANT_DIGITS 位有效数字，使 1.99999... 这类由 sqrtPriceX96 取整带来的误差显示为 2，
+     *      小于 1e-18 的价格显示为 0
+     */
+    function _formatPrice(uint256 priceX18) private pure returns (string memory) {
+        if (priceX18 > 0) {
+            uint256 digits = Math.log10(priceX18) + 1;
+            if (digits > SIGNIFICANT_DIGITS) {
+                uint256 unit = 10 ** (digits - SIGNIFICANT_DIGITS);
+                priceX18 = ((priceX18 + unit / 2) / unit) * unit;
+            }
+        }
+        return _decimalString(priceX18, 18);
+    }
+
+    /**
+     * @dev 把带 decimals 位小数的定点数格式化为十进制字符串，去掉小数部分末尾的 0
+     */
+    function _decimalString(uint256 value, uint256 decimals) private pure returns (string memory) {
+        uint256 unit = 10 ** decimals;
+        string memory integer = Strings.toString(value / unit);
+        uint256 fraction = value % unit;
+        if (fraction == 0) return integer;
+
+        while (fraction % 10 == 0) {
+            fraction /= 10;
+            decimals--;
+        }
+        bytes memory digits = bytes(Strings.toString(fraction));
+        // 小数部分左侧补 0 到应有的位数
+        bytes memory zeros = new bytes(decimals - digits.length);
+        for (uint256 i = 0; i < zeros.length; i++) {
+            zeros[i] = '0';
+        }
+        return string.concat(integer, '.', string(zeros), string(digits));
+    }
+
+    /**
+     * @dev 转义 XML 中有特殊含义的字符，symbol 由代币合约决定，不能直接写入 SVG
+     */
+    function _escapeXml(string memory input) private pure returns (string memory output) {
+        bytes memory buffer = bytes(input);
+        for (uint256 i = 0; i < buffer.length; i++) {
+            bytes1 char = buffer[i];
+            if (char == '<') {
+                output = string.concat(output, '&lt;');
+            } else if (char == '>') {
+                output = string.concat(output, '&gt;');
+            } else if (char == '&') {
+                output = string.concat(output, '&amp;');
+            } else if (char == '"') {
+                output = string.concat(output, '&quot;');
+            } else if (char == "'") {
+                output = string.concat(output, '&apos;');
+            } else {
+                output = string.concat(output, string(abi.encodePacked(char)));
+            }
+        }
+    }
+}
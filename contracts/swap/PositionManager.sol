@@ -2,15 +2,19 @@
 pragma solidity ^0.8.28;
 pragma abicoder v2;
 
-import '@openzeppelin/contracts/token/ERC721/ERC721.sol';
-import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import '@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol';
 import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
 import '@uniswap/v3-core/contracts/libraries/FixedPoint128.sol';
 
 import '../lib/LiquidityAmounts.sol';
+import '../lib/Pagination.sol';
 import './interfaces/IPositionManager.sol';
 import './interfaces/IPool.sol';
 import './interfaces/IPoolManager.sol';
+import './Multicall.sol';
+import './PeripheryPayments.sol';
+import './PositionDescriptor.sol';
+import './SelfPermit.sol';
 
 // test
 import 'hardhat/console.sol';
@@ -20,21 +24,30 @@ import 'hardhat/console.sol';
  * @dev ERC721 代币化的头寸管理器：
  *      - 为每个流动性头寸铸造 NFT（Position token）并记录头寸信息。
  *      - 与 `Pool`、`PoolManager` 交互以创建/管理/结算头寸。
+ *      - 通过 ERC721Enumerable 按持有人枚举头寸。
  */
-contract PositionManager is IPositionManager, ERC721 {
+contract PositionManager is IPositionManager, ERC721Enumerable, SelfPermit, Multicall {
     // Pool 管理合约，用于查询或创建池
     IPoolManager public poolManager;
 
+    // 生成 tokenURI 的元数据合约，由构造函数部署
+    IPositionDescriptor public immutable tokenDescriptor;
+
     // 下一个可用的 position id（从 1 开始），使用 uint176 省 gas
     uint176 private _nextId = 1;
 
     /**
      * @notice 构造函数
-     * @dev 初始化 ERC721 名称和符号以及关联的 `PoolManager` 合约地址
+     * @dev 初始化 ERC721 名称和符号以及关联的 `PoolManager` 合约地址，并部署生成 tokenURI 的 PositionDescriptor
      * @param poolManager_ PoolManager 合约地址
+     * @param WETH9_ 与系统一同部署的 WETH9 合约地址
      */
-    constructor(address poolManager_) ERC721('JSwap V1 Position', 'JSPOS') {
+    constructor(
+        address poolManager_,
+        address WETH9_
+    ) ERC721('JSwap V1 Position', 'JSPOS') PeripheryPayments(WETH9_) {
         poolManager = IPoolManager(poolManager_);
+        tokenDescriptor = new PositionDescriptor();
     }
 
     // 存储所有头寸信息：positionId => PositionInfo
@@ -59,6 +72,66 @@ contract PositionManager is IPositionManager, ERC721 {
         return result;
     }
 
+    /**
+     * @notice 已铸造的头寸总数，包含已销毁的头寸
+     */
+    function positionCount() external view override returns (uint256) {
+        return _nextId - 1;
+    }
+
+    /**
+     * @notice 按 id 升序分页返回头寸信息，顺序与 getAllPositions 一致
+     * @param offset 起始位置，第 offset 个头寸的 id 为 offset + 1
+     * @param limit 最多返回的头寸个数
+     */
+    function getPositions(
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (PositionInfo[] memory result) {
+        result = new PositionInfo[](Pagination.pageSize(_nextId - 1, offset, limit));
+        for (uint256 i = 0; i < result.length; i++) {
+            result[i] = positions[offset + i + 1];
+        }
+    }
+
+    /**
+     * @notice 分页返回 owner 当前持有的头寸，已销毁的头寸不包含在内
+     * @dev 顺序为 ERC721Enumerable 的持有顺序，转出头寸会打乱原有顺序，分页期间发生转移时可能遗漏或重复
+     * @param offset 起始位置，持有总数见 balanceOf
+     * @param limit 最多返回的头寸个数
+     */
+    function getPositionsByOwner(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (PositionInfo[] memory result) {
+        result = new PositionInfo[](Pagination.pageSize(balanceOf(owner), offset, limit));
+        for (uint256 i = 0; i < result.length; i++) {
+            result[i] = positions[tokenOfOwnerByIndex(owner, offset + i)];
+        }
+    }
+
+    /**
+     * @dev 头寸转移时同步 PositionInfo.owner，铸造时由 mint 写入，销毁时保留最后的持有人
+     */
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address from) {
+        from = super._update(to, tokenId, auth);
+        if (from != address(0) && to != address(0)) {
+            positions[tokenId].owner = to;
+        }
+    }
+
+    /**
+     * @notice 返回头寸的链上元数据：base64 编码的 JSON，其中 image 为 SVG 图片
+     * @dev 已销毁或不存在的头寸会 revert ERC721NonexistentToken
+     */
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        PositionInfo memory position = positions[tokenId];
+        address pool = poolManager.getPool(position.token0, position.token1, position.index);
+        return tokenDescriptor.tokenURI(position, pool);
+    }
+
     function getSender() public view returns (address) {
         /**
          * @notice 返回当前调用者地址（包装 msg.sender 以便于单元测试或重写）
@@ -76,7 +149,7 @@ contract PositionManager is IPositionManager, ERC721 {
     }
 
     modifier checkDeadline(uint256 deadline) {
-        require(_blockTimestamp() <= deadline, 'Transaction too old');
+        if (_blockTimestamp() > deadline) revert TransactionTooOld(deadline, _blockTimestamp());
         _;
     }
 
@@ -87,40 +160,30 @@ contract PositionManager is IPositionManager, ERC721 {
      *      2. 使用 `LiquidityAmounts.getLiquidityForAmounts` 计算在给定价格区间和期望代币输入下的流动性值
      *      3. 构造回调数据并调用 `pool.mint`（回调会要求调用者转入 token）
      *      4. 将头寸信息存入本合约并铸造对应的 NFT 给接收者
+     *      token0 或 token1 为 WETH9 时可随交易发送 ETH 支付该侧，未用完的 ETH 在最后退还
      */
     function mint(
         MintParams calldata params
     )
-        external
+        public
         payable
         override
         checkDeadline(params.deadline)
         returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1)
     {
-        // 步骤1: 获取池并读取价格边界
+        // 步骤1: 获取池
         address _pool = poolManager.getPool(params.token0, params.token1, params.index);
+        if (_pool == address(0)) revert PoolNotFound(params.token0, params.token1, params.index);
         IPool pool = IPool(_pool);
-        uint160 sqrtPriceX96 = pool.sqrtPriceX96();
-        uint160 sqrtRatioAX96 = TickMath.getSqrtRatioAtTick(pool.tickLower());
-        uint160 sqrtRatioBX96 = TickMath.getSqrtRatioAtTick(pool.tickUpper());
-        // 步骤2: 计算可提供的流动性量
-        liquidity = LiquidityAmounts.getLiquidityForAmounts(
-            sqrtPriceX96,
-            sqrtRatioAX96,
-            sqrtRatioBX96,
+        // 步骤2、3: 计算可提供的流动性量并调用池的 mint
+        (liquidity, amount0, amount1) = _addLiquidity(
+            pool,
+            params.token0,
+            params.token1,
+            params.index,
             params.amount0Desired,
             params.amount1Desired
         );
-        // 步骤3: 计算并验证所需代币数量
-        // 步骤3: 调用池的 mint 并传入 callback 数据，callback 将从 payer 转入代币
-        bytes memory data = abi.encode(msg.sender, params.token0, params.token1, params.index);
-        try pool.mint(address(this), liquidity, data) returns (uint256 _amount0, uint256 _amount1) {
-            amount0 = _amount0;
-            amount1 = _amount1;
-        } catch Error(string memory reason) {
-            console.log('Mint failed with reason: ', reason);
-            revert(reason);
-        }
         // 步骤4: 铸造代表该头寸的 ERC721 NFT，并记录头寸信息
         _mint(params.recipient, (positionId = _nextId++));
 
@@ -141,6 +204,114 @@ contract PositionManager is IPositionManager, ERC721 {
             feeGrowthInside0LastX128: feeGrowthInside0LastX128,
             feeGrowthInside1LastX128: feeGrowthInside1LastX128
         });
+
+        // 步骤5: 退还未用完的 ETH
+        refundETH();
+    }
+
+    /**
+     * @dev 按当前价格计算期望数量可提供的流动性，并以本合约的名义向池子注入
+     *      池子的 mint 回调从 msg.sender 转入代币，池子的错误原样冒泡
+     */
+    function _addLiquidity(
+        IPool pool,
+        address token0,
+        address token1,
+        uint32 index,
+        uint256 amount0Desired,
+        uint256 amount1Desired
+    ) private returns (uint128 liquidity, uint256 amount0, uint256 amount1) {
+        liquidity = LiquidityAmounts.getLiquidityForAmounts(
+            pool.sqrtPriceX96(),
+            TickMath.getSqrtRatioAtTick(pool.tickLower()),
+            TickMath.getSqrtRatioAtTick(pool.tickUpper()),
+            amount0Desired,
+            amount1Desired
+        );
+        bytes memory data = abi.encode(msg.sender, token0, token1, index);
+        (amount0, amount1) = pool.mint(address(this), liquidity, data);
+    }
+
+    /**
+     * @dev 计算头寸现有流动性自上次快照以来应得的手续费，并把快照更新为池子的最新值
+     *      必须在 pool.mint / pool.burn 之后、修改头寸流动性之前调用，此时池子中本合约的快照已是最新的全局值
+     */
+    function _accrueFees(PositionInfo storage position, IPool pool) private returns (uint128 fees0, uint128 fees1) {
+        (, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, , ) = pool.getPosition(address(this));
+        fees0 = uint128(
+            FullMath.mulDiv(
+                feeGrowthInside0LastX128 - position.feeGrowthInside0LastX128,
+                position.liquidity,
+                FixedPoint128.Q128
+            )
+        );
+        fees1 = uint128(
+            FullMath.mulDiv(
+                feeGrowthInside1LastX128 - position.feeGrowthInside1LastX128,
+                position.liquidity,
+                FixedPoint128.Q128
+            )
+        );
+        position.feeGrowthInside0LastX128 = feeGrowthInside0LastX128;
+        position.feeGrowthInside1LastX128 = feeGrowthInside1LastX128;
+    }
+
+    /**
+     * @notice 按当前价格向已有头寸追加流动性，不铸造新的 NFT
+     * @dev 头寸此前累计的手续费先按原流动性结算进 tokensOwed，再增加流动性，
+     *      因此追加的流动性只分享之后产生的手续费。与 mint 相同，WETH9 一侧可随交易发送 ETH 支付
+     */
+    function increaseLiquidity(
+        IncreaseLiquidityParams calldata params
+    )
+        external
+        payable
+        override
+        checkDeadline(params.deadline)
+        returns (uint128 liquidity, uint256 amount0, uint256 amount1)
+    {
+        // 步骤1: 头寸必须存在（NFT 未被销毁）
+        _requireOwned(params.positionId);
+        PositionInfo storage position = positions[params.positionId];
+        IPool pool = IPool(poolManager.getPool(position.token0, position.token1, position.index));
+
+        // 步骤2: 向池子注入流动性并校验实际投入不低于下限
+        (liquidity, amount0, amount1) = _addLiquidity(
+            pool,
+            position.token0,
+            position.token1,
+            position.index,
+            params.amount0Desired,
+            params.amount1Desired
+        );
+        if (amount0 < params.amount0Min || amount1 < params.amount1Min) {
+            revert PriceSlippageCheck(amount0, amount1, params.amount0Min, params.amount1Min);
+        }
+
+        // 步骤3: 结算原有流动性的手续费后再增加流动性
+        (uint128 fees0, uint128 fees1) = _accrueFees(position, pool);
+        position.tokensOwed0 += fees0;
+        position.tokensOwed1 += fees1;
+        position.liquidity += liquidity;
+        emit IncreaseLiquidity(params.positionId, liquidity, amount0, amount1);
+
+        // 步骤4: 退还未用完的 ETH
+        refundETH();
+    }
+
+    /**
+     * @notice 使用调用者签名的 permit 授权 token0 / token1 后铸造头寸，无需事先 approve
+     * @param permit0 token0 的 permit 签名，value 为 0 时沿用已有授权
+     * @param permit1 token1 的 permit 签名，value 为 0 时沿用已有授权
+     */
+    function mintWithPermit(
+        MintParams calldata params,
+        PermitParams calldata permit0,
+        PermitParams calldata permit1
+    ) external payable override returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1) {
+        _selfPermit(params.token0, permit0);
+        _selfPermit(params.token1, permit1);
+        return mint(params);
     }
 
     /**
@@ -149,63 +320,93 @@ contract PositionManager is IPositionManager, ERC721 {
      */
     modifier _isAuthorizedForToken(uint256 tokenId) {
         address owner = ERC721.ownerOf(tokenId);
-        require(_isAuthorized(owner, msg.sender, tokenId), 'Not authorized');
+        if (!_isAuthorized(owner, msg.sender, tokenId)) revert NotAuthorized(msg.sender, tokenId);
         _;
     }
 
+    /**
+     * @notice 移除头寸的部分流动性，取出的代币与结算的手续费计入 tokensOwed
+     * @dev 头寸的流动性减为 0 后 NFT 仍然保留，直到 collect 提取全部代币
+     */
+    function decreaseLiquidity(
+        DecreaseLiquidityParams calldata params
+    )
+        external
+        override
+        _isAuthorizedForToken(params.positionId)
+        checkDeadline(params.deadline)
+        returns (uint256 amount0, uint256 amount1)
+    {
+        (amount0, amount1) = _decreaseLiquidity(params.positionId, params.liquidity);
+        if (amount0 < params.amount0Min || amount1 < params.amount1Min) {
+            revert PriceSlippageCheck(amount0, amount1, params.amount0Min, params.amount1Min);
+        }
+    }
+
     /**
      * @notice 从池中移除指定头寸的全部流动性并结算应得代币
-     * @dev 主要步骤：
-     *      1. 读取头寸并获取对应池
-     *      2. 调用池的 `burn` 方法移除流动性，返回应付的 token0 和 token1
-     *      3. 读取池中最新的 feeGrowth 快照并计算自上次记录以来应补偿的手续费
-     *      4. 更新头寸的 tokensOwed 和 feeGrowth 快照，并将流动性设为 0
      */
     function burn(
         uint256 positionId
     ) external override _isAuthorizedForToken(positionId) returns (uint256 amount0, uint256 amount1) {
-        // 步骤1: 读取头寸并获取对应池
-        PositionInfo storage position = positions[positionId];
-        uint128 _liquidity = position.liquidity;
-        address _pool = poolManager.getPool(position.token0, position.token1, position.index);
-        IPool pool = IPool(_pool);
-
-        // 步骤2: 调用池的 burn，池会把应付的代币累加到 pool 内的 tokensOwed（或返回给 caller）
-        (amount0, amount1) = pool.burn(_liquidity);
+        return _decreaseLiquidity(positionId, positions[positionId].liquidity);
+    }
 
-        // 步骤3: 获取池中最新的 fee growth 快照，用于计算应补偿的手续费
-        (, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, , ) = pool.getPosition(address(this));
+    /**
+     * @dev 移除头寸的流动性并结算应得代币
+     *      1. 调用池的 `burn` 方法移除流动性，返回应付的 token0 和 token1
+     *      2. 按池子最新的 feeGrowth 快照计算移除前的流动性应得的手续费
+     *      3. 把移除的代币与手续费累加到 tokensOwed，并扣减头寸流动性
+     */
+    function _decreaseLiquidity(
+        uint256 positionId,
+        uint128 liquidity
+    ) private returns (uint256 amount0, uint256 amount1) {
+        // 步骤1: 池子中的流动性由所有头寸共享，需按单个头寸的流动性校验
+        PositionInfo storage position = positions[positionId];
+        uint128 positionLiquidity = position.liquidity;
+        if (liquidity > positionLiquidity) revert InsufficientLiquidity(positionLiquidity, liquidity);
+        IPool pool = IPool(poolManager.getPool(position.token0, position.token1, position.index));
+        (amount0, amount1) = pool.burn(liquidity);
 
-        // 步骤4: 累计应付的代币（包括 burn 直接返还的 amount 与因手续费增长产生的额外分配）
-        position.tokensOwed0 +=
-            uint128(amount0) +
-            uint128(
-                FullMath.mulDiv(
-                    feeGrowthInside0LastX128 - position.feeGrowthInside0LastX128,
-                    position.liquidity,
-                    FixedPoint128.Q128
-                )
-            );
-        position.tokensOwed1 +=
-            uint128(amount1) +
-            uint128(
-                FullMath.mulDiv(
-                    feeGrowthInside1LastX128 - position.feeGrowthInside1LastX128,
-                    position.liquidity,
-                    FixedPoint128.Q128
-                )
-            );
-
-        // 步骤5: 更新快照并清空流动性
-        position.feeGrowthInside0LastX128 = feeGrowthInside0LastX128;
-        position.feeGrowthInside1LastX128 = feeGrowthInside1LastX128;
-        position.liquidity = 0;
+        // 步骤2、3: 结算手续费并更新头寸
+        (uint128 fees0, uint128 fees1) = _accrueFees(position, pool);
+        position.tokensOwed0 += uint128(amount0) + fees0;
+        position.tokensOwed1 += uint128(amount1) + fees1;
+        position.liquidity = positionLiquidity - liquidity;
+        emit DecreaseLiquidity(positionId, liquidity, amount0, amount1);
     }
 
     function collect(
         uint256 positionId,
         address recipient
     ) external override _isAuthorizedForToken(positionId) returns (uint256 amount0, uint256 amount1) {
+        return collectTo(positionId, recipient);
+    }
+
+    function collectToETH(
+        uint256 positionId,
+        address recipient
+    ) external override _isAuthorizedForToken(positionId) returns (uint256 amount0, uint256 amount1) {
+        /**
+         * @notice 提取头寸中应计的代币，WETH9 一侧解包为 ETH 后转给接收者
+         * @dev 先把两种代币提取到本合约，再分别以 ETH 和 ERC20 转出
+         */
+        address token0 = positions[positionId].token0;
+        address token1 = positions[positionId].token1;
+        if (token0 != WETH9 && token1 != WETH9) revert NotWETH9Position(positionId);
+
+        (amount0, amount1) = collectTo(positionId, address(this));
+        if (token0 == WETH9) {
+            unwrapWETH9(amount0, recipient);
+            pay(token1, address(this), recipient, amount1);
+        } else {
+            pay(token0, address(this), recipient, amount0);
+            unwrapWETH9(amount1, recipient);
+        }
+    }
+
+    function collectTo(uint256 positionId, address recipient) private returns (uint256 amount0, uint256 amount1) {
         /**
          * @notice 提取头寸中应计的 token0 和 token1 到指定接收者
          * @dev 主要步骤：
@@ -220,8 +421,12 @@ contract PositionManager is IPositionManager, ERC721 {
         address _pool = poolManager.getPool(position.token0, position.token1, position.index);
         IPool pool = IPool(_pool);
 
-        // 步骤2: 调用 pool.collect 执行转账(由于精度问题，这里需要减 1)
-        (amount0, amount1) = pool.collect(recipient, position.tokensOwed0 - 1, position.tokensOwed1 - 1);
+        // 步骤2: 调用 pool.collect 执行转账(由于精度问题，这里需要减 1；某一侧为 0 时不减，避免下溢)
+        (amount0, amount1) = pool.collect(
+            recipient,
+            position.tokensOwed0 > 0 ? position.tokensOwed0 - 1 : 0,
+            position.tokensOwed1 > 0 ? position.tokensOwed1 - 1 : 0
+        );
 
         // 步骤3: 清零本地记录的应付余额
         position.tokensOwed0 = 0;
@@ -246,14 +451,14 @@ contract PositionManager is IPositionManager, ERC721 {
             data,
             (address, address, address, uint32)
         );
-        require(msg.sender == poolManager.getPool(token0, token1, index), 'Unauthorized');
+        if (msg.sender != poolManager.getPool(token0, token1, index)) revert UnauthorizedCallback(msg.sender);
 
-        // 步骤2: 从 payer 向 pool 转移 token（如果数量大于 0）
+        // 步骤2: 从 payer 向 pool 转移 token（如果数量大于 0），WETH9 一侧优先使用随交易发送的 ETH
         if (amount0 > 0) {
-            IERC20(token0).transferFrom(payer, msg.sender, amount0);
+            pay(token0, payer, msg.sender, amount0);
         }
         if (amount1 > 0) {
-            IERC20(token1).transferFrom(payer, msg.sender, amount1);
+            pay(token1, payer, msg.sender, amount1);
         }
     }
 }
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import './interfaces/IPositionManager.sol';
+import './interfaces/IPositionMigrator.sol';
+import './interfaces/ISwapRouter.sol';
+
+/**
+ * @title PositionMigrator
+ * @dev PositionManager 的配套合约，只通过 PositionManager 与 SwapRouter 的外部接口操作：
+ *      - 以被授权者的身份 burn + collect 原头寸，代币转入本合约
+ *      - 按调用者给出的数量经 SwapRouter 做一次精确输入交易，调整两种代币的比例
+ *      - 以本合约为 payer 在目标池子 mint 新头寸，未投入的代币退还给 recipient
+ *      交易结束时本合约不持有代币，数量均以本交易内的余额变化计算
+ */
+contract PositionMigrator is IPositionMigrator {
+    IPositionManager public immutable positionManager;
+
+    ISwapRouter public immutable swapRouter;
+
+    constructor(address positionManager_, address swapRouter_) {
+        positionManager = IPositionManager(positionManager_);
+        swapRouter = ISwapRouter(swapRouter_);
+    }
+
+    /**
+     * @notice 把头寸的全部流动性与应计代币迁移到同一代币对的 targetIndex 池子，铸造新的头寸 NFT
+     * @dev 原头寸在 collect 后被销毁；新头寸按目标池子的当前价格投入，两种代币都以实际余额为期望数量
+     */
+    function migrate(
+        MigrateParams calldata params
+    ) external override returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1) {
+        if (block.timestamp > params.deadline) revert TransactionTooOld(params.deadline, block.timestamp);
+
+        // 步骤1: 调用者必须是头寸的持有者或被授权者，本合约自身的授权只用于执行 burn / collect
+        address owner = positionManager.ownerOf(params.positionId);
+        if (
+            msg.sender != owner &&
+            !positionManager.isApprovedForAll(owner, msg.sender) &&
+            positionManager.getApproved(params.positionId) != msg.sender
+        ) revert NotAuthorized(msg.sender, params.positionId);
+        IPositionManager.PositionInfo memory position = positionManager.getPositions(params.positionId - 1, 1)[0];
+        if (position.index == params.targetIndex) revert SamePoolIndex(params.positionId, params.targetIndex);
+
+        // 步骤2: 取出原头寸的本金与手续费
+        uint256 balance0Before = IERC20(position.token0).balanceOf(address(this));
+        uint256 balance1Before = IERC20(position.token1).balanceOf(address(this));
+        if (position.liquidity > 0) {
+            positionManager.burn(params.positionId);
+        }
+        positionManager.collect(params.positionId, address(this));
+
+        // 步骤3: 按需调整代币比例
+        if (params.swapAmountIn > 0) {
+            _rebalance(position.token0, position.token1, params);
+        }
+
+        // 步骤4: 在目标池子铸造新头寸
+        uint256 available0 = IERC20(position.token0).balanceOf(address(this)) - balance0Before;
+        uint256 available1 = IERC20(position.token1).balanceOf(address(this)) - balance1Before;
+        IERC20(position.token0).approve(address(positionManager), available0);
+        IERC20(position.token1).approve(address(positionManager), available1);
+        (positionId, liquidity, amount0, amount1) = positionManager.mint(
+            IPositionManager.MintParams({
+                token0: position.token0,
+                token1: position.token1,
+                index: params.targetIndex,
+                amount0Desired: available0,
+                amount1Desired: available1,
+                recipient: params.recipient,
+                deadline: params.deadline
+            })
+        );
+        if (amount0 < params.amount0Min || amount1 < params.amount1Min) {
+            revert PriceSlippageCheck(amount0, amount1, params.amount0Min, params.amount1Min);
+        }
+
+        // 步骤5: 退还未投入的代币
+        if (available0 > amount0) {
+            IERC20(position.token0).transfer(params.recipient, available0 - amount0);
+        }
+        if (available1 > amount1) {
+            IERC20(position.token1).transfer(params.recipient, available1 - amount1);
+        }
+        emit Migrate(params.positionId, positionId, params.targetIndex, liquidity, amount0, amount1);
+    }
+
+    /**
+     * @dev 以本合约持有的代币经 SwapRouter 做精确输入交易，输出转回本合约
+     *      不设价格限制，成交数量由 swapAmountOutMinimum 约束
+     */
+    function _rebalance(address token0, address token1, MigrateParams calldata params) private {
+        (address tokenIn, address tokenOut) = params.zeroForOne ? (token0, token1) : (token1, token0);
+        IERC20(tokenIn).approve(address(swapRouter), params.swapAmountIn);
+        swapRouter.exactInput(
+            ISwapRouter.ExactInputParams({
+                tokenIn: tokenIn,
+                tokenOut: tokenOut,
+                indexPath: params.swapIndexPath,
+                recipient: address(this),
+                deadline: params.deadline,
+                amountIn: params.swapAmountIn,
+                amountOutMinimum: params.swapAmountOutMinimum,
+                sqrtPriceLimitX96: params.zeroForOne ? TickMath.MIN_SQRT_RATIO + 1 : TickMath.MAX_SQRT_RATIO - 1
+            })
+        );
+    }
+}
@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/libraries/SqrtPriceMath.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import './interfaces/IPool.sol';
+import './interfaces/IPoolManager.sol';
+import './interfaces/IQuoter.sol';
+
+contract Quoter is IQuoter {
+    IPoolManager public immutable poolManager;
+
+    // 回调 revert 出的数据：amount0Delta、amount1Delta、sqrtPriceX96、tick 各占 32 字节
+    uint256 private constant QUOTE_DATA_SIZE = 128;
+
+    constructor(address poolManager_) {
+        poolManager = IPoolManager(poolManager_);
+    }
+
+    function quote(QuoteParams calldata params) external override returns (QuoteResult memory result) {
+        /**
+         * @notice 按 indexPath 依次在各池中报价，返回汇总结果与逐池明细
+         */
+        return quoteInPools(params);
+    }
+
+    function quoteBatch(QuoteParams[] calldata params) external override returns (QuoteResult[] memory results) {
+        /**
+         * @notice 批量报价，用于一次 eth_call 得到不同数量、不同方向的报价（例如价格冲击曲线）
+         * @dev 每次池子 swap 都在回调中 revert，状态不会累积，各笔报价互不影响
+         */
+        results = new QuoteResult[](params.length);
+        for (uint256 i = 0; i < params.length; i++) {
+            results[i] = quoteInPools(params[i]);
+        }
+    }
+
+    function quoteInPools(QuoteParams calldata params) private returns (QuoteResult memory result) {
+        /**
+         * @notice 与 SwapRouter 的 exactInput / exactOutput 相同的逐池流程：前一个池子未能完全成交时由下一个池子继续
+         */
+        bool zeroForOne = params.tokenIn < params.tokenOut;
+        uint160 sqrtPriceLimitX96 = params.sqrtPriceLimitX96 == 0
+            ? (zeroForOne ? TickMath.MIN_SQRT_RATIO + 1 : TickMath.MAX_SQRT_RATIO - 1)
+            : params.sqrtPriceLimitX96;
+
+        result.pools = new PoolQuote[](params.indexPath.length);
+        uint256 remaining = params.amount;
+        uint256 visited;
+        while (visited < params.indexPath.length && remaining > 0) {
+            PoolQuote memory poolQuote = quotePool(
+                params,
+                params.indexPath[visited],
+                zeroForOne,
+                remaining,
+                sqrtPriceLimitX96
+            );
+            result.pools[visited++] = poolQuote;
+            result.amountIn += poolQuote.amountIn;
+            result.amountOut += poolQuote.amountOut;
+            result.gasEstimate += poolQuote.gasEstimate;
+            remaining -= params.exactInput ? poolQuote.amountIn : poolQuote.amountOut;
+        }
+
+        // 截掉未经过的池子
+        PoolQuote[] memory pools = result.pools;
+        assembly {
+            mstore(pools, visited)
+        }
+    }
+
+    function quotePool(
+        QuoteParams calldata params,
+        uint32 index,
+        bool zeroForOne,
+        uint256 amount,
+        uint160 sqrtPriceLimitX96
+    ) private returns (PoolQuote memory poolQuote) {
+        /**
+         * @notice 在单个池子中模拟 swap，回调 revert 出成交数量和成交后的价格
+         * @dev Pool 只执行一次 computeSwapStep，不含手续费的输入恰好是成交前后价格之间的 amountDelta（向上取整），
+         *      因此手续费 = 实际输入 - amountDelta
+         */
+        address poolAddress = poolManager.getPool(params.tokenIn, params.tokenOut, index);
+        if (poolAddress == address(0)) revert PoolNotFound(params.tokenIn, params.tokenOut, index);
+        IPool pool = IPool(poolAddress);
+        uint160 sqrtPriceX96Before = pool.sqrtPriceX96();
+        uint128 liquidity = pool.liquidity();
+
+        int256 amount0;
+        int256 amount1;
+        uint256 gasBefore = gasleft();
+        try
+            pool.swap(
+                address(this),
+                zeroForOne,
+                params.exactInput ? int256(amount) : -int256(amount),
+                sqrtPriceLimitX96,
+                abi.encode(params.tokenIn, params.tokenOut, index)
+            )
+        {
+            // 回调总会 revert，不会执行到这里
+        } catch (bytes memory reason) {
+            poolQuote.gasEstimate = gasBefore - gasleft();
+            (amount0, amount1, poolQuote.sqrtPriceX96After, poolQuote.tickAfter) = parseQuoteData(reason);
+        }
+
+        poolQuote.index = index;
+        poolQuote.amountIn = uint256(zeroForOne ? amount0 : amount1);
+        poolQuote.amountOut = uint256(-(zeroForOne ? amount1 : amount0));
+        poolQuote.feeAmount =
+            poolQuote.amountIn -
+            (
+                zeroForOne
+                    ? SqrtPriceMath.getAmount0Delta(poolQuote.sqrtPriceX96After, sqrtPriceX96Before, liquidity, true)
+                    : SqrtPriceMath.getAmount1Delta(sqrtPriceX96Before, poolQuote.sqrtPriceX96After, liquidity, true)
+            );
+    }
+
+    function parseQuoteData(bytes memory data) private pure returns (int256, int256, uint160, int24) {
+        /**
+         * @notice 解析回调 revert 出的报价数据，其余 revert（池子的自定义错误等）原样冒泡
+         */
+        if (data.length != QUOTE_DATA_SIZE) {
+            assembly {
+                revert(add(data, 0x20), mload(data))
+            }
+        }
+        return abi.decode(data, (int256, int256, uint160, int24));
+    }
+
+    function swapCallback(int256 amount0Delta, int256 amount1Delta, bytes calldata data) external view override {
+        /**
+         * @notice 池子状态已更新、尚未收款时被调用，读取成交后的价格并 revert 返回
+         */
+        (address tokenIn, address tokenOut, uint32 index) = abi.decode(data, (address, address, uint32));
+        if (msg.sender != poolManager.getPool(tokenIn, tokenOut, index)) revert UnauthorizedCallback(msg.sender);
+
+        uint160 sqrtPriceX96After = IPool(msg.sender).sqrtPriceX96();
+        int24 tickAfter = IPool(msg.sender).tick();
+        assembly {
+            let ptr := mload(0x40)
+            mstore(ptr, amount0Delta)
+            mstore(add(ptr, 0x20), amount1Delta)
+            mstore(add(ptr, 0x40), sqrtPriceX96After)
+            mstore(add(ptr, 0x60), tickAfter)
+            revert(ptr, 128)
+        }
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import '@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol';
+
+import './interfaces/ISelfPermit.sol';
+
+/**
+ * @title SelfPermit
+ * @dev 在同一笔交易中先提交调用者签名的 EIP-2612 permit，再由本合约 transferFrom 扣款，省去单独的 approve 交易
+ */
+abstract contract SelfPermit is ISelfPermit {
+    /**
+     * @notice 以 msg.sender 为 owner、本合约为 spender 提交 permit
+     * @dev value 为 0 时跳过，沿用已有的授权额度；签名过期、nonce 已使用或签名者不符时由代币合约 revert
+     * @param token 支持 EIP-2612 的代币
+     * @param permit 签名参数
+     */
+    function _selfPermit(address token, PermitParams calldata permit) internal {
+        if (permit.value == 0) {
+            return;
+        }
+        IERC20Permit(token).permit(msg.sender, address(this), permit.value, permit.deadline, permit.v, permit.r, permit.s);
+    }
+}
@@ -2,39 +2,40 @@
 pragma solidity ^0.8.28;
 pragma abicoder v2;
 
-import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
 
+import '../lib/Path.sol';
 import './interfaces/ISwapRouter.sol';
 import './interfaces/IPool.sol';
 import './interfaces/IPoolManager.sol';
+import './Multicall.sol';
+import './PeripheryPayments.sol';
+import './SelfPermit.sol';
 
-contract SwapRouter is ISwapRouter {
+contract SwapRouter is ISwapRouter, SelfPermit, Multicall {
     IPoolManager public poolManager;
 
-    constructor(address poolManager_) {
+    constructor(address poolManager_, address WETH9_) PeripheryPayments(WETH9_) {
         /**
          * @notice 构造函数
          * @dev 关联一个 `PoolManager` 合约实例，用于查询池地址
          * @param poolManager_ PoolManager 合约地址
+         * @param WETH9_ 与系统一同部署的 WETH9 合约地址
          */
         poolManager = IPoolManager(poolManager_);
     }
 
     function parseRevertReason(bytes memory data) private pure returns (int256, int256) {
         /**
-         * @notice 从捕获的 revert 返回数据中解析出 revert 原因或返回的两个 int256
-         * @dev 如果返回的数据不是两个 int256（64 字节），则尝试解析为 Error(string)，并 revert 出具体消息
+         * @notice 从捕获的 revert 返回数据中解析出报价回调返回的两个 int256，其余 revert 原样冒泡
+         * @dev 报价数据恰好为 64 字节；带 selector 的错误长度总是 4 + 32 * n 字节，不会与之混淆
          * @param data 捕获到的 revert 字节数据
          * @return 两个 int256 值（如果解析成功）
          */
         if (data.length != 64) {
-            // data 可能是 Error(string) 编码：function selector(4 bytes) + abi.encode(string)
-            if (data.length < 68) revert('SwapRouter: unknown reason');
             assembly {
-                // 跳过 selector（4 bytes）以解码 string
-                data := add(data, 0x04)
+                revert(add(data, 0x20), mload(data))
             }
-            revert(abi.decode(data, (string)));
         }
         // 如果恰好匹配两个 int256 的长度，则直接解码并返回
         return abi.decode(data, (int256, int256));
@@ -50,7 +51,9 @@ contract SwapRouter is ISwapRouter {
     ) external returns (int256 amount0, int256 amount1) {
         /**
          * @notice 在指定池中执行单步 swap，并捕获池合约的 revert 信息
-         * @dev 通过 try/catch 捕获外部调用的 revert；若 pool.swap 返回 revert，解析出其中的 int256 返回值或 revert 原因
+         * @dev 通过 try/catch 捕获外部调用的 revert；若 pool.swap 返回 revert，解析出其中的 int256 返回值或冒泡原始错误
+         *      try/catch 要求外部调用，因此函数为 external，但只接受路由自身的调用：
+         *      data 中的 payer 会在回调中被扣款，外部调用者可借此花费他人对路由的授权
          * @param pool 目标池合约实例
          * @param recipient 兑换接收者地址
          * @param zeroForOne 方向标志：true 表示 token0 -> token1
@@ -60,6 +63,8 @@ contract SwapRouter is ISwapRouter {
          * @return amount0 本池视角的 token0 变化（可能为负）
          * @return amount1 本池视角的 token1 变化（可能为负）
          */
+        if (msg.sender != address(this)) revert UnauthorizedCallback(msg.sender);
+
         try pool.swap(recipient, zeroForOne, amountSpecified, sqrtPriceLimitX96, data) returns (
             int256 _amount0,
             int256 _amount1
@@ -67,19 +72,39 @@ contract SwapRouter is ISwapRouter {
             // 成功返回直接转发
             return (_amount0, _amount1);
         } catch (bytes memory reason) {
-            // 捕获 revert 数据并尝试解析为 (int256,int256) 或 Error(string)
+            // 捕获 revert 数据，解析为 (int256,int256) 或原样冒泡
             return parseRevertReason(reason);
         }
     }
 
-    function exactInput(ExactInputParams calldata params) external payable override returns (uint256 amountOut) {
+    function exactInput(ExactInputParams calldata params) public payable override returns (uint256 amountOut) {
+        /**
+         * @notice 精确输入交换，tokenIn 为 WETH9 时可随交易发送 ETH 支付，多余的 ETH 在交易结束时退还
+         */
+        amountOut = swapExactInput(params, params.recipient);
+        refundETH();
+    }
+
+    function exactInputToETH(ExactInputParams calldata params) external payable override returns (uint256 amountOut) {
+        /**
+         * @notice 精确输入交换，输出的 WETH9 由路由解包后以 ETH 转给 params.recipient
+         */
+        if (params.tokenOut != WETH9) revert TokenOutNotWETH9(params.tokenOut);
+        amountOut = swapExactInput(params, address(this));
+        unwrapWETH9(amountOut, params.recipient);
+        refundETH();
+    }
+
+    function swapExactInput(ExactInputParams memory params, address recipient) private returns (uint256 amountOut) {
         /**
          * @notice 按顺序对路径上的每个池进行精确输入的交换，返回最终输出数量
          * @dev 主要步骤：
          *      1. 以 params.amountIn 作为初始输入量，从第一池开始依次调用 swap，直至用尽或遍历完路径
          *      2. 每步调用后更新剩余输入和累计输出
          *      3. 最终校验输出是否满足最低要求并触发事件
+         *      exactInput / exactInputToETH / exactInputWithPermit / quoteExactInput 共用此函数，deadline 在这里统一校验
          */
+        if (block.timestamp > params.deadline) revert TransactionTooOld(params.deadline, block.timestamp);
 
         // 步骤1: 初始化剩余输入和方向（token 地址大小决定方向）
         uint256 amountIn = params.amountIn;
@@ -89,7 +114,9 @@ contract SwapRouter is ISwapRouter {
         for (uint256 i = 0; i < params.indexPath.length; i++) {
             // 获取当前池地址并校验存在性
             address poolAddress = poolManager.getPool(params.tokenIn, params.tokenOut, params.indexPath[i]);
-            require(poolAddress != address(0), 'SwapRouter: pool not found');
+            if (poolAddress == address(0)) {
+                revert PoolNotFound(params.tokenIn, params.tokenOut, params.indexPath[i]);
+            }
             IPool pool = IPool(poolAddress);
 
             // 构造回调数据：路由会在回调时要求 payer（通常是 msg.sender）支付代币
@@ -97,13 +124,13 @@ contract SwapRouter is ISwapRouter {
                 params.tokenIn,
                 params.tokenOut,
                 params.indexPath[i],
-                params.recipient == address(0) ? address(0) : msg.sender
+                recipient == address(0) ? address(0) : msg.sender
             );
 
             // 在池中执行 swap（精确输入），将剩余输入作为本步的 amountSpecified
             (int256 amount0, int256 amount1) = this.swapInPool(
                 pool,
-                params.recipient,
+                recipient,
                 zeroForOne,
                 int256(amountIn),
                 params.sqrtPriceLimitX96,
@@ -121,101 +148,310 @@ contract SwapRouter is ISwapRouter {
         }
 
         // 步骤3: 校验输出下限并发事件
-        require(amountOut >= params.amountOutMinimum, 'SwapRouter: INSUFFICIENT_OUTPUT_AMOUNT');
+        if (amountOut < params.amountOutMinimum) revert InsufficientOutputAmount(amountOut, params.amountOutMinimum);
         emit Swap(msg.sender, zeroForOne, params.amountIn, amountIn, amountOut);
         return amountOut;
     }
 
-    function exactOutput(ExactOutputParams calldata params) external payable override returns (uint256 amountIn) {
+    function exactOutput(ExactOutputParams calldata params) public payable override returns (uint256 amountIn) {
         /**
-         * @notice 以精确输出（specified output）为目标，反向在路径上执行 swap，返回所需的最大输入量
+         * @notice 精确输出交换，tokenIn 为 WETH9 时可按 amountInMaximum 发送 ETH，未用完的部分在交易结束时退还
+         */
+        (amountIn, ) = swapExactOutput(params, params.recipient);
+        refundETH();
+    }
+
+    function exactOutputToETH(ExactOutputParams calldata params) external payable override returns (uint256 amountIn) {
+        /**
+         * @notice 精确输出交换，输出的 WETH9 由路由解包后以 ETH 转给 params.recipient
+         */
+        if (params.tokenOut != WETH9) revert TokenOutNotWETH9(params.tokenOut);
+        uint256 amountOut;
+        (amountIn, amountOut) = swapExactOutput(params, address(this));
+        // 路径流动性不足时实际输出可能少于 params.amountOut，只解包本次交换实际收到的数量
+        unwrapWETH9(amountOut, params.recipient);
+        refundETH();
+    }
+
+    function swapExactOutput(
+        ExactOutputParams memory params,
+        address recipient
+    ) private returns (uint256 amountIn, uint256 amountOut) {
+        /**
+         * @notice 以精确输出（specified output）为目标，反向在路径上执行 swap，返回所需的输入量与实际输出量
          * @dev 主要步骤：
          *      1. 从目标输出量开始，逐池调用 swap（传入负的 amountSpecified 表示精确输出）
          *      2. 每步更新剩余目标输出和累计输入
          *      3. 最终校验输入不超过最大允许值并触发事件
+         *      exactOutput / exactOutputToETH / exactOutputWithPermit / quoteExactOutput 共用此函数，deadline 在这里统一校验
          */
+        if (block.timestamp > params.deadline) revert TransactionTooOld(params.deadline, block.timestamp);
 
         // 步骤1: 初始化剩余输出与方向
-        uint256 amountOut = params.amountOut;
+        uint256 amountRemaining = params.amountOut;
         bool zeroForOne = params.tokenIn < params.tokenOut;
 
         // 步骤2: 遍历路径，按需逐步消耗剩余输出
         for (uint256 i = 0; i < params.indexPath.length; i++) {
             address poolAddress = poolManager.getPool(params.tokenIn, params.tokenOut, params.indexPath[i]);
-            require(poolAddress != address(0), 'pool not found');
+            if (poolAddress == address(0)) {
+                revert PoolNotFound(params.tokenIn, params.tokenOut, params.indexPath[i]);
+            }
 
             IPool pool = IPool(poolAddress);
             bytes memory data = abi.encode(
                 params.tokenIn,
                 params.tokenOut,
                 params.indexPath[i],
-                params.recipient == address(0) ? address(0) : msg.sender
+                recipient == address(0) ? address(0) : msg.sender
             );
 
             // 使用负数表示精确输出的请求
             (int256 amount0, int256 amount1) = this.swapInPool(
                 pool,
-                params.recipient,
+                recipient,
                 zeroForOne,
-                -int256(amountOut),
+                -int256(amountRemaining),
                 params.sqrtPriceLimitX96,
                 data
             );
 
             // 步骤2.1: 更新剩余输出和累计输入
-            amountOut -= uint256(zeroForOne ? -amount1 : -amount0);
+            amountRemaining -= uint256(zeroForOne ? -amount1 : -amount0);
             amountIn += uint256(zeroForOne ? amount0 : amount1);
 
             // 如果目标输出已满足，提前结束
-            if (amountOut == 0) {
+            if (amountRemaining == 0) {
                 break;
             }
         }
 
         // 步骤3: 校验输入上限并发事件
-        require(amountIn <= params.amountInMaximum, 'Slippage exceeded');
-        emit Swap(msg.sender, zeroForOne, params.amountOut, amountOut, amountIn);
-        return amountIn;
+        if (amountIn > params.amountInMaximum) revert SlippageExceeded(amountIn, params.amountInMaximum);
+        emit Swap(msg.sender, zeroForOne, params.amountOut, amountRemaining, amountIn);
+        amountOut = params.amountOut - amountRemaining;
+    }
+
+    function exactInputWithPermit(
+        ExactInputParams calldata params,
+        PermitParams calldata permit
+    ) external payable override returns (uint256 amountOut) {
+        /**
+         * @notice 使用调用者签名的 permit 授权 tokenIn 后执行精确输入交换，无需事先 approve
+         * @param permit tokenIn 的 permit 签名，value 应不小于 amountIn
+         */
+        _selfPermit(params.tokenIn, permit);
+        return exactInput(params);
+    }
+
+    function exactOutputWithPermit(
+        ExactOutputParams calldata params,
+        PermitParams calldata permit
+    ) external payable override returns (uint256 amountIn) {
+        /**
+         * @notice 使用调用者签名的 permit 授权 tokenIn 后执行精确输出交换，无需事先 approve
+         * @param permit tokenIn 的 permit 签名，value 应不小于 amountInMaximum
+         */
+        _selfPermit(params.tokenIn, permit);
+        return exactOutput(params);
     }
 
     function quoteExactInput(QuoteExactInputParams calldata params) external override returns (uint256 amountOut) {
         /**
          * @notice 基于当前池状态估算精确输入时的输出量（只做模拟，不进行实际转账）
-         * @dev 直接调用 `exactInput`，但将 `recipient` 设为 `address(0)` 且 `amountOutMinimum` 为 0 以只返回估算值
+         * @dev 直接走 `swapExactInput`，`recipient` 为 `address(0)` 时池子在回调中以 revert 返回数量，
+         *      `amountOutMinimum` 为 0 以只返回估算值；不经过 `exactInput`，避免末尾的 refundETH 把路由持有的 ETH 退给自身
          */
         return
-            this.exactInput(
+            swapExactInput(
                 ExactInputParams({
                     tokenIn: params.tokenIn,
                     tokenOut: params.tokenOut,
                     indexPath: params.indexPath,
                     recipient: address(0),
-                    deadline: block.timestamp + 1 hours,
+                    deadline: block.timestamp,
                     amountIn: params.amountIn,
                     amountOutMinimum: 0,
                     sqrtPriceLimitX96: params.sqrtPriceLimitX96
-                })
+                }),
+                address(0)
             );
     }
 
     function quoteExactOutput(QuoteExactOutputParams calldata params) external override returns (uint256 amountIn) {
         /**
          * @notice 基于当前池状态估算达到指定输出量所需的输入（模拟调用）
-         * @dev 通过调用 `exactOutput` 并将 `recipient` 设为 `address(0)` 来避免实际转账，返回估算的输入量
+         * @dev 直接走 `swapExactOutput` 并将 `recipient` 设为 `address(0)` 来避免实际转账，返回估算的输入量；
+         *      与 quoteExactInput 相同，不经过 `exactOutput` 的 refundETH
          */
-        return
-            this.exactOutput(
-                ExactOutputParams({
-                    tokenIn: params.tokenIn,
-                    tokenOut: params.tokenOut,
-                    indexPath: params.indexPath,
-                    recipient: address(0),
-                    deadline: block.timestamp + 1 hours,
-                    amountOut: params.amountOut,
-                    amountInMaximum: type(uint256).max,
-                    sqrtPriceLimitX96: params.sqrtPriceLimitX96
-                })
+        (amountIn, ) = swapExactOutput(
+            ExactOutputParams({
+                tokenIn: params.tokenIn,
+                tokenOut: params.tokenOut,
+                indexPath: params.indexPath,
+                recipient: address(0),
+                deadline: block.timestamp,
+                amountOut: params.amountOut,
+                amountInMaximum: type(uint256).max,
+                sqrtPriceLimitX96: params.sqrtPriceLimitX96
+            }),
+            address(0)
+        );
+    }
+
+    function exactInputMultihop(
+        ExactInputMultihopParams calldata params
+    ) external payable override returns (uint256 amountOut) {
+        /**
+         * @notice 沿编码路径依次经过多个代币对进行精确输入交换，整条路径只校验一次输出下限
+         * @dev 主要步骤：
+         *      1. 第一跳由 msg.sender 支付，中间跳的输出先转给路由，再由路由支付给下一跳
+         *      2. 每一跳都必须完全成交，否则中间代币会滞留在路由中
+         *      3. 最终校验输出是否满足最低要求并触发事件
+         */
+        if (block.timestamp > params.deadline) revert TransactionTooOld(params.deadline, block.timestamp);
+
+        // 步骤1: 逐跳执行，上一跳的输出作为下一跳的输入
+        uint256 hops = Path.numHops(params.path);
+        amountOut = params.amountIn;
+        for (uint256 i = 0; i < hops; i++) {
+            (address tokenIn, uint32 index, address tokenOut) = Path.decodeHop(params.path, i);
+            (uint256 amountIn, uint256 amountReceived) = swapHop(
+                tokenIn,
+                tokenOut,
+                index,
+                i == hops - 1 ? params.recipient : address(this),
+                i == 0 ? msg.sender : address(this),
+                int256(amountOut)
+            );
+            // 步骤2: 池子触及价格区间边界时只能部分成交
+            if (amountIn != amountOut) revert InsufficientPathLiquidity(amountOut, amountIn);
+            amountOut = amountReceived;
+        }
+
+        // 步骤3: 校验输出下限并发事件
+        if (amountOut < params.amountOutMinimum) revert InsufficientOutputAmount(amountOut, params.amountOutMinimum);
+        emit SwapMultihop(msg.sender, params.path, params.amountIn, amountOut);
+        refundETH();
+    }
+
+    function exactOutputMultihop(
+        ExactOutputMultihopParams calldata params
+    ) external payable override returns (uint256 amountIn) {
+        /**
+         * @notice 沿编码路径进行精确输出交换，整条路径只校验一次输入上限
+         * @dev 主要步骤：
+         *      1. 从最后一跳开始反向报价，得到每一跳需要的输入数量
+         *      2. 正向按报价逐跳执行精确输出交换，中间代币由路由持有并支付给下一跳
+         *      3. 最终校验输入不超过最大允许值并触发事件
+         */
+        if (block.timestamp > params.deadline) revert TransactionTooOld(params.deadline, block.timestamp);
+
+        // 步骤1: 反向报价，amounts[i] 为第 i 跳的输入，amounts[hops] 为最终输出
+        uint256[] memory amounts = quoteOutputAmounts(params.path, params.amountOut);
+        uint256 hops = amounts.length - 1;
+        amountIn = amounts[0];
+        if (amountIn > params.amountInMaximum) revert SlippageExceeded(amountIn, params.amountInMaximum);
+
+        // 步骤2: 正向执行，每一跳的实际输入必须与报价一致（路径中重复使用同一个池子时会不一致）
+        for (uint256 i = 0; i < hops; i++) {
+            (address tokenIn, uint32 index, address tokenOut) = Path.decodeHop(params.path, i);
+            (uint256 amountPaid, ) = swapHop(
+                tokenIn,
+                tokenOut,
+                index,
+                i == hops - 1 ? params.recipient : address(this),
+                i == 0 ? msg.sender : address(this),
+                -int256(amounts[i + 1])
             );
+            if (amountPaid != amounts[i]) revert PathStateChanged(amounts[i], amountPaid);
+        }
+
+        // 步骤3: 触发事件
+        emit SwapMultihop(msg.sender, params.path, amountIn, params.amountOut);
+        refundETH();
+    }
+
+    function quoteExactInputMultihop(bytes calldata path, uint256 amountIn) external override returns (uint256 amountOut) {
+        /**
+         * @notice 估算多跳精确输入的最终输出量（只做模拟，不进行实际转账）
+         * @dev 每一跳都以报价模式调用池子，池子状态在 revert 后回滚
+         */
+        uint256 hops = Path.numHops(path);
+        amountOut = amountIn;
+        for (uint256 i = 0; i < hops; i++) {
+            (address tokenIn, uint32 index, address tokenOut) = Path.decodeHop(path, i);
+            (uint256 amountPaid, uint256 amountReceived) = swapHop(
+                tokenIn,
+                tokenOut,
+                index,
+                address(0),
+                address(0),
+                int256(amountOut)
+            );
+            if (amountPaid != amountOut) revert InsufficientPathLiquidity(amountOut, amountPaid);
+            amountOut = amountReceived;
+        }
+    }
+
+    function quoteExactOutputMultihop(bytes calldata path, uint256 amountOut) external override returns (uint256 amountIn) {
+        /**
+         * @notice 估算多跳精确输出所需的输入量（只做模拟，不进行实际转账）
+         */
+        return quoteOutputAmounts(path, amountOut)[0];
+    }
+
+    function quoteOutputAmounts(bytes calldata path, uint256 amountOut) private returns (uint256[] memory amounts) {
+        /**
+         * @notice 从最后一跳开始反向报价精确输出
+         * @return amounts amounts[i] 为第 i 跳需要的输入，最后一个元素为最终输出
+         */
+        uint256 hops = Path.numHops(path);
+        amounts = new uint256[](hops + 1);
+        amounts[hops] = amountOut;
+        for (uint256 i = hops; i > 0; i--) {
+            (address tokenIn, uint32 index, address tokenOut) = Path.decodeHop(path, i - 1);
+            (uint256 amountPaid, uint256 amountReceived) = swapHop(
+                tokenIn,
+                tokenOut,
+                index,
+                address(0),
+                address(0),
+                -int256(amounts[i])
+            );
+            if (amountReceived != amounts[i]) revert InsufficientPathLiquidity(amounts[i], amountReceived);
+            amounts[i - 1] = amountPaid;
+        }
+    }
+
+    function swapHop(
+        address tokenIn,
+        address tokenOut,
+        uint32 index,
+        address recipient,
+        address payer,
+        int256 amountSpecified
+    ) private returns (uint256 amountIn, uint256 amountOut) {
+        /**
+         * @notice 在路径的某一跳上执行 swap，价格限制取该方向的极限值
+         * @dev payer 为 address(0) 时只报价：回调中 revert 出数量，池子状态不变
+         * @return amountIn 本跳支付的输入代币数量
+         * @return amountOut 本跳获得的输出代币数量
+         */
+        address poolAddress = poolManager.getPool(tokenIn, tokenOut, index);
+        if (poolAddress == address(0)) revert PoolNotFound(tokenIn, tokenOut, index);
+
+        bool zeroForOne = tokenIn < tokenOut;
+        (int256 amount0, int256 amount1) = this.swapInPool(
+            IPool(poolAddress),
+            recipient,
+            zeroForOne,
+            amountSpecified,
+            zeroForOne ? TickMath.MIN_SQRT_RATIO + 1 : TickMath.MAX_SQRT_RATIO - 1,
+            abi.encode(tokenIn, tokenOut, index, payer)
+        );
+        amountIn = uint256(zeroForOne ? amount0 : amount1);
+        amountOut = uint256(zeroForOne ? -amount1 : -amount0);
     }
 
     function swapCallback(int256 amount0Delta, int256 amount1Delta, bytes calldata data) external override {
@@ -232,7 +468,7 @@ contract SwapRouter is ISwapRouter {
             (address, address, uint32, address)
         );
         address _pool = poolManager.getPool(tokenIn, tokenOut, index);
-        require(_pool == msg.sender, 'SwapRouter: unauthorized callback');
+        if (_pool != msg.sender) revert UnauthorizedCallback(msg.sender);
 
         // 步骤2: 计算需支付的数量（取正数部分）
         uint256 amountToPay = uint256(amount0Delta > 0 ? amount0Delta : amount1Delta);
@@ -247,9 +483,9 @@ contract SwapRouter is ISwapRouter {
             }
         }
 
-        // 步骤4: 否则从 payer 向 pool 转移所需代币
+        // 步骤4: 否则从 payer 向 pool 转移所需代币；多跳交易的中间代币由路由自身持有并支付，ETH 在此包装为 WETH9
         if (amountToPay > 0) {
-            IERC20(tokenIn).transferFrom(payer, _pool, amountToPay);
+            pay(tokenIn, payer, _pool, amountToPay);
         }
     }
 }
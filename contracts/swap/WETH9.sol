@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+
+import './interfaces/IWETH9.sol';
+
+/**
+ * @title WETH9
+ * @dev 随 PoolManager / SwapRouter / PositionManager 一同部署的 ETH 包装合约，池子只处理 ERC20，ETH 需先包装
+ */
+contract WETH9 is IWETH9, ERC20 {
+    constructor() ERC20('Wrapped Ether', 'WETH') {}
+
+    receive() external payable {
+        deposit();
+    }
+
+    function deposit() public payable override {
+        /**
+         * @notice 存入 ETH 并按 1:1 铸造 WETH 给调用者
+         */
+        _mint(msg.sender, msg.value);
+        emit Deposit(msg.sender, msg.value);
+    }
+
+    function withdraw(uint256 amount) external override {
+        /**
+         * @notice 销毁调用者的 WETH 并按 1:1 返还 ETH
+         * @dev 调用者无法接收 ETH 时 revert WETH9TransferFailed
+         */
+        _burn(msg.sender, amount);
+        (bool success, ) = msg.sender.call{value: amount}('');
+        if (!success) revert WETH9TransferFailed(msg.sender, amount);
+        emit Withdrawal(msg.sender, amount);
+    }
+}
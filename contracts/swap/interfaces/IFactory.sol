@@ -8,20 +8,46 @@ pragma solidity ^0.8.24;
  * @dev 该接口定义了创建和查询流动性池的标准方法，支持通过多个参数唯一确定一个池子
  */
 interface IFactory {
-    
+    /// @notice 两个代币地址相同
+    error IdenticalAddresses(address token);
+
+    /// @notice 代币地址为零地址
+    error ZeroAddress();
+
+    /// @notice 调用者不是工厂的 owner
+    error NotOwner(address caller);
+
+    /**
+     * @notice 工厂的 owner 变更时触发
+     * @param oldOwner 原 owner
+     * @param newOwner 新 owner
+     */
+    event OwnerChanged(address indexed oldOwner, address indexed newOwner);
+
+    /**
+     * @notice 返回工厂的 owner，负责设置各池子的协议手续费并提取
+     */
+    function owner() external view returns (address);
+
+    /**
+     * @notice 转移工厂的 owner，只能由当前 owner 调用
+     * @param _owner 新 owner
+     */
+    function setOwner(address _owner) external;
+
     /**
      * @notice 创建一个新的流动性池
      * @param factory 工厂合约地址
-     * @param tokenA 代币A的合约地址
-     * @param tokenB 代币B的合约地址
+     * @param token0 排序后较小的代币地址
+     * @param token1 排序后较大的代币地址
      * @param tickLower 流动性范围的下限
      * @param tickUpper 流动性范围的上限
      * @param fee 交易手续费率
      */
     struct Parameters {
         address factory;
-        address tokenA;
-        address tokenB;
+        address token0;
+        address token1;
         int24 tickLower;
         int24 tickUpper;
         uint24 fee;
@@ -30,16 +56,16 @@ interface IFactory {
     /**
      * @notice 获取流动性池的参数
      * @return factory 
-     * @return tokenA 
-     * @return tokenB 
+     * @return token0 
+     * @return token1 
      * @return tickLower 
      * @return tickUpper 
      * @return fee 
      */
     function parameters() external view returns (
         address factory,
-        address tokenA,
-        address tokenB,
+        address token0,
+        address token1,
         int24 tickLower,
         int24 tickUpper,
         uint24 fee
@@ -75,9 +101,30 @@ interface IFactory {
     function getPool (
         address tokenA,
         address tokenB,
-        int32 index
+        uint32 index
     ) external view returns (address pool);
 
+    /**
+     * @notice 全局池子列表中的一项，与地址打包在同一个存储槽中
+     * @param pool 池子地址
+     * @param index 池子在对应代币对中的索引
+     */
+    struct PoolEntry {
+        address pool;
+        uint32 index;
+    }
+
+    /**
+     * @notice 按创建顺序返回第 i 个池子的地址及其在代币对中的索引
+     * @param i 池子在全局列表中的位置，从 0 开始
+     */
+    function allPools(uint256 i) external view returns (address pool, uint32 index);
+
+    /**
+     * @notice 返回已创建的池子总数
+     */
+    function allPoolsLength() external view returns (uint256);
+
     /**
      * @notice 创建一个新的流动性池
      * @param tokenA 代币A地址
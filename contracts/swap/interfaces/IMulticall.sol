@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+interface IMulticall {
+    // 在一笔交易中依次执行本合约的多个调用，任一调用失败时整笔交易回滚
+    function multicall(bytes[] calldata data) external payable returns (bytes[] memory results);
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+interface IPeripheryPayments {
+    // 只有 WETH9 解包时可以直接向外围合约转入 ETH
+    error NotWETH9(address sender);
+
+    error ETHTransferFailed(address recipient, uint256 amount);
+
+    // 与系统一同部署的 WETH9 合约，外围合约收到的 ETH 均通过它包装后再进入池子
+    function WETH9() external view returns (address);
+}
@@ -38,6 +38,24 @@ interface ISwapCallback {
     ) external;
 } 
 
+/**
+ * @title IFlashCallback
+ * @author mapf
+ * @notice 闪电贷回调接口
+ * @dev 池子通过 `flash` 函数把借出的代币转给 recipient 后调用此接口
+ * @dev 调用者必须在回调中归还借出的数量并支付手续费，否则交易将失败
+ * @dev fee0 需要额外支付的代币0手续费，按池子费率对借出数量向上取整
+ * @dev fee1 需要额外支付的代币1手续费，按池子费率对借出数量向上取整
+ * @dev data 传递给 `flash` 函数的任意数据，可以用于在回调中携带额外信息
+ */
+interface IFlashCallback {
+    function flashCallback(
+        uint256 fee0,
+        uint256 fee1,
+        bytes calldata data
+    ) external;
+}
+
 /**
  * @title IPool
  * @author mapf
@@ -45,6 +63,41 @@ interface ISwapCallback {
  */
 interface IPool {
 
+    // --- 错误 ---
+
+    /// @notice 池子已设置过初始价格
+    error AlreadyInitialized(uint160 sqrtPriceX96);
+
+    /// @notice 初始价格对应的 tick 不在 [tickLower, tickUpper) 内
+    error InitialTickOutOfRange(int24 tick, int24 tickLower, int24 tickUpper);
+
+    /// @notice 查询池子代币余额失败
+    error BalanceQueryFailed(address token);
+
+    /// @notice mint / burn 的流动性或 swap 的数量为 0
+    error ZeroAmount();
+
+    /// @notice 回调结束后池子收到的代币少于应付数量
+    error InsufficientPayment(address token, uint256 expected, uint256 received);
+
+    /// @notice 移除的流动性超过持仓
+    error InsufficientLiquidity(uint128 liquidity, uint128 amount);
+
+    /// @notice 价格限制不在当前价格的交易方向一侧，或超出 TickMath 的范围
+    error InvalidSqrtPriceLimit(uint160 sqrtPriceLimitX96, uint160 sqrtPriceX96);
+
+    /// @notice 调用者不是工厂的 owner
+    error NotFactoryOwner(address caller);
+
+    /// @notice 协议手续费比例只能为 0 或 4~10
+    error InvalidFeeProtocol(uint8 feeProtocol0, uint8 feeProtocol1);
+
+    /// @notice 在回调中重入池子的 mint / collect / burn / swap / flash / collectProtocol
+    error Locked();
+
+    /// @notice 池子没有流动性，闪电贷的手续费无法分配给 LP
+    error ZeroLiquidity();
+
     // --- 池子的基本信息查询（视图函数）---
 
     // @notice 回创建此池子的工厂合约地址
@@ -74,6 +127,12 @@ interface IPool {
     // @notice 返回池子的流动性
     function liquidity() external view returns (uint128);
 
+    // @notice 返回协议手续费比例，低 4 位对应 token0、高 4 位对应 token1，协议收取该代币手续费的 1/N（0 表示关闭）
+    function feeProtocol() external view returns (uint8);
+
+    // @notice 返回累计未提取的协议手续费
+    function protocolFees() external view returns (uint128 token0, uint128 token1);
+
     // ---------- 池子的初始化 ----------
     /**
      * @notice 初始化池子的价格
@@ -89,7 +148,7 @@ interface IPool {
      * @dev 此值可能会溢出 uint256，计算时需小心
      * @return 以 Q128.128 格式表示的手续费增长总量
      */
-    function feeGrowthGlobal0X128() external view returns (uint128);
+    function feeGrowthGlobal0X128() external view returns (uint256);
 
     /**
      * @notice 返回代币1的全局手续费增长总量
@@ -97,7 +156,95 @@ interface IPool {
      * @dev 此值可能会溢出 uint256，计算时需小心
      * @return 以 Q128.128 格式表示的手续费增长总量
      */
-    function feeGrowthGlobal1X128() external view returns (uint128);
+    function feeGrowthGlobal1X128() external view returns (uint256);
+
+    // ----------- 协议手续费 -----------
+    /**
+     * @notice 当协议手续费比例被修改时触发
+     * @param feeProtocol0Old token0 原比例
+     * @param feeProtocol1Old token1 原比例
+     * @param feeProtocol0New token0 新比例
+     * @param feeProtocol1New token1 新比例
+     */
+    event SetFeeProtocol(uint8 feeProtocol0Old, uint8 feeProtocol1Old, uint8 feeProtocol0New, uint8 feeProtocol1New);
+
+    /**
+     * @notice 设置协议手续费比例，只能由工厂的 owner 调用
+     * @dev 之后的 swap 中协议收取手续费的 1/feeProtocol，剩余部分计入 LP 的手续费增长；已累计的手续费不受影响
+     * @param feeProtocol0 token0 手续费的协议比例，0 或 4~10
+     * @param feeProtocol1 token1 手续费的协议比例，0 或 4~10
+     */
+    function setFeeProtocol(uint8 feeProtocol0, uint8 feeProtocol1) external;
+
+    /**
+     * @notice 当工厂 owner 提取协议手续费时触发
+     * @param sender 调用者（工厂 owner）
+     * @param recipient 接收地址
+     * @param amount0 提取的代币0数量
+     * @param amount1 提取的代币1数量
+     */
+    event CollectProtocol(address indexed sender, address indexed recipient, uint128 amount0, uint128 amount1);
+
+    /**
+     * @notice 提取累计的协议手续费，只能由工厂的 owner 调用
+     * @param recipient 接收地址
+     * @param amount0Requested 期望提取的代币0数量，超过累计值时按累计值提取
+     * @param amount1Requested 期望提取的代币1数量，超过累计值时按累计值提取
+     * @return amount0 实际提取的代币0数量
+     * @return amount1 实际提取的代币1数量
+     */
+    function collectProtocol(
+        address recipient,
+        uint128 amount0Requested,
+        uint128 amount1Requested
+    ) external returns (uint128 amount0, uint128 amount1);
+
+    // ----------- 价格预言机 -----------
+    // @notice 返回最新一条观测在环形缓冲区中的索引
+    function observationIndex() external view returns (uint16);
+
+    // @notice 返回环形缓冲区当前使用的长度
+    function observationCardinality() external view returns (uint16);
+
+    // @notice 返回当前长度写满后缓冲区扩展到的长度
+    function observationCardinalityNext() external view returns (uint16);
+
+    /**
+     * @notice 返回环形缓冲区中的一条观测
+     * @param index 观测在缓冲区中的索引
+     * @return blockTimestamp 观测所在区块的时间戳（uint32 截断）
+     * @return tickCumulative 截至该时间戳的 tick * 秒数累计值
+     * @return initialized 该位置是否已写入观测
+     */
+    function observations(
+        uint256 index
+    ) external view returns (uint32 blockTimestamp, int56 tickCumulative, bool initialized);
+
+    /**
+     * @notice 当缓冲区的目标长度增加时触发
+     * @param observationCardinalityNextOld 原目标长度
+     * @param observationCardinalityNextNew 新目标长度
+     */
+    event IncreaseObservationCardinalityNext(
+        uint16 observationCardinalityNextOld,
+        uint16 observationCardinalityNextNew
+    );
+
+    /**
+     * @notice 返回每个 secondsAgo 秒前的 tick 累计值
+     * @dev 两个时间点的累计值之差除以间隔秒数即为该区间的时间加权平均 tick。
+     *      查询时间早于最旧的观测时 revert ObservationTooOld，可通过 increaseObservationCardinalityNext 保留更长的历史
+     * @param secondsAgos 距当前区块时间的秒数，0 表示当前
+     * @return tickCumulatives 与 secondsAgos 一一对应的 tick 累计值
+     */
+    function observe(uint32[] calldata secondsAgos) external view returns (int56[] memory tickCumulatives);
+
+    /**
+     * @notice 增加环形缓冲区的目标长度，任何人都可以调用并为新增的存储槽支付 gas
+     * @dev 缓冲区在当前长度写满后才扩展，不大于当前目标长度时不做任何修改
+     * @param observationCardinalityNext 期望保留的观测数量，最大 65535
+     */
+    function increaseObservationCardinalityNext(uint16 observationCardinalityNext) external;
 
     // ----------- 流动性头寸查询 -----------
     /**
@@ -228,8 +375,8 @@ interface IPool {
     /// @param amountSpecified 输入代币的数量（正数）。如果为负数，则代表希望获得的输出代币数量（暂较少见）
     /// @param sqrtPriceLimitX96 价格限制。当价格达到此限制时，交换停止
     /// @param data 传递给 `swapCallback` 的任意数据
-    /// @return amount0 token0 的数量变化（正数表示流入池子，负数表示流出池子）
-    /// @return amount1 token1 的数量变化（正数表示流入池子，负数表示流出池子）
+    /// @return amount0 token0 的数量变化（正数表示流入池子，负数表示流出池子），流入的一侧包含手续费
+    /// @return amount1 token1 的数量变化（正数表示流入池子，负数表示流出池子），流入的一侧包含手续费
     function swap(
         address recipient,
         bool zeroForOne,
@@ -237,4 +384,34 @@ interface IPool {
         uint160 sqrtPriceLimitX96,
         bytes calldata data
     ) external returns (int256 amount0, int256 amount1);
+
+    /// @notice 当发生闪电贷时触发
+    /// @param sender 发起闪电贷的地址
+    /// @param recipient 接收借出代币的地址
+    /// @param amount0 借出的 token0 数量
+    /// @param amount1 借出的 token1 数量
+    /// @param paid0 归还本金之外实际支付的 token0 数量，可能大于手续费
+    /// @param paid1 归还本金之外实际支付的 token1 数量，可能大于手续费
+    event Flash(
+        address indexed sender,
+        address indexed recipient,
+        uint256 amount0,
+        uint256 amount1,
+        uint256 paid0,
+        uint256 paid1
+    );
+
+    /// @notice 从池子借出 token0 和 / 或 token1，在同一笔交易中归还并支付手续费
+    /// @dev 会调用调用者的 `flashCallback` 方法并触发 `Flash` 事件。手续费为借出数量乘以池子费率（向上取整），
+    ///      扣除协议手续费后与 swap 手续费一样计入 LP 的手续费增长；多付的部分同样分给 LP
+    /// @param recipient 接收借出代币的地址
+    /// @param amount0 借出的 token0 数量
+    /// @param amount1 借出的 token1 数量
+    /// @param data 传递给 `flashCallback` 的任意数据
+    function flash(
+        address recipient,
+        uint256 amount0,
+        uint256 amount1,
+        bytes calldata data
+    ) external;
 }
@@ -5,6 +5,9 @@ pragma abicoder v2;
 import './IFactory.sol';
 
 interface IPoolManager is IFactory {
+    // createPoolIfNecessary 要求调用方传入已排序的 token0 < token1
+    error TokensNotSorted(address token0, address token1);
+
     struct PoolInfo {
         address pool;
         address token0;
@@ -28,6 +31,9 @@ interface IPoolManager is IFactory {
 
     function getAllPools() external view returns (PoolInfo[] memory);
 
+    // 按创建顺序分页返回池子信息，池子总数见 allPoolsLength
+    function getPools(uint256 offset, uint256 limit) external view returns (PoolInfo[] memory);
+
     struct CreatePoolParams {
         address token0;
         address token1;
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import './IPositionManager.sol';
+
+/**
+ * @title IPositionDescriptor
+ * @notice 为头寸 NFT 生成链上元数据
+ * @dev 由 PositionManager 在构造函数中部署，PositionManager.tokenURI 转发到这里，避免 SVG 生成代码占用其合约大小
+ */
+interface IPositionDescriptor {
+    /**
+     * @notice 生成头寸的 tokenURI
+     * @param position 头寸信息
+     * @param pool 头寸所在的池子
+     * @return `data:application/json;base64,` 开头的 data URI，JSON 中的 image 为 base64 编码的 SVG
+     */
+    function tokenURI(
+        IPositionManager.PositionInfo calldata position,
+        address pool
+    ) external view returns (string memory);
+}
@@ -2,9 +2,36 @@
 pragma solidity ^0.8.28;
 pragma abicoder v2;
 
-import '@openzeppelin/contracts/token/ERC721/IERC721.sol';
+import '@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol';
+
+import './IMulticall.sol';
+import './IPeripheryPayments.sol';
+import './ISelfPermit.sol';
+
+interface IPositionManager is IERC721Enumerable, ISelfPermit, IPeripheryPayments, IMulticall {
+    error PoolNotFound(address tokenA, address tokenB, uint32 index);
+
+    error TransactionTooOld(uint256 deadline, uint256 timestamp);
+
+    // 调用者既不是头寸 NFT 的持有者也未被授权
+    error NotAuthorized(address caller, uint256 positionId);
+
+    error NotWETH9Position(uint256 positionId);
+
+    error UnauthorizedCallback(address caller);
+
+    // 移除的流动性超过头寸持有的流动性
+    error InsufficientLiquidity(uint128 liquidity, uint128 amount);
+
+    // 增减流动性时实际投入或取出的代币数量低于调用者给出的下限
+    error PriceSlippageCheck(uint256 amount0, uint256 amount1, uint256 amount0Min, uint256 amount1Min);
+
+    // 向已有头寸追加流动性时触发，mint 不触发
+    event IncreaseLiquidity(uint256 indexed positionId, uint128 liquidity, uint256 amount0, uint256 amount1);
+
+    // 移除头寸的流动性时触发，包括 burn
+    event DecreaseLiquidity(uint256 indexed positionId, uint128 liquidity, uint256 amount0, uint256 amount1);
 
-interface IPositionManager is IERC721 {
     struct PositionInfo {
         uint256 id;
         address owner;
@@ -23,6 +50,19 @@ interface IPositionManager is IERC721 {
 
     function getAllPositions() external view returns (PositionInfo[] memory);
 
+    // 已铸造的头寸总数，包含已销毁的头寸
+    function positionCount() external view returns (uint256);
+
+    // 按 id 升序分页返回头寸信息
+    function getPositions(uint256 offset, uint256 limit) external view returns (PositionInfo[] memory);
+
+    // 分页返回 owner 当前持有的头寸，持有总数见 balanceOf
+    function getPositionsByOwner(
+        address owner,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PositionInfo[] memory);
+
     struct MintParams {
         address token0;
         address token1;
@@ -37,9 +77,47 @@ interface IPositionManager is IERC721 {
         MintParams calldata params
     ) external payable returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1);
 
+    // 先以 permit 授权 token0 / token1（value 为 0 的一侧跳过），再执行 mint
+    function mintWithPermit(
+        MintParams calldata params,
+        PermitParams calldata permit0,
+        PermitParams calldata permit1
+    ) external payable returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1);
+
+    struct IncreaseLiquidityParams {
+        uint256 positionId;
+        uint256 amount0Desired;
+        uint256 amount1Desired;
+        uint256 amount0Min;
+        uint256 amount1Min;
+        uint256 deadline;
+    }
+
+    // 按当前价格向已有头寸追加流动性，任何人都可以为头寸追加，代币由调用者支付
+    function increaseLiquidity(
+        IncreaseLiquidityParams calldata params
+    ) external payable returns (uint128 liquidity, uint256 amount0, uint256 amount1);
+
+    struct DecreaseLiquidityParams {
+        uint256 positionId;
+        uint128 liquidity;
+        uint256 amount0Min;
+        uint256 amount1Min;
+        uint256 deadline;
+    }
+
+    // 移除头寸的部分流动性，代币计入 tokensOwed，需再调用 collect 提取
+    function decreaseLiquidity(
+        DecreaseLiquidityParams calldata params
+    ) external returns (uint256 amount0, uint256 amount1);
+
+    // 移除头寸的全部流动性，等同于以头寸的全部流动性、不设下限调用 decreaseLiquidity
     function burn(uint256 positionId) external returns (uint256 amount0, uint256 amount1);
 
     function collect(uint256 positionId, address recipient) external returns (uint256 amount0, uint256 amount1);
 
+    // 头寸的一侧必须为 WETH9，该侧解包为 ETH 后与另一侧代币一起转给 recipient
+    function collectToETH(uint256 positionId, address recipient) external returns (uint256 amount0, uint256 amount1);
+
     function mintCallback(uint256 amount0, uint256 amount1, bytes calldata data) external;
 }
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+/**
+ * @title IPositionMigrator
+ * @notice 在一笔交易中把头寸迁移到同一代币对的另一个池子：移除全部流动性并提取本金与手续费，
+ *         按需经 SwapRouter 调整两种代币的比例，再在目标池子铸造新的头寸 NFT
+ * @dev 调用前头寸持有者需要通过 approve / setApprovalForAll 授权本合约操作该 NFT
+ */
+interface IPositionMigrator {
+    error TransactionTooOld(uint256 deadline, uint256 timestamp);
+
+    // 调用者既不是头寸 NFT 的持有者也未被授权
+    error NotAuthorized(address caller, uint256 positionId);
+
+    // 目标池子就是头寸当前所在的池子
+    error SamePoolIndex(uint256 positionId, uint32 index);
+
+    // 新头寸实际投入的代币数量低于调用者给出的下限
+    error PriceSlippageCheck(uint256 amount0, uint256 amount1, uint256 amount0Min, uint256 amount1Min);
+
+    event Migrate(
+        uint256 indexed positionId,
+        uint256 indexed newPositionId,
+        uint32 index,
+        uint128 liquidity,
+        uint256 amount0,
+        uint256 amount1
+    );
+
+    struct MigrateParams {
+        uint256 positionId;
+        // 目标池子在该代币对中的索引
+        uint32 targetIndex;
+        // 再平衡交易：swapAmountIn 为 0 时不交易；zeroForOne 为 true 时以 token0 换 token1
+        bool zeroForOne;
+        uint256 swapAmountIn;
+        uint256 swapAmountOutMinimum;
+        // 再平衡交易依次使用的池子索引，与 SwapRouter.exactInput 相同
+        uint32[] swapIndexPath;
+        // 新头寸实际投入的代币数量下限
+        uint256 amount0Min;
+        uint256 amount1Min;
+        // 新头寸 NFT 与未投入的剩余代币的接收者
+        address recipient;
+        uint256 deadline;
+    }
+
+    function migrate(
+        MigrateParams calldata params
+    ) external returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1);
+}
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+pragma abicoder v2;
+
+import './IPool.sol';
+
+/**
+ * @title IQuoter
+ * @notice 不经过 SwapRouter 的报价合约，逐池返回成交明细
+ * @dev 函数会调用池子的 swap 并在回调中 revert，因此不是 view，链下应通过 eth_call 调用
+ */
+interface IQuoter is ISwapCallback {
+    error PoolNotFound(address tokenA, address tokenB, uint32 index);
+
+    error UnauthorizedCallback(address caller);
+
+    struct QuoteParams {
+        address tokenIn;
+        address tokenOut;
+        // 按顺序依次使用的池子索引，与 SwapRouter.exactInput / exactOutput 相同
+        uint32[] indexPath;
+        // true 时 amount 为输入数量，false 时为期望的输出数量
+        bool exactInput;
+        uint256 amount;
+        // 为 0 时使用该方向的极限价格
+        uint160 sqrtPriceLimitX96;
+    }
+
+    // 单个池子的成交明细
+    struct PoolQuote {
+        uint32 index;
+        // 包含手续费
+        uint256 amountIn;
+        uint256 amountOut;
+        uint256 feeAmount;
+        uint160 sqrtPriceX96After;
+        int24 tickAfter;
+        // 本池 swap（含回调）消耗的 gas
+        uint256 gasEstimate;
+    }
+
+    struct QuoteResult {
+        // 实际成交的输入与输出，路径流动性不足时可能小于请求数量
+        uint256 amountIn;
+        uint256 amountOut;
+        uint256 gasEstimate;
+        // 只包含实际经过的池子
+        PoolQuote[] pools;
+    }
+
+    function quote(QuoteParams calldata params) external returns (QuoteResult memory result);
+
+    // 一次调用完成多笔报价，每笔报价都从当前链上状态开始，互不影响
+    function quoteBatch(QuoteParams[] calldata params) external returns (QuoteResult[] memory results);
+}
@@ -2,11 +2,37 @@
 pragma solidity ^0.8.28;
 pragma abicoder v2;
 
+import './IMulticall.sol';
+import './IPeripheryPayments.sol';
 import './IPool.sol';
+import './ISelfPermit.sol';
 
-interface ISwapRouter is ISwapCallback {
+interface ISwapRouter is ISwapCallback, ISelfPermit, IPeripheryPayments, IMulticall {
     event Swap(address indexed sender, bool zeroForOne, uint256 amountIn, uint256 amountInRemaining, uint256 amountOut);
 
+    event SwapMultihop(address indexed sender, bytes path, uint256 amountIn, uint256 amountOut);
+
+    error PoolNotFound(address tokenA, address tokenB, uint32 index);
+
+    error TransactionTooOld(uint256 deadline, uint256 timestamp);
+
+    // 精确输入的输出低于下限
+    error InsufficientOutputAmount(uint256 amountOut, uint256 amountOutMinimum);
+
+    // 精确输出的输入超过上限
+    error SlippageExceeded(uint256 amountIn, uint256 max);
+
+    // 多跳路径的某一跳只能部分成交
+    error InsufficientPathLiquidity(uint256 expected, uint256 actual);
+
+    // 多跳精确输出执行时某一跳的输入与报价不一致
+    error PathStateChanged(uint256 expected, uint256 actual);
+
+    // 回调的调用者不是对应的池子，或 swapInPool 的调用者不是路由自身
+    error UnauthorizedCallback(address caller);
+
+    error TokenOutNotWETH9(address tokenOut);
+
     struct ExactInputParams {
         address tokenIn;
         address tokenOut;
@@ -33,6 +59,22 @@ interface ISwapRouter is ISwapCallback {
 
     function exactOutput(ExactOutputParams calldata params) external payable returns (uint256 amountIn);
 
+    // tokenOut 必须为 WETH9，输出解包为 ETH 后转给 recipient
+    function exactInputToETH(ExactInputParams calldata params) external payable returns (uint256 amountOut);
+
+    function exactOutputToETH(ExactOutputParams calldata params) external payable returns (uint256 amountIn);
+
+    // 先以 permit 授权 tokenIn，再执行 exactInput / exactOutput
+    function exactInputWithPermit(
+        ExactInputParams calldata params,
+        PermitParams calldata permit
+    ) external payable returns (uint256 amountOut);
+
+    function exactOutputWithPermit(
+        ExactOutputParams calldata params,
+        PermitParams calldata permit
+    ) external payable returns (uint256 amountIn);
+
     struct QuoteExactInputParams {
         address tokenIn;
         address tokenOut;
@@ -52,4 +94,29 @@ interface ISwapRouter is ISwapCallback {
     }
 
     function quoteExactOutput(QuoteExactOutputParams calldata params) external  returns (uint256 amountIn);
+
+    // path 的编码见 Path 库：token | index | token | index | token ...
+    struct ExactInputMultihopParams {
+        bytes path;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    function exactInputMultihop(ExactInputMultihopParams calldata params) external payable returns (uint256 amountOut);
+
+    struct ExactOutputMultihopParams {
+        bytes path;
+        address recipient;
+        uint256 deadline;
+        uint256 amountOut;
+        uint256 amountInMaximum;
+    }
+
+    function exactOutputMultihop(ExactOutputMultihopParams calldata params) external payable returns (uint256 amountIn);
+
+    function quoteExactInputMultihop(bytes calldata path, uint256 amountIn) external returns (uint256 amountOut);
+
+    function quoteExactOutputMultihop(bytes calldata path, uint256 amountOut) external returns (uint256 amountIn);
 }
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+
+// 原生 ETH 的 ERC20 包装，1 WETH 始终可兑换 1 ETH
+interface IWETH9 is IERC20 {
+    error WETH9TransferFailed(address recipient, uint256 amount);
+
+    event Deposit(address indexed account, uint256 amount);
+
+    event Withdrawal(address indexed account, uint256 amount);
+
+    function deposit() external payable;
+
+    function withdraw(uint256 amount) external;
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.28;
+
+import '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+import '@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol';
+
+// 支持 EIP-2612 permit 的 TToken，EIP-712 域名与代币名称相同，版本为 "1"
+contract TTokenPermit is ERC20, ERC20Permit {
+    constructor(string memory name, string memory symbol) ERC20(name, symbol) ERC20Permit(name) {}
+
+    function mint(address recipient, uint256 quantity) public payable {
+        require(quantity > 0, 'TToken: mint quantity should be positive');
+        _mint(recipient, quantity);
+    }
+}
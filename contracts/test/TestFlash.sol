@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+import '../swap/interfaces/IPool.sol';
+import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+
+contract TestFlash is IFlashCallback {
+    // 回调时收到的手续费与持有的代币余额，用于验证借出的代币已到账
+    event FlashCallback(uint256 fee0, uint256 fee1, uint256 balance0, uint256 balance1);
+
+    /**
+     * @dev 借出 amount0 / amount1，回调中归还本金 + 手续费 + adjust（负数表示少还）；
+     *      reenter 为 true 时在回调中再次调用 flash
+     */
+    function flash(
+        address pool,
+        uint256 amount0,
+        uint256 amount1,
+        int256 adjust0,
+        int256 adjust1,
+        bool reenter
+    ) external {
+        IPool(pool).flash(address(this), amount0, amount1, abi.encode(amount0, amount1, adjust0, adjust1, reenter));
+    }
+
+    function flashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external {
+        (uint256 amount0, uint256 amount1, int256 adjust0, int256 adjust1, bool reenter) = abi.decode(
+            data,
+            (uint256, uint256, int256, int256, bool)
+        );
+        address token0 = IPool(msg.sender).token0();
+        address token1 = IPool(msg.sender).token1();
+        emit FlashCallback(
+            fee0,
+            fee1,
+            IERC20(token0).balanceOf(address(this)),
+            IERC20(token1).balanceOf(address(this))
+        );
+        if (reenter) {
+            IPool(msg.sender).flash(address(this), 0, 0, '');
+        }
+
+        uint256 pay0 = uint256(int256(amount0 + fee0) + adjust0);
+        uint256 pay1 = uint256(int256(amount1 + fee1) + adjust1);
+        if (pay0 > 0) {
+            IERC20(token0).transfer(msg.sender, pay0);
+        }
+        if (pay1 > 0) {
+            IERC20(token1).transfer(msg.sender, pay1);
+        }
+    }
+}
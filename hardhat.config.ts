@@ -1,8 +1,11 @@
 import hardhatToolboxViemPlugin from '@nomicfoundation/hardhat-toolbox-viem'
 import { configVariable, defineConfig } from 'hardhat/config'
 
+import { swapTasks } from './tasks/index.js'
+
 export default defineConfig({
     plugins: [hardhatToolboxViemPlugin],
+    tasks: swapTasks,
     solidity: {
         compilers: [
             {
@@ -0,0 +1,126 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import type { NetworkConnection } from 'hardhat/types/network'
+import type { Address, PublicClient } from 'viem'
+
+import { SwapClient, isSameAddress } from '../sdk/index.js'
+import {
+    type DemoExchangeParameters,
+    buildDemoSeedModule,
+    buildDemoTokensModule,
+    orientPools
+} from './modules/DemoExchange.js'
+
+export const DEFAULT_PARAMETERS_FILE = path.join('ignition', 'parameters', 'demo-exchange.json')
+
+export interface DemoPoolManifest {
+    // 配置中的 tokenA/tokenB 符号
+    pair: string
+    pool: Address
+    token0: Address
+    token1: Address
+    index: number
+    fee: number
+    // 初始流动性头寸，十进制字符串
+    positionId: string
+}
+
+/**
+ * @notice 演示交易所的地址清单，测试与脚本通过 loadDemoManifest 读取
+ */
+export interface DemoManifest {
+    chainId: number
+    deployer: Address
+    poolManager: Address
+    swapRouter: Address
+    positionManager: Address
+    positionMigrator: Address
+    quoter: Address
+    tokens: Record<string, Address>
+    pools: DemoPoolManifest[]
+}
+
+export const demoManifestPath = (chainId: number, root = process.cwd()) =>
+    path.join(root, 'ignition', 'manifests', `demo-exchange-${chainId}.json`)
+
+export const loadDemoParameters = async (file = DEFAULT_PARAMETERS_FILE): Promise<DemoExchangeParameters> =>
+    JSON.parse(await readFile(file, 'utf8'))
+
+/**
+ * @notice 读取地址清单
+ * @return 文件不存在时返回 undefined
+ */
+export const loadDemoManifest = async (file: string): Promise<DemoManifest | undefined> => {
+    try {
+        return JSON.parse(await readFile(file, 'utf8'))
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined
+        }
+        throw error
+    }
+}
+
+export interface DeployDemoOptions {
+    // 默认 ignition/manifests/demo-exchange-<chainId>.json
+    manifestFile?: string
+    deploymentId?: string
+    displayUi?: boolean
+}
+
+/**
+ * @notice 分两个阶段部署演示交易所并写入地址清单
+ * @dev 两个阶段共用 deploymentId，在持久化网络上重复执行只会补齐未完成的步骤
+ */
+export const deployDemoExchange = async (
+    connection: NetworkConnection,
+    parameters: DemoExchangeParameters,
+    options: DeployDemoOptions = {}
+): Promise<DemoManifest> => {
+    const { ignition, viem } = connection
+    const deployOptions = { deploymentId: options.deploymentId, displayUi: options.displayUi ?? false }
+
+    const deployed = await ignition.deploy(buildDemoTokensModule(parameters), deployOptions)
+    // 代币按符号动态命名，结果类型中没有对应的键
+    const tokens = deployed as unknown as Record<string, { address: Address }>
+    const contracts = {
+        poolManager: deployed.PoolManager.address,
+        swapRouter: deployed.SwapRouter.address,
+        positionManager: deployed.PositionManager.address,
+        positionMigrator: deployed.PositionMigrator.address,
+        quoter: deployed.Quoter.address,
+        tokens: Object.fromEntries(parameters.tokens.map((token) => [token.symbol, tokens[token.symbol].address]))
+    }
+    await ignition.deploy(buildDemoSeedModule(parameters, contracts), deployOptions)
+
+    const publicClient = (await viem.getPublicClient()) as PublicClient
+    const [walletClient] = await viem.getWalletClients()
+    const deployer = walletClient.account.address
+    const client = new SwapClient({ publicClient, addresses: contracts })
+    const [pools, positions] = await Promise.all([client.getPools(), client.listPositions(deployer)])
+
+    const match =
+        (token0: Address, token1: Address, index: number) =>
+        (item: { token0: Address; token1: Address; index: number }) =>
+            isSameAddress(item.token0, token0) && isSameAddress(item.token1, token1) && item.index === index
+    const manifest: DemoManifest = {
+        chainId: await publicClient.getChainId(),
+        deployer,
+        ...contracts,
+        pools: orientPools(parameters, contracts.tokens).map(({ token0, token1, index, fee }, i) => ({
+            pair: `${parameters.pools[i].tokenA}/${parameters.pools[i].tokenB}`,
+            pool: pools.find(match(token0, token1, index))!.pool,
+            token0,
+            token1,
+            index,
+            fee,
+            positionId: positions.find(match(token0, token1, index))!.id.toString()
+        }))
+    }
+
+    const file = options.manifestFile ?? demoManifestPath(manifest.chainId)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, `${JSON.stringify(manifest, null, 4)}\n`, 'utf8')
+    return manifest
+}
@@ -0,0 +1,158 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+import { type Address, maxUint256, parseEther } from 'viem'
+
+import { encodeSqrtRatioX96, getTickAtSqrtRatio, sortTokens } from '../../sdk/index.js'
+import SwapModule from './Swap.js'
+
+// 数量均为 18 位小数的人类可读字符串
+export interface DemoTokenParameters {
+    symbol: string
+    name: string
+    // 铸造给部署账户的数量
+    mint: string
+}
+
+/**
+ * @notice 池子配置，price / priceLower / priceUpper 均为 "每个 tokenA 可换多少 tokenB"
+ */
+export interface DemoPoolParameters {
+    tokenA: string
+    tokenB: string
+    fee: number
+    price: string
+    priceLower: string
+    priceUpper: string
+    // 初始流动性的期望投入数量
+    amountA: string
+    amountB: string
+}
+
+export interface DemoExchangeParameters {
+    tokens: DemoTokenParameters[]
+    pools: DemoPoolParameters[]
+}
+
+// 第一阶段部署得到的地址，第二阶段据此排序代币
+export interface DemoContracts {
+    poolManager: Address
+    swapRouter: Address
+    positionManager: Address
+    tokens: Record<string, Address>
+}
+
+/**
+ * @notice 按合约要求的 token0 / token1 方向换算池子参数
+ * @return index 该池子在代币对中的索引（同一代币对按配置顺序递增）
+ */
+export const orientPools = (parameters: DemoExchangeParameters, tokens: Record<string, Address>) => {
+    const counts = new Map<string, number>()
+    const configs = new Set<string>()
+    return parameters.pools.map((pool) => {
+        const tokenA = tokens[pool.tokenA]
+        const tokenB = tokens[pool.tokenB]
+        if (!tokenA || !tokenB) {
+            throw new Error(`DemoExchange: unknown token in pool ${pool.tokenA}/${pool.tokenB}`)
+        }
+        const [token0, token1, reversed] = sortTokens(tokenA, tokenB)
+        // 价格以 token1 / token0 表示，反向时取倒数
+        const sqrtPrice = (price: string) =>
+            reversed
+                ? encodeSqrtRatioX96(10n ** 18n, parseEther(price))
+                : encodeSqrtRatioX96(parseEther(price), 10n ** 18n)
+        const ticks = [getTickAtSqrtRatio(sqrtPrice(pool.priceLower)), getTickAtSqrtRatio(sqrtPrice(pool.priceUpper))]
+        const [tickLower, tickUpper] = reversed ? [ticks[1], ticks[0]] : ticks
+
+        // 相同配置的池子会被 createPoolIfNecessary 复用，索引将无法对应
+        const config = `${token0}-${token1}-${pool.fee}-${tickLower}-${tickUpper}`
+        if (configs.has(config)) {
+            throw new Error(`DemoExchange: duplicated pool ${pool.tokenA}/${pool.tokenB} fee ${pool.fee}`)
+        }
+        configs.add(config)
+        const pair = `${token0}-${token1}`
+        const index = counts.get(pair) ?? 0
+        counts.set(pair, index + 1)
+
+        const [amountA, amountB] = [parseEther(pool.amountA), parseEther(pool.amountB)]
+        return {
+            token0,
+            token1,
+            index,
+            fee: pool.fee,
+            tickLower,
+            tickUpper,
+            sqrtPriceX96: sqrtPrice(pool.price),
+            amount0Desired: reversed ? amountB : amountA,
+            amount1Desired: reversed ? amountA : amountB
+        }
+    })
+}
+
+/**
+ * @notice 第一阶段：部署代币与 PoolManager / SwapRouter / PositionManager / Quoter / PositionMigrator
+ */
+export const buildDemoTokensModule = (parameters: DemoExchangeParameters) =>
+    buildModule('DemoTokensModule', (m) => {
+        const core = m.useModule(SwapModule)
+        const tokens = Object.fromEntries(
+            parameters.tokens.map((token) => [
+                token.symbol,
+                m.contract('TToken', [token.name, token.symbol], { id: token.symbol })
+            ])
+        )
+        return { ...core, ...tokens }
+    })
+
+/**
+ * @notice 第二阶段：铸币并授权，创建池子，通过 PositionManager.mint 注入初始流动性
+ * @dev createPoolIfNecessary 要求 token0 < token1，代币地址在第一阶段部署后才能确定，因此拆分为两个模块
+ */
+export const buildDemoSeedModule = (parameters: DemoExchangeParameters, contracts: DemoContracts) =>
+    buildModule('DemoSeedModule', (m) => {
+        const deployer = m.getAccount(0)
+        const PoolManager = m.contractAt('PoolManager', contracts.poolManager)
+        const PositionManager = m.contractAt('PositionManager', contracts.positionManager)
+
+        const funded = parameters.tokens.flatMap((token) => {
+            const contract = m.contractAt('TToken', contracts.tokens[token.symbol], { id: token.symbol })
+            return [
+                m.call(contract, 'mint', [deployer, parseEther(token.mint)], { id: `${token.symbol}_mint` }),
+                m.call(contract, 'approve', [contracts.positionManager, maxUint256], {
+                    id: `${token.symbol}_approvePositionManager`
+                }),
+                m.call(contract, 'approve', [contracts.swapRouter, maxUint256], {
+                    id: `${token.symbol}_approveSwapRouter`
+                })
+            ]
+        })
+
+        // 池子索引取决于创建顺序，按配置顺序依次创建
+        let previous: ReturnType<typeof m.call> | undefined
+        orientPools(parameters, contracts.tokens).forEach((pool, i) => {
+            const { token0, token1, index, fee, tickLower, tickUpper, sqrtPriceX96 } = pool
+            const created = m.call(
+                PoolManager,
+                'createPoolIfNecessary',
+                [{ token0, token1, fee, tickLower, tickUpper, sqrtPriceX96 }],
+                { id: `pool${i}_create`, after: previous ? [previous] : [] }
+            )
+            previous = created
+            m.call(
+                PositionManager,
+                'mint',
+                [
+                    {
+                        token0,
+                        token1,
+                        index,
+                        amount0Desired: pool.amount0Desired,
+                        amount1Desired: pool.amount1Desired,
+                        recipient: deployer,
+                        deadline: maxUint256
+                    }
+                ],
+                { id: `pool${i}_mint`, after: [created, ...funded] }
+            )
+        })
+
+        return { PoolManager, PositionManager }
+    })
@@ -2,11 +2,17 @@ import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
 
 export default buildModule('SwapModule', (m) => {
     const PoolManager = m.contract('PoolManager')
-    const SwapRouter = m.contract('SwapRouter', [PoolManager])
-    const PositionManager = m.contract('PositionManager', [PoolManager])
+    const WETH9 = m.contract('WETH9')
+    const SwapRouter = m.contract('SwapRouter', [PoolManager, WETH9])
+    const PositionManager = m.contract('PositionManager', [PoolManager, WETH9])
+    const Quoter = m.contract('Quoter', [PoolManager])
+    const PositionMigrator = m.contract('PositionMigrator', [PositionManager, SwapRouter])
     return {
         PoolManager,
+        WETH9,
         SwapRouter,
-        PositionManager
+        PositionManager,
+        Quoter,
+        PositionMigrator
     }
 })
@@ -0,0 +1,41 @@
+import { network } from 'hardhat'
+
+import { demoManifestPath, loadDemoManifest } from '../ignition/demo-exchange.js'
+import { DEFAULT_API_PORT, SwapClient, startApiServer } from '../sdk/index.js'
+
+/**
+ * 本地只读 HTTP API，接口文档见 /openapi.json
+ * 用法: POOL_MANAGER=0x... SWAP_ROUTER=0x... POSITION_MANAGER=0x... QUOTER=0x... \
+ *      npx hardhat run scripts/api.ts --network <network>
+ * 未设置地址时读取 scripts/deploy-demo.ts 写入的地址清单
+ * 可选: API_PORT（默认 3000）、API_HOST（默认 127.0.0.1）
+ */
+const { viem } = await network.connect()
+const publicClient = await viem.getPublicClient()
+
+const chainId = await publicClient.getChainId()
+const manifest = await loadDemoManifest(demoManifestPath(chainId))
+
+const addressOf = (name: string, fallback?: `0x${string}`) => {
+    const address = (process.env[name] as `0x${string}` | undefined) ?? fallback
+    if (!address) {
+        throw new Error(`${name} is required`)
+    }
+    return address
+}
+
+const client = new SwapClient({
+    publicClient,
+    addresses: {
+        poolManager: addressOf('POOL_MANAGER', manifest?.poolManager),
+        swapRouter: addressOf('SWAP_ROUTER', manifest?.swapRouter),
+        positionManager: addressOf('POSITION_MANAGER', manifest?.positionManager),
+        quoter: addressOf('QUOTER', manifest?.quoter)
+    }
+})
+const { server, url } = await startApiServer(client, {
+    port: Number(process.env.API_PORT ?? DEFAULT_API_PORT),
+    host: process.env.API_HOST
+})
+console.log(`serving ${url}`)
+process.on('SIGINT', () => server.close(() => process.exit(0)))
@@ -0,0 +1,22 @@
+import { network } from 'hardhat'
+
+import { deployDemoExchange, loadDemoParameters } from '../ignition/demo-exchange.js'
+
+/**
+ * 部署带初始流动性的演示交易所，并写入地址清单
+ * 用法: npx hardhat run scripts/deploy-demo.ts --network <network>
+ * 可选: DEMO_PARAMETERS（默认 ignition/parameters/demo-exchange.json）、
+ *       DEMO_MANIFEST（默认 ignition/manifests/demo-exchange-<chainId>.json）
+ */
+const connection = await network.connect()
+const parameters = await loadDemoParameters(process.env.DEMO_PARAMETERS)
+const manifest = await deployDemoExchange(connection, parameters, {
+    manifestFile: process.env.DEMO_MANIFEST,
+    displayUi: true
+})
+
+console.log(`PoolManager:     ${manifest.poolManager}`)
+console.log(`SwapRouter:      ${manifest.swapRouter}`)
+console.log(`PositionManager: ${manifest.positionManager}`)
+console.table(manifest.tokens)
+console.table(manifest.pools)
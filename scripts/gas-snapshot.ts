@@ -0,0 +1,47 @@
+import { network } from 'hardhat'
+
+import { measureGas } from './gas/benchmark.js'
+import {
+    DEFAULT_GAS_SNAPSHOT_FILE,
+    DEFAULT_GAS_THRESHOLD,
+    compareGas,
+    formatGasDiff,
+    formatGasReport,
+    linearGrowth,
+    loadGasSnapshot,
+    writeGasSnapshot
+} from './gas/report.js'
+
+/**
+ * 测量核心入口的 gas 并与已提交的快照对比，存在超过阈值的回归时以非零状态退出
+ * 用法: npx hardhat run scripts/gas-snapshot.ts
+ * 可选: GAS_SNAPSHOT（默认 gas-snapshot.json）、GAS_THRESHOLD（允许的增幅百分比，默认 1）、
+ *       GAS_UPDATE=1 用本次结果覆盖快照
+ */
+const file = process.env.GAS_SNAPSHOT ?? DEFAULT_GAS_SNAPSHOT_FILE
+const threshold = Number(process.env.GAS_THRESHOLD ?? DEFAULT_GAS_THRESHOLD)
+
+const connection = await network.connect({ network: 'hardhatMainnet' })
+const report = await measureGas(connection)
+console.log(formatGasReport(report))
+
+// 首个池子还包含池子数组由空变为非空的存储开销，之后的增量即重复检查的线性扫描成本
+console.log('\nFactory.createPool duplicate scan:')
+for (const step of linearGrowth(report, 'Factory.createPool/existing=')) {
+    console.log(`  existing ${step.from} -> ${step.to}: ${Math.round(step.perUnit)} gas per pool`)
+}
+
+const snapshot = await loadGasSnapshot(file)
+if (snapshot) {
+    const diffs = compareGas(snapshot, report, threshold)
+    console.log(`\n${formatGasDiff(diffs)}`)
+    const regressions = diffs.filter((diff) => diff.regression)
+    if (regressions.length > 0 && !process.env.GAS_UPDATE) {
+        console.error(`\n${regressions.length} entries regressed by more than ${threshold}%`)
+        process.exitCode = 1
+    }
+}
+if (!snapshot || process.env.GAS_UPDATE) {
+    await writeGasSnapshot(report, file)
+    console.log(`\nwrote ${file}`)
+}
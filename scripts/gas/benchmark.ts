@@ -0,0 +1,261 @@
+import type { NetworkConnection } from 'hardhat/types/network'
+import { type Address, type Hash, encodeFunctionData, maxUint256, parseEther, parseEventLogs } from 'viem'
+
+import {
+    defaultSqrtPriceLimitX96,
+    encodeSqrtRatioX96,
+    poolAbi,
+    poolManagerAbi,
+    positionManagerMulticall,
+    quoterAbi
+} from '../../sdk/index.js'
+import type { GasReport } from './report.js'
+
+// 各场景的规模，修改后需重新生成快照
+export const CREATE_POOL_CHECKPOINTS = [0, 1, 5, 10, 25]
+export const GET_ALL_POOLS_CHECKPOINTS = [1, 10, 50]
+export const MINT_CHECKPOINTS = [0, 1, 50]
+export const EXACT_INPUT_POOLS = [1, 2, 5]
+
+// 所有池子价格为 1，区间约为 [0.5, 2]；第 i 个池子的区间各向外扩 i 个 tick 以避免配置重复
+const poolConfig = (i: number) => ({ fee: 3000, tickLower: -6932 - i, tickUpper: 6932 + i })
+const SQRT_PRICE_1 = encodeSqrtRatioX96(1n, 1n)
+// 每个池子注入的数量；价格从 1 跌到 0.5 约需 14.1 个 token0
+const POOL_DEPOSIT = parseEther('10')
+const EXACT_INPUT_AMOUNTS: Record<number, bigint> = { 1: parseEther('1'), 2: parseEther('20'), 5: parseEther('63') }
+
+/**
+ * @notice 在全新部署上测量核心入口的 gas，并覆盖状态增长后的情形
+ * @dev 每组场景都从同一个快照开始，deadline 固定为 maxUint256，保证结果可复现
+ */
+export const measureGas = async (connection: NetworkConnection): Promise<GasReport> => {
+    const { viem, networkHelpers } = connection
+    const publicClient = await viem.getPublicClient()
+    const [wallet] = await viem.getWalletClients()
+    const deployer = wallet.account.address
+
+    const gasOf = async (hash: Promise<Hash>) =>
+        Number((await publicClient.waitForTransactionReceipt({ hash: await hash })).gasUsed)
+
+    const deployed = []
+    for (const symbol of ['A', 'B', 'C']) {
+        deployed.push(await viem.deployContract('TToken', [`Token ${symbol}`, `TT${symbol}`]))
+    }
+    const [token0, token1, token2] = deployed.sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1))
+    const PoolManager = await viem.deployContract('PoolManager')
+    const WETH9 = await viem.deployContract('WETH9')
+    const SwapRouter = await viem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+    const PositionManager = await viem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+    const Quoter = await viem.deployContract('Quoter', [PoolManager.address])
+    const PositionMigrator = await viem.deployContract('PositionMigrator', [
+        PositionManager.address,
+        SwapRouter.address
+    ])
+    const TestSwap = await viem.deployContract('TestSwap')
+    const TestFlash = await viem.deployContract('TestFlash')
+    for (const token of [token0, token1, token2]) {
+        await token.write.mint([deployer, 10n ** 30n])
+        await token.write.mint([TestSwap.address, 10n ** 30n])
+        await token.write.mint([TestFlash.address, 10n ** 30n])
+        await token.write.approve([PositionManager.address, maxUint256])
+        await token.write.approve([SwapRouter.address, maxUint256])
+    }
+
+    const createPool = (tokenA: Address, tokenB: Address, i: number) =>
+        gasOf(
+            PoolManager.write.createPoolIfNecessary([
+                { token0: tokenA, token1: tokenB, ...poolConfig(i), sqrtPriceX96: SQRT_PRICE_1 }
+            ])
+        )
+    const mint = (index: number) =>
+        gasOf(
+            PositionManager.write.mint([
+                {
+                    token0: token0.address,
+                    token1: token1.address,
+                    index,
+                    amount0Desired: POOL_DEPOSIT,
+                    amount1Desired: POOL_DEPOSIT,
+                    recipient: deployer,
+                    deadline: maxUint256
+                }
+            ])
+        )
+
+    const report: GasReport = {}
+    const base = await networkHelpers.takeSnapshot()
+
+    // Factory.createPool 线性扫描同一代币对下的已有池子
+    let existing = 0
+    for (const checkpoint of CREATE_POOL_CHECKPOINTS) {
+        for (; existing < checkpoint; existing++) {
+            await createPool(token0.address, token1.address, existing)
+        }
+        const { fee, tickLower, tickUpper } = poolConfig(existing)
+        report[`Factory.createPool/existing=${checkpoint}`] = await gasOf(
+            PoolManager.write.createPool([token0.address, token1.address, tickLower, tickUpper, fee])
+        )
+        existing++
+    }
+
+    // getAllPools 遍历所有代币对下的全部池子，池子分布在三个代币对上
+    await base.restore()
+    const pairs = [
+        [token0.address, token1.address],
+        [token0.address, token2.address],
+        [token1.address, token2.address]
+    ] as const
+    let total = 0
+    for (const checkpoint of GET_ALL_POOLS_CHECKPOINTS) {
+        for (; total < checkpoint; total++) {
+            const [tokenA, tokenB] = pairs[total % pairs.length]
+            await createPool(tokenA, tokenB, Math.floor(total / pairs.length))
+        }
+        const gas = await publicClient.estimateGas({
+            to: PoolManager.address,
+            data: encodeFunctionData({ abi: poolManagerAbi, functionName: 'getAllPools' })
+        })
+        report[`PoolManager.getAllPools/pools=${checkpoint}`] = Number(gas)
+        // 分页读取最后一页（最多 10 个），开销不随池子总数增长
+        const page = await publicClient.estimateGas({
+            to: PoolManager.address,
+            data: encodeFunctionData({
+                abi: poolManagerAbi,
+                functionName: 'getPools',
+                args: [BigInt(Math.max(checkpoint - 10, 0)), 10n]
+            })
+        })
+        report[`PoolManager.getPools/pools=${checkpoint}`] = Number(page)
+    }
+
+    // PositionManager.mint：首个头寸需要初始化池子与 PositionManager 的存储槽
+    await base.restore()
+    await createPool(token0.address, token1.address, 0)
+    let positions = 0
+    for (const checkpoint of MINT_CHECKPOINTS) {
+        for (; positions < checkpoint; positions++) {
+            await mint(0)
+        }
+        report[`PositionManager.mint/positions=${checkpoint}`] = await mint(0)
+        positions++
+    }
+
+    // Pool.swap 直接由 TestSwap 调用（token0 -> token1），首笔交易需要写入手续费增长
+    const pool = await PoolManager.read.getPool([token0.address, token1.address, 0])
+    const swapInPool = (amount: bigint) =>
+        gasOf(
+            TestSwap.write.testSwap([
+                TestSwap.address,
+                amount,
+                defaultSqrtPriceLimitX96(true),
+                pool,
+                token0.address,
+                token1.address
+            ])
+        )
+    report['Pool.swap/exactIn/first'] = await swapInPool(parseEther('1'))
+    report['Pool.swap/exactIn'] = await swapInPool(parseEther('1'))
+    report['Pool.swap/exactOut'] = await swapInPool(-parseEther('1'))
+    // Pool.flash 由 TestFlash 调用，同时借出两种代币并在回调中归还本金与手续费；
+    // 测量后回滚，避免闪电贷的手续费影响后面 burn / collect 的结算
+    const beforeFlash = await networkHelpers.takeSnapshot()
+    report['Pool.flash'] = await gasOf(TestFlash.write.flash([pool, parseEther('1'), parseEther('1'), 0n, 0n, false]))
+    await beforeFlash.restore()
+
+    // 在一笔交易中关闭第一个头寸：burn 结算上面几笔 swap 的手续费，collect 转出全部代币
+    const closePosition = positionManagerMulticall().add('burn', [1n]).add('collect', [1n, deployer])
+    report['PositionManager.multicall/burn+collect'] = await gasOf(
+        PositionManager.write.multicall([closePosition.encode()])
+    )
+
+    // 部分增减第二个头寸的流动性，两者都要把第二个头寸尚未结算的手续费计入 tokensOwed
+    report['PositionManager.increaseLiquidity'] = await gasOf(
+        PositionManager.write.increaseLiquidity([
+            {
+                positionId: 2n,
+                amount0Desired: POOL_DEPOSIT,
+                amount1Desired: POOL_DEPOSIT,
+                amount0Min: 0n,
+                amount1Min: 0n,
+                deadline: maxUint256
+            }
+        ])
+    )
+    const [, , , , , , position2Liquidity] = await PositionManager.read.positions([2n])
+    report['PositionManager.decreaseLiquidity'] = await gasOf(
+        PositionManager.write.decreaseLiquidity([
+            { positionId: 2n, liquidity: position2Liquidity / 2n, amount0Min: 0n, amount1Min: 0n, deadline: maxUint256 }
+        ])
+    )
+
+    // SwapRouter.exactInput 依次穿过 indexPath 中的池子，每个池子的流动性都被耗尽后才进入下一个
+    await base.restore()
+    const maxPools = Math.max(...EXACT_INPUT_POOLS)
+    for (let i = 0; i < maxPools; i++) {
+        await createPool(token0.address, token1.address, i)
+        await mint(i)
+    }
+    const routed = await networkHelpers.takeSnapshot()
+    for (const count of EXACT_INPUT_POOLS) {
+        const hash = await SwapRouter.write.exactInput([
+            {
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                indexPath: Array.from({ length: count }, (_, i) => i),
+                recipient: deployer,
+                deadline: maxUint256,
+                amountIn: EXACT_INPUT_AMOUNTS[count],
+                amountOutMinimum: 0n,
+                sqrtPriceLimitX96: defaultSqrtPriceLimitX96(true)
+            }
+        ])
+        const receipt = await publicClient.waitForTransactionReceipt({ hash })
+        const swaps = parseEventLogs({ abi: poolAbi, eventName: 'Swap', logs: receipt.logs })
+        if (swaps.length !== count) {
+            throw new Error(`gas benchmark: exactInput expected to touch ${count} pools, touched ${swaps.length}`)
+        }
+        report[`SwapRouter.exactInput/pools=${count}`] = Number(receipt.gasUsed)
+        await routed.restore()
+
+        // Quoter.quote 按同样的路径报价，每个池子的 swap 都在回调中 revert
+        const quoteData = encodeFunctionData({
+            abi: quoterAbi,
+            functionName: 'quote',
+            args: [
+                {
+                    tokenIn: token0.address,
+                    tokenOut: token1.address,
+                    indexPath: Array.from({ length: count }, (_, i) => i),
+                    exactInput: true,
+                    amount: EXACT_INPUT_AMOUNTS[count],
+                    sqrtPriceLimitX96: 0n
+                }
+            ]
+        })
+        report[`Quoter.quote/pools=${count}`] = Number(
+            await publicClient.estimateGas({ to: Quoter.address, data: quoteData })
+        )
+    }
+
+    // 把第一个池子的头寸迁移到第二个池子，再平衡交易经过第三个池子
+    await PositionManager.write.setApprovalForAll([PositionMigrator.address, true])
+    report['PositionMigrator.migrate'] = await gasOf(
+        PositionMigrator.write.migrate([
+            {
+                positionId: 1n,
+                targetIndex: 1,
+                zeroForOne: true,
+                swapAmountIn: parseEther('1'),
+                swapAmountOutMinimum: 0n,
+                swapIndexPath: [2],
+                amount0Min: 0n,
+                amount1Min: 0n,
+                recipient: deployer,
+                deadline: maxUint256
+            }
+        ])
+    )
+    await base.restore()
+
+    return report
+}
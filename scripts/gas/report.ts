@@ -0,0 +1,102 @@
+import { readFile, writeFile } from 'node:fs/promises'
+
+export const DEFAULT_GAS_SNAPSHOT_FILE = 'gas-snapshot.json'
+
+// 默认允许的增幅（百分比），超过即视为回归
+export const DEFAULT_GAS_THRESHOLD = 1
+
+/**
+ * @notice 场景名称到 gasUsed 的映射，名称形如 "SwapRouter.exactInput/pools=2"
+ * @dev 交易为回执中的 gasUsed，view 函数为 estimateGas 结果，两者都包含 21000 的基础开销
+ */
+export type GasReport = Record<string, number>
+
+export interface GasDiff {
+    name: string
+    // 新增场景没有 before，删除的场景没有 after
+    before?: number
+    after?: number
+    delta: number
+    percent: number
+    regression: boolean
+}
+
+export const loadGasSnapshot = async (file = DEFAULT_GAS_SNAPSHOT_FILE): Promise<GasReport | undefined> => {
+    try {
+        return JSON.parse(await readFile(file, 'utf8'))
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined
+        }
+        throw error
+    }
+}
+
+export const writeGasSnapshot = (report: GasReport, file = DEFAULT_GAS_SNAPSHOT_FILE) =>
+    writeFile(file, JSON.stringify(report, null, 4) + '\n')
+
+/**
+ * @notice 对比两份报告，只返回有变化的场景
+ * @param threshold 允许的增幅（百分比）
+ */
+export const compareGas = (before: GasReport, after: GasReport, threshold = DEFAULT_GAS_THRESHOLD): GasDiff[] => {
+    const names = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    return names.flatMap((name): GasDiff[] => {
+        const [from, to] = [before[name], after[name]]
+        if (from === to) {
+            return []
+        }
+        const delta = (to ?? 0) - (from ?? 0)
+        const percent = from && to ? (delta / from) * 100 : 0
+        return [{ name, before: from, after: to, delta, percent, regression: percent > threshold }]
+    })
+}
+
+/**
+ * @notice 取出 "<prefix><n>" 形式的场景，按 n 排序并计算相邻两点之间每单位 n 的增量
+ */
+export const linearGrowth = (report: GasReport, prefix: string) => {
+    const points = Object.entries(report)
+        .filter(([name]) => name.startsWith(prefix))
+        .map(([name, gas]) => ({ n: Number(name.slice(prefix.length)), gas }))
+        .sort((a, b) => a.n - b.n)
+    return points.slice(1).map((point, i) => ({
+        from: points[i].n,
+        to: point.n,
+        perUnit: (point.gas - points[i].gas) / (point.n - points[i].n)
+    }))
+}
+
+const pad = (value: string, width: number) => value.padStart(width)
+
+export const formatGasReport = (report: GasReport): string => {
+    const width = Math.max(...Object.keys(report).map((name) => name.length))
+    return Object.entries(report)
+        .map(([name, gas]) => `${name.padEnd(width)}  ${pad(gas.toString(), 10)}`)
+        .join('\n')
+}
+
+export const formatGasDiff = (diffs: GasDiff[]): string => {
+    if (diffs.length === 0) {
+        return 'no gas changes'
+    }
+    const width = Math.max(...diffs.map((diff) => diff.name.length))
+    return diffs
+        .map((diff) => {
+            const change =
+                diff.before === undefined
+                    ? 'added'
+                    : diff.after === undefined
+                      ? 'removed'
+                      : `${diff.delta > 0 ? '+' : ''}${diff.delta} (${diff.percent.toFixed(2)}%)`
+            return [
+                diff.regression ? '!' : ' ',
+                diff.name.padEnd(width),
+                pad(diff.before?.toString() ?? '-', 10),
+                '->',
+                pad(diff.after?.toString() ?? '-', 10),
+                change
+            ].join(' ')
+        })
+        .join('\n')
+}
@@ -0,0 +1,48 @@
+import { network } from 'hardhat'
+
+import { demoManifestPath, loadDemoManifest } from '../ignition/demo-exchange.js'
+import { EventIndexer, FileStore } from '../sdk/index.js'
+
+/**
+ * 本地事件索引服务
+ * 用法: POOL_MANAGER=0x... SWAP_ROUTER=0x... npx hardhat run scripts/indexer.ts --network <network>
+ * 未设置 POOL_MANAGER 时读取 scripts/deploy-demo.ts 写入的地址清单
+ * 可选: START_BLOCK（默认 0）、INDEXER_STORE（默认 indexer-data/<chainId>.json）、INDEXER_INTERVAL（毫秒，默认 2000）
+ */
+const { viem } = await network.connect()
+const publicClient = await viem.getPublicClient()
+
+const chainId = await publicClient.getChainId()
+const manifest = await loadDemoManifest(demoManifestPath(chainId))
+
+const poolManager = (process.env.POOL_MANAGER as `0x${string}` | undefined) ?? manifest?.poolManager
+if (!poolManager) {
+    throw new Error('POOL_MANAGER is required')
+}
+
+const indexer = new EventIndexer({
+    publicClient,
+    addresses: {
+        poolManager,
+        swapRouter: (process.env.SWAP_ROUTER as `0x${string}` | undefined) ?? manifest?.swapRouter
+    },
+    store: new FileStore(process.env.INDEXER_STORE ?? `indexer-data/${chainId}.json`),
+    startBlock: BigInt(process.env.START_BLOCK ?? 0)
+})
+
+const report = async () => {
+    const result = await indexer.sync()
+    if (result.rolledBackTo !== undefined) {
+        console.log(`reorg detected, rolled back to block ${result.rolledBackTo}`)
+    }
+    if (result.events > 0) {
+        console.log(`indexed ${result.events} events up to block ${result.toBlock}`)
+    }
+}
+
+await report()
+const timer = setInterval(() => report().catch(console.error), Number(process.env.INDEXER_INTERVAL ?? 2000))
+process.on('SIGINT', () => {
+    clearInterval(timer)
+    process.exit(0)
+})
@@ -0,0 +1,229 @@
+import { parseAbi } from 'viem'
+
+/**
+ * 与 contracts/swap 下合约保持一致的人类可读 ABI
+ * @dev 只包含 SDK 需要用到的函数与事件，结构体通过 struct 声明以得到带字段名的解码结果
+ */
+export const poolManagerAbi = parseAbi([
+    'struct PoolInfo { address pool; address token0; address token1; uint32 index; uint24 fee; uint8 feeProtocol; int24 tickLower; int24 tickUpper; int24 tick; uint128 liquidity; uint160 sqrtPriceX96; }',
+    'struct Pair { address token0; address token1; }',
+    'struct CreatePoolParams { address token0; address token1; int24 tickLower; int24 tickUpper; uint24 fee; uint160 sqrtPriceX96; }',
+    'function getPairs() view returns (Pair[])',
+    'function getAllPools() view returns (PoolInfo[])',
+    'function getPools(uint256 offset, uint256 limit) view returns (PoolInfo[])',
+    'function allPools(uint256 i) view returns (address pool, uint32 index)',
+    'function allPoolsLength() view returns (uint256)',
+    'function getPool(address tokenA, address tokenB, uint32 index) view returns (address pool)',
+    'function createPoolIfNecessary(CreatePoolParams params) returns (address pool)',
+    'function owner() view returns (address)',
+    'function setOwner(address _owner)',
+    'event OwnerChanged(address indexed oldOwner, address indexed newOwner)',
+    'event PoolCreated(address token0, address token1, uint32 index, int24 tickLower, int24 tickUpper, uint24 fee, address pool)'
+])
+
+export const swapRouterAbi = parseAbi([
+    'struct ExactInputParams { address tokenIn; address tokenOut; uint32[] indexPath; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }',
+    'struct ExactOutputParams { address tokenIn; address tokenOut; uint32[] indexPath; address recipient; uint256 deadline; uint256 amountOut; uint256 amountInMaximum; uint160 sqrtPriceLimitX96; }',
+    'struct QuoteExactInputParams { address tokenIn; address tokenOut; uint32[] indexPath; uint256 amountIn; uint160 sqrtPriceLimitX96; }',
+    'struct QuoteExactOutputParams { address tokenIn; address tokenOut; uint32[] indexPath; uint256 amountOut; uint160 sqrtPriceLimitX96; }',
+    'struct ExactInputMultihopParams { bytes path; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; }',
+    'struct ExactOutputMultihopParams { bytes path; address recipient; uint256 deadline; uint256 amountOut; uint256 amountInMaximum; }',
+    'struct PermitParams { uint256 value; uint256 deadline; uint8 v; bytes32 r; bytes32 s; }',
+    'function exactInput(ExactInputParams params) payable returns (uint256 amountOut)',
+    'function exactOutput(ExactOutputParams params) payable returns (uint256 amountIn)',
+    'function exactInputWithPermit(ExactInputParams params, PermitParams permit) payable returns (uint256 amountOut)',
+    'function exactOutputWithPermit(ExactOutputParams params, PermitParams permit) payable returns (uint256 amountIn)',
+    'function exactInputToETH(ExactInputParams params) payable returns (uint256 amountOut)',
+    'function exactOutputToETH(ExactOutputParams params) payable returns (uint256 amountIn)',
+    'function WETH9() view returns (address)',
+    'function quoteExactInput(QuoteExactInputParams params) returns (uint256 amountOut)',
+    'function quoteExactOutput(QuoteExactOutputParams params) returns (uint256 amountIn)',
+    'function exactInputMultihop(ExactInputMultihopParams params) payable returns (uint256 amountOut)',
+    'function exactOutputMultihop(ExactOutputMultihopParams params) payable returns (uint256 amountIn)',
+    'function quoteExactInputMultihop(bytes path, uint256 amountIn) returns (uint256 amountOut)',
+    'function quoteExactOutputMultihop(bytes path, uint256 amountOut) returns (uint256 amountIn)',
+    'function multicall(bytes[] data) payable returns (bytes[] results)',
+    'event Swap(address indexed sender, bool zeroForOne, uint256 amountIn, uint256 amountInRemaining, uint256 amountOut)',
+    'event SwapMultihop(address indexed sender, bytes path, uint256 amountIn, uint256 amountOut)'
+])
+
+export const positionManagerAbi = parseAbi([
+    'struct PositionInfo { uint256 id; address owner; address token0; address token1; uint32 index; uint24 fee; uint128 liquidity; int24 tickLower; int24 tickUpper; uint128 tokensOwed0; uint128 tokensOwed1; uint256 feeGrowthInside0LastX128; uint256 feeGrowthInside1LastX128; }',
+    'struct MintParams { address token0; address token1; uint32 index; uint256 amount0Desired; uint256 amount1Desired; address recipient; uint256 deadline; }',
+    'struct PermitParams { uint256 value; uint256 deadline; uint8 v; bytes32 r; bytes32 s; }',
+    'struct IncreaseLiquidityParams { uint256 positionId; uint256 amount0Desired; uint256 amount1Desired; uint256 amount0Min; uint256 amount1Min; uint256 deadline; }',
+    'struct DecreaseLiquidityParams { uint256 positionId; uint128 liquidity; uint256 amount0Min; uint256 amount1Min; uint256 deadline; }',
+    'function getAllPositions() view returns (PositionInfo[])',
+    'function positionCount() view returns (uint256)',
+    'function getPositions(uint256 offset, uint256 limit) view returns (PositionInfo[])',
+    'function getPositionsByOwner(address owner, uint256 offset, uint256 limit) view returns (PositionInfo[])',
+    'function positions(uint256 positionId) view returns (uint256 id, address owner, address token0, address token1, uint32 index, uint24 fee, uint128 liquidity, int24 tickLower, int24 tickUpper, uint128 tokensOwed0, uint128 tokensOwed1, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128)',
+    'function ownerOf(uint256 tokenId) view returns (address)',
+    'function getApproved(uint256 tokenId) view returns (address)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'function approve(address to, uint256 tokenId)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function totalSupply() view returns (uint256)',
+    'function tokenByIndex(uint256 index) view returns (uint256)',
+    'function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)',
+    'function tokenURI(uint256 tokenId) view returns (string)',
+    'function tokenDescriptor() view returns (address)',
+    'function mint(MintParams params) payable returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'function mintWithPermit(MintParams params, PermitParams permit0, PermitParams permit1) payable returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'function increaseLiquidity(IncreaseLiquidityParams params) payable returns (uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'function decreaseLiquidity(DecreaseLiquidityParams params) returns (uint256 amount0, uint256 amount1)',
+    'function burn(uint256 positionId) returns (uint256 amount0, uint256 amount1)',
+    'function collect(uint256 positionId, address recipient) returns (uint256 amount0, uint256 amount1)',
+    'function collectToETH(uint256 positionId, address recipient) returns (uint256 amount0, uint256 amount1)',
+    'function multicall(bytes[] data) payable returns (bytes[] results)',
+    'function WETH9() view returns (address)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event IncreaseLiquidity(uint256 indexed positionId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'event DecreaseLiquidity(uint256 indexed positionId, uint128 liquidity, uint256 amount0, uint256 amount1)'
+])
+
+export const positionMigratorAbi = parseAbi([
+    'struct MigrateParams { uint256 positionId; uint32 targetIndex; bool zeroForOne; uint256 swapAmountIn; uint256 swapAmountOutMinimum; uint32[] swapIndexPath; uint256 amount0Min; uint256 amount1Min; address recipient; uint256 deadline; }',
+    'function positionManager() view returns (address)',
+    'function swapRouter() view returns (address)',
+    'function migrate(MigrateParams params) returns (uint256 positionId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+    'event Migrate(uint256 indexed positionId, uint256 indexed newPositionId, uint32 index, uint128 liquidity, uint256 amount0, uint256 amount1)'
+])
+
+// SwapRouter 与 PositionManager 共用的 multicall 入口
+export const multicallAbi = parseAbi(['function multicall(bytes[] data) payable returns (bytes[] results)'])
+
+export const quoterAbi = parseAbi([
+    'struct QuoteParams { address tokenIn; address tokenOut; uint32[] indexPath; bool exactInput; uint256 amount; uint160 sqrtPriceLimitX96; }',
+    'struct PoolQuote { uint32 index; uint256 amountIn; uint256 amountOut; uint256 feeAmount; uint160 sqrtPriceX96After; int24 tickAfter; uint256 gasEstimate; }',
+    'struct QuoteResult { uint256 amountIn; uint256 amountOut; uint256 gasEstimate; PoolQuote[] pools; }',
+    'function poolManager() view returns (address)',
+    'function quote(QuoteParams params) returns (QuoteResult result)',
+    'function quoteBatch(QuoteParams[] params) returns (QuoteResult[] results)'
+])
+
+export const poolAbi = parseAbi([
+    'function factory() view returns (address)',
+    'function token0() view returns (address)',
+    'function token1() view returns (address)',
+    'function fee() view returns (uint24)',
+    'function tickLower() view returns (int24)',
+    'function tickUpper() view returns (int24)',
+    'function sqrtPriceX96() view returns (uint160)',
+    'function tick() view returns (int24)',
+    'function liquidity() view returns (uint128)',
+    'function feeGrowthGlobal0X128() view returns (uint256)',
+    'function feeGrowthGlobal1X128() view returns (uint256)',
+    'function feeProtocol() view returns (uint8)',
+    'function protocolFees() view returns (uint128 token0, uint128 token1)',
+    'function setFeeProtocol(uint8 feeProtocol0, uint8 feeProtocol1)',
+    'function collectProtocol(address recipient, uint128 amount0Requested, uint128 amount1Requested) returns (uint128 amount0, uint128 amount1)',
+    'function observationIndex() view returns (uint16)',
+    'function observationCardinality() view returns (uint16)',
+    'function observationCardinalityNext() view returns (uint16)',
+    'function observations(uint256 index) view returns (uint32 blockTimestamp, int56 tickCumulative, bool initialized)',
+    'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives)',
+    'function increaseObservationCardinalityNext(uint16 observationCardinalityNext)',
+    'function getPosition(address owner) view returns (uint128 _liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+    'function flash(address recipient, uint256 amount0, uint256 amount1, bytes data)',
+    'event Mint(address sender, address indexed owner, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Burn(address indexed owner, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Collect(address indexed owner, address recipient, uint128 amount0, uint128 amount1)',
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+    'event Flash(address indexed sender, address indexed recipient, uint256 amount0, uint256 amount1, uint256 paid0, uint256 paid1)',
+    'event SetFeeProtocol(uint8 feeProtocol0Old, uint8 feeProtocol1Old, uint8 feeProtocol0New, uint8 feeProtocol1New)',
+    'event CollectProtocol(address indexed sender, address indexed recipient, uint128 amount0, uint128 amount1)',
+    'event IncreaseObservationCardinalityNext(uint16 observationCardinalityNextOld, uint16 observationCardinalityNextNew)'
+])
+
+export const erc20Abi = parseAbi([
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 value) returns (bool)'
+])
+
+// EIP-2612 扩展
+export const erc20PermitAbi = parseAbi([
+    'function nonces(address owner) view returns (uint256)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)'
+])
+
+export const weth9Abi = parseAbi([
+    'function deposit() payable',
+    'function withdraw(uint256 amount)',
+    'event Deposit(address indexed account, uint256 amount)',
+    'event Withdrawal(address indexed account, uint256 amount)'
+])
+
+/**
+ * 各合约的自定义错误，以及经由池子、路由和头寸管理合约冒泡的 Uniswap 库与 OpenZeppelin 错误
+ * @dev 多个合约中同名的错误签名一致，只声明一次
+ */
+export const swapErrorsAbi = parseAbi([
+    // Factory / PoolManager
+    'error IdenticalAddresses(address token)',
+    'error ZeroAddress()',
+    'error TokensNotSorted(address token0, address token1)',
+    'error NotOwner(address caller)',
+    // Pool / Oracle
+    'error AlreadyInitialized(uint160 sqrtPriceX96)',
+    'error InitialTickOutOfRange(int24 tick, int24 tickLower, int24 tickUpper)',
+    'error BalanceQueryFailed(address token)',
+    'error ZeroAmount()',
+    'error InsufficientPayment(address token, uint256 expected, uint256 received)',
+    'error InsufficientLiquidity(uint128 liquidity, uint128 amount)',
+    'error InvalidSqrtPriceLimit(uint160 sqrtPriceLimitX96, uint160 sqrtPriceX96)',
+    'error NotFactoryOwner(address caller)',
+    'error InvalidFeeProtocol(uint8 feeProtocol0, uint8 feeProtocol1)',
+    'error Locked()',
+    'error ZeroLiquidity()',
+    'error OracleUninitialized()',
+    'error ObservationTooOld(uint32 target, uint32 oldest)',
+    // Uniswap TickMath（tick 越界 / 价格越界）与 TransferHelper（转账失败）
+    'error T()',
+    'error R()',
+    'error TF()',
+    // SwapRouter / PositionManager / PeripheryPayments / Path
+    'error PoolNotFound(address tokenA, address tokenB, uint32 index)',
+    'error TransactionTooOld(uint256 deadline, uint256 timestamp)',
+    'error InsufficientOutputAmount(uint256 amountOut, uint256 amountOutMinimum)',
+    'error SlippageExceeded(uint256 amountIn, uint256 max)',
+    'error InsufficientPathLiquidity(uint256 expected, uint256 actual)',
+    'error PathStateChanged(uint256 expected, uint256 actual)',
+    'error UnauthorizedCallback(address caller)',
+    'error TokenOutNotWETH9(address tokenOut)',
+    'error NotAuthorized(address caller, uint256 positionId)',
+    'error NotWETH9Position(uint256 positionId)',
+    'error PriceSlippageCheck(uint256 amount0, uint256 amount1, uint256 amount0Min, uint256 amount1Min)',
+    'error NotWETH9(address sender)',
+    'error ETHTransferFailed(address recipient, uint256 amount)',
+    'error InvalidPath(uint256 length)',
+    // PositionMigrator
+    'error SamePoolIndex(uint256 positionId, uint32 index)',
+    // WETH9
+    'error WETH9TransferFailed(address recipient, uint256 amount)',
+    // OpenZeppelin ERC20 / ERC2612 / ERC721
+    'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+    'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+    'error ERC20InvalidSender(address sender)',
+    'error ERC20InvalidReceiver(address receiver)',
+    'error ERC2612ExpiredSignature(uint256 deadline)',
+    'error ERC2612InvalidSigner(address signer, address owner)',
+    'error ECDSAInvalidSignature()',
+    'error ECDSAInvalidSignatureS(bytes32 s)',
+    'error ERC721NonexistentToken(uint256 tokenId)',
+    'error ERC721InvalidReceiver(address receiver)',
+    'error ERC721OutOfBoundsIndex(address owner, uint256 index)',
+    'error ERC721InsufficientApproval(address operator, uint256 tokenId)',
+    'error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)',
+    'error ERC721InvalidOwner(address owner)',
+    'error ERC721InvalidSender(address sender)',
+    'error ERC721InvalidOperator(address operator)',
+    'error ERC721InvalidApprover(address approver)',
+    'error ERC721EnumerableForbiddenBatchMint()'
+])
@@ -0,0 +1,193 @@
+import {
+    MAX_UINT128,
+    getAmount0Delta,
+    getAmount1Delta,
+    getSqrtRatioAtTick,
+    mulDiv,
+    requireThat
+} from './math/index.js'
+import { Q96, Q128 } from './utils.js'
+
+export interface TokenAmounts {
+    amount0: bigint
+    amount1: bigint
+}
+
+// 估值所需的头寸字段，与 PositionManager.positions 返回值一致
+export interface PositionState {
+    liquidity: bigint
+    tickLower: number
+    tickUpper: number
+    tokensOwed0: bigint
+    tokensOwed1: bigint
+    feeGrowthInside0LastX128: bigint
+    feeGrowthInside1LastX128: bigint
+}
+
+export interface PoolFeeState {
+    sqrtPriceX96: bigint
+    feeGrowthGlobal0X128: bigint
+    feeGrowthGlobal1X128: bigint
+}
+
+/**
+ * @notice 头寸估值结果，value 结尾的字段均以当前价格折算为 token1
+ */
+export interface PositionValuation {
+    // 当前流动性对应的代币数量
+    amount0: bigint
+    amount1: bigint
+    // 尚未结算进 tokensOwed 的手续费
+    fees0: bigint
+    fees1: bigint
+    // 已结算未提取的数量（burn 后的本金与已结算的手续费）
+    tokensOwed0: bigint
+    tokensOwed1: bigint
+    // 立即 burn + collect 时实际到账的数量
+    collectable0: bigint
+    collectable1: bigint
+    liquidityValue: bigint
+    feesValue: bigint
+    totalValue: bigint
+    // 以下字段仅在提供初始投入时存在
+    deposit?: TokenAmounts
+    // 持有初始投入不做市的价值
+    holdValue?: bigint
+    // 流动性价值相对持有的差额，通常为负；头寸 burn 后本金计入 tokensOwed，此值不再有意义
+    impermanentLoss?: bigint
+    // 总价值（含手续费）相对持有的盈亏
+    pnl?: bigint
+}
+
+/**
+ * @notice 按 Pool.burn 的方式计算流动性对应的代币数量
+ * @dev Pool 的价格始终处于区间内，burn 时 getAmountDelta 向上取整
+ */
+export const getPositionAmounts = (
+    sqrtPriceX96: bigint,
+    tickLower: number,
+    tickUpper: number,
+    liquidity: bigint
+): TokenAmounts => {
+    if (liquidity === 0n) {
+        return { amount0: 0n, amount1: 0n }
+    }
+    return {
+        amount0: getAmount0Delta(sqrtPriceX96, getSqrtRatioAtTick(tickUpper), liquidity, true),
+        amount1: getAmount1Delta(getSqrtRatioAtTick(tickLower), sqrtPriceX96, liquidity, true)
+    }
+}
+
+/**
+ * @notice 与 LiquidityAmounts.getLiquidityForAmounts 一致，计算期望数量在当前价格下可提供的流动性
+ * @dev 价格在区间内时取两种代币分别能提供的流动性中较小的一个
+ */
+export const getLiquidityForAmounts = (
+    sqrtPriceX96: bigint,
+    tickLower: number,
+    tickUpper: number,
+    amount0: bigint,
+    amount1: bigint
+): bigint => {
+    const sqrtRatioAX96 = getSqrtRatioAtTick(tickLower)
+    const sqrtRatioBX96 = getSqrtRatioAtTick(tickUpper)
+    const liquidityForAmount0 = (sqrtRatioLowerX96: bigint) =>
+        mulDiv(amount0, mulDiv(sqrtRatioLowerX96, sqrtRatioBX96, Q96), sqrtRatioBX96 - sqrtRatioLowerX96)
+    const liquidityForAmount1 = (sqrtRatioUpperX96: bigint) =>
+        mulDiv(amount1, Q96, sqrtRatioUpperX96 - sqrtRatioAX96)
+
+    let liquidity: bigint
+    if (sqrtPriceX96 <= sqrtRatioAX96) {
+        liquidity = liquidityForAmount0(sqrtRatioAX96)
+    } else if (sqrtPriceX96 < sqrtRatioBX96) {
+        const liquidity0 = liquidityForAmount0(sqrtPriceX96)
+        const liquidity1 = liquidityForAmount1(sqrtPriceX96)
+        liquidity = liquidity0 < liquidity1 ? liquidity0 : liquidity1
+    } else {
+        liquidity = liquidityForAmount1(sqrtRatioBX96)
+    }
+    requireThat(liquidity <= MAX_UINT128, 'liquidity overflows uint128')
+    return liquidity
+}
+
+/**
+ * @notice 按 PositionManager.mint / increaseLiquidity 的方式计算注入的流动性与实际投入的代币数量
+ * @dev Pool.mint 计算应付数量时 getAmountDelta 向下取整，与 burn 相反
+ */
+export const getMintAmounts = (
+    sqrtPriceX96: bigint,
+    tickLower: number,
+    tickUpper: number,
+    amount0Desired: bigint,
+    amount1Desired: bigint
+): TokenAmounts & { liquidity: bigint } => {
+    const liquidity = getLiquidityForAmounts(sqrtPriceX96, tickLower, tickUpper, amount0Desired, amount1Desired)
+    return {
+        liquidity,
+        amount0: getAmount0Delta(sqrtPriceX96, getSqrtRatioAtTick(tickUpper), liquidity, false),
+        amount1: getAmount1Delta(getSqrtRatioAtTick(tickLower), sqrtPriceX96, liquidity, false)
+    }
+}
+
+/**
+ * @notice 自上次快照以来累计、尚未计入 tokensOwed 的手续费
+ * @dev 与 PositionManager.burn 一致：(feeGrowthGlobal - feeGrowthInsideLast) * liquidity / 2^128，向下取整
+ */
+export const getUnclaimedFees = (position: PositionState, pool: PoolFeeState): TokenAmounts => ({
+    amount0: mulDiv(pool.feeGrowthGlobal0X128 - position.feeGrowthInside0LastX128, position.liquidity, Q128),
+    amount1: mulDiv(pool.feeGrowthGlobal1X128 - position.feeGrowthInside1LastX128, position.liquidity, Q128)
+})
+
+/**
+ * @notice 以当前价格将代币数量折算为 token1
+ */
+export const valueInToken1 = (amounts: TokenAmounts, sqrtPriceX96: bigint): bigint =>
+    mulDiv(mulDiv(amounts.amount0, sqrtPriceX96, Q96), sqrtPriceX96, Q96) + amounts.amount1
+
+/**
+ * @notice 计算头寸的当前数量、未领取手续费，以及相对单纯持有的盈亏
+ * @param deposit 头寸的初始投入，不传时不计算盈亏
+ */
+export const valuePosition = (
+    position: PositionState,
+    pool: PoolFeeState,
+    deposit?: TokenAmounts
+): PositionValuation => {
+    const { amount0, amount1 } = getPositionAmounts(
+        pool.sqrtPriceX96,
+        position.tickLower,
+        position.tickUpper,
+        position.liquidity
+    )
+    const fees = getUnclaimedFees(position, pool)
+    const owed0 = position.tokensOwed0 + amount0 + fees.amount0
+    const owed1 = position.tokensOwed1 + amount1 + fees.amount1
+    // PositionManager.collect 按 tokensOwed - 1 提取
+    const collectable0 = owed0 > 0n ? owed0 - 1n : 0n
+    const collectable1 = owed1 > 0n ? owed1 - 1n : 0n
+
+    const liquidityValue = valueInToken1({ amount0, amount1 }, pool.sqrtPriceX96)
+    const feesValue = valueInToken1(fees, pool.sqrtPriceX96)
+    const totalValue = valueInToken1({ amount0: owed0, amount1: owed1 }, pool.sqrtPriceX96)
+    const valuation: PositionValuation = {
+        amount0,
+        amount1,
+        fees0: fees.amount0,
+        fees1: fees.amount1,
+        tokensOwed0: position.tokensOwed0,
+        tokensOwed1: position.tokensOwed1,
+        collectable0,
+        collectable1,
+        liquidityValue,
+        feesValue,
+        totalValue
+    }
+    if (deposit) {
+        const holdValue = valueInToken1(deposit, pool.sqrtPriceX96)
+        valuation.deposit = deposit
+        valuation.holdValue = holdValue
+        valuation.impermanentLoss = liquidityValue - holdValue
+        valuation.pnl = totalValue - holdValue
+    }
+    return valuation
+}
@@ -0,0 +1,204 @@
+// 链上的 uint 在 JSON 中统一以十进制字符串表示，避免超出 JavaScript 的安全整数范围
+const uintString = { type: 'string', pattern: '^[0-9]+$' } as const
+const address = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' } as const
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+})
+
+const jsonResponse = (description: string, schema: object) => ({
+    description,
+    content: { 'application/json': { schema } }
+})
+
+/**
+ * @notice 只读 HTTP API 的 OpenAPI 3.1 文档，由服务在 /openapi.json 提供
+ */
+export const openApiDocument = {
+    openapi: '3.1.0',
+    info: {
+        title: 'JSwap read-only API',
+        version: '1.0.0',
+        description: 'Pool state, quotes and positions read from PoolManager, SwapRouter and PositionManager.'
+    },
+    paths: {
+        '/pools': {
+            get: {
+                summary: 'All pools in creation order',
+                responses: {
+                    '200': jsonResponse('Pools', { type: 'array', items: { $ref: '#/components/schemas/Pool' } })
+                }
+            }
+        },
+        '/pools/{address}': {
+            get: {
+                summary: 'A single pool',
+                parameters: [{ name: 'address', in: 'path', required: true, schema: address }],
+                responses: {
+                    '200': jsonResponse('Pool', { $ref: '#/components/schemas/Pool' }),
+                    '400': errorResponse('Malformed address'),
+                    '404': errorResponse('Not a pool created by PoolManager')
+                }
+            }
+        },
+        '/quote': {
+            get: {
+                summary: 'Quote a swap across every pool of the pair',
+                parameters: [
+                    { name: 'tokenIn', in: 'query', required: true, schema: address },
+                    { name: 'tokenOut', in: 'query', required: true, schema: address },
+                    {
+                        name: 'amount',
+                        in: 'query',
+                        required: true,
+                        description: 'Input amount for exactIn, desired output amount for exactOut, in base units',
+                        schema: uintString
+                    },
+                    {
+                        name: 'side',
+                        in: 'query',
+                        required: false,
+                        schema: { type: 'string', enum: ['exactIn', 'exactOut'], default: 'exactIn' }
+                    }
+                ],
+                responses: {
+                    '200': jsonResponse('Quote', { $ref: '#/components/schemas/Quote' }),
+                    '400': errorResponse('Missing or malformed parameter'),
+                    '404': errorResponse('No pool for the pair'),
+                    '422': errorResponse('The quote reverted, error is the contract error name'),
+                    '501': errorResponse('The server was started without a Quoter address')
+                }
+            }
+        },
+        '/positions': {
+            get: {
+                summary: 'Positions by id, or the positions currently held by owner',
+                parameters: [
+                    {
+                        name: 'owner',
+                        in: 'query',
+                        required: false,
+                        description: 'Without owner, every position including burned ones is returned',
+                        schema: address
+                    }
+                ],
+                responses: {
+                    '200': jsonResponse('Positions', {
+                        type: 'array',
+                        items: { $ref: '#/components/schemas/Position' }
+                    }),
+                    '400': errorResponse('Malformed owner')
+                }
+            }
+        },
+        '/positions/{id}': {
+            get: {
+                summary: 'A single position',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: uintString }],
+                responses: {
+                    '200': jsonResponse('Position', { $ref: '#/components/schemas/Position' }),
+                    '400': errorResponse('Malformed id'),
+                    '404': errorResponse('Position not minted')
+                }
+            }
+        },
+        '/openapi.json': {
+            get: {
+                summary: 'This document',
+                responses: { '200': jsonResponse('OpenAPI document', { type: 'object' }) }
+            }
+        }
+    },
+    components: {
+        schemas: {
+            Pool: {
+                type: 'object',
+                required: [
+                    'pool',
+                    'token0',
+                    'token1',
+                    'index',
+                    'fee',
+                    'feeProtocol',
+                    'tickLower',
+                    'tickUpper',
+                    'tick',
+                    'liquidity',
+                    'sqrtPriceX96'
+                ],
+                properties: {
+                    pool: address,
+                    token0: address,
+                    token1: address,
+                    index: { type: 'integer' },
+                    fee: { type: 'integer', description: 'In hundredths of a bip, 3000 is 0.3%' },
+                    feeProtocol: { type: 'integer' },
+                    tickLower: { type: 'integer' },
+                    tickUpper: { type: 'integer' },
+                    tick: { type: 'integer' },
+                    liquidity: uintString,
+                    sqrtPriceX96: uintString
+                }
+            },
+            Position: {
+                type: 'object',
+                required: [
+                    'id',
+                    'owner',
+                    'token0',
+                    'token1',
+                    'index',
+                    'fee',
+                    'liquidity',
+                    'tickLower',
+                    'tickUpper',
+                    'tokensOwed0',
+                    'tokensOwed1',
+                    'feeGrowthInside0LastX128',
+                    'feeGrowthInside1LastX128'
+                ],
+                properties: {
+                    id: uintString,
+                    owner: address,
+                    token0: address,
+                    token1: address,
+                    index: { type: 'integer' },
+                    fee: { type: 'integer' },
+                    liquidity: uintString,
+                    tickLower: { type: 'integer' },
+                    tickUpper: { type: 'integer' },
+                    tokensOwed0: uintString,
+                    tokensOwed1: uintString,
+                    feeGrowthInside0LastX128: uintString,
+                    feeGrowthInside1LastX128: uintString
+                }
+            },
+            Quote: {
+                type: 'object',
+                required: ['tokenIn', 'tokenOut', 'side', 'indexPath', 'amountIn', 'amountOut', 'partial', 'remaining'],
+                properties: {
+                    tokenIn: address,
+                    tokenOut: address,
+                    side: { type: 'string', enum: ['exactIn', 'exactOut'] },
+                    indexPath: { type: 'array', items: { type: 'integer' } },
+                    amountIn: { ...uintString, description: 'Input actually consumed, including fees' },
+                    amountOut: { ...uintString, description: 'Output actually produced' },
+                    partial: {
+                        type: 'boolean',
+                        description: 'True when the pools of the pair cannot fill the requested amount'
+                    },
+                    remaining: {
+                        ...uintString,
+                        description: 'Part of the requested amount that was not filled, 0 unless partial'
+                    }
+                }
+            },
+            Error: {
+                type: 'object',
+                required: ['error', 'message'],
+                properties: { error: { type: 'string' }, message: { type: 'string' } }
+            }
+        }
+    }
+} as const
@@ -0,0 +1,193 @@
+import { once } from 'node:events'
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+import { type Address, getAddress, isAddress } from 'viem'
+
+import type { SwapClient } from '../client.js'
+import { decodeRevert } from '../errors.js'
+import { quoteWithBreakdown } from '../quoter.js'
+import { isSameAddress } from '../utils.js'
+import { openApiDocument } from './openapi.js'
+
+export const DEFAULT_API_PORT = 3000
+
+const STATUS_ERRORS: Record<number, string> = {
+    400: 'BadRequest',
+    404: 'NotFound',
+    405: 'MethodNotAllowed',
+    501: 'NotImplemented'
+}
+
+/**
+ * @notice 以指定状态码返回给调用方的错误，响应体为 { error, message }
+ */
+export class ApiError extends Error {
+    constructor(
+        readonly status: number,
+        message: string
+    ) {
+        super(message)
+        this.name = STATUS_ERRORS[status] ?? 'ApiError'
+    }
+}
+
+type RouteHandler = (client: SwapClient, params: string[], query: URLSearchParams) => Promise<unknown>
+
+interface Route {
+    pattern: RegExp
+    handler: RouteHandler
+}
+
+const parseAddress = (value: string | null, name: string): Address => {
+    if (value === null || !isAddress(value)) {
+        throw new ApiError(400, `${name} must be an address`)
+    }
+    return getAddress(value)
+}
+
+const parseUint = (value: string | null, name: string): bigint => {
+    if (value === null || !/^[0-9]+$/.test(value)) {
+        throw new ApiError(400, `${name} must be a non-negative integer`)
+    }
+    return BigInt(value)
+}
+
+/**
+ * @dev 先查询该代币对的全部池子，既能把"没有池子"区分为 404，又省去 quote 内部的第二次扫描。
+ *      通过 Quoter 报价以取得实际成交的输入与输出：路径流动性不足时只能部分成交，
+ *      此时 partial 为 true，remaining 为请求数量中未能成交的部分
+ */
+const quote: RouteHandler = async (client, _, query) => {
+    const tokenIn = parseAddress(query.get('tokenIn'), 'tokenIn')
+    const tokenOut = parseAddress(query.get('tokenOut'), 'tokenOut')
+    const amount = parseUint(query.get('amount'), 'amount')
+    const side = query.get('side') ?? 'exactIn'
+    if (side !== 'exactIn' && side !== 'exactOut') {
+        throw new ApiError(400, 'side must be exactIn or exactOut')
+    }
+    if (isSameAddress(tokenIn, tokenOut)) {
+        throw new ApiError(400, 'tokenIn and tokenOut must differ')
+    }
+    const pools = await client.getPairPools(tokenIn, tokenOut)
+    if (pools.length === 0) {
+        throw new ApiError(404, `no pool for ${tokenIn} and ${tokenOut}`)
+    }
+    const quoter = client.addresses.quoter
+    if (!quoter) {
+        throw new ApiError(501, 'quoter address not configured')
+    }
+    const indexPath = pools.map((pool) => pool.index)
+    // Quoter 只认识 ERC20 地址，ETH 占位地址需替换为 WETH9
+    const { amountIn, amountOut } = await quoteWithBreakdown(client.publicClient, quoter, {
+        tokenIn: await client.resolveToken(tokenIn),
+        tokenOut: await client.resolveToken(tokenOut),
+        indexPath,
+        amount,
+        side
+    })
+    const remaining = amount - (side === 'exactIn' ? amountIn : amountOut)
+    return { tokenIn, tokenOut, side, indexPath, amountIn, amountOut, partial: remaining > 0n, remaining }
+}
+
+const routes: Route[] = [
+    { pattern: /^\/openapi\.json$/, handler: async () => openApiDocument },
+    { pattern: /^\/pools$/, handler: (client) => client.getPools() },
+    {
+        pattern: /^\/pools\/([^/]+)$/,
+        handler: async (client, [address]) => {
+            const pool = await client.findPool(parseAddress(address, 'address'))
+            if (!pool) {
+                throw new ApiError(404, `pool ${address} not found`)
+            }
+            return pool
+        }
+    },
+    { pattern: /^\/quote$/, handler: quote },
+    {
+        pattern: /^\/positions$/,
+        handler: (client, _, query) =>
+            client.listPositions(query.has('owner') ? parseAddress(query.get('owner'), 'owner') : undefined)
+    },
+    {
+        pattern: /^\/positions\/([^/]+)$/,
+        handler: async (client, [id]) => {
+            const position = await client.findPosition(parseUint(id, 'id'))
+            if (!position) {
+                throw new ApiError(404, `position ${id} not found`)
+            }
+            return position
+        }
+    }
+]
+
+// bigint 统一编码为十进制字符串
+const toJson = (body: unknown) =>
+    JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, {
+        'content-type': 'application/json; charset=utf-8',
+        // 供浏览器中的看板直接跨域读取
+        'access-control-allow-origin': '*'
+    })
+    response.end(toJson(body))
+}
+
+const handle = async (client: SwapClient, request: IncomingMessage, response: ServerResponse) => {
+    try {
+        const url = new URL(request.url ?? '/', 'http://localhost')
+        for (const { pattern, handler } of routes) {
+            const match = pattern.exec(url.pathname)
+            if (!match) {
+                continue
+            }
+            if (request.method !== 'GET') {
+                response.setHeader('allow', 'GET')
+                throw new ApiError(405, `${request.method} is not allowed`)
+            }
+            send(response, 200, await handler(client, match.slice(1), url.searchParams))
+            return
+        }
+        throw new ApiError(404, `no route for ${url.pathname}`)
+    } catch (error) {
+        if (error instanceof ApiError) {
+            send(response, error.status, { error: error.name, message: error.message })
+            return
+        }
+        // 合约 revert 属于请求本身无法满足，以错误名返回 422；其余视为服务端错误
+        const revert = decodeRevert(error)
+        if (revert) {
+            send(response, 422, { error: revert.name, message: revert.message })
+            return
+        }
+        send(response, 500, { error: 'InternalError', message: (error as Error).message })
+    }
+}
+
+/**
+ * @notice 创建只读 HTTP API 服务，所有数据都通过 client 实时从链上读取
+ * @dev 只接受 GET；响应均为 JSON，bigint 以十进制字符串表示，接口定义见 openApiDocument
+ */
+export const createApiServer = (client: SwapClient): Server =>
+    createServer((request, response) => void handle(client, request, response))
+
+export interface ApiServerOptions {
+    // 传 0 时由系统分配端口
+    port?: number
+    host?: string
+}
+
+/**
+ * @notice 创建并启动服务
+ * @return url 实际监听的地址，例如 http://127.0.0.1:3000
+ */
+export const startApiServer = async (
+    client: SwapClient,
+    { port = DEFAULT_API_PORT, host = '127.0.0.1' }: ApiServerOptions = {}
+): Promise<{ server: Server; url: string }> => {
+    const server = createApiServer(client)
+    server.listen(port, host)
+    await once(server, 'listening')
+    return { server, url: `http://${host}:${(server.address() as AddressInfo).port}` }
+}
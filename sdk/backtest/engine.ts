@@ -0,0 +1,196 @@
+import { type PositionValuation, type TokenAmounts, getMintAmounts, valuePosition } from '../analytics.js'
+import { MathError, getSqrtRatioAtTick, getTickAtSqrtRatio, requireThat } from '../math/index.js'
+import { type PoolState, applySwap, simulateSwap } from '../simulator.js'
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from '../utils.js'
+import type { TradeRecord } from './trades.js'
+
+/**
+ * @notice 候选的池子配置，对应 createPoolIfNecessary 的 fee / tickLower / tickUpper
+ */
+export interface BacktestCandidate {
+    // 报告中展示的名称，默认为 "fee [tickLower, tickUpper]"
+    name?: string
+    fee: number
+    tickLower: number
+    tickUpper: number
+    // 协议手续费比例，编码与 Pool.setFeeProtocol 相同，默认关闭
+    feeProtocol?: number
+}
+
+export interface BacktestOptions {
+    // 建池时的初始价格，所有候选相同
+    sqrtPriceX96: bigint
+    // 我方在每个候选池子中的期望投入，按 PositionManager.mint 的方式注入
+    deposit: TokenAmounts
+    // 同一池子中其他做市者的流动性，默认 0，即只有我方的头寸承接交易
+    otherLiquidity?: bigint
+}
+
+/**
+ * @notice 单个候选配置的回测结果
+ * @dev valuation 以该候选池子重放结束时的价格计算，deposit 为实际投入的数量
+ */
+export interface BacktestReport {
+    name: string
+    fee: number
+    tickLower: number
+    tickUpper: number
+    // 我方头寸的流动性
+    liquidity: bigint
+    deposit: TokenAmounts
+    // 完全成交、部分成交（价格到达区间边界）与未成交的交易笔数
+    filled: number
+    partial: number
+    unfilled: number
+    // 池子收到的输入代币数量，含手续费
+    volume0: bigint
+    volume1: bigint
+    // 价格严格处于区间内的时间占比（0 到 1），区间边界上的头寸只持有一种代币且不再赚取该方向的手续费
+    timeInRange: number
+    sqrtPriceX96: bigint
+    tick: number
+    valuation: PositionValuation
+}
+
+/**
+ * @notice 按时间顺序在每个候选池子上重放交易，统计 LP 的手续费收入、在区间内的时间、最终持仓与相对持有的盈亏
+ * @dev 每个候选都是一个独立的新池子：初始价格相同，流动性为我方头寸加 otherLiquidity，
+ *      交易以不限价的方式（与 SwapRouter 传入 MIN_SQRT_RATIO + 1 / MAX_SQRT_RATIO - 1 相同）经 simulateSwap 执行。
+ *      交易改变的是候选池子自身的价格，区间与流动性不同的候选最终价格也不同
+ */
+export const runBacktest = (
+    trades: TradeRecord[],
+    candidates: BacktestCandidate[],
+    options: BacktestOptions
+): BacktestReport[] => {
+    for (let i = 1; i < trades.length; i++) {
+        if (trades[i].timestamp < trades[i - 1].timestamp) {
+            throw new Error(`Trades must be ordered by timestamp, trade ${i} is earlier than trade ${i - 1}`)
+        }
+    }
+    return candidates.map((candidate) => backtestCandidate(trades, candidate, options))
+}
+
+const backtestCandidate = (
+    trades: TradeRecord[],
+    candidate: BacktestCandidate,
+    options: BacktestOptions
+): BacktestReport => {
+    const { fee, tickLower, tickUpper } = candidate
+    const name = candidate.name ?? `${fee} [${tickLower}, ${tickUpper}]`
+    // 与 Pool.initialize 的检查一致
+    const initialTick = getTickAtSqrtRatio(options.sqrtPriceX96)
+    requireThat(initialTick >= tickLower && initialTick < tickUpper, 'InitialTickOutOfRange')
+
+    const minted = getMintAmounts(
+        options.sqrtPriceX96,
+        tickLower,
+        tickUpper,
+        options.deposit.amount0,
+        options.deposit.amount1
+    )
+    let state: PoolState & { tick: number } = {
+        sqrtPriceX96: options.sqrtPriceX96,
+        tick: initialTick,
+        liquidity: minted.liquidity + (options.otherLiquidity ?? 0n),
+        fee,
+        tickLower,
+        tickUpper,
+        feeProtocol: candidate.feeProtocol ?? 0,
+        feeGrowthGlobal0X128: 0n,
+        feeGrowthGlobal1X128: 0n
+    }
+
+    const sqrtLowerX96 = getSqrtRatioAtTick(tickLower)
+    const sqrtUpperX96 = getSqrtRatioAtTick(tickUpper)
+    const inRange = () => state.sqrtPriceX96 > sqrtLowerX96 && state.sqrtPriceX96 < sqrtUpperX96
+    let filled = 0
+    let partial = 0
+    let unfilled = 0
+    let volume0 = 0n
+    let volume1 = 0n
+    // 第 i 笔交易后的价格一直保持到第 i + 1 笔交易
+    let elapsed = 0n
+    let elapsedInRange = 0n
+    let tradesInRange = 0
+
+    trades.forEach((trade, i) => {
+        const { zeroForOne, amountSpecified } = trade
+        try {
+            const result = simulateSwap(state, {
+                zeroForOne,
+                amountSpecified,
+                sqrtPriceLimitX96: zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n
+            })
+            state = applySwap(state, result)
+            volume0 += result.amount0 > 0n ? result.amount0 : 0n
+            volume1 += result.amount1 > 0n ? result.amount1 : 0n
+            // 精确输入比较实际输入，精确输出比较实际输出
+            const executed = amountSpecified > 0n === zeroForOne ? result.amount0 : result.amount1
+            if (executed === amountSpecified) {
+                filled++
+            } else if (executed === 0n) {
+                unfilled++
+            } else {
+                partial++
+            }
+        } catch (error) {
+            // 合约同样会 revert 的交易不改变池子状态
+            if (!(error instanceof MathError)) {
+                throw error
+            }
+            unfilled++
+        }
+        if (inRange()) {
+            tradesInRange++
+        }
+        if (i + 1 < trades.length) {
+            const duration = trades[i + 1].timestamp - trade.timestamp
+            elapsed += duration
+            elapsedInRange += inRange() ? duration : 0n
+        }
+    })
+
+    // 交易全部发生在同一时刻时按笔数计算
+    const timeInRange =
+        elapsed > 0n
+            ? Number(elapsedInRange) / Number(elapsed)
+            : trades.length > 0
+              ? tradesInRange / trades.length
+              : Number(inRange())
+    const deposit = { amount0: minted.amount0, amount1: minted.amount1 }
+    const valuation = valuePosition(
+        {
+            liquidity: minted.liquidity,
+            tickLower,
+            tickUpper,
+            tokensOwed0: 0n,
+            tokensOwed1: 0n,
+            feeGrowthInside0LastX128: 0n,
+            feeGrowthInside1LastX128: 0n
+        },
+        {
+            sqrtPriceX96: state.sqrtPriceX96,
+            feeGrowthGlobal0X128: state.feeGrowthGlobal0X128!,
+            feeGrowthGlobal1X128: state.feeGrowthGlobal1X128!
+        },
+        deposit
+    )
+    return {
+        name,
+        fee,
+        tickLower,
+        tickUpper,
+        liquidity: minted.liquidity,
+        deposit,
+        filled,
+        partial,
+        unfilled,
+        volume0,
+        volume1,
+        timeInRange,
+        sqrtPriceX96: state.sqrtPriceX96,
+        tick: state.tick,
+        valuation
+    }
+}
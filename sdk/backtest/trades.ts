@@ -0,0 +1,116 @@
+import type { Address } from 'viem'
+
+import type { IndexedEvent } from '../indexer/store.js'
+import { isSameAddress } from '../utils.js'
+
+/**
+ * @notice 回测中重放的一笔交易
+ * @dev amountSpecified 与 Pool.swap 相同：正数为精确输入，负数为精确输出
+ */
+export interface TradeRecord {
+    // 秒级时间戳，按时间加权计算价格处于区间内的比例
+    timestamp: bigint
+    zeroForOne: boolean
+    amountSpecified: bigint
+}
+
+export type TradeLogFormat = 'json' | 'csv'
+
+const CSV_COLUMNS = ['timestamp', 'zeroForOne', 'amountSpecified'] as const
+
+const parseInteger = (value: unknown, field: string, location: string): bigint => {
+    const text = typeof value === 'number' || typeof value === 'bigint' ? String(value) : value
+    if (typeof text !== 'string' || !/^-?\d+$/.test(text.trim())) {
+        throw new Error(`Invalid ${field} ${JSON.stringify(value)} at ${location}`)
+    }
+    return BigInt(text.trim())
+}
+
+const parseBoolean = (value: unknown, location: string): boolean => {
+    const text = String(value).trim().toLowerCase()
+    if (text === 'true' || text === '1') {
+        return true
+    }
+    if (text === 'false' || text === '0') {
+        return false
+    }
+    throw new Error(`Invalid zeroForOne ${JSON.stringify(value)} at ${location}`)
+}
+
+const toTrade = (fields: Record<string, unknown>, location: string): TradeRecord => {
+    const trade = {
+        timestamp: parseInteger(fields.timestamp, 'timestamp', location),
+        zeroForOne: parseBoolean(fields.zeroForOne, location),
+        amountSpecified: parseInteger(fields.amountSpecified, 'amountSpecified', location)
+    }
+    // Pool.swap 对 0 数量 revert，记录中出现 0 说明数据有误
+    if (trade.amountSpecified === 0n) {
+        throw new Error(`Zero amountSpecified at ${location}`)
+    }
+    return trade
+}
+
+/**
+ * @notice 解析交易记录文件
+ * @dev JSON 为对象数组；CSV 首行为表头，需包含 timestamp、zeroForOne、amountSpecified 三列，# 开头的行为注释。
+ *      整数字段可以是数字或十进制字符串，zeroForOne 可以是 true / false / 1 / 0
+ */
+export const parseTradeLog = (content: string, format: TradeLogFormat): TradeRecord[] => {
+    if (format === 'json') {
+        const records: unknown = JSON.parse(content)
+        if (!Array.isArray(records)) {
+            throw new Error('Trade log must be a JSON array')
+        }
+        return records.map((record, i) => toTrade(record, `record ${i}`))
+    }
+
+    const lines = content
+        .split(/\r?\n/)
+        .map((line, i) => ({ text: line.trim(), location: `line ${i + 1}` }))
+        .filter(({ text }) => text && !text.startsWith('#'))
+    if (lines.length === 0) {
+        return []
+    }
+    const header = lines[0].text.split(',').map((column) => column.trim())
+    const missing = CSV_COLUMNS.filter((column) => !header.includes(column))
+    if (missing.length > 0) {
+        throw new Error(`Trade log is missing columns: ${missing.join(', ')}`)
+    }
+    return lines.slice(1).map(({ text, location }) => {
+        const cells = text.split(',')
+        if (cells.length !== header.length) {
+            throw new Error(`Expected ${header.length} columns at ${location}`)
+        }
+        return toTrade(Object.fromEntries(header.map((column, i) => [column, cells[i]])), location)
+    })
+}
+
+/**
+ * @notice 将 CSV 格式的交易记录序列化，与 parseTradeLog 互逆
+ */
+export const formatTradeLog = (trades: TradeRecord[]): string =>
+    [
+        CSV_COLUMNS.join(','),
+        ...trades.map((trade) => `${trade.timestamp},${trade.zeroForOne},${trade.amountSpecified}`)
+    ].join('\n') + '\n'
+
+/**
+ * @notice 从 EventIndexer 保存的 Pool.Swap 事件还原交易记录
+ * @dev 事件只记录实际成交的数量，统一还原为以实际输入为 amountSpecified 的精确输入交易；
+ *      精确输出交易在原池子上重放只有取整误差，换到其他池子时输出数量会不同。
+ *      索引中有多个池子的事件时需要传入 pool
+ */
+export const tradesFromSwapEvents = (events: IndexedEvent[], pool?: Address): TradeRecord[] => {
+    const swaps = events.filter((event) => event.type === 'Swap' && (!pool || isSameAddress(event.address, pool)))
+    if (!pool && new Set(swaps.map((event) => event.address.toLowerCase())).size > 1) {
+        throw new Error('Swap events of several pools found, pass the pool address')
+    }
+    return swaps
+        .map((event) => {
+            const amount0 = event.args.amount0 as bigint
+            const amount1 = event.args.amount1 as bigint
+            const zeroForOne = amount0 > 0n
+            return { timestamp: event.timestamp, zeroForOne, amountSpecified: zeroForOne ? amount0 : amount1 }
+        })
+        .filter((trade) => trade.amountSpecified > 0n)
+}
@@ -0,0 +1,1407 @@
+import {
+    type Account,
+    type Address,
+    type Hash,
+    type Hex,
+    type PublicClient,
+    type WalletClient,
+    getAbiItem,
+    maxUint128,
+    parseEventLogs,
+    zeroAddress
+} from 'viem'
+
+import {
+    erc20Abi,
+    multicallAbi,
+    poolAbi,
+    poolManagerAbi,
+    positionManagerAbi,
+    positionMigratorAbi,
+    swapRouterAbi
+} from './abis.js'
+import { type PositionValuation, type TokenAmounts, valuePosition } from './analytics.js'
+import { type PositionMetadata, decodePositionMetadata } from './metadata.js'
+import { type RebalanceSwap, getRebalanceSwap } from './migration.js'
+import { type MulticallBuilder, type MulticallTarget, positionManagerMulticall } from './multicall.js'
+import { type Twap, getTwap } from './oracle.js'
+import {
+    type PageOptions,
+    type PositionPageOptions,
+    collectAll,
+    iteratePools,
+    iteratePositions
+} from './pagination.js'
+import { decodePath } from './path.js'
+import { EMPTY_PERMIT, type PermitSignature, signPermit } from './permit.js'
+import { deadlineFromChain, maximumAmountIn, minimumAmountOut } from './policy.js'
+import { type Route, type RouteParams, buildRouteCalls, findBestRoute } from './routing.js'
+import {
+    decodeFeeProtocol,
+    defaultSqrtPriceLimitX96,
+    invertSqrtPriceX96,
+    isETH,
+    isSameAddress,
+    sortTokens
+} from './utils.js'
+
+// 已部署的外围合约地址
+export interface SwapAddresses {
+    poolManager: Address
+    swapRouter: Address
+    positionManager: Address
+    // 只有 migratePosition 需要
+    positionMigrator?: Address
+    // 只有 API 服务的 /quote 需要
+    quoter?: Address
+}
+
+export interface SwapClientConfig {
+    publicClient: PublicClient
+    // 只读场景下可以不传
+    walletClient?: WalletClient
+    addresses: SwapAddresses
+    // 交易有效期（秒），基于链上时间计算，默认 20 分钟
+    deadlineSeconds?: bigint
+}
+
+export interface PoolInfo {
+    pool: Address
+    token0: Address
+    token1: Address
+    index: number
+    fee: number
+    feeProtocol: number
+    tickLower: number
+    tickUpper: number
+    tick: number
+    liquidity: bigint
+    sqrtPriceX96: bigint
+}
+
+export interface PositionInfo {
+    id: bigint
+    owner: Address
+    token0: Address
+    token1: Address
+    index: number
+    fee: number
+    liquidity: bigint
+    tickLower: number
+    tickUpper: number
+    tokensOwed0: bigint
+    tokensOwed1: bigint
+    feeGrowthInside0LastX128: bigint
+    feeGrowthInside1LastX128: bigint
+}
+
+/**
+ * @notice 创建池子的参数
+ * @dev tickLower / tickUpper / sqrtPriceX96 均以 "tokenB 计价的 tokenA 价格" 表示，
+ *      若 tokenA 地址较大，SDK 会自动换算为合约要求的 token1/token0 方向
+ */
+export interface CreatePoolParams {
+    tokenA: Address
+    tokenB: Address
+    fee: number
+    tickLower: number
+    tickUpper: number
+    sqrtPriceX96: bigint
+}
+
+// tokenA / tokenB / tokenIn / tokenOut 均可传 ETH 哨兵地址，SDK 会替换为 WETH9 并随交易发送或接收原生 ETH
+export interface AddLiquidityParams {
+    tokenA: Address
+    tokenB: Address
+    index: number
+    amountADesired: bigint
+    amountBDesired: bigint
+    recipient?: Address
+    deadline?: bigint
+    // 是否在余额授权不足时自动 approve，默认 true
+    approve?: boolean
+    // 以 EIP-2612 permit 签名代替 approve（代币需支持 permit），开启时忽略 approve
+    permit?: boolean
+}
+
+// 数量按头寸的 token0 / token1 顺序传入
+export interface IncreaseLiquidityParams {
+    positionId: bigint
+    amount0Desired: bigint
+    amount1Desired: bigint
+    // 实际投入数量的下限，默认 0
+    amount0Min?: bigint
+    amount1Min?: bigint
+    deadline?: bigint
+    // 是否在余额授权不足时自动 approve，默认 true
+    approve?: boolean
+    // 头寸包含 WETH9 时以原生 ETH 支付该侧，未用完的部分由合约退还
+    useETH?: boolean
+}
+
+export interface DecreaseLiquidityParams {
+    positionId: bigint
+    liquidity: bigint
+    // 取出数量的下限，默认 0
+    amount0Min?: bigint
+    amount1Min?: bigint
+    deadline?: bigint
+}
+
+export interface MigratePositionParams {
+    positionId: bigint
+    // 同一代币对中目标池子的索引
+    targetIndex: number
+    // 再平衡交易的输出下限与新头寸投入数量下限允许的滑点（基点），默认 0
+    slippageBps?: number
+    // 再平衡交易使用的池子索引，默认该代币对中除原池子外的全部池子
+    swapIndexPath?: number[]
+    recipient?: Address
+    deadline?: bigint
+    // 是否在 PositionMigrator 未被授权时自动 approve 该头寸，默认 true
+    approve?: boolean
+}
+
+export interface QuoteParams {
+    tokenIn: Address
+    tokenOut: Address
+    // exactIn 时为输入数量，exactOut 时为期望的输出数量
+    amount: bigint
+    side?: 'exactIn' | 'exactOut'
+    // 默认按池子索引顺序遍历该代币对的全部池子
+    indexPath?: number[]
+    sqrtPriceLimitX96?: bigint
+}
+
+export interface SwapExactInParams {
+    tokenIn: Address
+    tokenOut: Address
+    amountIn: bigint
+    // 不传时以报价结果扣除 slippageBps 作为下限
+    amountOutMinimum?: bigint
+    // 未指定 amountOutMinimum 时允许的滑点（基点），默认 0
+    slippageBps?: number
+    indexPath?: number[]
+    recipient?: Address
+    deadline?: bigint
+    sqrtPriceLimitX96?: bigint
+    approve?: boolean
+    // 以 EIP-2612 permit 签名代替 approve，开启时忽略 approve
+    permit?: boolean
+}
+
+export interface SwapExactOutParams {
+    tokenIn: Address
+    tokenOut: Address
+    amountOut: bigint
+    // 不传时以报价结果加上 slippageBps 作为上限
+    amountInMaximum?: bigint
+    // 未指定 amountInMaximum 时允许的滑点（基点），默认 0
+    slippageBps?: number
+    indexPath?: number[]
+    recipient?: Address
+    deadline?: bigint
+    sqrtPriceLimitX96?: bigint
+    approve?: boolean
+    // 以 EIP-2612 permit 签名代替 approve，开启时忽略 approve
+    permit?: boolean
+}
+
+// path 由 encodePath 编码，精确输入与精确输出均按交易方向排列
+export interface MultihopQuoteParams {
+    path: Hex
+    amount: bigint
+    side?: 'exactIn' | 'exactOut'
+}
+
+export interface SwapExactInMultihopParams {
+    path: Hex
+    amountIn: bigint
+    // 不传时以报价结果扣除 slippageBps 作为下限
+    amountOutMinimum?: bigint
+    // 未指定 amountOutMinimum 时允许的滑点（基点），默认 0
+    slippageBps?: number
+    recipient?: Address
+    deadline?: bigint
+    approve?: boolean
+}
+
+export interface SwapExactOutMultihopParams {
+    path: Hex
+    amountOut: bigint
+    // 不传时以报价结果加上 slippageBps 作为上限
+    amountInMaximum?: bigint
+    // 未指定 amountInMaximum 时允许的滑点（基点），默认 0
+    slippageBps?: number
+    recipient?: Address
+    deadline?: bigint
+    approve?: boolean
+}
+
+export interface SwapRouteOptions {
+    recipient?: Address
+    deadline?: bigint
+    approve?: boolean
+}
+
+/**
+ * @notice 池子的协议手续费设置与累计未提取的数量
+ * @dev feeProtocol0 / feeProtocol1 为 N 时协议收取对应代币手续费的 1/N，0 表示关闭
+ */
+export interface ProtocolFeeInfo {
+    pool: Address
+    feeProtocol0: number
+    feeProtocol1: number
+    protocolFees0: bigint
+    protocolFees1: bigint
+}
+
+/**
+ * @notice closePositions 中单个头寸的结果
+ * @dev burned 为移除的本金，collected 为实际提取的数量（本金加上累计的手续费）
+ */
+export interface ClosedPosition {
+    positionId: bigint
+    burned: TokenAmounts
+    collected: TokenAmounts
+}
+
+const DEFAULT_DEADLINE_SECONDS = 20n * 60n
+
+/**
+ * @title SwapClient
+ * @notice 基于 viem 对 PoolManager / SwapRouter / PositionManager 的类型化封装
+ * @dev 负责代币排序、池子索引查找、deadline 计算与授权，调用方只需关心 tokenA/tokenB 与数量
+ */
+export class SwapClient {
+    readonly publicClient: PublicClient
+    readonly walletClient?: WalletClient
+    readonly addresses: SwapAddresses
+    readonly deadlineSeconds: bigint
+    private wethAddress?: Promise<Address>
+
+    constructor(config: SwapClientConfig) {
+        this.publicClient = config.publicClient
+        this.walletClient = config.walletClient
+        this.addresses = config.addresses
+        this.deadlineSeconds = config.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS
+    }
+
+    // 发送交易所使用的账户
+    get account(): Account {
+        const account = this.walletClient?.account
+        if (!account) {
+            throw new Error('SwapClient: wallet client with account required')
+        }
+        return account
+    }
+
+    /**
+     * @notice 基于最新区块时间（秒）计算 deadline
+     * @param seconds 有效期，默认使用 deadlineSeconds
+     */
+    deadline(seconds: bigint = this.deadlineSeconds): Promise<bigint> {
+        return deadlineFromChain(this.publicClient, seconds)
+    }
+
+    /**
+     * @notice SwapRouter 使用的 WETH9 地址，首次调用时从链上读取
+     */
+    weth(): Promise<Address> {
+        this.wethAddress ??= this.publicClient.readContract({
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            functionName: 'WETH9'
+        })
+        return this.wethAddress
+    }
+
+    /**
+     * @notice 将 ETH 哨兵地址替换为 WETH9，其余地址原样返回
+     */
+    async resolveToken(token: Address): Promise<Address> {
+        return isETH(token) ? this.weth() : token
+    }
+
+    // ---------- 池子查询 ----------
+
+    /**
+     * @notice 按创建顺序分页读取全部池子
+     */
+    async getPools(pageSize?: number): Promise<PoolInfo[]> {
+        return collectAll(this.iteratePools({ pageSize }))
+    }
+
+    /**
+     * @notice 按创建顺序逐页遍历池子，适合池子很多、不需要一次读完的场景
+     */
+    iteratePools(options?: PageOptions): AsyncGenerator<PoolInfo, void, undefined> {
+        return iteratePools(this.publicClient, this.addresses.poolManager, options)
+    }
+
+    /**
+     * @notice 查询某个代币对下的全部池子，按 index 升序
+     */
+    async getPairPools(tokenA: Address, tokenB: Address): Promise<PoolInfo[]> {
+        const [token0, token1] = sortTokens(await this.resolveToken(tokenA), await this.resolveToken(tokenB))
+        const pools = await this.getPools()
+        return pools
+            .filter((pool) => isSameAddress(pool.token0, token0) && isSameAddress(pool.token1, token1))
+            .sort((a, b) => a.index - b.index)
+    }
+
+    /**
+     * @notice 按地址查找池子，不是 PoolManager 创建的池子时返回 undefined
+     * @dev 池子合约不记录自己的 index，需要逐页扫描 PoolManager 的池子列表
+     */
+    async findPool(pool: Address): Promise<PoolInfo | undefined> {
+        for await (const info of this.iteratePools()) {
+            if (isSameAddress(info.pool, pool)) {
+                return info
+            }
+        }
+        return undefined
+    }
+
+    async getPoolAddress(tokenA: Address, tokenB: Address, index: number): Promise<Address> {
+        return this.publicClient.readContract({
+            address: this.addresses.poolManager,
+            abi: poolManagerAbi,
+            functionName: 'getPool',
+            args: [tokenA, tokenB, index]
+        })
+    }
+
+    // ---------- 池子创建 ----------
+
+    /**
+     * @notice 创建（或复用已存在的）池子并初始化价格
+     * @return hash 交易哈希
+     * @return pool 池子地址
+     */
+    async createPool(params: CreatePoolParams): Promise<{ hash: Hash; pool: Address }> {
+        const [token0, token1, reversed] = sortTokens(
+            await this.resolveToken(params.tokenA),
+            await this.resolveToken(params.tokenB)
+        )
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.poolManager,
+            abi: poolManagerAbi,
+            functionName: 'createPoolIfNecessary',
+            args: [
+                {
+                    token0,
+                    token1,
+                    fee: params.fee,
+                    // 反向时价格取倒数，区间随之镜像
+                    tickLower: reversed ? -params.tickUpper : params.tickLower,
+                    tickUpper: reversed ? -params.tickLower : params.tickUpper,
+                    sqrtPriceX96: reversed ? invertSqrtPriceX96(params.sqrtPriceX96) : params.sqrtPriceX96
+                }
+            ]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, pool: result }
+    }
+
+    // ---------- 流动性 ----------
+
+    /**
+     * @notice 通过 PositionManager 添加流动性并铸造头寸 NFT
+     * @return amountA / amountB 按调用方传入的 tokenA / tokenB 顺序返回实际投入数量
+     */
+    async addLiquidity(params: AddLiquidityParams): Promise<{
+        hash: Hash
+        positionId: bigint
+        liquidity: bigint
+        amountA: bigint
+        amountB: bigint
+    }> {
+        const [token0, token1, reversed] = sortTokens(
+            await this.resolveToken(params.tokenA),
+            await this.resolveToken(params.tokenB)
+        )
+        const [amount0Desired, amount1Desired] = reversed
+            ? [params.amountBDesired, params.amountADesired]
+            : [params.amountADesired, params.amountBDesired]
+        // ETH 一侧随交易发送，无需授权，未用完的部分由合约退还
+        const [eth0, eth1] = reversed
+            ? [isETH(params.tokenB), isETH(params.tokenA)]
+            : [isETH(params.tokenA), isETH(params.tokenB)]
+        const value = eth0 ? amount0Desired : eth1 ? amount1Desired : undefined
+
+        if (!params.permit && (params.approve ?? true)) {
+            if (!eth0) {
+                await this.ensureAllowance(token0, this.addresses.positionManager, amount0Desired)
+            }
+            if (!eth1) {
+                await this.ensureAllowance(token1, this.addresses.positionManager, amount1Desired)
+            }
+        }
+
+        const mintParams = {
+            token0,
+            token1,
+            index: params.index,
+            amount0Desired,
+            amount1Desired,
+            recipient: params.recipient ?? this.account.address,
+            deadline: params.deadline ?? (await this.deadline())
+        }
+        const contract = {
+            account: this.account,
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            value
+        }
+        let hash: Hash
+        let result: readonly [bigint, bigint, bigint, bigint]
+        if (params.permit) {
+            const { deadline } = mintParams
+            const simulation = await this.publicClient.simulateContract({
+                ...contract,
+                functionName: 'mintWithPermit',
+                args: [
+                    mintParams,
+                    await this.signPermit(token0, this.addresses.positionManager, eth0 ? 0n : amount0Desired, deadline),
+                    await this.signPermit(token1, this.addresses.positionManager, eth1 ? 0n : amount1Desired, deadline)
+                ]
+            })
+            hash = await this.confirm(this.wallet.writeContract(simulation.request))
+            result = simulation.result
+        } else {
+            const simulation = await this.publicClient.simulateContract({
+                ...contract,
+                functionName: 'mint',
+                args: [mintParams]
+            })
+            hash = await this.confirm(this.wallet.writeContract(simulation.request))
+            result = simulation.result
+        }
+        const [positionId, liquidity, amount0, amount1] = result
+        return {
+            hash,
+            positionId,
+            liquidity,
+            amountA: reversed ? amount1 : amount0,
+            amountB: reversed ? amount0 : amount1
+        }
+    }
+
+    /**
+     * @notice 按当前价格向已有头寸追加流动性，头寸此前的手续费先按原流动性结算进 tokensOwed
+     */
+    async increaseLiquidity(
+        params: IncreaseLiquidityParams
+    ): Promise<{ hash: Hash; liquidity: bigint; amount0: bigint; amount1: bigint }> {
+        const [id, , token0, token1] = await this.publicClient.readContract({
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'positions',
+            args: [params.positionId]
+        })
+        if (id === 0n) {
+            throw new Error(`SwapClient: position ${params.positionId} not found`)
+        }
+        const weth = params.useETH ? await this.weth() : undefined
+        const eth0 = weth !== undefined && isSameAddress(token0, weth)
+        const eth1 = weth !== undefined && isSameAddress(token1, weth)
+        if (params.useETH && !eth0 && !eth1) {
+            throw new Error(`SwapClient: position ${params.positionId} does not contain WETH9`)
+        }
+
+        if (params.approve ?? true) {
+            if (!eth0) {
+                await this.ensureAllowance(token0, this.addresses.positionManager, params.amount0Desired)
+            }
+            if (!eth1) {
+                await this.ensureAllowance(token1, this.addresses.positionManager, params.amount1Desired)
+            }
+        }
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'increaseLiquidity',
+            args: [
+                {
+                    positionId: params.positionId,
+                    amount0Desired: params.amount0Desired,
+                    amount1Desired: params.amount1Desired,
+                    amount0Min: params.amount0Min ?? 0n,
+                    amount1Min: params.amount1Min ?? 0n,
+                    deadline: params.deadline ?? (await this.deadline())
+                }
+            ],
+            value: eth0 ? params.amount0Desired : eth1 ? params.amount1Desired : undefined
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        const [liquidity, amount0, amount1] = result
+        return { hash, liquidity, amount0, amount1 }
+    }
+
+    /**
+     * @notice 移除头寸的部分流动性，代币计入 tokensOwed，需再调用 collect 提取
+     */
+    async decreaseLiquidity(
+        params: DecreaseLiquidityParams
+    ): Promise<{ hash: Hash; amount0: bigint; amount1: bigint }> {
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'decreaseLiquidity',
+            args: [
+                {
+                    positionId: params.positionId,
+                    liquidity: params.liquidity,
+                    amount0Min: params.amount0Min ?? 0n,
+                    amount1Min: params.amount1Min ?? 0n,
+                    deadline: params.deadline ?? (await this.deadline())
+                }
+            ]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amount0: result[0], amount1: result[1] }
+    }
+
+    /**
+     * @notice 移除头寸的全部流动性，代币计入 tokensOwed，需再调用 collect 提取
+     */
+    async removeLiquidity(positionId: bigint): Promise<{ hash: Hash; amount0: bigint; amount1: bigint }> {
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'burn',
+            args: [positionId]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amount0: result[0], amount1: result[1] }
+    }
+
+    /**
+     * @notice 提取头寸中应计的代币（包含移除的本金与手续费）
+     * @param unwrapETH 为 true 时 WETH9 一侧以原生 ETH 提取，头寸的代币对必须包含 WETH9
+     */
+    async collect(
+        positionId: bigint,
+        recipient: Address = this.account.address,
+        unwrapETH = false
+    ): Promise<{ hash: Hash; amount0: bigint; amount1: bigint }> {
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: unwrapETH ? 'collectToETH' : 'collect',
+            args: [positionId, recipient]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amount0: result[0], amount1: result[1] }
+    }
+
+    /**
+     * @notice 在一笔交易中移除多个头寸的全部流动性并提取代币，任一头寸失败时整笔交易回滚
+     * @param unwrapETH 为 true 时 WETH9 一侧以原生 ETH 提取，每个头寸的代币对都必须包含 WETH9
+     */
+    async closePositions(
+        positionIds: bigint[],
+        recipient: Address = this.account.address,
+        unwrapETH = false
+    ): Promise<{ hash: Hash; positions: ClosedPosition[] }> {
+        let builder: MulticallBuilder<'positionManager', readonly unknown[]> = positionManagerMulticall()
+        for (const positionId of positionIds) {
+            builder = builder
+                .add('burn', [positionId])
+                .add(unwrapETH ? 'collectToETH' : 'collect', [positionId, recipient])
+        }
+        const { hash, results } = await this.multicall(builder)
+        const amounts = results as (readonly [bigint, bigint])[]
+        const positions = positionIds.map((positionId, i) => {
+            const [burned0, burned1] = amounts[2 * i]
+            const [collected0, collected1] = amounts[2 * i + 1]
+            return {
+                positionId,
+                burned: { amount0: burned0, amount1: burned1 },
+                collected: { amount0: collected0, amount1: collected1 }
+            }
+        })
+        return { hash, positions }
+    }
+
+    /**
+     * @notice 通过 PositionMigrator 在一笔交易中把头寸迁移到同一代币对的另一个池子，原头寸 NFT 被销毁
+     * @dev 按原头寸可提取的数量与目标池子的当前价格估算再平衡交易，先模拟一次得到新头寸的实际投入，
+     *      再以扣除 slippageBps 后的数量作为下限发送交易；未投入的代币退还给 recipient
+     */
+    async migratePosition(params: MigratePositionParams): Promise<{
+        hash: Hash
+        positionId: bigint
+        liquidity: bigint
+        amount0: bigint
+        amount1: bigint
+        swap: RebalanceSwap
+    }> {
+        const migrator = this.addresses.positionMigrator
+        if (!migrator) {
+            throw new Error('SwapClient: positionMigrator address required')
+        }
+        const position = await this.findPosition(params.positionId)
+        if (!position) {
+            throw new Error(`SwapClient: position ${params.positionId} not found`)
+        }
+        const pools = await this.getPairPools(position.token0, position.token1)
+        const source = pools.find((pool) => pool.index === position.index)!
+        const target = pools.find((pool) => pool.index === params.targetIndex)
+        if (!target) {
+            throw new Error(`SwapClient: pool ${params.targetIndex} of ${position.token0}/${position.token1} not found`)
+        }
+        const slippageBps = params.slippageBps ?? 0
+
+        // 步骤1: 原头寸 burn + collect 后到账的数量
+        const pool = source.pool
+        const [feeGrowthGlobal0X128, feeGrowthGlobal1X128] = await Promise.all([
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeGrowthGlobal0X128' }),
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeGrowthGlobal1X128' })
+        ])
+        const { collectable0, collectable1 } = valuePosition(position, {
+            sqrtPriceX96: source.sqrtPriceX96,
+            feeGrowthGlobal0X128,
+            feeGrowthGlobal1X128
+        })
+
+        // 步骤2: 估算再平衡交易，原池子的流动性在交易前已被移除，默认不经过原池子
+        const swap = getRebalanceSwap({ amount0: collectable0, amount1: collectable1 }, target)
+        const swapIndexPath =
+            params.swapIndexPath ?? pools.map((item) => item.index).filter((index) => index !== position.index)
+        let swapAmountOutMinimum = 0n
+        if (swap.amountIn > 0n) {
+            const [tokenIn, tokenOut] = swap.zeroForOne
+                ? [position.token0, position.token1]
+                : [position.token1, position.token0]
+            const quoted = await this.quote({ tokenIn, tokenOut, amount: swap.amountIn, indexPath: swapIndexPath })
+            swapAmountOutMinimum = minimumAmountOut(quoted, slippageBps)
+        }
+
+        // 步骤3: 授权 PositionMigrator 操作该头寸
+        if (params.approve ?? true) {
+            await this.ensurePositionApproval(params.positionId, migrator)
+        }
+
+        // 步骤4: 先不设下限模拟得到实际投入，再按滑点设置下限发送交易
+        const migrateParams = {
+            positionId: params.positionId,
+            targetIndex: params.targetIndex,
+            zeroForOne: swap.zeroForOne,
+            swapAmountIn: swap.amountIn,
+            swapAmountOutMinimum,
+            swapIndexPath,
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: params.recipient ?? this.account.address,
+            deadline: params.deadline ?? (await this.deadline())
+        }
+        const simulated = await this.publicClient.simulateContract({
+            account: this.account,
+            address: migrator,
+            abi: positionMigratorAbi,
+            functionName: 'migrate',
+            args: [migrateParams]
+        })
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: migrator,
+            abi: positionMigratorAbi,
+            functionName: 'migrate',
+            args: [
+                {
+                    ...migrateParams,
+                    amount0Min: minimumAmountOut(simulated.result[2], slippageBps),
+                    amount1Min: minimumAmountOut(simulated.result[3], slippageBps)
+                }
+            ]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        const [positionId, liquidity, amount0, amount1] = result
+        return { hash, positionId, liquidity, amount0, amount1, swap }
+    }
+
+    /**
+     * @notice 通过外围合约的 multicall 在一笔交易中执行 builder 中的全部调用，并按顺序解码返回值
+     * @param value 随交易发送的 ETH，由各 payable 调用共用，剩余部分在交易结束时退还
+     */
+    async multicall<T extends MulticallTarget, TResults extends readonly unknown[]>(
+        builder: MulticallBuilder<T, TResults>,
+        value?: bigint
+    ): Promise<{ hash: Hash; results: TResults }> {
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses[builder.target],
+            abi: multicallAbi,
+            functionName: 'multicall',
+            args: [builder.encode()],
+            value
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, results: builder.decode(result) }
+    }
+
+    /**
+     * @notice 分页读取头寸：不传 owner 时返回全部头寸（含已销毁的），传入时只返回该地址当前持有的头寸
+     */
+    async listPositions(owner?: Address, pageSize?: number): Promise<PositionInfo[]> {
+        return collectAll(this.iteratePositions({ owner, pageSize }))
+    }
+
+    /**
+     * @notice 逐页遍历头寸，参数含义与 listPositions 相同
+     */
+    iteratePositions(options?: PositionPageOptions): AsyncGenerator<PositionInfo, void, undefined> {
+        return iteratePositions(this.publicClient, this.addresses.positionManager, options)
+    }
+
+    /**
+     * @notice 读取并解析头寸 NFT 的链上元数据，已销毁的头寸会 revert ERC721NonexistentToken
+     */
+    async getPositionMetadata(positionId: bigint): Promise<PositionMetadata> {
+        const tokenURI = await this.publicClient.readContract({
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'tokenURI',
+            args: [positionId]
+        })
+        return decodePositionMetadata(tokenURI)
+    }
+
+    /**
+     * @notice 读取单个头寸，id 不存在时返回 undefined；已销毁的头寸仍会返回，liquidity 为 0
+     */
+    async findPosition(positionId: bigint): Promise<PositionInfo | undefined> {
+        if (positionId < 1n) {
+            return undefined
+        }
+        // id 从 1 开始连续分配，第 id 个头寸位于 offset = id - 1
+        const [position] = await this.publicClient.readContract({
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'getPositions',
+            args: [positionId - 1n, 1n]
+        })
+        return position && { ...position }
+    }
+
+    /**
+     * @notice 头寸的累计投入：铸造该 NFT 的交易中 Pool 的 Mint 事件，加上之后每次 IncreaseLiquidity 的投入
+     * @dev 部分移除的本金计入 tokensOwed，仍包含在估值的 totalValue 中，因此不从投入中扣除
+     */
+    async getPositionDeposit(positionId: bigint): Promise<TokenAmounts> {
+        const [minted] = await this.publicClient.getLogs({
+            address: this.addresses.positionManager,
+            event: getAbiItem({ abi: positionManagerAbi, name: 'Transfer' }),
+            args: { from: zeroAddress, tokenId: positionId },
+            fromBlock: 0n
+        })
+        if (!minted) {
+            throw new Error(`SwapClient: position ${positionId} not found`)
+        }
+        const receipt = await this.publicClient.getTransactionReceipt({ hash: minted.transactionHash })
+        // PositionManager 先调用 pool.mint 再铸造 NFT，取 Transfer 之前最近的一次 Mint
+        const mint = parseEventLogs({ abi: poolAbi, eventName: 'Mint', logs: receipt.logs })
+            .filter((log) => isSameAddress(log.args.sender, this.addresses.positionManager))
+            .filter((log) => log.logIndex < minted.logIndex)
+            .at(-1)
+        if (!mint) {
+            throw new Error(`SwapClient: mint of position ${positionId} not found`)
+        }
+        const increases = await this.publicClient.getLogs({
+            address: this.addresses.positionManager,
+            event: getAbiItem({ abi: positionManagerAbi, name: 'IncreaseLiquidity' }),
+            args: { positionId },
+            fromBlock: minted.blockNumber,
+            strict: true
+        })
+        return increases.reduce(
+            (deposit, { args }) => ({
+                amount0: deposit.amount0 + args.amount0,
+                amount1: deposit.amount1 + args.amount1
+            }),
+            { amount0: mint.args.amount0, amount1: mint.args.amount1 }
+        )
+    }
+
+    /**
+     * @notice 头寸估值：当前代币数量、未领取手续费及相对持有的盈亏
+     * @param deposit 初始投入，不传时通过 getPositionDeposit 从链上事件查询
+     */
+    async getPositionValuation(positionId: bigint, deposit?: TokenAmounts): Promise<PositionValuation> {
+        const [id, , token0, token1, index, , liquidity, tickLower, tickUpper, owed0, owed1, growth0, growth1] =
+            await this.publicClient.readContract({
+                address: this.addresses.positionManager,
+                abi: positionManagerAbi,
+                functionName: 'positions',
+                args: [positionId]
+            })
+        if (id === 0n) {
+            throw new Error(`SwapClient: position ${positionId} not found`)
+        }
+        const pool = await this.getPoolAddress(token0, token1, index)
+        const [sqrtPriceX96, feeGrowthGlobal0X128, feeGrowthGlobal1X128] = await Promise.all([
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'sqrtPriceX96' }),
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeGrowthGlobal0X128' }),
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeGrowthGlobal1X128' })
+        ])
+        return valuePosition(
+            {
+                liquidity,
+                tickLower,
+                tickUpper,
+                tokensOwed0: owed0,
+                tokensOwed1: owed1,
+                feeGrowthInside0LastX128: growth0,
+                feeGrowthInside1LastX128: growth1
+            },
+            { sqrtPriceX96, feeGrowthGlobal0X128, feeGrowthGlobal1X128 },
+            deposit ?? (await this.getPositionDeposit(positionId))
+        )
+    }
+
+    // ---------- 交易 ----------
+
+    /**
+     * @notice 通过 SwapRouter 的 quote 接口估算交易结果
+     * @return exactIn 时返回输出数量，exactOut 时返回所需输入数量
+     */
+    async quote(params: QuoteParams): Promise<bigint> {
+        const tokenIn = await this.resolveToken(params.tokenIn)
+        const tokenOut = await this.resolveToken(params.tokenOut)
+        const indexPath = params.indexPath ?? (await this.defaultIndexPath(tokenIn, tokenOut))
+        const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? this.sqrtPriceLimit(tokenIn, tokenOut)
+        if ((params.side ?? 'exactIn') === 'exactIn') {
+            const { result } = await this.publicClient.simulateContract({
+                address: this.addresses.swapRouter,
+                abi: swapRouterAbi,
+                functionName: 'quoteExactInput',
+                args: [
+                    {
+                        tokenIn,
+                        tokenOut,
+                        indexPath,
+                        amountIn: params.amount,
+                        sqrtPriceLimitX96
+                    }
+                ]
+            })
+            return result
+        }
+        const { result } = await this.publicClient.simulateContract({
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            functionName: 'quoteExactOutput',
+            args: [
+                {
+                    tokenIn,
+                    tokenOut,
+                    indexPath,
+                    amountOut: params.amount,
+                    sqrtPriceLimitX96
+                }
+            ]
+        })
+        return result
+    }
+
+    /**
+     * @notice 精确输入交易
+     * @dev tokenIn 为 ETH 时按 amountIn 发送 ETH；tokenOut 为 ETH 时调用 exactInputToETH 以原生 ETH 接收输出
+     * @return amountOut 实际获得的输出数量
+     */
+    async swapExactIn(params: SwapExactInParams): Promise<{ hash: Hash; amountOut: bigint }> {
+        const [ethIn, ethOut] = [isETH(params.tokenIn), isETH(params.tokenOut)]
+        const tokenIn = await this.resolveToken(params.tokenIn)
+        const tokenOut = await this.resolveToken(params.tokenOut)
+        const indexPath = params.indexPath ?? (await this.defaultIndexPath(tokenIn, tokenOut))
+        const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? this.sqrtPriceLimit(tokenIn, tokenOut)
+        const amountOutMinimum =
+            params.amountOutMinimum ??
+            minimumAmountOut(
+                await this.quote({ tokenIn, tokenOut, amount: params.amountIn, indexPath, sqrtPriceLimitX96 }),
+                params.slippageBps ?? 0
+            )
+        const permit = params.permit && !ethIn
+        if (permit && ethOut) {
+            throw new Error('SwapClient: permit is not supported when swapping to ETH')
+        }
+
+        if (!permit && !ethIn && (params.approve ?? true)) {
+            await this.ensureAllowance(tokenIn, this.addresses.swapRouter, params.amountIn)
+        }
+
+        const swapParams = {
+            tokenIn,
+            tokenOut,
+            indexPath,
+            recipient: params.recipient ?? this.account.address,
+            deadline: params.deadline ?? (await this.deadline()),
+            amountIn: params.amountIn,
+            amountOutMinimum,
+            sqrtPriceLimitX96
+        }
+        const contract = {
+            account: this.account,
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            value: ethIn ? params.amountIn : undefined
+        }
+        if (permit) {
+            const signature = await this.signPermit(
+                tokenIn,
+                this.addresses.swapRouter,
+                params.amountIn,
+                swapParams.deadline
+            )
+            const { result, request } = await this.publicClient.simulateContract({
+                ...contract,
+                functionName: 'exactInputWithPermit',
+                args: [swapParams, signature]
+            })
+            return { hash: await this.confirm(this.wallet.writeContract(request)), amountOut: result }
+        }
+        if (ethOut) {
+            const { result, request } = await this.publicClient.simulateContract({
+                ...contract,
+                functionName: 'exactInputToETH',
+                args: [swapParams]
+            })
+            return { hash: await this.confirm(this.wallet.writeContract(request)), amountOut: result }
+        }
+        const { result, request } = await this.publicClient.simulateContract({
+            ...contract,
+            functionName: 'exactInput',
+            args: [swapParams]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amountOut: result }
+    }
+
+    /**
+     * @notice 精确输出交易
+     * @dev tokenIn 为 ETH 时按 amountInMaximum 发送 ETH，多余部分由合约退还；tokenOut 为 ETH 时调用 exactOutputToETH
+     * @return amountIn 实际支付的输入数量
+     */
+    async swapExactOut(params: SwapExactOutParams): Promise<{ hash: Hash; amountIn: bigint }> {
+        const [ethIn, ethOut] = [isETH(params.tokenIn), isETH(params.tokenOut)]
+        const tokenIn = await this.resolveToken(params.tokenIn)
+        const tokenOut = await this.resolveToken(params.tokenOut)
+        const indexPath = params.indexPath ?? (await this.defaultIndexPath(tokenIn, tokenOut))
+        const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? this.sqrtPriceLimit(tokenIn, tokenOut)
+        const amountInMaximum =
+            params.amountInMaximum ??
+            maximumAmountIn(
+                await this.quote({
+                    tokenIn,
+                    tokenOut,
+                    amount: params.amountOut,
+                    side: 'exactOut',
+                    indexPath,
+                    sqrtPriceLimitX96
+                }),
+                params.slippageBps ?? 0
+            )
+        const permit = params.permit && !ethIn
+        if (permit && ethOut) {
+            throw new Error('SwapClient: permit is not supported when swapping to ETH')
+        }
+
+        if (!permit && !ethIn && (params.approve ?? true)) {
+            await this.ensureAllowance(tokenIn, this.addresses.swapRouter, amountInMaximum)
+        }
+
+        const swapParams = {
+            tokenIn,
+            tokenOut,
+            indexPath,
+            recipient: params.recipient ?? this.account.address,
+            deadline: params.deadline ?? (await this.deadline()),
+            amountOut: params.amountOut,
+            amountInMaximum,
+            sqrtPriceLimitX96
+        }
+        const contract = {
+            account: this.account,
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            value: ethIn ? amountInMaximum : undefined
+        }
+        if (permit) {
+            const signature = await this.signPermit(
+                tokenIn,
+                this.addresses.swapRouter,
+                amountInMaximum,
+                swapParams.deadline
+            )
+            const { result, request } = await this.publicClient.simulateContract({
+                ...contract,
+                functionName: 'exactOutputWithPermit',
+                args: [swapParams, signature]
+            })
+            return { hash: await this.confirm(this.wallet.writeContract(request)), amountIn: result }
+        }
+        if (ethOut) {
+            const { result, request } = await this.publicClient.simulateContract({
+                ...contract,
+                functionName: 'exactOutputToETH',
+                args: [swapParams]
+            })
+            return { hash: await this.confirm(this.wallet.writeContract(request)), amountIn: result }
+        }
+        const { result, request } = await this.publicClient.simulateContract({
+            ...contract,
+            functionName: 'exactOutput',
+            args: [swapParams]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amountIn: result }
+    }
+
+    /**
+     * @notice 估算多跳交易结果
+     * @return exactIn 时返回最终输出数量，exactOut 时返回所需输入数量
+     */
+    async quoteMultihop(params: MultihopQuoteParams): Promise<bigint> {
+        const exactIn = (params.side ?? 'exactIn') === 'exactIn'
+        const { result } = await this.publicClient.simulateContract({
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            functionName: exactIn ? 'quoteExactInputMultihop' : 'quoteExactOutputMultihop',
+            args: [params.path, params.amount]
+        })
+        return result
+    }
+
+    /**
+     * @notice 多跳精确输入交易，整条路径只校验一次输出下限
+     * @return amountOut 最终获得的输出数量
+     */
+    async swapExactInMultihop(params: SwapExactInMultihopParams): Promise<{ hash: Hash; amountOut: bigint }> {
+        const amountOutMinimum =
+            params.amountOutMinimum ??
+            minimumAmountOut(
+                await this.quoteMultihop({ path: params.path, amount: params.amountIn }),
+                params.slippageBps ?? 0
+            )
+
+        if (params.approve ?? true) {
+            const [tokenIn] = decodePath(params.path).tokens
+            await this.ensureAllowance(tokenIn, this.addresses.swapRouter, params.amountIn)
+        }
+
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            functionName: 'exactInputMultihop',
+            args: [
+                {
+                    path: params.path,
+                    recipient: params.recipient ?? this.account.address,
+                    deadline: params.deadline ?? (await this.deadline()),
+                    amountIn: params.amountIn,
+                    amountOutMinimum
+                }
+            ]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amountOut: result }
+    }
+
+    /**
+     * @notice 多跳精确输出交易，整条路径只校验一次输入上限
+     * @return amountIn 实际支付的输入数量
+     */
+    async swapExactOutMultihop(params: SwapExactOutMultihopParams): Promise<{ hash: Hash; amountIn: bigint }> {
+        const amountInMaximum =
+            params.amountInMaximum ??
+            maximumAmountIn(
+                await this.quoteMultihop({ path: params.path, amount: params.amountOut, side: 'exactOut' }),
+                params.slippageBps ?? 0
+            )
+
+        if (params.approve ?? true) {
+            const [tokenIn] = decodePath(params.path).tokens
+            await this.ensureAllowance(tokenIn, this.addresses.swapRouter, amountInMaximum)
+        }
+
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.swapRouter,
+            abi: swapRouterAbi,
+            functionName: 'exactOutputMultihop',
+            args: [
+                {
+                    path: params.path,
+                    recipient: params.recipient ?? this.account.address,
+                    deadline: params.deadline ?? (await this.deadline()),
+                    amountOut: params.amountOut,
+                    amountInMaximum
+                }
+            ]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amountIn: result }
+    }
+
+    /**
+     * @notice 读取代币对下的全部池子并计算最优的 indexPath 与拆单方案
+     */
+    async findRoute(params: RouteParams): Promise<Route> {
+        const pools = await this.getPairPools(params.tokenIn, params.tokenOut)
+        return findBestRoute(pools, params)
+    }
+
+    /**
+     * @notice 按 findRoute 的结果发送交易，拆单时每个池子一笔
+     * @dev 每笔交易的滑点边界即模拟结果，池子状态在路由计算后发生变化时交易会 revert
+     * @return amountIn / amountOut 全部交易的合计
+     */
+    async swapRoute(
+        route: Route,
+        options: SwapRouteOptions = {}
+    ): Promise<{ hashes: Hash[]; amountIn: bigint; amountOut: bigint }> {
+        const calls = buildRouteCalls(route, {
+            recipient: options.recipient ?? this.account.address,
+            deadline: options.deadline ?? (await this.deadline())
+        })
+
+        if (options.approve ?? true) {
+            const total = calls.reduce(
+                (sum, call) =>
+                    sum + (call.functionName === 'exactInput' ? call.args[0].amountIn : call.args[0].amountInMaximum),
+                0n
+            )
+            await this.ensureAllowance(route.tokenIn, this.addresses.swapRouter, total)
+        }
+
+        const hashes: Hash[] = []
+        let amountIn = 0n
+        let amountOut = 0n
+        for (const call of calls) {
+            if (call.functionName === 'exactInput') {
+                const { result, request } = await this.publicClient.simulateContract({
+                    account: this.account,
+                    address: this.addresses.swapRouter,
+                    abi: swapRouterAbi,
+                    functionName: 'exactInput',
+                    args: call.args
+                })
+                hashes.push(await this.confirm(this.wallet.writeContract(request)))
+                amountOut += result
+            } else {
+                const { result, request } = await this.publicClient.simulateContract({
+                    account: this.account,
+                    address: this.addresses.swapRouter,
+                    abi: swapRouterAbi,
+                    functionName: 'exactOutput',
+                    args: call.args
+                })
+                hashes.push(await this.confirm(this.wallet.writeContract(request)))
+                amountIn += result
+            }
+        }
+        // 另一侧的数量以路由模拟结果为准（交易按模拟边界执行）
+        return route.side === 'exactIn'
+            ? { hashes, amountIn: route.amountIn, amountOut }
+            : { hashes, amountIn, amountOut: route.amountOut }
+    }
+
+    // ---------- 协议手续费 ----------
+
+    /**
+     * @notice PoolManager 的 owner，只有它可以设置和提取协议手续费
+     */
+    async getOwner(): Promise<Address> {
+        return this.publicClient.readContract({
+            address: this.addresses.poolManager,
+            abi: poolManagerAbi,
+            functionName: 'owner'
+        })
+    }
+
+    async getProtocolFees(pool: Address): Promise<ProtocolFeeInfo> {
+        const [feeProtocol, [protocolFees0, protocolFees1]] = await Promise.all([
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeProtocol' }),
+            this.publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'protocolFees' })
+        ])
+        const [feeProtocol0, feeProtocol1] = decodeFeeProtocol(feeProtocol)
+        return { pool, feeProtocol0, feeProtocol1, protocolFees0, protocolFees1 }
+    }
+
+    /**
+     * @notice 设置池子的协议手续费比例，需由 PoolManager 的 owner 发送
+     * @param feeProtocol0 token0 手续费的协议比例，0（关闭）或 4~10
+     * @param feeProtocol1 token1 手续费的协议比例，0（关闭）或 4~10
+     */
+    async setFeeProtocol(pool: Address, feeProtocol0: number, feeProtocol1: number): Promise<Hash> {
+        const { request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: pool,
+            abi: poolAbi,
+            functionName: 'setFeeProtocol',
+            args: [feeProtocol0, feeProtocol1]
+        })
+        return this.confirm(this.wallet.writeContract(request))
+    }
+
+    /**
+     * @notice 提取池子累计的全部协议手续费，需由 PoolManager 的 owner 发送
+     */
+    async collectProtocol(
+        pool: Address,
+        recipient: Address = this.account.address
+    ): Promise<{ hash: Hash; amount0: bigint; amount1: bigint }> {
+        const { result, request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: pool,
+            abi: poolAbi,
+            functionName: 'collectProtocol',
+            args: [recipient, maxUint128, maxUint128]
+        })
+        const hash = await this.confirm(this.wallet.writeContract(request))
+        return { hash, amount0: result[0], amount1: result[1] }
+    }
+
+    // ---------- 价格预言机 ----------
+
+    /**
+     * @notice 池子在 [secondsAgo, secondsAgoEnd] 秒前区间内的时间加权平均 tick 与价格
+     */
+    async getTwap(pool: Address, secondsAgo: number, secondsAgoEnd = 0): Promise<Twap> {
+        return getTwap(this.publicClient, pool, { secondsAgo, secondsAgoEnd })
+    }
+
+    /**
+     * @notice 扩展池子的观测缓冲区，使其能回溯更长的时间
+     * @dev 每个区块最多记录一条观测，需要的长度约为最长查询区间内发生价格变化的区块数
+     */
+    async increaseObservationCardinality(pool: Address, observationCardinalityNext: number): Promise<Hash> {
+        const { request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: pool,
+            abi: poolAbi,
+            functionName: 'increaseObservationCardinalityNext',
+            args: [observationCardinalityNext]
+        })
+        return this.confirm(this.wallet.writeContract(request))
+    }
+
+    // ---------- 授权 ----------
+
+    /**
+     * @notice 当 operator 既未被授权操作该头寸、也不是持有者的全局 operator 时 approve 该头寸
+     * @return 发送的 approve 交易哈希，无需授权时返回 undefined
+     */
+    async ensurePositionApproval(positionId: bigint, operator: Address): Promise<Hash | undefined> {
+        const owner = await this.publicClient.readContract({
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'ownerOf',
+            args: [positionId]
+        })
+        const [approved, approvedForAll] = await Promise.all([
+            this.publicClient.readContract({
+                address: this.addresses.positionManager,
+                abi: positionManagerAbi,
+                functionName: 'getApproved',
+                args: [positionId]
+            }),
+            this.publicClient.readContract({
+                address: this.addresses.positionManager,
+                abi: positionManagerAbi,
+                functionName: 'isApprovedForAll',
+                args: [owner, operator]
+            })
+        ])
+        if (isSameAddress(approved, operator) || approvedForAll) {
+            return undefined
+        }
+        const { request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: this.addresses.positionManager,
+            abi: positionManagerAbi,
+            functionName: 'approve',
+            args: [operator, positionId]
+        })
+        return this.confirm(this.wallet.writeContract(request))
+    }
+
+    /**
+     * @notice 当授权额度不足时 approve 指定数量
+     * @return 发送的 approve 交易哈希，无需授权时返回 undefined
+     */
+    async ensureAllowance(token: Address, spender: Address, amount: bigint): Promise<Hash | undefined> {
+        if (amount === 0n) {
+            return undefined
+        }
+        const allowance = await this.publicClient.readContract({
+            address: token,
+            abi: erc20Abi,
+            functionName: 'allowance',
+            args: [this.account.address, spender]
+        })
+        if (allowance >= amount) {
+            return undefined
+        }
+        const { request } = await this.publicClient.simulateContract({
+            account: this.account,
+            address: token,
+            abi: erc20Abi,
+            functionName: 'approve',
+            args: [spender, amount]
+        })
+        return this.confirm(this.wallet.writeContract(request))
+    }
+
+    /**
+     * @notice 以当前账户签名 EIP-2612 permit
+     * @return 数量为 0 时返回 EMPTY_PERMIT，合约会跳过该代币的 permit
+     */
+    async signPermit(token: Address, spender: Address, value: bigint, deadline: bigint): Promise<PermitSignature> {
+        if (value === 0n) {
+            return EMPTY_PERMIT
+        }
+        return signPermit(this.publicClient, this.wallet, { token, spender, value, deadline })
+    }
+
+    // ---------- 内部工具 ----------
+
+    // 代币对下全部池子的索引，按 index 升序
+    private async defaultIndexPath(tokenIn: Address, tokenOut: Address): Promise<number[]> {
+        const pools = await this.getPairPools(tokenIn, tokenOut)
+        if (pools.length === 0) {
+            throw new Error('SwapClient: pool not found')
+        }
+        return pools.map((pool) => pool.index)
+    }
+
+    private sqrtPriceLimit(tokenIn: Address, tokenOut: Address): bigint {
+        const [, , reversed] = sortTokens(tokenIn, tokenOut)
+        return defaultSqrtPriceLimitX96(!reversed)
+    }
+
+    private get wallet(): WalletClient {
+        if (!this.walletClient) {
+            throw new Error('SwapClient: wallet client with account required')
+        }
+        return this.walletClient
+    }
+
+    // 等待已发送的交易上链并校验执行结果
+    private async confirm(pending: Promise<Hash>): Promise<Hash> {
+        const hash = await pending
+        const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
+        if (receipt.status !== 'success') {
+            throw new Error(`SwapClient: transaction ${hash} reverted`)
+        }
+        return hash
+    }
+}
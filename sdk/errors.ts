@@ -0,0 +1,191 @@
+import {
+    type AbiParameterToPrimitiveType,
+    BaseError,
+    ContractFunctionRevertedError,
+    type Hex,
+    decodeErrorResult,
+    isHex,
+    parseAbi,
+    size
+} from 'viem'
+
+import { swapErrorsAbi } from './abis.js'
+
+// 编译器内置的两种错误，decodeErrorResult 也能识别，这里显式声明以得到参数类型
+const builtinErrorsAbi = parseAbi(['error Error(string reason)', 'error Panic(uint256 code)'])
+
+type SwapErrorAbiItem = (typeof swapErrorsAbi)[number]
+
+export type SwapErrorName = SwapErrorAbiItem['name']
+
+type SwapErrorInputs<N extends SwapErrorName> = Extract<SwapErrorAbiItem, { name: N }>['inputs'][number]
+
+/**
+ * @notice 错误参数按 ABI 中的参数名展开，例如 SlippageExceeded 对应 { amountIn: bigint; max: bigint }
+ */
+export type SwapErrorArgs<N extends SwapErrorName> = {
+    [P in SwapErrorInputs<N> as P['name'] & string]: AbiParameterToPrimitiveType<P>
+}
+
+/**
+ * @notice 解码后的合约 revert，data 为原始 revert 数据
+ */
+export class ContractRevertError extends Error {
+    constructor(
+        message: string,
+        readonly data: Hex
+    ) {
+        super(message)
+        this.name = 'ContractRevertError'
+    }
+}
+
+/**
+ * @notice require / revert 字符串，对应 Error(string)
+ */
+export class RevertReasonError extends ContractRevertError {
+    constructor(
+        readonly reason: string,
+        data: Hex
+    ) {
+        super(reason, data)
+        this.name = 'RevertReasonError'
+    }
+}
+
+/**
+ * @notice 算术溢出、除零等编译器插入的检查失败，对应 Panic(uint256)
+ */
+export class PanicError extends ContractRevertError {
+    constructor(
+        readonly code: bigint,
+        data: Hex
+    ) {
+        super(`Panic(0x${code.toString(16).padStart(2, '0')})`, data)
+        this.name = 'PanicError'
+    }
+}
+
+/**
+ * @notice 没有 revert 数据，或 selector 不在 swapErrorsAbi 中
+ */
+export class UnknownRevertError extends ContractRevertError {
+    constructor(data: Hex) {
+        super(size(data) === 0 ? 'reverted without data' : `unknown error ${data}`, data)
+        this.name = 'UnknownRevertError'
+    }
+}
+
+/**
+ * @notice swapErrorsAbi 中声明的自定义错误，参数同时以 args 和同名字段的形式提供
+ */
+export class SwapError<N extends SwapErrorName = SwapErrorName> extends ContractRevertError {
+    constructor(
+        readonly errorName: N,
+        readonly args: SwapErrorArgs<N>,
+        data: Hex
+    ) {
+        const fields = Object.entries(args).map(([key, value]) => `${key}: ${value}`)
+        super(`${errorName}(${fields.join(', ')})`, data)
+        this.name = errorName
+        Object.assign(this, args)
+    }
+}
+
+export type SwapErrorOf<N extends SwapErrorName> = SwapError<N> & Readonly<SwapErrorArgs<N>>
+
+export type SwapErrorClass<N extends SwapErrorName> = {
+    new (args: SwapErrorArgs<N>, data: Hex): SwapErrorOf<N>
+    readonly errorName: N
+}
+
+const defineSwapError = <N extends SwapErrorName>(errorName: N) => {
+    const ErrorClass = class extends SwapError<N> {
+        static readonly errorName = errorName
+
+        constructor(args: SwapErrorArgs<N>, data: Hex) {
+            super(errorName, args, data)
+        }
+    }
+    Object.defineProperty(ErrorClass, 'name', { value: errorName })
+    return ErrorClass as unknown as SwapErrorClass<N>
+}
+
+/**
+ * @notice 每个自定义错误对应的错误类，可用于 instanceof 判断并取得带类型的参数
+ * @example
+ *  if (error instanceof SwapErrors.SlippageExceeded) console.log(error.amountIn, error.max)
+ */
+export const SwapErrors = Object.fromEntries(
+    swapErrorsAbi.map(({ name }) => [name, defineSwapError(name)])
+) as { readonly [N in SwapErrorName]: SwapErrorClass<N> }
+
+export const isSwapError = <N extends SwapErrorName>(error: unknown, errorName: N): error is SwapErrorOf<N> =>
+    error instanceof SwapError && error.errorName === errorName
+
+// 从 viem 错误链中取出原始 revert 数据
+// 合约调用错误在 raw 上，RPC 层错误在 data 或 data.data 上
+const revertDataOf = (error: unknown): Hex | undefined => {
+    if (error instanceof ContractFunctionRevertedError) {
+        return error.raw
+    }
+    const data = (error as { data?: unknown }).data
+    if (typeof data === 'string') {
+        return isHex(data) ? data : undefined
+    }
+    const nested = (data as { data?: unknown } | undefined)?.data
+    return typeof nested === 'string' && isHex(nested) ? nested : undefined
+}
+
+const findRevertData = (error: unknown): Hex | undefined => {
+    if (typeof error === 'string') {
+        return isHex(error) ? error : undefined
+    }
+    if (!(error instanceof BaseError)) {
+        return error instanceof Error ? revertDataOf(error) : undefined
+    }
+    const found = error.walk((cause) => revertDataOf(cause) !== undefined)
+    return found ? revertDataOf(found) : undefined
+}
+
+/**
+ * @notice 把 revert 解码为带类型的错误
+ * @param error 原始 revert 数据，或 viem / 钱包抛出的错误
+ * @return 找不到 revert 数据（例如网络错误）时返回 undefined
+ */
+export const decodeRevert = (error: unknown): ContractRevertError | undefined => {
+    const data = findRevertData(error)
+    if (data === undefined) {
+        return undefined
+    }
+    if (size(data) < 4) {
+        return new UnknownRevertError(data)
+    }
+    let decoded
+    try {
+        decoded = decodeErrorResult({ abi: [...builtinErrorsAbi, ...swapErrorsAbi], data })
+    } catch {
+        return new UnknownRevertError(data)
+    }
+    const { abiItem, errorName, args = [] } = decoded
+    if (errorName === 'Error') {
+        return new RevertReasonError(args[0] as string, data)
+    }
+    if (errorName === 'Panic') {
+        return new PanicError(args[0] as bigint, data)
+    }
+    const named = Object.fromEntries(abiItem.inputs.map((input, i) => [input.name, args[i]]))
+    const ErrorClass = SwapErrors[errorName] as SwapErrorClass<SwapErrorName>
+    return new ErrorClass(named as SwapErrorArgs<SwapErrorName>, data)
+}
+
+/**
+ * @notice 等待 promise，revert 时抛出解码后的错误，其他错误原样抛出
+ */
+export const withDecodedRevert = async <T>(promise: Promise<T>): Promise<T> => {
+    try {
+        return await promise
+    } catch (error) {
+        throw decodeRevert(error) ?? error
+    }
+}
@@ -0,0 +1,20 @@
+export * from './abis.js'
+export * from './analytics.js'
+export * from './api/index.js'
+export * from './backtest/index.js'
+export * from './client.js'
+export * from './errors.js'
+export * from './indexer/index.js'
+export * from './math/index.js'
+export * from './metadata.js'
+export * from './migration.js'
+export * from './multicall.js'
+export * from './oracle.js'
+export * from './pagination.js'
+export * from './path.js'
+export * from './permit.js'
+export * from './policy.js'
+export * from './quoter.js'
+export * from './routing.js'
+export * from './simulator.js'
+export * from './utils.js'
@@ -0,0 +1,3 @@
+export * from './indexer.js'
+export * from './queries.js'
+export * from './store.js'
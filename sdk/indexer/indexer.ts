@@ -0,0 +1,283 @@
+import type { AbiEvent, Address, Hash, Log, PublicClient } from 'viem'
+
+import { poolAbi, poolManagerAbi, swapRouterAbi } from '../abis.js'
+import { isSameAddress } from '../utils.js'
+import {
+    type BlockRef,
+    type FileStore,
+    type IndexedEvent,
+    type IndexedEventType,
+    type IndexedPool,
+    type IndexerState,
+    STORE_VERSION
+} from './store.js'
+
+export interface IndexerAddresses {
+    poolManager: Address
+    // 不传时不索引路由事件
+    swapRouter?: Address
+}
+
+export interface EventIndexerConfig {
+    publicClient: PublicClient
+    addresses: IndexerAddresses
+    store: FileStore
+    // 首次运行时的起始区块，默认 0
+    startBlock?: bigint
+    // 每次 getLogs 覆盖的区块数，默认 1000
+    batchSize?: bigint
+    // 保留的最近区块哈希数量，决定可处理的最大重组深度，默认 128
+    reorgDepth?: number
+}
+
+export interface SyncResult {
+    fromBlock: bigint
+    toBlock: bigint
+    // 本次新写入的事件数量
+    events: number
+    // 发生重组时回滚到的区块（该区块本身仍有效）
+    rolledBackTo?: bigint
+}
+
+const DEFAULT_BATCH_SIZE = 1000n
+const DEFAULT_REORG_DEPTH = 128
+
+// 只索引 names 中的事件，owner / 协议手续费等管理事件不在索引范围内
+const eventsOf = (abi: readonly { type: string; name?: string }[], names: string[]) =>
+    abi.filter((item): item is AbiEvent => item.type === 'event' && names.includes(item.name!))
+
+const managerEvents = eventsOf(poolManagerAbi, ['PoolCreated'])
+const routerEvents = eventsOf(swapRouterAbi, ['Swap', 'SwapMultihop'])
+const poolEvents = eventsOf(poolAbi, ['Mint', 'Burn', 'Collect', 'Swap', 'Flash'])
+
+/**
+ * @title EventIndexer
+ * @notice 从起始区块开始跟随链，解码 PoolManager / Pool / SwapRouter 的事件并写入本地文件
+ * @dev 每处理完一批区块就保存一次检查点，重启后从检查点继续；
+ *      每次同步前用保存的区块哈希与链上比对，发现重组时回滚到共同祖先后重新索引
+ */
+export class EventIndexer {
+    readonly publicClient: PublicClient
+    readonly addresses: IndexerAddresses
+    readonly store: FileStore
+    readonly startBlock: bigint
+    readonly batchSize: bigint
+    readonly reorgDepth: number
+
+    private current?: IndexerState
+    private timer?: NodeJS.Timeout
+    private running?: Promise<SyncResult>
+
+    constructor(config: EventIndexerConfig) {
+        this.publicClient = config.publicClient
+        this.addresses = config.addresses
+        this.store = config.store
+        this.startBlock = config.startBlock ?? 0n
+        this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE
+        this.reorgDepth = config.reorgDepth ?? DEFAULT_REORG_DEPTH
+    }
+
+    // 当前已索引的状态，需先调用 sync 或 load
+    get state(): IndexerState {
+        if (!this.current) {
+            throw new Error('EventIndexer: not loaded')
+        }
+        return this.current
+    }
+
+    /**
+     * @notice 从文件加载状态，文件不存在时新建空状态
+     */
+    async load(): Promise<IndexerState> {
+        const chainId = await this.publicClient.getChainId()
+        const state = await this.store.load()
+        if (state && state.chainId !== chainId) {
+            throw new Error(`EventIndexer: store belongs to chain ${state.chainId}, connected to ${chainId}`)
+        }
+        this.current = state ?? this.emptyState(chainId)
+        return this.current
+    }
+
+    /**
+     * @notice 同步到最新区块
+     * @dev 并发调用会复用同一次同步
+     */
+    sync(): Promise<SyncResult> {
+        this.running ??= this.syncOnce().finally(() => {
+            this.running = undefined
+        })
+        return this.running
+    }
+
+    /**
+     * @notice 以固定间隔轮询同步，出错时交给 onError 并在下一轮重试
+     */
+    start(intervalMs = 2000, onError: (error: unknown) => void = console.error): void {
+        const tick = async () => {
+            try {
+                await this.sync()
+            } catch (error) {
+                onError(error)
+            }
+            if (this.timer) {
+                this.timer = setTimeout(tick, intervalMs)
+            }
+        }
+        this.timer = setTimeout(tick, 0)
+    }
+
+    stop(): void {
+        clearTimeout(this.timer)
+        this.timer = undefined
+    }
+
+    private async syncOnce(): Promise<SyncResult> {
+        if (!this.current) {
+            await this.load()
+        }
+        const rolledBackTo = await this.rollbackReorg()
+
+        const head = await this.publicClient.getBlockNumber()
+        const fromBlock = this.state.checkpoint ? this.state.checkpoint.blockNumber + 1n : this.startBlock
+        let events = 0
+        for (let from = fromBlock; from <= head; from += this.batchSize) {
+            const to = from + this.batchSize - 1n < head ? from + this.batchSize - 1n : head
+            events += await this.indexRange(from, to)
+        }
+        return { fromBlock, toBlock: head, events, rolledBackTo }
+    }
+
+    // 索引 [from, to] 区间内的事件并保存检查点
+    private async indexRange(from: bigint, to: bigint): Promise<number> {
+        const state = this.state
+
+        // 先取 PoolManager / SwapRouter 的事件，以便同一批次内新建的池子也能被索引
+        const managerAddresses = [this.addresses.poolManager, this.addresses.swapRouter].filter(
+            (address): address is Address => address !== undefined
+        )
+        const managerLogs = await this.publicClient.getLogs({
+            address: managerAddresses,
+            events: [...managerEvents, ...routerEvents],
+            fromBlock: from,
+            toBlock: to
+        })
+        const pools: IndexedPool[] = []
+        for (const log of managerLogs) {
+            if (log.eventName === 'PoolCreated' && isSameAddress(log.address, this.addresses.poolManager)) {
+                const args = log.args as Omit<IndexedPool, 'createdAtBlock'>
+                pools.push({ ...args, createdAtBlock: log.blockNumber! })
+            }
+        }
+
+        const poolAddresses = [...state.pools, ...pools].map((pool) => pool.pool)
+        const poolLogs =
+            poolAddresses.length === 0
+                ? []
+                : await this.publicClient.getLogs({
+                      address: poolAddresses,
+                      events: poolEvents,
+                      fromBlock: from,
+                      toBlock: to
+                  })
+
+        const logs = [...managerLogs, ...poolLogs].sort((a, b) =>
+            a.blockNumber === b.blockNumber ? a.logIndex! - b.logIndex! : a.blockNumber! < b.blockNumber! ? -1 : 1
+        )
+        const events = await this.decode(logs)
+
+        // 批次末尾的区块哈希作为检查点
+        const block = await this.publicClient.getBlock({ blockNumber: to })
+        const checkpoint: BlockRef = { blockNumber: to, blockHash: block.hash }
+
+        state.pools.push(...pools)
+        state.events.push(...events)
+        state.checkpoint = checkpoint
+        state.recentBlocks.push(checkpoint)
+        if (state.recentBlocks.length > this.reorgDepth) {
+            state.recentBlocks.splice(0, state.recentBlocks.length - this.reorgDepth)
+        }
+        await this.store.save(state)
+        return events.length
+    }
+
+    // 补充区块时间与交易发起者
+    private async decode(logs: (Log & { eventName: string; args: unknown })[]): Promise<IndexedEvent[]> {
+        const blocks = new Map<Hash, Promise<bigint>>()
+        const senders = new Map<Hash, Promise<Address>>()
+        const timestampOf = (log: Log) => {
+            if (!blocks.has(log.blockHash!)) {
+                blocks.set(
+                    log.blockHash!,
+                    this.publicClient.getBlock({ blockHash: log.blockHash! }).then((block) => block.timestamp)
+                )
+            }
+            return blocks.get(log.blockHash!)!
+        }
+        const senderOf = (log: Log) => {
+            if (!senders.has(log.transactionHash!)) {
+                senders.set(
+                    log.transactionHash!,
+                    this.publicClient.getTransaction({ hash: log.transactionHash! }).then((tx) => tx.from)
+                )
+            }
+            return senders.get(log.transactionHash!)!
+        }
+
+        return Promise.all(
+            logs.map(async (log) => ({
+                type: this.typeOf(log),
+                address: log.address,
+                blockNumber: log.blockNumber!,
+                blockHash: log.blockHash!,
+                timestamp: await timestampOf(log),
+                transactionHash: log.transactionHash!,
+                logIndex: log.logIndex!,
+                from: await senderOf(log),
+                args: { ...(log.args as Record<string, unknown>) }
+            }))
+        )
+    }
+
+    private typeOf(log: Log & { eventName: string }): IndexedEventType {
+        if (this.addresses.swapRouter && isSameAddress(log.address, this.addresses.swapRouter)) {
+            return log.eventName === 'Swap' ? 'RouterSwap' : 'RouterSwapMultihop'
+        }
+        return log.eventName as IndexedEventType
+    }
+
+    /**
+     * @notice 检查已保存的区块是否仍在链上，不在时回滚到最近的共同祖先
+     * @dev 保存的哈希全部失效时（重组深度超过 reorgDepth）从 startBlock 重新索引
+     * @return 回滚到的区块号，未发生重组时返回 undefined
+     */
+    private async rollbackReorg(): Promise<bigint | undefined> {
+        const state = this.state
+        if (!state.checkpoint) {
+            return undefined
+        }
+        for (let i = state.recentBlocks.length - 1; i >= 0; i--) {
+            const ref = state.recentBlocks[i]
+            const block = await this.publicClient.getBlock({ blockNumber: ref.blockNumber }).catch(() => undefined)
+            if (block?.hash !== ref.blockHash) {
+                continue
+            }
+            if (i === state.recentBlocks.length - 1) {
+                return undefined
+            }
+            state.recentBlocks.splice(i + 1)
+            state.checkpoint = ref
+            state.events = state.events.filter((event) => event.blockNumber <= ref.blockNumber)
+            state.pools = state.pools.filter((pool) => pool.createdAtBlock <= ref.blockNumber)
+            await this.store.save(state)
+            return ref.blockNumber
+        }
+
+        this.current = this.emptyState(state.chainId)
+        await this.store.save(this.current)
+        return this.startBlock - 1n
+    }
+
+    private emptyState(chainId: number): IndexerState {
+        return { version: STORE_VERSION, chainId, recentBlocks: [], pools: [], events: [] }
+    }
+}
@@ -0,0 +1,131 @@
+import type { Address } from 'viem'
+
+import { mulDivRoundingUp } from '../math/index.js'
+import { isSameAddress } from '../utils.js'
+import type { IndexedEvent, IndexerState } from './store.js'
+
+// 按区块时间（秒）过滤，区间两端均包含
+export interface TimeRange {
+    fromTimestamp?: bigint
+    toTimestamp?: bigint
+}
+
+export interface PoolVolume {
+    swaps: number
+    // 两种代币各自的成交量（流入与流出的绝对值之和）
+    volume0: bigint
+    volume1: bigint
+}
+
+export interface PoolFees {
+    fee0: bigint
+    fee1: bigint
+}
+
+export interface TvlPoint {
+    blockNumber: bigint
+    timestamp: bigint
+    amount0: bigint
+    amount1: bigint
+}
+
+const abs = (value: bigint) => (value < 0n ? -value : value)
+
+const inRange = (item: { timestamp: bigint }, range: TimeRange = {}) =>
+    (range.fromTimestamp === undefined || item.timestamp >= range.fromTimestamp) &&
+    (range.toTimestamp === undefined || item.timestamp <= range.toTimestamp)
+
+const poolEvents = (state: IndexerState, pool: Address, type: IndexedEvent['type'], range?: TimeRange) =>
+    state.events.filter((event) => event.type === type && isSameAddress(event.address, pool) && inRange(event, range))
+
+/**
+ * @notice 池子在时间区间内的成交笔数与成交量
+ */
+export const poolVolume = (state: IndexerState, pool: Address, range?: TimeRange): PoolVolume => {
+    const swaps = poolEvents(state, pool, 'Swap', range)
+    return {
+        swaps: swaps.length,
+        volume0: swaps.reduce((sum, event) => sum + abs(event.args.amount0 as bigint), 0n),
+        volume1: swaps.reduce((sum, event) => sum + abs(event.args.amount1 as bigint), 0n)
+    }
+}
+
+/**
+ * @notice 按池子费率估算 LP 赚取的手续费
+ * @dev Swap 事件不含手续费，这里按流入数量 * fee / 1e6 向上取整估算，与链上 feeGrowth 可能有几 wei 的误差；
+ *      闪电贷支付的 paid0 / paid1 全部是手续费，直接累加
+ */
+export const poolFees = (state: IndexerState, pool: Address, range?: TimeRange): PoolFees => {
+    const info = state.pools.find((item) => isSameAddress(item.pool, pool))
+    if (!info) {
+        throw new Error('Indexer: pool not found')
+    }
+    const fee = BigInt(info.fee)
+    let fee0 = 0n
+    let fee1 = 0n
+    for (const event of poolEvents(state, pool, 'Swap', range)) {
+        const amount0 = event.args.amount0 as bigint
+        const amount1 = event.args.amount1 as bigint
+        if (amount0 > 0n) {
+            fee0 += mulDivRoundingUp(amount0, fee, 1_000_000n)
+        }
+        if (amount1 > 0n) {
+            fee1 += mulDivRoundingUp(amount1, fee, 1_000_000n)
+        }
+    }
+    for (const event of poolEvents(state, pool, 'Flash', range)) {
+        fee0 += event.args.paid0 as bigint
+        fee1 += event.args.paid1 as bigint
+    }
+    return { fee0, fee1 }
+}
+
+/**
+ * @notice 池子持有的代币数量随时间的变化，每个发生变化的区块一个点
+ * @dev Mint 与 Swap 改变池子余额，Flash 留下手续费，Collect 转出代币；Burn 只把本金记入 tokensOwed，余额不变
+ */
+export const tvlHistory = (state: IndexerState, pool: Address, range?: TimeRange): TvlPoint[] => {
+    const points: TvlPoint[] = []
+    let amount0 = 0n
+    let amount1 = 0n
+    for (const event of state.events) {
+        if (!isSameAddress(event.address, pool)) {
+            continue
+        }
+        if (event.type === 'Mint' || event.type === 'Swap') {
+            amount0 += event.args.amount0 as bigint
+            amount1 += event.args.amount1 as bigint
+        } else if (event.type === 'Flash') {
+            amount0 += event.args.paid0 as bigint
+            amount1 += event.args.paid1 as bigint
+        } else if (event.type === 'Collect') {
+            amount0 -= event.args.amount0 as bigint
+            amount1 -= event.args.amount1 as bigint
+        } else {
+            continue
+        }
+        const last = points[points.length - 1]
+        if (last?.blockNumber === event.blockNumber) {
+            last.amount0 = amount0
+            last.amount1 = amount1
+        } else {
+            points.push({ blockNumber: event.blockNumber, timestamp: event.timestamp, amount0, amount1 })
+        }
+    }
+    // 先完整累计再过滤，保证区间内第一个点的数值正确
+    return points.filter((point) => inRange(point, range))
+}
+
+/**
+ * @notice 钱包的全部相关事件：由该地址发起的交易，或事件中的 recipient / owner / sender 为该地址
+ */
+export const walletActivity = (state: IndexerState, wallet: Address, range?: TimeRange): IndexedEvent[] =>
+    state.events.filter(
+        (event) =>
+            inRange(event, range) &&
+            (isSameAddress(event.from, wallet) ||
+                ['recipient', 'owner', 'sender'].some((key) => {
+                    const value = event.args[key]
+                    return typeof value === 'string' && isSameAddress(value as Address, wallet)
+                }))
+    )
@@ -0,0 +1,103 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+import type { Address, Hash } from 'viem'
+
+export type IndexedEventType =
+    | 'PoolCreated'
+    | 'Mint'
+    | 'Burn'
+    | 'Collect'
+    | 'Swap'
+    | 'Flash'
+    | 'RouterSwap'
+    | 'RouterSwapMultihop'
+
+/**
+ * @notice 解码后的链上事件
+ * @dev args 为 viem 解码出的具名参数；RouterSwap / RouterSwapMultihop 对应 SwapRouter 的 Swap / SwapMultihop
+ */
+export interface IndexedEvent {
+    type: IndexedEventType
+    // 触发事件的合约地址
+    address: Address
+    blockNumber: bigint
+    blockHash: Hash
+    timestamp: bigint
+    transactionHash: Hash
+    logIndex: number
+    // 交易发起者，用于按钱包查询
+    from: Address
+    args: Record<string, unknown>
+}
+
+// 由 PoolCreated 事件得到的池子信息
+export interface IndexedPool {
+    pool: Address
+    token0: Address
+    token1: Address
+    index: number
+    fee: number
+    tickLower: number
+    tickUpper: number
+    createdAtBlock: bigint
+}
+
+export interface BlockRef {
+    blockNumber: bigint
+    blockHash: Hash
+}
+
+export interface IndexerState {
+    version: number
+    chainId: number
+    // 已处理到的区块（含）
+    checkpoint?: BlockRef
+    // 最近若干批次末尾的区块哈希，按区块号升序，用于发现重组的共同祖先
+    recentBlocks: BlockRef[]
+    pools: IndexedPool[]
+    events: IndexedEvent[]
+}
+
+export const STORE_VERSION = 1
+
+// JSON 不支持 bigint，序列化为带 n 后缀的字符串
+const BIGINT_PATTERN = /^-?\d+n$/
+
+const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? `${value}n` : value)
+
+const reviver = (_key: string, value: unknown) =>
+    typeof value === 'string' && BIGINT_PATTERN.test(value) ? BigInt(value.slice(0, -1)) : value
+
+/**
+ * @title FileStore
+ * @notice 以单个 JSON 文件保存索引状态
+ * @dev 先写临时文件再 rename，进程在写入过程中退出也不会留下损坏的文件
+ */
+export class FileStore {
+    constructor(readonly file: string) {}
+
+    async load(): Promise<IndexerState | undefined> {
+        let content: string
+        try {
+            content = await readFile(this.file, 'utf8')
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined
+            }
+            throw error
+        }
+        const state = JSON.parse(content, reviver) as IndexerState
+        if (state.version !== STORE_VERSION) {
+            throw new Error(`FileStore: unsupported store version ${state.version}`)
+        }
+        return state
+    }
+
+    async save(state: IndexerState): Promise<void> {
+        await mkdir(dirname(this.file), { recursive: true })
+        const tmp = `${this.file}.tmp`
+        await writeFile(tmp, JSON.stringify(state, replacer), 'utf8')
+        await rename(tmp, this.file)
+    }
+}
@@ -0,0 +1,63 @@
+// uint256 上限，用于复现 Solidity 中的溢出检查
+export const MAX_UINT256 = 2n ** 256n - 1n
+export const MAX_UINT160 = 2n ** 160n - 1n
+export const MAX_UINT128 = 2n ** 128n - 1n
+
+/**
+ * @notice Solidity 中 require 失败时抛出的错误，message 与合约的 revert 原因保持一致（无原因时为空）
+ */
+export class MathError extends Error {
+    constructor(reason = 'reverted') {
+        super(reason)
+        this.name = 'MathError'
+    }
+}
+
+export const requireThat = (condition: boolean, reason?: string): void => {
+    if (!condition) {
+        throw new MathError(reason)
+    }
+}
+
+/**
+ * @notice FullMath.mulDiv：floor(a * b / denominator)，结果超过 uint256 或分母为 0 时 revert
+ */
+export const mulDiv = (a: bigint, b: bigint, denominator: bigint): bigint => {
+    requireThat(denominator > 0n)
+    const result = (a * b) / denominator
+    requireThat(result <= MAX_UINT256)
+    return result
+}
+
+/**
+ * @notice FullMath.mulDivRoundingUp：ceil(a * b / denominator)
+ */
+export const mulDivRoundingUp = (a: bigint, b: bigint, denominator: bigint): bigint => {
+    let result = mulDiv(a, b, denominator)
+    if ((a * b) % denominator > 0n) {
+        requireThat(result < MAX_UINT256)
+        result++
+    }
+    return result
+}
+
+/**
+ * @notice UnsafeMath.divRoundingUp：汇编实现，除数为 0 时结果为 0
+ */
+export const divRoundingUp = (x: bigint, y: bigint): bigint => {
+    if (y === 0n) {
+        return 0n
+    }
+    return x / y + (x % y > 0n ? 1n : 0n)
+}
+
+// SafeCast
+export const toUint160 = (y: bigint): bigint => {
+    requireThat(y <= MAX_UINT160)
+    return y
+}
+
+export const toInt256 = (y: bigint): bigint => {
+    requireThat(y < 2n ** 255n)
+    return y
+}
@@ -0,0 +1,4 @@
+export * from './fullMath.js'
+export * from './sqrtPriceMath.js'
+export * from './swapMath.js'
+export * from './tickMath.js'
@@ -0,0 +1,118 @@
+import { Q96 } from '../utils.js'
+import { MAX_UINT160, MAX_UINT256, divRoundingUp, mulDiv, mulDivRoundingUp, requireThat, toUint160 } from './fullMath.js'
+
+// unchecked 乘法在 uint256 上的回绕
+const wrap = (value: bigint) => value & MAX_UINT256
+
+/**
+ * @notice SqrtPriceMath.getNextSqrtPriceFromAmount0RoundingUp
+ */
+export const getNextSqrtPriceFromAmount0RoundingUp = (
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amount: bigint,
+    add: boolean
+): bigint => {
+    if (amount === 0n) {
+        return sqrtPX96
+    }
+    const numerator1 = liquidity << 96n
+
+    if (add) {
+        const product = wrap(amount * sqrtPX96)
+        if (product / amount === sqrtPX96) {
+            const denominator = wrap(numerator1 + product)
+            if (denominator >= numerator1) {
+                return mulDivRoundingUp(numerator1, sqrtPX96, denominator)
+            }
+        }
+        const denominator = numerator1 / sqrtPX96 + amount
+        requireThat(denominator <= MAX_UINT256)
+        return divRoundingUp(numerator1, denominator)
+    }
+    const product = wrap(amount * sqrtPX96)
+    requireThat(product / amount === sqrtPX96 && numerator1 > product)
+    return toUint160(mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product))
+}
+
+/**
+ * @notice SqrtPriceMath.getNextSqrtPriceFromAmount1RoundingDown
+ */
+export const getNextSqrtPriceFromAmount1RoundingDown = (
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amount: bigint,
+    add: boolean
+): bigint => {
+    if (add) {
+        const quotient = amount <= MAX_UINT160 ? (amount << 96n) / liquidity : mulDiv(amount, Q96, liquidity)
+        return toUint160(sqrtPX96 + quotient)
+    }
+    const quotient =
+        amount <= MAX_UINT160 ? divRoundingUp(amount << 96n, liquidity) : mulDivRoundingUp(amount, Q96, liquidity)
+    requireThat(sqrtPX96 > quotient)
+    return sqrtPX96 - quotient
+}
+
+export const getNextSqrtPriceFromInput = (
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amountIn: bigint,
+    zeroForOne: boolean
+): bigint => {
+    requireThat(sqrtPX96 > 0n)
+    requireThat(liquidity > 0n)
+    return zeroForOne
+        ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+        : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true)
+}
+
+export const getNextSqrtPriceFromOutput = (
+    sqrtPX96: bigint,
+    liquidity: bigint,
+    amountOut: bigint,
+    zeroForOne: boolean
+): bigint => {
+    requireThat(sqrtPX96 > 0n)
+    requireThat(liquidity > 0n)
+    return zeroForOne
+        ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+        : getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false)
+}
+
+/**
+ * @notice SqrtPriceMath.getAmount0Delta（无符号版本）
+ */
+export const getAmount0Delta = (
+    sqrtRatioAX96: bigint,
+    sqrtRatioBX96: bigint,
+    liquidity: bigint,
+    roundUp: boolean
+): bigint => {
+    if (sqrtRatioAX96 > sqrtRatioBX96) {
+        ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+    }
+    const numerator1 = liquidity << 96n
+    const numerator2 = sqrtRatioBX96 - sqrtRatioAX96
+    requireThat(sqrtRatioAX96 > 0n)
+    return roundUp
+        ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+        : mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96
+}
+
+/**
+ * @notice SqrtPriceMath.getAmount1Delta（无符号版本）
+ */
+export const getAmount1Delta = (
+    sqrtRatioAX96: bigint,
+    sqrtRatioBX96: bigint,
+    liquidity: bigint,
+    roundUp: boolean
+): bigint => {
+    if (sqrtRatioAX96 > sqrtRatioBX96) {
+        ;[sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+    }
+    return roundUp
+        ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+        : mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+}
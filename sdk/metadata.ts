@@ -0,0 +1,47 @@
+export interface PositionAttribute {
+    trait_type: string
+    value: string | number
+}
+
+/**
+ * @notice PositionManager.tokenURI 中的 JSON 元数据
+ * @dev 价格均为 1 个 token0 可兑换的 token1 数量，liquidity 以十进制字符串给出
+ */
+export interface PositionMetadata {
+    name: string
+    description: string
+    // data:image/svg+xml;base64, 开头的 SVG 图片
+    image: string
+    attributes: PositionAttribute[]
+}
+
+/**
+ * @notice 解码 base64 编码的 data URI，返回 UTF-8 文本
+ * @param mediaType 期望的媒体类型，例如 application/json
+ */
+export const decodeDataUri = (uri: string, mediaType: string): string => {
+    const prefix = `data:${mediaType};base64,`
+    if (!uri.startsWith(prefix)) {
+        throw new Error(`Expected a base64 data URI of ${mediaType}`)
+    }
+    const bytes = Uint8Array.from(atob(uri.slice(prefix.length)), (char) => char.charCodeAt(0))
+    return new TextDecoder().decode(bytes)
+}
+
+/**
+ * @notice 解析 tokenURI 返回的元数据
+ */
+export const decodePositionMetadata = (tokenURI: string): PositionMetadata =>
+    JSON.parse(decodeDataUri(tokenURI, 'application/json'))
+
+/**
+ * @notice 取出元数据中的 SVG 图片源码
+ */
+export const decodePositionImage = (metadata: PositionMetadata): string =>
+    decodeDataUri(metadata.image, 'image/svg+xml')
+
+/**
+ * @notice 按 trait_type 读取属性值，不存在时返回 undefined
+ */
+export const getPositionAttribute = (metadata: PositionMetadata, traitType: string): string | number | undefined =>
+    metadata.attributes.find((attribute) => attribute.trait_type === traitType)?.value
@@ -0,0 +1,52 @@
+import type { TokenAmounts } from './analytics.js'
+import { getAmount0Delta, getAmount1Delta, getSqrtRatioAtTick } from './math/index.js'
+import { Q128, Q192 } from './utils.js'
+
+// 池子手续费的单位为百万分之一
+const FEE_DENOMINATOR = 1_000_000n
+
+// 计算比例时使用的流动性，足够大以保留精度
+const REFERENCE_LIQUIDITY = Q128 - 1n
+
+/**
+ * @notice 目标池子的状态，字段与 PoolInfo 一致
+ */
+export interface RebalanceTarget {
+    sqrtPriceX96: bigint
+    tickLower: number
+    tickUpper: number
+    fee: number
+}
+
+/**
+ * @notice 投入目标池子前的再平衡交易，amountIn 为 0 时无需交易
+ */
+export interface RebalanceSwap {
+    zeroForOne: boolean
+    amountIn: bigint
+}
+
+/**
+ * @notice 估算把 amounts 全部投入目标池子前需要交易的数量
+ * @dev 目标区间在当前价格下每单位流动性需要 r0 个 token0 与 r1 个 token1，交易按当前价格扣除手续费成交：
+ *      token0 过多时卖出 s = (x * r1 - y * r0) / (r1 + r0 * (1 - fee) * P)，token1 过多时对称处理。
+ *      不考虑价格冲击，实际成交后剩余的少量代币由 PositionMigrator 退还
+ */
+export const getRebalanceSwap = (amounts: TokenAmounts, target: RebalanceTarget): RebalanceSwap => {
+    const { sqrtPriceX96, tickLower, tickUpper } = target
+    const r0 = getAmount0Delta(sqrtPriceX96, getSqrtRatioAtTick(tickUpper), REFERENCE_LIQUIDITY, false)
+    const r1 = getAmount1Delta(getSqrtRatioAtTick(tickLower), sqrtPriceX96, REFERENCE_LIQUIDITY, false)
+    const price = sqrtPriceX96 * sqrtPriceX96
+    const feeFactor = FEE_DENOMINATOR - BigInt(target.fee)
+    // 以 token0 * r1 与 token1 * r0 比较两种代币相对目标比例的多少
+    const excess = amounts.amount0 * r1 - amounts.amount1 * r0
+    if (excess > 0n) {
+        const amountIn = (excess * FEE_DENOMINATOR * Q192) / (r1 * FEE_DENOMINATOR * Q192 + r0 * feeFactor * price)
+        return { zeroForOne: true, amountIn }
+    }
+    if (excess < 0n) {
+        const amountIn = (-excess * FEE_DENOMINATOR * price) / (r0 * FEE_DENOMINATOR * price + r1 * feeFactor * Q192)
+        return { zeroForOne: false, amountIn }
+    }
+    return { zeroForOne: true, amountIn: 0n }
+}
@@ -0,0 +1,105 @@
+import {
+    type Abi,
+    type ContractFunctionArgs,
+    type ContractFunctionName,
+    type ContractFunctionReturnType,
+    type DecodeFunctionResultParameters,
+    type EncodeFunctionDataParameters,
+    type Hex,
+    decodeFunctionResult,
+    encodeFunctionData
+} from 'viem'
+
+import { positionManagerAbi, swapRouterAbi } from './abis.js'
+
+type WriteMutability = 'nonpayable' | 'payable'
+
+const multicallTargetAbis = {
+    swapRouter: swapRouterAbi,
+    positionManager: positionManagerAbi
+} as const
+
+// 提供 multicall 入口的外围合约，对应 SwapAddresses 中的字段
+export type MulticallTarget = keyof typeof multicallTargetAbis
+
+export type MulticallTargetAbi<T extends MulticallTarget> = (typeof multicallTargetAbis)[T]
+
+// 可以放入批量调用的函数，不包括 multicall 自身
+export type MulticallFunctionName<TAbi extends Abi> = Exclude<ContractFunctionName<TAbi, WriteMutability>, 'multicall'>
+
+export type MulticallFunctionArgs<
+    TAbi extends Abi,
+    N extends MulticallFunctionName<TAbi>
+> = ContractFunctionArgs<TAbi, WriteMutability, N>
+
+export type MulticallFunctionResult<
+    TAbi extends Abi,
+    N extends MulticallFunctionName<TAbi>
+> = ContractFunctionReturnType<TAbi, WriteMutability, N>
+
+export interface MulticallCall {
+    functionName: string
+    data: Hex
+}
+
+/**
+ * @notice 组装对同一个外围合约的批量调用，并按调用顺序解码各自的返回值
+ * @dev 不可变：add 返回新的 builder，返回值类型随之累积。
+ *      一次 multicall 只能调用同一个合约，跨合约的操作（例如先在 SwapRouter 兑换再到 PositionManager 添加流动性）
+ *      需要分别提交；随交易发送 ETH 时所有调用都必须是 payable 的
+ */
+export class MulticallBuilder<T extends MulticallTarget, TResults extends readonly unknown[] = []> {
+    readonly target: T
+    readonly calls: readonly MulticallCall[]
+
+    constructor(target: T, calls: readonly MulticallCall[] = []) {
+        this.target = target
+        this.calls = calls
+    }
+
+    get abi(): MulticallTargetAbi<T> {
+        return multicallTargetAbis[this.target]
+    }
+
+    get length(): number {
+        return this.calls.length
+    }
+
+    /**
+     * @notice 追加一个调用，参数与返回值按合约 ABI 推导
+     */
+    add<N extends MulticallFunctionName<MulticallTargetAbi<T>>>(
+        functionName: N,
+        args: MulticallFunctionArgs<MulticallTargetAbi<T>, N>
+    ): MulticallBuilder<T, [...TResults, MulticallFunctionResult<MulticallTargetAbi<T>, N>]> {
+        const data = encodeFunctionData({ abi: this.abi, functionName, args } as EncodeFunctionDataParameters)
+        return new MulticallBuilder(this.target, [...this.calls, { functionName, data }])
+    }
+
+    /**
+     * @notice multicall 的参数
+     */
+    encode(): Hex[] {
+        return this.calls.map((call) => call.data)
+    }
+
+    /**
+     * @notice 把 multicall 返回的 bytes[] 解码为各调用的返回值
+     */
+    decode(results: readonly Hex[]): TResults {
+        if (results.length !== this.calls.length) {
+            throw new Error(`MulticallBuilder: expected ${this.calls.length} results, got ${results.length}`)
+        }
+        return this.calls.map((call, i) =>
+            decodeFunctionResult({
+                abi: this.abi,
+                functionName: call.functionName,
+                data: results[i]
+            } as DecodeFunctionResultParameters)
+        ) as unknown as TResults
+    }
+}
+
+export const swapRouterMulticall = () => new MulticallBuilder('swapRouter')
+
+export const positionManagerMulticall = () => new MulticallBuilder('positionManager')
@@ -0,0 +1,105 @@
+import { type Address, type PublicClient } from 'viem'
+
+import { poolAbi } from './abis.js'
+import { getSqrtRatioAtTick, mulDiv } from './math/index.js'
+import { Q128, Q192 } from './utils.js'
+
+export interface TwapWindow {
+    // 区间起点距当前区块的秒数
+    secondsAgo: number
+    // 区间终点距当前区块的秒数，默认 0
+    secondsAgoEnd?: number
+}
+
+/**
+ * @notice 一个区间的时间加权平均结果
+ * @dev 价格均为 token1 / token0；对 tick 取算术平均相当于对价格取几何平均
+ */
+export interface Twap {
+    secondsAgo: number
+    secondsAgoEnd: number
+    tickCumulativeStart: bigint
+    tickCumulativeEnd: bigint
+    // 区间内的平均 tick，向负无穷取整
+    arithmeticMeanTick: number
+    // 平均 tick 对应的价格
+    sqrtPriceX96: bigint
+}
+
+/**
+ * @notice 读取每个 secondsAgo 秒前的 tick 累计值
+ */
+export const observe = async (
+    publicClient: PublicClient,
+    pool: Address,
+    secondsAgos: number[]
+): Promise<readonly bigint[]> =>
+    publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'observe', args: [secondsAgos] })
+
+/**
+ * @notice 由两个时间点的 tick 累计值计算平均 tick，与 Uniswap OracleLibrary.consult 一样向负无穷取整
+ * @param seconds 两个时间点之间的秒数
+ */
+export const getArithmeticMeanTick = (tickCumulativeStart: bigint, tickCumulativeEnd: bigint, seconds: number) => {
+    if (seconds <= 0) {
+        throw new Error(`TWAP window must be positive, got ${seconds}s`)
+    }
+    const delta = tickCumulativeEnd - tickCumulativeStart
+    const period = BigInt(seconds)
+    const tick = delta / period
+    return Number(delta < 0n && delta % period !== 0n ? tick - 1n : tick)
+}
+
+/**
+ * @notice 按 tick 对应的价格把 baseAmount 个基础代币折算为另一种代币，与 OracleLibrary.getQuoteAtTick 一致
+ * @param zeroForOne true 表示基础代币为 token0
+ */
+export const getQuoteAtTick = (tick: number, baseAmount: bigint, zeroForOne: boolean): bigint => {
+    const sqrtRatioX96 = getSqrtRatioAtTick(tick)
+    if (sqrtRatioX96 < Q128) {
+        const ratioX192 = sqrtRatioX96 * sqrtRatioX96
+        return zeroForOne ? mulDiv(ratioX192, baseAmount, Q192) : mulDiv(Q192, baseAmount, ratioX192)
+    }
+    const ratioX128 = mulDiv(sqrtRatioX96, sqrtRatioX96, 2n ** 64n)
+    return zeroForOne ? mulDiv(ratioX128, baseAmount, Q128) : mulDiv(Q128, baseAmount, ratioX128)
+}
+
+/**
+ * @notice 在一次 observe 调用中计算多个区间的时间加权平均 tick 与价格，结果与 windows 一一对应
+ * @dev 区间起点早于池子最旧的观测时 revert ObservationTooOld
+ */
+export const getTwaps = async (publicClient: PublicClient, pool: Address, windows: TwapWindow[]): Promise<Twap[]> => {
+    const ranges = windows.map(({ secondsAgo, secondsAgoEnd = 0 }) => {
+        if (secondsAgo <= secondsAgoEnd) {
+            throw new Error(`TWAP window must start before it ends, got ${secondsAgo}s..${secondsAgoEnd}s ago`)
+        }
+        return { secondsAgo, secondsAgoEnd }
+    })
+    const secondsAgos = [...new Set(ranges.flatMap((range) => [range.secondsAgo, range.secondsAgoEnd]))]
+    const tickCumulatives = await observe(publicClient, pool, secondsAgos)
+    const cumulativeAt = (secondsAgo: number) => tickCumulatives[secondsAgos.indexOf(secondsAgo)]
+
+    return ranges.map(({ secondsAgo, secondsAgoEnd }) => {
+        const tickCumulativeStart = cumulativeAt(secondsAgo)
+        const tickCumulativeEnd = cumulativeAt(secondsAgoEnd)
+        const arithmeticMeanTick = getArithmeticMeanTick(
+            tickCumulativeStart,
+            tickCumulativeEnd,
+            secondsAgo - secondsAgoEnd
+        )
+        return {
+            secondsAgo,
+            secondsAgoEnd,
+            tickCumulativeStart,
+            tickCumulativeEnd,
+            arithmeticMeanTick,
+            sqrtPriceX96: getSqrtRatioAtTick(arithmeticMeanTick)
+        }
+    })
+}
+
+/**
+ * @notice 计算单个区间的时间加权平均 tick 与价格
+ */
+export const getTwap = async (publicClient: PublicClient, pool: Address, window: TwapWindow): Promise<Twap> =>
+    (await getTwaps(publicClient, pool, [window]))[0]
@@ -0,0 +1,93 @@
+import { type Address, type PublicClient } from 'viem'
+
+import { poolManagerAbi, positionManagerAbi } from './abis.js'
+import type { PoolInfo, PositionInfo } from './client.js'
+
+// 每页读取的条数，单次 eth_call 的 gas 约与条数成正比
+export const DEFAULT_PAGE_SIZE = 100
+
+export interface PageOptions {
+    pageSize?: number
+    // 从第几条开始读取，默认 0
+    offset?: number
+}
+
+export interface PositionPageOptions extends PageOptions {
+    // 只读取该地址当前持有的头寸，已销毁的头寸不包含在内
+    owner?: Address
+}
+
+/**
+ * @notice 按 offset / limit 逐页调用 fetchPage 并依次产出每一条，某一页不足 pageSize 条时结束
+ * @dev 每页单独发起一次调用，遍历期间链上状态变化时结果可能不是同一时刻的快照
+ */
+export async function* paginate<T>(
+    fetchPage: (offset: bigint, limit: bigint) => Promise<readonly T[]>,
+    { pageSize = DEFAULT_PAGE_SIZE, offset = 0 }: PageOptions = {}
+): AsyncGenerator<T, void, undefined> {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+        throw new Error(`Page size must be a positive integer, got ${pageSize}`)
+    }
+    const limit = BigInt(pageSize)
+    for (let start = BigInt(offset); ; start += limit) {
+        const page = await fetchPage(start, limit)
+        yield* page
+        if (page.length < pageSize) {
+            return
+        }
+    }
+}
+
+/**
+ * @notice 按创建顺序遍历 PoolManager 中的全部池子
+ */
+export const iteratePools = (
+    publicClient: PublicClient,
+    poolManager: Address,
+    options?: PageOptions
+): AsyncGenerator<PoolInfo, void, undefined> =>
+    paginate(
+        async (offset, limit) =>
+            (
+                await publicClient.readContract({
+                    address: poolManager,
+                    abi: poolManagerAbi,
+                    functionName: 'getPools',
+                    args: [offset, limit]
+                })
+            ).map((pool) => ({ ...pool })),
+        options
+    )
+
+/**
+ * @notice 遍历 PositionManager 中的头寸：不传 owner 时按 id 升序遍历全部头寸（含已销毁的），
+ *         传入 owner 时通过 ERC721Enumerable 遍历该地址当前持有的头寸
+ */
+export const iteratePositions = (
+    publicClient: PublicClient,
+    positionManager: Address,
+    { owner, ...options }: PositionPageOptions = {}
+): AsyncGenerator<PositionInfo, void, undefined> =>
+    paginate(async (offset, limit) => {
+        const contract = { address: positionManager, abi: positionManagerAbi } as const
+        const positions =
+            owner === undefined
+                ? await publicClient.readContract({ ...contract, functionName: 'getPositions', args: [offset, limit] })
+                : await publicClient.readContract({
+                      ...contract,
+                      functionName: 'getPositionsByOwner',
+                      args: [owner, offset, limit]
+                  })
+        return positions.map((position) => ({ ...position }))
+    }, options)
+
+/**
+ * @notice 读取异步迭代器的全部结果
+ */
+export const collectAll = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const items: T[] = []
+    for await (const item of iterable) {
+        items.push(item)
+    }
+    return items
+}
@@ -0,0 +1,61 @@
+import { type Address, type Hex, encodePacked, getAddress, hexToNumber, size, sliceHex } from 'viem'
+
+// 与 contracts/lib/Path.sol 保持一致
+const ADDR_SIZE = 20
+const INDEX_SIZE = 4
+const HOP_SIZE = ADDR_SIZE + INDEX_SIZE
+
+export interface PathHop {
+    tokenIn: Address
+    index: number
+    tokenOut: Address
+}
+
+/**
+ * @notice 将代币序列与每一跳的池子索引编码为 SwapRouter 多跳交易的 path
+ * @dev 精确输入和精确输出使用同一方向：tokens[0] 为输入代币，最后一个为输出代币
+ * @param tokens 途经的代币，长度比 indexes 多 1
+ * @param indexes 每一跳使用的池子索引
+ */
+export const encodePath = (tokens: Address[], indexes: number[]): Hex => {
+    if (tokens.length < 2 || tokens.length !== indexes.length + 1) {
+        throw new Error('Path: invalid path')
+    }
+    const types: ('address' | 'uint32')[] = []
+    const values: (Address | number)[] = []
+    indexes.forEach((index, i) => {
+        types.push('address', 'uint32')
+        values.push(tokens[i], index)
+    })
+    types.push('address')
+    values.push(tokens[tokens.length - 1])
+    return encodePacked(types, values)
+}
+
+/**
+ * @notice 解析 path，返回代币序列与池子索引
+ */
+export const decodePath = (path: Hex): { tokens: Address[]; indexes: number[] } => {
+    const length = size(path)
+    if (length < HOP_SIZE + ADDR_SIZE || (length - ADDR_SIZE) % HOP_SIZE !== 0) {
+        throw new Error('Path: invalid path')
+    }
+    const tokens: Address[] = []
+    const indexes: number[] = []
+    for (let offset = 0; ; offset += HOP_SIZE) {
+        tokens.push(getAddress(sliceHex(path, offset, offset + ADDR_SIZE)))
+        if (offset + ADDR_SIZE === length) {
+            break
+        }
+        indexes.push(hexToNumber(sliceHex(path, offset + ADDR_SIZE, offset + HOP_SIZE)))
+    }
+    return { tokens, indexes }
+}
+
+/**
+ * @notice 将 path 拆分为逐跳的 (tokenIn, index, tokenOut)
+ */
+export const pathHops = (path: Hex): PathHop[] => {
+    const { tokens, indexes } = decodePath(path)
+    return indexes.map((index, i) => ({ tokenIn: tokens[i], index, tokenOut: tokens[i + 1] }))
+}
@@ -0,0 +1,82 @@
+import { type Address, type Hex, type PublicClient, type WalletClient, parseSignature, zeroHash } from 'viem'
+
+import { erc20PermitAbi } from './abis.js'
+
+/**
+ * @notice 与合约中 ISelfPermit.PermitParams 对应的签名参数
+ */
+export interface PermitSignature {
+    value: bigint
+    deadline: bigint
+    v: number
+    r: Hex
+    s: Hex
+}
+
+export interface PermitRequest {
+    token: Address
+    spender: Address
+    value: bigint
+    deadline: bigint
+    // 不传时读取代币当前的 nonces(owner)
+    nonce?: bigint
+}
+
+// value 为 0 时合约跳过 permit，沿用已有授权
+export const EMPTY_PERMIT: PermitSignature = { value: 0n, deadline: 0n, v: 0, r: zeroHash, s: zeroHash }
+
+export const permitTypes = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ]
+} as const
+
+/**
+ * @notice 构造 EIP-2612 permit 的 typed data
+ * @dev 域信息按 EIP-5267 从代币的 eip712Domain() 读取，只保留 permit 使用的四个字段
+ */
+export const buildPermitTypedData = async (publicClient: PublicClient, owner: Address, request: PermitRequest) => {
+    const [{ domain }, nonce] = await Promise.all([
+        publicClient.getEip712Domain({ address: request.token }),
+        request.nonce ??
+            publicClient.readContract({
+                address: request.token,
+                abi: erc20PermitAbi,
+                functionName: 'nonces',
+                args: [owner]
+            })
+    ])
+    return {
+        domain: {
+            name: domain.name,
+            version: domain.version,
+            chainId: domain.chainId,
+            verifyingContract: domain.verifyingContract
+        },
+        types: permitTypes,
+        primaryType: 'Permit' as const,
+        message: { owner, spender: request.spender, value: request.value, nonce, deadline: request.deadline }
+    }
+}
+
+/**
+ * @notice 使用钱包账户签名 permit
+ * @return 可直接传给 exactInputWithPermit / exactOutputWithPermit / mintWithPermit 的签名参数
+ */
+export const signPermit = async (
+    publicClient: PublicClient,
+    walletClient: WalletClient,
+    request: PermitRequest
+): Promise<PermitSignature> => {
+    const account = walletClient.account
+    if (!account) {
+        throw new Error('signPermit: wallet client with account required')
+    }
+    const typedData = await buildPermitTypedData(publicClient, account.address, request)
+    const { r, s, v, yParity } = parseSignature(await walletClient.signTypedData({ account, ...typedData }))
+    return { value: request.value, deadline: request.deadline, v: Number(v ?? BigInt(yParity + 27)), r, s }
+}
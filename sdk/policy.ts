@@ -0,0 +1,126 @@
+import { type PublicClient, maxUint256 } from 'viem'
+
+import { getSqrtRatioAtTick } from './math/index.js'
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO, Q192, sqrt } from './utils.js'
+
+// 1 bps = 0.01%
+export const BPS = 10_000
+
+// 以秒为单位的时间戳不会超过该值（约 2286 年），更大的 deadline 多半是误用了毫秒
+const MAX_DEADLINE_SECONDS = 10n ** 10n
+
+const assertBps = (bps: number, name: string) => {
+    if (!Number.isInteger(bps) || bps < 0 || bps > BPS) {
+        throw new Error(`${name} must be an integer number of basis points in [0, ${BPS}], got ${bps}`)
+    }
+}
+
+/**
+ * @notice 精确输入交易的最少输出：报价下调 slippageBps，向下取整
+ */
+export const minimumAmountOut = (quotedAmountOut: bigint, slippageBps: number): bigint => {
+    assertBps(slippageBps, 'slippageBps')
+    return (quotedAmountOut * BigInt(BPS - slippageBps)) / BigInt(BPS)
+}
+
+/**
+ * @notice 精确输出交易的最多输入：报价上调 slippageBps，向上取整
+ */
+export const maximumAmountIn = (quotedAmountIn: bigint, slippageBps: number): bigint => {
+    assertBps(slippageBps, 'slippageBps')
+    const scaled = quotedAmountIn * BigInt(BPS + slippageBps)
+    return (scaled + BigInt(BPS) - 1n) / BigInt(BPS)
+}
+
+/**
+ * @notice 按交易方向取得 SwapRouter 的数量限制：exactIn 返回 amountOutMinimum，exactOut 返回 amountInMaximum
+ */
+export const amountLimit = (quoted: bigint, slippageBps: number, side: 'exactIn' | 'exactOut'): bigint =>
+    side === 'exactIn' ? minimumAmountOut(quoted, slippageBps) : maximumAmountIn(quoted, slippageBps)
+
+/**
+ * @notice 与 Pool.swap 的 InvalidSqrtPriceLimit 检查一致：
+ *         zeroForOne 时限价必须低于当前价格且高于 MIN_SQRT_RATIO，反方向时必须高于当前价格且低于 MAX_SQRT_RATIO
+ */
+export const isValidSqrtPriceLimit = (zeroForOne: boolean, sqrtPriceLimitX96: bigint, sqrtPriceX96: bigint) =>
+    zeroForOne
+        ? sqrtPriceLimitX96 < sqrtPriceX96 && sqrtPriceLimitX96 > MIN_SQRT_RATIO
+        : sqrtPriceLimitX96 > sqrtPriceX96 && sqrtPriceLimitX96 < MAX_SQRT_RATIO
+
+export interface PriceLimitParams {
+    zeroForOne: boolean
+    // 池子当前价格
+    sqrtPriceX96: bigint
+    // 池子的价格区间，限价不会越过该区间
+    tickLower: number
+    tickUpper: number
+    // 允许的最大价格变动（基点），不传时只受池子区间约束
+    priceImpactBps?: number
+}
+
+/**
+ * @notice 根据交易方向计算 sqrtPriceLimitX96
+ * @dev 先按 priceImpactBps 计算目标价格（价格即 sqrtPrice 的平方），再截断到池子的 [tickLower, tickUpper]；
+ *      当前价格已在该方向的区间边界上、无法再成交时抛出错误，而不是得到一个会被 Pool.swap 拒绝的限价
+ */
+export const sqrtPriceLimitX96For = ({
+    zeroForOne,
+    sqrtPriceX96,
+    tickLower,
+    tickUpper,
+    priceImpactBps
+}: PriceLimitParams): bigint => {
+    let limit = zeroForOne ? getSqrtRatioAtTick(tickLower) : getSqrtRatioAtTick(tickUpper)
+    if (priceImpactBps !== undefined) {
+        assertBps(priceImpactBps, 'priceImpactBps')
+        const factor = BigInt(zeroForOne ? BPS - priceImpactBps : BPS + priceImpactBps)
+        const target = (sqrtPriceX96 * sqrt((factor * Q192) / BigInt(BPS))) >> 96n
+        // 取目标价格与区间边界中离当前价格更近的一个
+        if (zeroForOne ? target > limit : target < limit) {
+            limit = target
+        }
+    }
+    // 区间边界恰好是 MIN_TICK / MAX_TICK 时向内收一位，Pool.swap 不接受 MIN_SQRT_RATIO / MAX_SQRT_RATIO 本身
+    if (zeroForOne && limit <= MIN_SQRT_RATIO) {
+        limit = MIN_SQRT_RATIO + 1n
+    } else if (!zeroForOne && limit >= MAX_SQRT_RATIO) {
+        limit = MAX_SQRT_RATIO - 1n
+    }
+    if (!isValidSqrtPriceLimit(zeroForOne, limit, sqrtPriceX96)) {
+        throw new Error(
+            `No valid sqrtPriceLimitX96 ${zeroForOne ? 'below' : 'above'} ${sqrtPriceX96} ` +
+                `within ticks [${tickLower}, ${tickUpper}]`
+        )
+    }
+    return limit
+}
+
+/**
+ * @notice 校验以秒为单位的 deadline：不能已经过期，也不能像 Date.now() 那样是毫秒
+ * @dev maxUint256 表示不设期限，直接通过
+ * @param now 当前区块时间戳（秒）
+ */
+export const assertDeadline = (deadline: bigint, now: bigint): bigint => {
+    if (deadline === maxUint256) {
+        return deadline
+    }
+    if (deadline > MAX_DEADLINE_SECONDS) {
+        throw new Error(`Deadline ${deadline} looks like milliseconds, expected seconds`)
+    }
+    if (deadline <= now) {
+        throw new Error(`Deadline ${deadline} is not after the current block time ${now}`)
+    }
+    return deadline
+}
+
+/**
+ * @notice 以最新区块时间（秒）为起点计算 deadline
+ * @dev 本地网络可能被 time.increase 推进，链上时间与 Date.now() 不一定一致，因此不使用本机时钟
+ */
+export const deadlineFromChain = async (publicClient: PublicClient, seconds: bigint): Promise<bigint> => {
+    if (seconds < 0n) {
+        throw new Error(`Deadline window must not be negative, got ${seconds}`)
+    }
+    const { timestamp } = await publicClient.getBlock()
+    return timestamp + seconds
+}
@@ -0,0 +1,118 @@
+import { type Address, type PublicClient } from 'viem'
+
+import { quoterAbi } from './abis.js'
+
+export interface QuoteRequest {
+    tokenIn: Address
+    tokenOut: Address
+    // 按顺序依次使用的池子索引
+    indexPath: number[]
+    amount: bigint
+    // 默认 exactIn
+    side?: 'exactIn' | 'exactOut'
+    // 默认使用该方向的极限价格
+    sqrtPriceLimitX96?: bigint
+}
+
+/**
+ * @notice 单个池子的成交明细，amountIn 包含手续费
+ */
+export interface PoolQuote {
+    index: number
+    amountIn: bigint
+    amountOut: bigint
+    feeAmount: bigint
+    sqrtPriceX96After: bigint
+    tickAfter: number
+    gasEstimate: bigint
+}
+
+/**
+ * @notice 整条 indexPath 的报价，pools 只包含实际经过的池子
+ * @dev 路径流动性不足时 amountIn / amountOut 小于请求数量
+ */
+export interface QuoteBreakdown {
+    amountIn: bigint
+    amountOut: bigint
+    gasEstimate: bigint
+    pools: readonly PoolQuote[]
+}
+
+export interface QuoteCurveParams {
+    tokenA: Address
+    tokenB: Address
+    indexPath: number[]
+    // 报价数量，两个方向都使用同一组数量
+    amounts: bigint[]
+    side?: 'exactIn' | 'exactOut'
+}
+
+export interface QuoteCurvePoint {
+    amount: bigint
+    quote: QuoteBreakdown
+}
+
+const toQuoteParams = (request: QuoteRequest) => ({
+    tokenIn: request.tokenIn,
+    tokenOut: request.tokenOut,
+    indexPath: request.indexPath,
+    exactInput: (request.side ?? 'exactIn') === 'exactIn',
+    amount: request.amount,
+    sqrtPriceLimitX96: request.sqrtPriceLimitX96 ?? 0n
+})
+
+/**
+ * @notice 通过 Quoter 报价并返回逐池明细
+ */
+export const quoteWithBreakdown = async (
+    publicClient: PublicClient,
+    quoter: Address,
+    request: QuoteRequest
+): Promise<QuoteBreakdown> => {
+    const { result } = await publicClient.simulateContract({
+        address: quoter,
+        abi: quoterAbi,
+        functionName: 'quote',
+        args: [toQuoteParams(request)]
+    })
+    return result
+}
+
+/**
+ * @notice 在一次 eth_call 中完成多笔报价，结果与 requests 一一对应
+ * @dev 每笔报价都基于当前链上状态，互不影响；任一笔 revert（例如池子不存在）时整批失败。
+ *      同一调用中先访问过的存储已经预热，gasEstimate 可能与单独报价略有不同
+ */
+export const quoteBatch = async (
+    publicClient: PublicClient,
+    quoter: Address,
+    requests: QuoteRequest[]
+): Promise<readonly QuoteBreakdown[]> => {
+    const { result } = await publicClient.simulateContract({
+        address: quoter,
+        abi: quoterAbi,
+        functionName: 'quoteBatch',
+        args: [requests.map(toQuoteParams)]
+    })
+    return result
+}
+
+/**
+ * @notice 在一次 eth_call 中报价两个方向的一组数量，用于绘制价格冲击曲线
+ * @return aToB tokenA 换 tokenB 的报价，与 amounts 一一对应
+ * @return bToA tokenB 换 tokenA 的报价
+ */
+export const quoteCurve = async (
+    publicClient: PublicClient,
+    quoter: Address,
+    params: QuoteCurveParams
+): Promise<{ aToB: QuoteCurvePoint[]; bToA: QuoteCurvePoint[] }> => {
+    const { tokenA, tokenB, indexPath, amounts, side } = params
+    const requests = [
+        ...amounts.map((amount) => ({ tokenIn: tokenA, tokenOut: tokenB, indexPath, amount, side })),
+        ...amounts.map((amount) => ({ tokenIn: tokenB, tokenOut: tokenA, indexPath, amount, side }))
+    ]
+    const quotes = await quoteBatch(publicClient, quoter, requests)
+    const points = (offset: number) => amounts.map((amount, i) => ({ amount, quote: quotes[offset + i] }))
+    return { aToB: points(0), bToA: points(amounts.length) }
+}
@@ -0,0 +1,266 @@
+import type { Address } from 'viem'
+
+import type { PoolInfo } from './client.js'
+import { MathError } from './math/index.js'
+import { type SwapResult, simulateSwap } from './simulator.js'
+import { defaultSqrtPriceLimitX96, isSameAddress, sortTokens } from './utils.js'
+
+export interface RouteParams {
+    tokenIn: Address
+    tokenOut: Address
+    // exactIn 时为输入数量，exactOut 时为期望的输出数量
+    amount: bigint
+    side?: 'exactIn' | 'exactOut'
+    sqrtPriceLimitX96?: bigint
+    // 拆单时的切分份数，越大越接近最优但计算量越大，默认 50
+    steps?: number
+}
+
+// 单个池子分到的数量
+export interface RouteAllocation {
+    index: number
+    amountIn: bigint
+    amountOut: bigint
+}
+
+/**
+ * @notice 路由结果
+ * @dev split 为 false 时按 indexPath 发送一笔 SwapRouter 交易即可；
+ *      为 true 时需要按 allocations 对每个池子单独发送一笔交易（各池互不影响，结果与模拟一致）
+ */
+export interface Route {
+    side: 'exactIn' | 'exactOut'
+    tokenIn: Address
+    tokenOut: Address
+    sqrtPriceLimitX96: bigint
+    // 调用方请求的数量，区间流动性不足时可能大于实际成交的 amountIn / amountOut
+    amount: bigint
+    amountIn: bigint
+    amountOut: bigint
+    split: boolean
+    indexPath: number[]
+    allocations: RouteAllocation[]
+}
+
+export interface RouteCallOptions {
+    recipient: Address
+    deadline: bigint
+}
+
+export type RouteCall =
+    | {
+          functionName: 'exactInput'
+          args: readonly [
+              {
+                  tokenIn: Address
+                  tokenOut: Address
+                  indexPath: readonly number[]
+                  recipient: Address
+                  deadline: bigint
+                  amountIn: bigint
+                  amountOutMinimum: bigint
+                  sqrtPriceLimitX96: bigint
+              }
+          ]
+      }
+    | {
+          functionName: 'exactOutput'
+          args: readonly [
+              {
+                  tokenIn: Address
+                  tokenOut: Address
+                  indexPath: readonly number[]
+                  recipient: Address
+                  deadline: bigint
+                  amountOut: bigint
+                  amountInMaximum: bigint
+                  sqrtPriceLimitX96: bigint
+              }
+          ]
+      }
+
+// 全排列数量上限对应的池子数，超过后按费率排序作为唯一候选顺序
+const MAX_PERMUTATION_POOLS = 6
+const DEFAULT_STEPS = 50
+
+const permutations = (items: number[]): number[][] => {
+    if (items.length <= 1) {
+        return [items]
+    }
+    return items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+    )
+}
+
+/**
+ * @notice 在同一代币对的多个池子间寻找最优路由
+ * @dev 两类候选：
+ *      1. 单笔交易：枚举 indexPath 的顺序，按 SwapRouter 的逻辑依次耗尽每个池子
+ *      2. 拆单：将数量切成 steps 份，每份分给边际收益最高（exactOut 时边际成本最低）的池子
+ *      exactIn 取输出最多者，exactOut 在满足输出的前提下取输入最少者，结果相同时优先单笔交易
+ * @param pools PoolManager.getAllPools 的返回值，其他代币对的池子会被忽略
+ */
+export const findBestRoute = (pools: PoolInfo[], params: RouteParams): Route => {
+    const side = params.side ?? 'exactIn'
+    const exactIn = side === 'exactIn'
+    const [token0, token1, reversed] = sortTokens(params.tokenIn, params.tokenOut)
+    const zeroForOne = !reversed
+    const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? defaultSqrtPriceLimitX96(zeroForOne)
+    const steps = BigInt(Math.max(1, params.steps ?? DEFAULT_STEPS))
+
+    if (params.amount <= 0n) {
+        throw new Error('Routing: amount must be greater than zero')
+    }
+
+    // 没有流动性的池子在合约中会 revert，不参与路由
+    const candidates = pools
+        .filter((pool) => isSameAddress(pool.token0, token0) && isSameAddress(pool.token1, token1))
+        .filter((pool) => pool.liquidity > 0n)
+        .sort((a, b) => a.index - b.index)
+    if (candidates.length === 0) {
+        throw new Error('Routing: pool not found')
+    }
+
+    // 在单个池子上模拟，返回 [输入, 输出]；合约会 revert 的情况返回 undefined
+    const quote = (pool: PoolInfo, amount: bigint): [bigint, bigint] | undefined => {
+        if (amount === 0n) {
+            return [0n, 0n]
+        }
+        const amountSpecified = exactIn ? amount : -amount
+        let result: SwapResult
+        try {
+            result = simulateSwap(pool, { zeroForOne, amountSpecified, sqrtPriceLimitX96 })
+        } catch (error) {
+            if (error instanceof MathError) {
+                return undefined
+            }
+            throw error
+        }
+        return zeroForOne ? [result.amount0, -result.amount1] : [result.amount1, -result.amount0]
+    }
+
+    const summarize = (allocations: RouteAllocation[], split: boolean): Route => ({
+        side,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        sqrtPriceLimitX96,
+        amount: params.amount,
+        amountIn: allocations.reduce((sum, item) => sum + item.amountIn, 0n),
+        amountOut: allocations.reduce((sum, item) => sum + item.amountOut, 0n),
+        split,
+        indexPath: allocations.map((item) => item.index),
+        allocations
+    })
+
+    // 候选 1：按 SwapRouter 的顺序执行逻辑模拟每一种 indexPath
+    const sequential = (order: PoolInfo[]): Route | undefined => {
+        let remaining = params.amount
+        const allocations: RouteAllocation[] = []
+        for (const pool of order) {
+            const result = quote(pool, remaining)
+            if (!result) {
+                return undefined
+            }
+            const [amountIn, amountOut] = result
+            allocations.push({ index: pool.index, amountIn, amountOut })
+            remaining -= exactIn ? amountIn : amountOut
+            if (remaining === 0n) {
+                break
+            }
+        }
+        return summarize(allocations, false)
+    }
+
+    const orders =
+        candidates.length <= MAX_PERMUTATION_POOLS
+            ? permutations(candidates.map((_, i) => i)).map((order) => order.map((i) => candidates[i]))
+            : [[...candidates].sort((a, b) => a.fee - b.fee)]
+
+    // 候选 2：贪心拆单，池子的收益曲线是凹的，按份分配即可逼近最优
+    const greedy = (): Route => {
+        const allocated = candidates.map(() => 0n)
+        const current = candidates.map((): [bigint, bigint] => [0n, 0n])
+        const chunk = params.amount / steps > 0n ? params.amount / steps : 1n
+        let remaining = params.amount
+        while (remaining > 0n) {
+            const size = remaining < chunk * 2n ? remaining : chunk
+            let best: { i: number; result: [bigint, bigint]; gain: bigint } | undefined
+            for (let i = 0; i < candidates.length; i++) {
+                const result = quote(candidates[i], allocated[i] + size)
+                if (!result) {
+                    continue
+                }
+                // exactIn 比较新增输出，exactOut 只考虑能足额成交的池子并比较新增输入
+                if (!exactIn && result[1] !== allocated[i] + size) {
+                    continue
+                }
+                const gain = exactIn ? result[1] - current[i][1] : current[i][0] - result[0]
+                if (best === undefined || gain > best.gain) {
+                    best = { i, result, gain }
+                }
+            }
+            // 所有池子都已触及区间边界，剩余部分无法成交
+            if (best === undefined || (exactIn && best.gain === 0n)) {
+                break
+            }
+            allocated[best.i] += size
+            current[best.i] = best.result
+            remaining -= size
+        }
+        const allocations = candidates
+            .map((pool, i) => ({ index: pool.index, amountIn: current[i][0], amountOut: current[i][1] }))
+            .filter((item) => item.amountIn > 0n || item.amountOut > 0n)
+        return summarize(allocations, allocations.length > 1)
+    }
+
+    const better = (a: Route, b: Route): Route => {
+        if (exactIn) {
+            return b.amountOut > a.amountOut ? b : a
+        }
+        if (a.amountOut !== b.amountOut) {
+            return b.amountOut > a.amountOut ? b : a
+        }
+        return b.amountIn < a.amountIn ? b : a
+    }
+
+    let best: Route | undefined
+    for (const order of orders) {
+        const route = sequential(order)
+        if (route) {
+            best = best ? better(best, route) : route
+        }
+    }
+    const split = greedy()
+    return best ? better(best, split) : split
+}
+
+/**
+ * @notice 将路由结果转换为可直接发送给 SwapRouter 的调用参数
+ * @dev 滑点下限/上限取模拟结果本身（零滑点），与 SwapClient 的默认行为一致
+ */
+export const buildRouteCalls = (route: Route, options: RouteCallOptions): RouteCall[] => {
+    const groups: RouteAllocation[][] = route.split ? route.allocations.map((item) => [item]) : [route.allocations]
+    return groups.map((group) => {
+        const common = {
+            tokenIn: route.tokenIn,
+            tokenOut: route.tokenOut,
+            indexPath: group.map((item) => item.index),
+            recipient: options.recipient,
+            deadline: options.deadline,
+            sqrtPriceLimitX96: route.sqrtPriceLimitX96
+        }
+        const amountIn = group.reduce((sum, item) => sum + item.amountIn, 0n)
+        const amountOut = group.reduce((sum, item) => sum + item.amountOut, 0n)
+        if (route.side === 'exactIn') {
+            // 单笔交易传入请求的总量，与模拟时一致，由 SwapRouter 按顺序消耗
+            return {
+                functionName: 'exactInput',
+                args: [{ ...common, amountIn: route.split ? amountIn : route.amount, amountOutMinimum: amountOut }]
+            }
+        }
+        return {
+            functionName: 'exactOutput',
+            args: [{ ...common, amountOut, amountInMaximum: amountIn }]
+        }
+    })
+}
@@ -0,0 +1,135 @@
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO, Q128 } from './utils.js'
+import {
+    MAX_UINT256,
+    computeSwapStep,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    mulDiv,
+    requireThat,
+    toInt256
+} from './math/index.js'
+
+/**
+ * @notice 模拟所需的池子状态，字段与 PoolManager.getAllPools 返回的 PoolInfo 一致
+ * @dev 手续费增长不在 PoolInfo 中，不传时按 0 计算，只影响返回的 feeGrowthGlobal 绝对值
+ */
+export interface PoolState {
+    sqrtPriceX96: bigint
+    liquidity: bigint
+    fee: number
+    tickLower: number
+    tickUpper: number
+    tick?: number
+    // 协议手续费比例，低 4 位对应 token0、高 4 位对应 token1，不传时按关闭计算
+    feeProtocol?: number
+    feeGrowthGlobal0X128?: bigint
+    feeGrowthGlobal1X128?: bigint
+}
+
+export interface SwapParams {
+    zeroForOne: boolean
+    // 正数为精确输入，负数为精确输出
+    amountSpecified: bigint
+    sqrtPriceLimitX96: bigint
+}
+
+/**
+ * @notice 模拟结果
+ * @dev amount0 / amount1 与 Pool.swap 的返回值一致：正数流入池子，负数流出池子
+ */
+export interface SwapResult {
+    amount0: bigint
+    amount1: bigint
+    // 输入代币的全部手续费，其中 protocolFee 归协议，其余计入 LP 的手续费增长
+    feeAmount: bigint
+    protocolFee: bigint
+    sqrtPriceX96: bigint
+    tick: number
+    liquidity: bigint
+    feeGrowthGlobal0X128: bigint
+    feeGrowthGlobal1X128: bigint
+}
+
+/**
+ * @notice 以纯 bigint 复现 Pool.swap
+ * @dev 与合约一样只执行一次 computeSwapStep，目标价格被截断到池子自身的 [tickLower, tickUpper]；
+ *      合约会 revert 的输入在这里抛出 MathError，message 为合约中对应的自定义错误名
+ */
+export const simulateSwap = (state: PoolState, params: SwapParams): SwapResult => {
+    const { zeroForOne, amountSpecified, sqrtPriceLimitX96 } = params
+
+    requireThat(amountSpecified !== 0n, 'ZeroAmount')
+    requireThat(
+        zeroForOne
+            ? sqrtPriceLimitX96 < state.sqrtPriceX96 && sqrtPriceLimitX96 > MIN_SQRT_RATIO
+            : sqrtPriceLimitX96 > state.sqrtPriceX96 && sqrtPriceLimitX96 < MAX_SQRT_RATIO,
+        'InvalidSqrtPriceLimit'
+    )
+
+    const exactInput = amountSpecified > 0n
+
+    // 价格目标：用户限价与池子边界中更近的一个
+    const sqrtPriceX96PoolLimit = getSqrtRatioAtTick(zeroForOne ? state.tickLower : state.tickUpper)
+    const sqrtPriceTargetX96 = (
+        zeroForOne ? sqrtPriceX96PoolLimit < sqrtPriceLimitX96 : sqrtPriceX96PoolLimit > sqrtPriceLimitX96
+    )
+        ? sqrtPriceLimitX96
+        : sqrtPriceX96PoolLimit
+
+    const step = computeSwapStep(state.sqrtPriceX96, sqrtPriceTargetX96, state.liquidity, amountSpecified, state.fee)
+
+    // 协议按 1/N 抽取输入代币的手续费
+    const feeProtocol = state.feeProtocol ?? 0
+    const feeProtocolIn = zeroForOne ? feeProtocol % 16 : feeProtocol >> 4
+    const protocolFee = feeProtocolIn > 0 ? step.feeAmount / BigInt(feeProtocolIn) : 0n
+
+    // 手续费全局增长（合约中为带溢出检查的加法）
+    let feeGrowthGlobal0X128 = state.feeGrowthGlobal0X128 ?? 0n
+    let feeGrowthGlobal1X128 = state.feeGrowthGlobal1X128 ?? 0n
+    const feeGrowthDelta = mulDiv(step.feeAmount - protocolFee, Q128, state.liquidity)
+    if (zeroForOne) {
+        feeGrowthGlobal0X128 += feeGrowthDelta
+        requireThat(feeGrowthGlobal0X128 <= MAX_UINT256)
+    } else {
+        feeGrowthGlobal1X128 += feeGrowthDelta
+        requireThat(feeGrowthGlobal1X128 <= MAX_UINT256)
+    }
+
+    let amountSpecifiedRemaining = amountSpecified
+    let amountCalculated = 0n
+    if (exactInput) {
+        amountSpecifiedRemaining -= toInt256(step.amountIn + step.feeAmount)
+        amountCalculated -= toInt256(step.amountOut)
+    } else {
+        amountSpecifiedRemaining += toInt256(step.amountOut)
+        amountCalculated += toInt256(step.amountIn + step.feeAmount)
+    }
+
+    const [amount0, amount1] =
+        zeroForOne === exactInput
+            ? [amountSpecified - amountSpecifiedRemaining, amountCalculated]
+            : [amountCalculated, amountSpecified - amountSpecifiedRemaining]
+
+    return {
+        amount0,
+        amount1,
+        feeAmount: step.feeAmount,
+        protocolFee,
+        sqrtPriceX96: step.sqrtRatioNextX96,
+        tick: getTickAtSqrtRatio(step.sqrtRatioNextX96),
+        liquidity: state.liquidity,
+        feeGrowthGlobal0X128,
+        feeGrowthGlobal1X128
+    }
+}
+
+/**
+ * @notice 将模拟结果应用到池子状态上，便于连续模拟多笔交易
+ */
+export const applySwap = <T extends PoolState>(state: T, result: SwapResult): T => ({
+    ...state,
+    sqrtPriceX96: result.sqrtPriceX96,
+    tick: result.tick,
+    feeGrowthGlobal0X128: result.feeGrowthGlobal0X128,
+    feeGrowthGlobal1X128: result.feeGrowthGlobal1X128
+})
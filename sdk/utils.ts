@@ -0,0 +1,76 @@
+import type { Address } from 'viem'
+
+// 与 TickMath.MIN_SQRT_RATIO / MAX_SQRT_RATIO 保持一致
+export const MIN_SQRT_RATIO = 4295128739n
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n
+
+export const Q96 = 2n ** 96n
+export const Q128 = 2n ** 128n
+export const Q192 = 2n ** 192n
+
+/**
+ * @notice 按地址大小对代币排序，与合约中的 sortTokens 规则一致
+ * @return [token0, token1] 以及输入是否被交换了顺序
+ */
+export const sortTokens = (tokenA: Address, tokenB: Address): [Address, Address, boolean] => {
+    if (tokenA.toLowerCase() === tokenB.toLowerCase()) {
+        throw new Error('Identical addresses')
+    }
+    return BigInt(tokenA) < BigInt(tokenB) ? [tokenA, tokenB, false] : [tokenB, tokenA, true]
+}
+
+// 地址比较（忽略大小写）
+export const isSameAddress = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase()
+
+/**
+ * @notice 代表原生 ETH 的哨兵地址，SDK 在发送交易前将其替换为 SwapRouter.WETH9()
+ * @dev 不是合约地址，不能用于池子创建或多跳路径
+ */
+export const ETH: Address = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'
+
+export const isETH = (token: Address) => isSameAddress(token, ETH)
+
+/**
+ * @notice 整数平方根（向下取整），用于 bigint 价格计算
+ */
+export const sqrt = (value: bigint): bigint => {
+    if (value < 0n) {
+        throw new Error('Square root of negative number')
+    }
+    if (value < 2n) {
+        return value
+    }
+    let x0 = value
+    let x1 = (value >> 1n) + 1n
+    while (x1 < x0) {
+        x0 = x1
+        x1 = (x1 + value / x1) >> 1n
+    }
+    return x0
+}
+
+/**
+ * @notice 计算 sqrt(amount1 / amount0) * 2^96，与 @uniswap/v3-sdk 的 encodeSqrtRatioX96 结果一致
+ * @param amount1 价格分子（token1 数量）
+ * @param amount0 价格分母（token0 数量）
+ */
+export const encodeSqrtRatioX96 = (amount1: bigint, amount0: bigint): bigint => {
+    return sqrt((amount1 << 192n) / amount0)
+}
+
+/**
+ * @notice 将价格方向取反：token1/token0 的 sqrtPriceX96 转为 token0/token1
+ */
+export const invertSqrtPriceX96 = (sqrtPriceX96: bigint): bigint => Q192 / sqrtPriceX96
+
+/**
+ * @notice swap 方向上允许的最极限价格，Pool 会再将其截断到自身的 [tickLower, tickUpper]
+ */
+export const defaultSqrtPriceLimitX96 = (zeroForOne: boolean): bigint =>
+    zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n
+
+/**
+ * @notice 拆分 Pool.feeProtocol：低 4 位为 token0 的比例，高 4 位为 token1 的比例
+ * @dev 比例 N 表示协议收取该代币手续费的 1/N，0 表示关闭
+ */
+export const decodeFeeProtocol = (feeProtocol: number): [number, number] => [feeProtocol % 16, feeProtocol >> 4]
@@ -0,0 +1,273 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import type { HardhatRuntimeEnvironment } from 'hardhat/types/hre'
+import { type Address, type PublicClient, formatUnits, isAddress, parseUnits } from 'viem'
+
+import { type DemoManifest, demoManifestPath, loadDemoManifest } from '../ignition/demo-exchange.js'
+import {
+    ETH,
+    Q192,
+    SwapClient,
+    type SwapAddresses,
+    amountLimit,
+    encodeSqrtRatioX96,
+    erc20Abi,
+    isETH,
+    isSameAddress
+} from '../sdk/index.js'
+
+// 所有任务共用的参数
+export interface CommonTaskArguments {
+    poolManager: string
+    swapRouter: string
+    positionManager: string
+    positionMigrator: string
+    quoter: string
+    json: boolean
+}
+
+export interface TokenInfo {
+    address: Address
+    symbol: string
+    decimals: number
+}
+
+export interface TaskContext {
+    client: SwapClient
+    publicClient: PublicClient
+    tokens: TokenResolver
+}
+
+// 原生 ETH，SDK 会替换为 WETH9 并随交易发送或接收 ETH
+const ETH_TOKEN: TokenInfo = { address: ETH, symbol: 'ETH', decimals: 18 }
+
+const ADDRESS_ENV: Record<keyof SwapAddresses, string> = {
+    poolManager: 'POOL_MANAGER',
+    swapRouter: 'SWAP_ROUTER',
+    positionManager: 'POSITION_MANAGER',
+    positionMigrator: 'POSITION_MIGRATOR',
+    quoter: 'QUOTER'
+}
+
+// Ignition 部署结果中的合约 id 后缀
+const ADDRESS_FUTURE: Record<keyof SwapAddresses, string> = {
+    poolManager: '#PoolManager',
+    swapRouter: '#SwapRouter',
+    positionManager: '#PositionManager',
+    positionMigrator: '#PositionMigrator',
+    quoter: '#Quoter'
+}
+
+/**
+ * @notice 读取 Ignition 在当前链上的部署地址（ignition/deployments/chain-<id>/deployed_addresses.json）
+ * @return future id 到地址的映射，未部署时返回空对象
+ */
+export const loadIgnitionAddresses = async (
+    chainId: number,
+    root = process.cwd()
+): Promise<Record<string, Address>> => {
+    const file = path.join(root, 'ignition', 'deployments', `chain-${chainId}`, 'deployed_addresses.json')
+    try {
+        return JSON.parse(await readFile(file, 'utf8'))
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * @notice 按 命令行参数 > 环境变量 > 演示交易所地址清单 > Ignition 部署结果 的顺序确定外围合约地址
+ * @dev positionMigrator 只有迁移头寸时需要，quoter 只有 API 服务需要，找不到时留空
+ */
+export const resolveAddresses = async (
+    args: Omit<CommonTaskArguments, 'json'>,
+    deployed: Record<string, Address>,
+    manifest?: DemoManifest
+): Promise<SwapAddresses> => {
+    const missing = (key: keyof SwapAddresses) =>
+        new Error(`Missing ${key} address: pass --${kebab(key)} or set ${ADDRESS_ENV[key]}`)
+    const lookup = (key: keyof SwapAddresses): Address | undefined => {
+        const value =
+            args[key] ||
+            process.env[ADDRESS_ENV[key]] ||
+            manifest?.[key] ||
+            Object.entries(deployed).find(([id]) => id.endsWith(ADDRESS_FUTURE[key]))?.[1]
+        if (!value) {
+            return undefined
+        }
+        if (!isAddress(value)) {
+            throw missing(key)
+        }
+        return value
+    }
+    const resolve = (key: keyof SwapAddresses): Address => {
+        const value = lookup(key)
+        if (!value) {
+            throw missing(key)
+        }
+        return value
+    }
+    return {
+        poolManager: resolve('poolManager'),
+        swapRouter: resolve('swapRouter'),
+        positionManager: resolve('positionManager'),
+        positionMigrator: lookup('positionMigrator'),
+        quoter: lookup('quoter')
+    }
+}
+
+const kebab = (name: string) => name.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)
+
+/**
+ * @title TokenResolver
+ * @notice 将地址或代币符号解析为 { address, symbol, decimals }
+ * @dev 符号在已有池子的代币与 Ignition 部署的合约中查找，大小写不敏感；"ETH" 表示原生 ETH
+ */
+export class TokenResolver {
+    private readonly cache = new Map<string, TokenInfo>()
+    private known?: Promise<TokenInfo[]>
+
+    constructor(
+        readonly publicClient: PublicClient,
+        readonly client: SwapClient,
+        readonly candidates: Address[] = []
+    ) {}
+
+    async resolve(token: string): Promise<TokenInfo> {
+        if (token.toUpperCase() === ETH_TOKEN.symbol) {
+            return ETH_TOKEN
+        }
+        if (isAddress(token)) {
+            return this.info(token)
+        }
+        const matches = (await this.list()).filter((item) => item.symbol.toLowerCase() === token.toLowerCase())
+        if (matches.length === 0) {
+            throw new Error(`Unknown token ${token}`)
+        }
+        if (matches.length > 1) {
+            throw new Error(`Ambiguous token ${token}: ${matches.map((item) => item.address).join(', ')}`)
+        }
+        return matches[0]
+    }
+
+    async info(address: Address): Promise<TokenInfo> {
+        if (isETH(address)) {
+            return ETH_TOKEN
+        }
+        const key = address.toLowerCase()
+        if (!this.cache.has(key)) {
+            const [symbol, decimals] = await Promise.all([
+                this.publicClient.readContract({ address, abi: erc20Abi, functionName: 'symbol' }),
+                this.publicClient.readContract({ address, abi: erc20Abi, functionName: 'decimals' })
+            ])
+            this.cache.set(key, { address, symbol, decimals })
+        }
+        return this.cache.get(key)!
+    }
+
+    // 可按符号查找的全部代币，不是 ERC20 的候选地址会被忽略
+    private list(): Promise<TokenInfo[]> {
+        this.known ??= (async () => {
+            const pools = await this.client.getPools()
+            const addresses: Address[] = []
+            for (const address of [...pools.flatMap((pool) => [pool.token0, pool.token1]), ...this.candidates]) {
+                if (!addresses.some((item) => isSameAddress(item, address))) {
+                    addresses.push(address)
+                }
+            }
+            const infos = await Promise.all(addresses.map((address) => this.info(address).catch(() => undefined)))
+            return infos.filter((item): item is TokenInfo => item !== undefined)
+        })()
+        return this.known
+    }
+}
+
+/**
+ * @notice 连接 --network 指定的网络，创建任务上下文
+ */
+export const connect = async (args: CommonTaskArguments, hre: HardhatRuntimeEnvironment): Promise<TaskContext> => {
+    const { viem } = await hre.network.connect()
+    const publicClient = (await viem.getPublicClient()) as PublicClient
+    const [walletClient] = await viem.getWalletClients()
+    const chainId = await publicClient.getChainId()
+    const deployed = await loadIgnitionAddresses(chainId, hre.config.paths.root)
+    const manifest = await loadDemoManifest(demoManifestPath(chainId, hre.config.paths.root))
+    const addresses = await resolveAddresses(args, deployed, manifest)
+    const client = new SwapClient({ publicClient, walletClient, addresses })
+    const candidates = [...Object.values(manifest?.tokens ?? {}), ...Object.values(deployed)]
+    return { client, publicClient, tokens: new TokenResolver(publicClient, client, candidates) }
+}
+
+// ---------- 数量与输出 ----------
+
+export const parseAmount = (amount: string, token: TokenInfo): bigint => parseUnits(amount, token.decimals)
+
+export const formatAmount = (amount: bigint, token: TokenInfo): string => formatUnits(amount, token.decimals)
+
+// 价格以 18 位小数输出
+const PRICE_DECIMALS = 18
+
+/**
+ * @notice 将 sqrtPriceX96 转为人类可读的价格（每个 base 可换多少 quote）
+ * @param base 价格的基础代币，即池子的 token0
+ * @param quote 计价代币，即池子的 token1
+ */
+export const formatPrice = (sqrtPriceX96: bigint, base: TokenInfo, quote: TokenInfo): string => {
+    const scaled =
+        (sqrtPriceX96 * sqrtPriceX96 * 10n ** BigInt(base.decimals + PRICE_DECIMALS)) /
+        (Q192 * 10n ** BigInt(quote.decimals))
+    return formatUnits(scaled, PRICE_DECIMALS)
+}
+
+/**
+ * @notice 将人类可读的价格（每个 base 可换多少 quote）编码为 sqrtPriceX96（quote / base 方向）
+ */
+export const encodePrice = (price: string, base: TokenInfo, quote: TokenInfo): bigint =>
+    encodeSqrtRatioX96(parseUnits(price, quote.decimals), 10n ** BigInt(base.decimals))
+
+/**
+ * @notice 将百分比滑点转为基点
+ * @param slippage 百分比字符串，例如 "0.5" 表示 0.5%
+ */
+export const parseSlippageBps = (slippage: string): number => {
+    // 以万分之一为单位
+    const bps = parseUnits(slippage, 2)
+    if (bps < 0n || bps > 10000n) {
+        throw new Error(`Invalid slippage ${slippage}%`)
+    }
+    return Number(bps)
+}
+
+/**
+ * @notice 按百分比滑点调整报价
+ * @param slippage 百分比字符串，例如 "0.5" 表示 0.5%
+ * @param side exactIn 时下调输出下限，exactOut 时上调输入上限
+ */
+export const applySlippage = (amount: bigint, slippage: string, side: 'exactIn' | 'exactOut'): bigint =>
+    amountLimit(amount, parseSlippageBps(slippage), side)
+
+// 逗号分隔的池子索引，例如 "0,1"
+export const parseIndexPath = (value: string): number[] | undefined =>
+    value === '' ? undefined : value.split(',').map((item) => Number.parseInt(item.trim(), 10))
+
+/**
+ * @notice 以表格或 JSON 输出结果，bigint 转为字符串
+ */
+export const printResult = (rows: Record<string, unknown>[] | Record<string, unknown>, json: boolean): void => {
+    if (json) {
+        console.log(JSON.stringify(rows, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2))
+        return
+    }
+    const list = Array.isArray(rows) ? rows : [rows]
+    if (list.length === 0) {
+        console.log('(empty)')
+        return
+    }
+    console.table(
+        list.map((row) =>
+            Object.fromEntries(
+                Object.entries(row).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value])
+            )
+        )
+    )
+}
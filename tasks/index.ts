@@ -0,0 +1,185 @@
+import { task } from 'hardhat/config'
+import { ArgumentType } from 'hardhat/types/arguments'
+
+// 外围合约地址默认从环境变量或 Ignition 部署结果读取
+const swapTask = (id: string, description: string) =>
+    task(id, description)
+        .addOption({ name: 'poolManager', description: 'PoolManager address', defaultValue: '' })
+        .addOption({ name: 'swapRouter', description: 'SwapRouter address', defaultValue: '' })
+        .addOption({ name: 'positionManager', description: 'PositionManager address', defaultValue: '' })
+        .addOption({ name: 'positionMigrator', description: 'PositionMigrator address', defaultValue: '' })
+        .addOption({ name: 'quoter', description: 'Quoter address', defaultValue: '' })
+        .addFlag({ name: 'json', description: 'Print the result as JSON' })
+
+// 代币参数可传 ETH 表示原生 ETH
+const TOKEN_A = { name: 'tokenA', description: 'Token address, symbol or ETH', defaultValue: '' } as const
+const TOKEN_B = { name: 'tokenB', description: 'Token address, symbol or ETH', defaultValue: '' } as const
+const TOKEN_IN = { name: 'tokenIn', description: 'Input token address, symbol or ETH', defaultValue: '' } as const
+const TOKEN_OUT = { name: 'tokenOut', description: 'Output token address, symbol or ETH', defaultValue: '' } as const
+const INDEX_PATH = {
+    name: 'indexPath',
+    description: 'Comma separated pool indexes, defaults to all pools of the pair',
+    defaultValue: ''
+} as const
+const RECIPIENT = { name: 'recipient', description: 'Recipient, defaults to the signer', defaultValue: '' } as const
+const SLIPPAGE = { name: 'slippage', description: 'Slippage tolerance in percent', defaultValue: '0.5' } as const
+const POSITION_ID = {
+    name: 'positionId',
+    description: 'Position NFT id',
+    type: ArgumentType.BIGINT,
+    defaultValue: 0n
+} as const
+
+/**
+ * @notice 池子、流动性与交易相关的命令行任务，均可通过 --network 指向模拟网络或 RPC
+ */
+export const swapTasks = [
+    swapTask('pools:list', 'List pools with prices and liquidity')
+        .addOption(TOKEN_A)
+        .addOption(TOKEN_B)
+        .setAction(async () => ({ default: (await import('./pools.js')).listAction }))
+        .build(),
+
+    swapTask('pools:create', 'Create a pool, prices are quoted as tokenB per tokenA')
+        .addOption(TOKEN_A)
+        .addOption(TOKEN_B)
+        .addOption({
+            name: 'fee',
+            description: 'Fee in hundredths of a bip',
+            type: ArgumentType.INT,
+            defaultValue: 3000
+        })
+        .addOption({ name: 'price', description: 'Initial price', defaultValue: '1' })
+        .addOption({ name: 'priceLower', description: 'Lower price of the range', defaultValue: '' })
+        .addOption({ name: 'priceUpper', description: 'Upper price of the range', defaultValue: '' })
+        .setAction(async () => ({ default: (await import('./pools.js')).createAction }))
+        .build(),
+
+    // 离线回放交易记录，不连接链
+    task('pools:backtest', 'Replay a trade log against candidate pool fee and range configurations')
+        .addOption({ name: 'trades', description: 'Trade log file (CSV, JSON or an indexer store)', defaultValue: '' })
+        .addOption({ name: 'candidates', description: 'Candidate configuration JSON file', defaultValue: '' })
+        .addOption({ name: 'format', description: 'csv, json or indexer, defaults to the extension', defaultValue: '' })
+        .addOption({ name: 'pool', description: 'Pool address to replay from an indexer store', defaultValue: '' })
+        .addFlag({ name: 'json', description: 'Print the result as JSON' })
+        .setAction(async () => ({ default: (await import('./pools.js')).backtestAction }))
+        .build(),
+
+    swapTask('liquidity:add', 'Add liquidity to a pool and mint a position')
+        .addOption(TOKEN_A)
+        .addOption(TOKEN_B)
+        .addOption({ name: 'index', description: 'Pool index of the pair', type: ArgumentType.INT, defaultValue: 0 })
+        .addOption({ name: 'amountA', description: 'Desired amount of tokenA', defaultValue: '0' })
+        .addOption({ name: 'amountB', description: 'Desired amount of tokenB', defaultValue: '0' })
+        .setAction(async () => ({ default: (await import('./liquidity.js')).addAction }))
+        .build(),
+
+    swapTask('liquidity:increase', 'Add liquidity to an existing position at the current price')
+        .addOption(POSITION_ID)
+        .addOption({ name: 'amount0', description: 'Desired amount of the position token0', defaultValue: '0' })
+        .addOption({ name: 'amount1', description: 'Desired amount of the position token1', defaultValue: '0' })
+        .addOption(SLIPPAGE)
+        .setAction(async () => ({ default: (await import('./liquidity.js')).increaseAction }))
+        .build(),
+
+    swapTask('liquidity:decrease', 'Remove part of the liquidity of a position')
+        .addOption(POSITION_ID)
+        .addOption({ name: 'liquidity', description: 'Liquidity to remove, overrides percent', defaultValue: '' })
+        .addOption({ name: 'percent', description: 'Percent of the position liquidity', defaultValue: '100' })
+        .addOption(SLIPPAGE)
+        .setAction(async () => ({ default: (await import('./liquidity.js')).decreaseAction }))
+        .build(),
+
+    swapTask('liquidity:remove', 'Remove all liquidity of a position')
+        .addOption(POSITION_ID)
+        .setAction(async () => ({ default: (await import('./liquidity.js')).removeAction }))
+        .build(),
+
+    swapTask('liquidity:collect', 'Collect tokens owed to a position')
+        .addOption(POSITION_ID)
+        .addOption(RECIPIENT)
+        .addFlag({ name: 'unwrapEth', description: 'Receive the WETH side as native ETH' })
+        .setAction(async () => ({ default: (await import('./liquidity.js')).collectAction }))
+        .build(),
+
+    swapTask('liquidity:migrate', 'Move a position into another pool of the pair in one transaction')
+        .addOption(POSITION_ID)
+        .addOption({
+            name: 'targetIndex',
+            description: 'Pool index of the pair to migrate into',
+            type: ArgumentType.INT,
+            defaultValue: 0
+        })
+        .addOption(SLIPPAGE)
+        .addOption({
+            name: 'indexPath',
+            description: 'Comma separated pool indexes for the rebalancing swap, defaults to the other pools',
+            defaultValue: ''
+        })
+        .addOption({ name: 'recipient', description: 'New position owner, defaults to the signer', defaultValue: '' })
+        .setAction(async () => ({ default: (await import('./liquidity.js')).migrateAction }))
+        .build(),
+
+    swapTask('swap:quote', 'Quote a swap through SwapRouter')
+        .addOption(TOKEN_IN)
+        .addOption(TOKEN_OUT)
+        .addOption({ name: 'amount', description: 'Input amount, or output amount for exactOut', defaultValue: '0' })
+        .addOption({ name: 'side', description: 'exactIn or exactOut', defaultValue: 'exactIn' })
+        .addOption(INDEX_PATH)
+        .setAction(async () => ({ default: (await import('./swap.js')).quoteAction }))
+        .build(),
+
+    swapTask('swap:exact-in', 'Swap an exact input amount')
+        .addOption(TOKEN_IN)
+        .addOption(TOKEN_OUT)
+        .addOption({ name: 'amount', description: 'Input amount', defaultValue: '0' })
+        .addOption(SLIPPAGE)
+        .addOption(INDEX_PATH)
+        .addOption(RECIPIENT)
+        .setAction(async () => ({ default: (await import('./swap.js')).exactInAction }))
+        .build(),
+
+    swapTask('swap:exact-out', 'Swap for an exact output amount')
+        .addOption(TOKEN_IN)
+        .addOption(TOKEN_OUT)
+        .addOption({ name: 'amount', description: 'Output amount', defaultValue: '0' })
+        .addOption(SLIPPAGE)
+        .addOption(INDEX_PATH)
+        .addOption(RECIPIENT)
+        .setAction(async () => ({ default: (await import('./swap.js')).exactOutAction }))
+        .build(),
+
+    swapTask('protocol:status', 'Show protocol fee shares and uncollected protocol fees of pools')
+        .addOption(TOKEN_A)
+        .addOption(TOKEN_B)
+        .addOption(INDEX_PATH)
+        .setAction(async () => ({ default: (await import('./protocol.js')).statusAction }))
+        .build(),
+
+    swapTask('protocol:set-fee', 'Set the protocol fee share of pools, PoolManager owner only')
+        .addOption(TOKEN_A)
+        .addOption(TOKEN_B)
+        .addOption(INDEX_PATH)
+        .addOption({
+            name: 'feeProtocol0',
+            description: 'Protocol takes 1/N of token0 fees, 0 (off) or 4-10',
+            type: ArgumentType.INT,
+            defaultValue: 0
+        })
+        .addOption({
+            name: 'feeProtocol1',
+            description: 'Protocol takes 1/N of token1 fees, 0 (off) or 4-10',
+            type: ArgumentType.INT,
+            defaultValue: 0
+        })
+        .setAction(async () => ({ default: (await import('./protocol.js')).setFeeAction }))
+        .build(),
+
+    swapTask('protocol:collect', 'Collect protocol fees of pools, PoolManager owner only')
+        .addOption(TOKEN_A)
+        .addOption(TOKEN_B)
+        .addOption(INDEX_PATH)
+        .addOption(RECIPIENT)
+        .setAction(async () => ({ default: (await import('./protocol.js')).collectAction }))
+        .build()
+]
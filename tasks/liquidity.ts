@@ -0,0 +1,275 @@
+import type { NewTaskActionFunction } from 'hardhat/types/tasks'
+import { type Address, isAddress, parseUnits } from 'viem'
+
+import { getMintAmounts, getPositionAmounts, isSameAddress } from '../sdk/index.js'
+import {
+    type CommonTaskArguments,
+    type TaskContext,
+    type TokenInfo,
+    applySlippage,
+    connect,
+    formatAmount,
+    parseAmount,
+    parseIndexPath,
+    parseSlippageBps,
+    printResult
+} from './context.js'
+
+export interface AddLiquidityArguments {
+    tokenA: string
+    tokenB: string
+    index: number
+    amountA: string
+    amountB: string
+}
+
+export interface PositionArguments {
+    positionId: bigint
+}
+
+export interface IncreaseLiquidityArguments extends PositionArguments {
+    // 按头寸的 token0 / token1 顺序
+    amount0: string
+    amount1: string
+    slippage: string
+}
+
+export interface DecreaseLiquidityArguments extends PositionArguments {
+    // 与 percent 二选一，为空时按 percent 计算
+    liquidity: string
+    // 移除的流动性占头寸流动性的百分比
+    percent: string
+    slippage: string
+}
+
+export interface CollectArguments extends PositionArguments {
+    // 为空时提取到当前账户
+    recipient: string
+    // WETH9 一侧以原生 ETH 提取
+    unwrapEth: boolean
+}
+
+export interface MigrateArguments extends PositionArguments {
+    // 同一代币对中目标池子的索引
+    targetIndex: number
+    slippage: string
+    // 再平衡交易使用的池子，为空时使用除原池子外的全部池子
+    indexPath: string
+    // 为空时新头寸铸造给当前账户
+    recipient: string
+}
+
+// 查找头寸并解析两种代币
+const findPosition = async (ctx: TaskContext, positionId: bigint) => {
+    const position = (await ctx.client.listPositions()).find((item) => item.id === positionId)
+    if (!position) {
+        throw new Error(`Position ${positionId} not found`)
+    }
+    return {
+        position,
+        token0: await ctx.tokens.info(position.token0),
+        token1: await ctx.tokens.info(position.token1)
+    }
+}
+
+/**
+ * @notice 按 tokenA / tokenB 的期望数量添加流动性，返回新头寸与实际投入
+ */
+export const addLiquidity = async (ctx: TaskContext, args: AddLiquidityArguments) => {
+    const tokenA = await ctx.tokens.resolve(args.tokenA)
+    const tokenB = await ctx.tokens.resolve(args.tokenB)
+    const result = await ctx.client.addLiquidity({
+        tokenA: tokenA.address,
+        tokenB: tokenB.address,
+        index: args.index,
+        amountADesired: parseAmount(args.amountA, tokenA),
+        amountBDesired: parseAmount(args.amountB, tokenB)
+    })
+    return {
+        positionId: result.positionId,
+        liquidity: result.liquidity,
+        [tokenA.symbol]: formatAmount(result.amountA, tokenA),
+        [tokenB.symbol]: formatAmount(result.amountB, tokenB),
+        hash: result.hash
+    }
+}
+
+// 头寸所在池子的当前价格
+const poolPrice = async (ctx: TaskContext, position: { token0: Address; token1: Address; index: number }) => {
+    const pool = (await ctx.client.getPairPools(position.token0, position.token1)).find(
+        (item) => item.index === position.index
+    )
+    if (!pool) {
+        throw new Error(`Pool #${position.index} of position not found`)
+    }
+    return pool.sqrtPriceX96
+}
+
+/**
+ * @notice 向已有头寸追加流动性，投入下限 = 按当前价格预估的投入 * (1 - slippage)
+ */
+export const increaseLiquidity = async (ctx: TaskContext, args: IncreaseLiquidityArguments) => {
+    const { position, token0, token1 } = await findPosition(ctx, args.positionId)
+    const amount0Desired = parseAmount(args.amount0, token0)
+    const amount1Desired = parseAmount(args.amount1, token1)
+    const expected = getMintAmounts(
+        await poolPrice(ctx, position),
+        position.tickLower,
+        position.tickUpper,
+        amount0Desired,
+        amount1Desired
+    )
+    const result = await ctx.client.increaseLiquidity({
+        positionId: args.positionId,
+        amount0Desired,
+        amount1Desired,
+        amount0Min: applySlippage(expected.amount0, args.slippage, 'exactIn'),
+        amount1Min: applySlippage(expected.amount1, args.slippage, 'exactIn')
+    })
+    return {
+        positionId: args.positionId,
+        liquidity: result.liquidity,
+        [token0.symbol]: formatAmount(result.amount0, token0),
+        [token1.symbol]: formatAmount(result.amount1, token1),
+        hash: result.hash
+    }
+}
+
+/**
+ * @notice 按流动性数量或百分比移除头寸的部分流动性，取出下限 = 按当前价格预估的数量 * (1 - slippage)
+ */
+export const decreaseLiquidity = async (ctx: TaskContext, args: DecreaseLiquidityArguments) => {
+    const { position, token0, token1 } = await findPosition(ctx, args.positionId)
+    let liquidity: bigint
+    if (args.liquidity) {
+        liquidity = BigInt(args.liquidity)
+    } else {
+        // 以万分之一为单位
+        const bps = parseUnits(args.percent, 2)
+        if (bps <= 0n || bps > 10000n) {
+            throw new Error(`Invalid percent ${args.percent}%`)
+        }
+        liquidity = (position.liquidity * bps) / 10000n
+    }
+    if (liquidity <= 0n || liquidity > position.liquidity) {
+        throw new Error(`Liquidity must be in (0, ${position.liquidity}], got ${liquidity}`)
+    }
+    const expected = getPositionAmounts(
+        await poolPrice(ctx, position),
+        position.tickLower,
+        position.tickUpper,
+        liquidity
+    )
+    const result = await ctx.client.decreaseLiquidity({
+        positionId: args.positionId,
+        liquidity,
+        amount0Min: applySlippage(expected.amount0, args.slippage, 'exactIn'),
+        amount1Min: applySlippage(expected.amount1, args.slippage, 'exactIn')
+    })
+    return {
+        positionId: args.positionId,
+        liquidity,
+        [token0.symbol]: formatAmount(result.amount0, token0),
+        [token1.symbol]: formatAmount(result.amount1, token1),
+        hash: result.hash
+    }
+}
+
+/**
+ * @notice 移除头寸的全部流动性，代币计入 tokensOwed
+ */
+export const removeLiquidity = async (ctx: TaskContext, args: PositionArguments) => {
+    const { token0, token1 } = await findPosition(ctx, args.positionId)
+    const result = await ctx.client.removeLiquidity(args.positionId)
+    return {
+        positionId: args.positionId,
+        [token0.symbol]: formatAmount(result.amount0, token0),
+        [token1.symbol]: formatAmount(result.amount1, token1),
+        hash: result.hash
+    }
+}
+
+/**
+ * @notice 提取头寸应计的代币（本金与手续费）
+ */
+export const collectPosition = async (ctx: TaskContext, args: CollectArguments) => {
+    const { token0, token1 } = await findPosition(ctx, args.positionId)
+    if (args.recipient && !isAddress(args.recipient)) {
+        throw new Error(`Invalid recipient ${args.recipient}`)
+    }
+    const result = await ctx.client.collect(args.positionId, (args.recipient as Address) || undefined, args.unwrapEth)
+    const weth = args.unwrapEth ? await ctx.client.weth() : undefined
+    const symbol = (token: TokenInfo) => (weth && isSameAddress(token.address, weth) ? 'ETH' : token.symbol)
+    return {
+        positionId: args.positionId,
+        [symbol(token0)]: formatAmount(result.amount0, token0),
+        [symbol(token1)]: formatAmount(result.amount1, token1),
+        hash: result.hash
+    }
+}
+
+/**
+ * @notice 把头寸迁移到同一代币对的另一个池子：一笔交易内移除、再平衡并铸造新的头寸
+ * @dev 再平衡交易的输出下限与新头寸的投入下限都按 slippage 从模拟结果中扣除
+ */
+export const migratePosition = async (ctx: TaskContext, args: MigrateArguments) => {
+    const { position, token0, token1 } = await findPosition(ctx, args.positionId)
+    if (args.recipient && !isAddress(args.recipient)) {
+        throw new Error(`Invalid recipient ${args.recipient}`)
+    }
+    const result = await ctx.client.migratePosition({
+        positionId: args.positionId,
+        targetIndex: args.targetIndex,
+        slippageBps: parseSlippageBps(args.slippage),
+        swapIndexPath: parseIndexPath(args.indexPath),
+        recipient: (args.recipient as Address) || undefined
+    })
+    const tokenIn = result.swap.zeroForOne ? token0 : token1
+    return {
+        positionId: args.positionId,
+        fromIndex: position.index,
+        newPositionId: result.positionId,
+        index: args.targetIndex,
+        liquidity: result.liquidity,
+        [token0.symbol]: formatAmount(result.amount0, token0),
+        [token1.symbol]: formatAmount(result.amount1, token1),
+        rebalance: `${formatAmount(result.swap.amountIn, tokenIn)} ${tokenIn.symbol}`,
+        hash: result.hash
+    }
+}
+
+export const addAction: NewTaskActionFunction<CommonTaskArguments & AddLiquidityArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await addLiquidity(ctx, args), args.json)
+}
+
+export const removeAction: NewTaskActionFunction<CommonTaskArguments & PositionArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await removeLiquidity(ctx, args), args.json)
+}
+
+export const increaseAction: NewTaskActionFunction<CommonTaskArguments & IncreaseLiquidityArguments> = async (
+    args,
+    hre
+) => {
+    const ctx = await connect(args, hre)
+    printResult(await increaseLiquidity(ctx, args), args.json)
+}
+
+export const decreaseAction: NewTaskActionFunction<CommonTaskArguments & DecreaseLiquidityArguments> = async (
+    args,
+    hre
+) => {
+    const ctx = await connect(args, hre)
+    printResult(await decreaseLiquidity(ctx, args), args.json)
+}
+
+export const collectAction: NewTaskActionFunction<CommonTaskArguments & CollectArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await collectPosition(ctx, args), args.json)
+}
+
+export const migrateAction: NewTaskActionFunction<CommonTaskArguments & MigrateArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await migratePosition(ctx, args), args.json)
+}
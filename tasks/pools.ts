@@ -0,0 +1,184 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import type { NewTaskActionFunction } from 'hardhat/types/tasks'
+import { type Address, isAddress } from 'viem'
+
+import {
+    type BacktestCandidate,
+    type BacktestOptions,
+    FileStore,
+    type TradeRecord,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    parseTradeLog,
+    runBacktest,
+    sortTokens,
+    tradesFromSwapEvents
+} from '../sdk/index.js'
+import {
+    type CommonTaskArguments,
+    type TaskContext,
+    connect,
+    encodePrice,
+    formatPrice,
+    printResult
+} from './context.js'
+
+export interface ListPoolsArguments {
+    // 为空时列出全部池子
+    tokenA: string
+    tokenB: string
+}
+
+export interface CreatePoolArguments {
+    tokenA: string
+    tokenB: string
+    fee: number
+    // 均为 "每个 tokenA 可换多少 tokenB"
+    price: string
+    priceLower: string
+    priceUpper: string
+}
+
+export interface BacktestArguments {
+    // 交易记录文件：CSV / JSON 交易列表，或 scripts/indexer.ts 写入的索引文件
+    trades: string
+    // 候选配置文件，格式见 test/data/backtest-candidates.json
+    candidates: string
+    // csv、json 或 indexer，为空时按扩展名判断（.csv 为 csv，其余为 json）
+    format: string
+    // indexer 格式下只重放该池子的 Swap 事件
+    pool: string
+    json: boolean
+}
+
+/**
+ * @notice 列出池子，价格与区间以 token1 / token0 的人类可读形式展示
+ */
+export const listPools = async (ctx: TaskContext, args: ListPoolsArguments) => {
+    const pools =
+        args.tokenA && args.tokenB
+            ? await ctx.client.getPairPools(
+                  (await ctx.tokens.resolve(args.tokenA)).address,
+                  (await ctx.tokens.resolve(args.tokenB)).address
+              )
+            : await ctx.client.getPools()
+
+    return Promise.all(
+        pools.map(async (pool) => {
+            const token0 = await ctx.tokens.info(pool.token0)
+            const token1 = await ctx.tokens.info(pool.token1)
+            return {
+                pair: `${token0.symbol}/${token1.symbol}`,
+                index: pool.index,
+                pool: pool.pool,
+                fee: `${pool.fee / 10000}%`,
+                price: formatPrice(pool.sqrtPriceX96, token0, token1),
+                priceLower: formatPrice(getSqrtRatioAtTick(pool.tickLower), token0, token1),
+                priceUpper: formatPrice(getSqrtRatioAtTick(pool.tickUpper), token0, token1),
+                liquidity: pool.liquidity
+            }
+        })
+    )
+}
+
+/**
+ * @notice 创建（或复用）池子，价格参数按调用方给出的 tokenA / tokenB 方向解释
+ */
+export const createPool = async (ctx: TaskContext, args: CreatePoolArguments) => {
+    if (!args.priceLower || !args.priceUpper) {
+        throw new Error('Missing price range: pass --price-lower and --price-upper')
+    }
+    const tokenA = await ctx.tokens.resolve(args.tokenA)
+    const tokenB = await ctx.tokens.resolve(args.tokenB)
+    const tick = (price: string) => getTickAtSqrtRatio(encodePrice(price, tokenA, tokenB))
+
+    const { hash, pool } = await ctx.client.createPool({
+        tokenA: tokenA.address,
+        tokenB: tokenB.address,
+        fee: args.fee,
+        tickLower: tick(args.priceLower),
+        tickUpper: tick(args.priceUpper),
+        sqrtPriceX96: encodePrice(args.price, tokenA, tokenB)
+    })
+    const [token0, token1] = sortTokens(tokenA.address, tokenB.address)
+    const index = (await ctx.client.getPairPools(token0, token1)).find((item) => item.pool === pool)?.index
+    return { pair: `${tokenA.symbol}/${tokenB.symbol}`, index, pool, fee: args.fee, hash }
+}
+
+// 读取交易记录，indexer 格式从索引文件的 Pool.Swap 事件还原
+const loadTrades = async (args: BacktestArguments): Promise<TradeRecord[]> => {
+    const format = args.format || (path.extname(args.trades).toLowerCase() === '.csv' ? 'csv' : 'json')
+    if (format === 'csv' || format === 'json') {
+        return parseTradeLog(await readFile(args.trades, 'utf8'), format)
+    }
+    if (format !== 'indexer') {
+        throw new Error(`Invalid format ${format}, expected csv, json or indexer`)
+    }
+    if (args.pool && !isAddress(args.pool)) {
+        throw new Error(`Invalid pool ${args.pool}`)
+    }
+    const state = await new FileStore(args.trades).load()
+    if (!state) {
+        throw new Error(`Index file ${args.trades} not found`)
+    }
+    return tradesFromSwapEvents(state.events, (args.pool as Address) || undefined)
+}
+
+// 候选配置文件中的整数以十进制字符串保存
+const loadCandidates = async (file: string): Promise<BacktestOptions & { candidates: BacktestCandidate[] }> => {
+    const config = JSON.parse(await readFile(file, 'utf8'))
+    if (!Array.isArray(config.candidates) || config.candidates.length === 0) {
+        throw new Error(`No candidates in ${file}`)
+    }
+    return {
+        sqrtPriceX96: BigInt(config.sqrtPriceX96),
+        deposit: { amount0: BigInt(config.deposit.amount0), amount1: BigInt(config.deposit.amount1) },
+        otherLiquidity: BigInt(config.otherLiquidity ?? 0),
+        candidates: config.candidates
+    }
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`
+
+/**
+ * @notice 在候选的 fee / 区间配置上重放交易记录，比较手续费收入、在区间内的时间与相对持有的盈亏
+ * @dev 数量均为最小单位；价值以 token1 计，按各候选池子重放结束时的价格折算
+ */
+export const backtestPools = async (args: BacktestArguments) => {
+    if (!args.trades || !args.candidates) {
+        throw new Error('Missing input: pass --trades and --candidates')
+    }
+    const trades = await loadTrades(args)
+    const { candidates, ...options } = await loadCandidates(args.candidates)
+    return runBacktest(trades, candidates, options).map((report) => ({
+        name: report.name,
+        fee: `${report.fee / 10000}%`,
+        range: `[${report.tickLower}, ${report.tickUpper}]`,
+        // 完全成交 / 部分成交 / 未成交的笔数
+        trades: `${report.filled}/${report.partial}/${report.unfilled}`,
+        timeInRange: percent(report.timeInRange),
+        fees0: report.valuation.fees0,
+        fees1: report.valuation.fees1,
+        amount0: report.valuation.amount0,
+        amount1: report.valuation.amount1,
+        feesValue: report.valuation.feesValue,
+        pnl: report.valuation.pnl!,
+        vsHold: percent(Number(report.valuation.pnl!) / Number(report.valuation.holdValue!))
+    }))
+}
+
+export const listAction: NewTaskActionFunction<CommonTaskArguments & ListPoolsArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await listPools(ctx, args), args.json)
+}
+
+export const createAction: NewTaskActionFunction<CommonTaskArguments & CreatePoolArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await createPool(ctx, args), args.json)
+}
+
+export const backtestAction: NewTaskActionFunction<BacktestArguments> = async (args) => {
+    printResult(await backtestPools(args), args.json)
+}
@@ -0,0 +1,149 @@
+import type { NewTaskActionFunction } from 'hardhat/types/tasks'
+import { type Address, isAddress } from 'viem'
+
+import { type PoolInfo, isSameAddress } from '../sdk/index.js'
+import {
+    type CommonTaskArguments,
+    type TaskContext,
+    connect,
+    formatAmount,
+    parseIndexPath,
+    printResult
+} from './context.js'
+
+export interface ProtocolPoolsArguments {
+    // 为空时作用于全部池子
+    tokenA: string
+    tokenB: string
+    // 逗号分隔的池子索引，为空时作用于代币对下的全部池子
+    indexPath: string
+}
+
+export interface SetFeeProtocolArguments extends ProtocolPoolsArguments {
+    // 协议收取手续费的 1/N，0 表示关闭
+    feeProtocol0: number
+    feeProtocol1: number
+}
+
+export interface CollectProtocolArguments extends ProtocolPoolsArguments {
+    // 为空时提取到当前账户
+    recipient: string
+}
+
+// 按代币对与索引筛选池子
+const selectPools = async (ctx: TaskContext, args: ProtocolPoolsArguments): Promise<PoolInfo[]> => {
+    const pools =
+        args.tokenA && args.tokenB
+            ? await ctx.client.getPairPools(
+                  (await ctx.tokens.resolve(args.tokenA)).address,
+                  (await ctx.tokens.resolve(args.tokenB)).address
+              )
+            : await ctx.client.getPools()
+    const indexes = parseIndexPath(args.indexPath)
+    return indexes ? pools.filter((pool) => indexes.includes(pool.index)) : pools
+}
+
+// 设置与提取都只能由 PoolManager 的 owner 发送，提前检查以给出可读的错误
+const requireOwner = async (ctx: TaskContext) => {
+    const owner = await ctx.client.getOwner()
+    if (!isSameAddress(owner, ctx.client.account.address)) {
+        throw new Error(`Signer ${ctx.client.account.address} is not the PoolManager owner ${owner}`)
+    }
+}
+
+const formatShare = (feeProtocol: number) => (feeProtocol === 0 ? 'off' : `1/${feeProtocol}`)
+
+/**
+ * @notice 列出池子的协议手续费比例与累计未提取的协议手续费
+ */
+export const protocolStatus = async (ctx: TaskContext, args: ProtocolPoolsArguments) => {
+    const pools = await selectPools(ctx, args)
+    return Promise.all(
+        pools.map(async (pool) => {
+            const token0 = await ctx.tokens.info(pool.token0)
+            const token1 = await ctx.tokens.info(pool.token1)
+            const fees = await ctx.client.getProtocolFees(pool.pool)
+            return {
+                pair: `${token0.symbol}/${token1.symbol}`,
+                index: pool.index,
+                pool: pool.pool,
+                fee: `${pool.fee / 10000}%`,
+                protocolShare0: formatShare(fees.feeProtocol0),
+                protocolShare1: formatShare(fees.feeProtocol1),
+                protocolFees0: formatAmount(fees.protocolFees0, token0),
+                protocolFees1: formatAmount(fees.protocolFees1, token1)
+            }
+        })
+    )
+}
+
+/**
+ * @notice 为选中的每个池子设置协议手续费比例
+ */
+export const setFeeProtocol = async (ctx: TaskContext, args: SetFeeProtocolArguments) => {
+    const pools = await selectPools(ctx, args)
+    if (pools.length === 0) {
+        throw new Error('No pools matched')
+    }
+    await requireOwner(ctx)
+    const rows = []
+    for (const pool of pools) {
+        const hash = await ctx.client.setFeeProtocol(pool.pool, args.feeProtocol0, args.feeProtocol1)
+        rows.push({
+            index: pool.index,
+            pool: pool.pool,
+            protocolShare0: formatShare(args.feeProtocol0),
+            protocolShare1: formatShare(args.feeProtocol1),
+            hash
+        })
+    }
+    return rows
+}
+
+/**
+ * @notice 提取选中池子累计的协议手续费，没有累计的池子会被跳过
+ */
+export const collectProtocol = async (ctx: TaskContext, args: CollectProtocolArguments) => {
+    if (args.recipient && !isAddress(args.recipient)) {
+        throw new Error(`Invalid recipient ${args.recipient}`)
+    }
+    const pools = await selectPools(ctx, args)
+    await requireOwner(ctx)
+    const rows = []
+    for (const pool of pools) {
+        const { protocolFees0, protocolFees1 } = await ctx.client.getProtocolFees(pool.pool)
+        if (protocolFees0 === 0n && protocolFees1 === 0n) {
+            continue
+        }
+        const token0 = await ctx.tokens.info(pool.token0)
+        const token1 = await ctx.tokens.info(pool.token1)
+        const result = await ctx.client.collectProtocol(pool.pool, (args.recipient as Address) || undefined)
+        rows.push({
+            pair: `${token0.symbol}/${token1.symbol}`,
+            index: pool.index,
+            pool: pool.pool,
+            [token0.symbol]: formatAmount(result.amount0, token0),
+            [token1.symbol]: formatAmount(result.amount1, token1),
+            hash: result.hash
+        })
+    }
+    return rows
+}
+
+export const statusAction: NewTaskActionFunction<CommonTaskArguments & ProtocolPoolsArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await protocolStatus(ctx, args), args.json)
+}
+
+export const setFeeAction: NewTaskActionFunction<CommonTaskArguments & SetFeeProtocolArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await setFeeProtocol(ctx, args), args.json)
+}
+
+export const collectAction: NewTaskActionFunction<CommonTaskArguments & CollectProtocolArguments> = async (
+    args,
+    hre
+) => {
+    const ctx = await connect(args, hre)
+    printResult(await collectProtocol(ctx, args), args.json)
+}
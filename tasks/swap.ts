@@ -0,0 +1,152 @@
+import type { NewTaskActionFunction } from 'hardhat/types/tasks'
+import { type Address, isAddress } from 'viem'
+
+import {
+    type CommonTaskArguments,
+    type TaskContext,
+    applySlippage,
+    connect,
+    formatAmount,
+    parseAmount,
+    parseIndexPath,
+    printResult
+} from './context.js'
+
+export interface QuoteArguments {
+    tokenIn: string
+    tokenOut: string
+    // exactIn 时为输入数量，exactOut 时为输出数量
+    amount: string
+    side: string
+    // 逗号分隔的池子索引，为空时使用该代币对的全部池子
+    indexPath: string
+}
+
+export interface SwapArguments {
+    tokenIn: string
+    tokenOut: string
+    amount: string
+    // 百分比，例如 0.5 表示 0.5%
+    slippage: string
+    indexPath: string
+    // 为空时发送到当前账户
+    recipient: string
+}
+
+const resolvePair = async (ctx: TaskContext, args: { tokenIn: string; tokenOut: string }) => ({
+    tokenIn: await ctx.tokens.resolve(args.tokenIn),
+    tokenOut: await ctx.tokens.resolve(args.tokenOut)
+})
+
+const resolveRecipient = (recipient: string): Address | undefined => {
+    if (recipient && !isAddress(recipient)) {
+        throw new Error(`Invalid recipient ${recipient}`)
+    }
+    return (recipient as Address) || undefined
+}
+
+/**
+ * @notice 通过 SwapRouter 报价
+ */
+export const quoteSwap = async (ctx: TaskContext, args: QuoteArguments) => {
+    if (args.side !== 'exactIn' && args.side !== 'exactOut') {
+        throw new Error(`Invalid side ${args.side}, expected exactIn or exactOut`)
+    }
+    const { tokenIn, tokenOut } = await resolvePair(ctx, args)
+    const exactIn = args.side === 'exactIn'
+    const amount = parseAmount(args.amount, exactIn ? tokenIn : tokenOut)
+    const quoted = await ctx.client.quote({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amount,
+        side: args.side,
+        indexPath: parseIndexPath(args.indexPath)
+    })
+    return {
+        side: args.side,
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        amountIn: formatAmount(exactIn ? amount : quoted, tokenIn),
+        amountOut: formatAmount(exactIn ? quoted : amount, tokenOut)
+    }
+}
+
+/**
+ * @notice 精确输入交易，输出下限 = 报价 * (1 - slippage)
+ */
+export const swapExactIn = async (ctx: TaskContext, args: SwapArguments) => {
+    const { tokenIn, tokenOut } = await resolvePair(ctx, args)
+    const amountIn = parseAmount(args.amount, tokenIn)
+    const indexPath = parseIndexPath(args.indexPath)
+    const quoted = await ctx.client.quote({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amount: amountIn,
+        indexPath
+    })
+    const amountOutMinimum = applySlippage(quoted, args.slippage, 'exactIn')
+    const { hash, amountOut } = await ctx.client.swapExactIn({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amountIn,
+        amountOutMinimum,
+        indexPath,
+        recipient: resolveRecipient(args.recipient)
+    })
+    return {
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        amountIn: formatAmount(amountIn, tokenIn),
+        amountOut: formatAmount(amountOut, tokenOut),
+        amountOutMinimum: formatAmount(amountOutMinimum, tokenOut),
+        hash
+    }
+}
+
+/**
+ * @notice 精确输出交易，输入上限 = 报价 * (1 + slippage)
+ */
+export const swapExactOut = async (ctx: TaskContext, args: SwapArguments) => {
+    const { tokenIn, tokenOut } = await resolvePair(ctx, args)
+    const amountOut = parseAmount(args.amount, tokenOut)
+    const indexPath = parseIndexPath(args.indexPath)
+    const quoted = await ctx.client.quote({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amount: amountOut,
+        side: 'exactOut',
+        indexPath
+    })
+    const amountInMaximum = applySlippage(quoted, args.slippage, 'exactOut')
+    const { hash, amountIn } = await ctx.client.swapExactOut({
+        tokenIn: tokenIn.address,
+        tokenOut: tokenOut.address,
+        amountOut,
+        amountInMaximum,
+        indexPath,
+        recipient: resolveRecipient(args.recipient)
+    })
+    return {
+        tokenIn: tokenIn.symbol,
+        tokenOut: tokenOut.symbol,
+        amountIn: formatAmount(amountIn, tokenIn),
+        amountOut: formatAmount(amountOut, tokenOut),
+        amountInMaximum: formatAmount(amountInMaximum, tokenIn),
+        hash
+    }
+}
+
+export const quoteAction: NewTaskActionFunction<CommonTaskArguments & QuoteArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await quoteSwap(ctx, args), args.json)
+}
+
+export const exactInAction: NewTaskActionFunction<CommonTaskArguments & SwapArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await swapExactIn(ctx, args), args.json)
+}
+
+export const exactOutAction: NewTaskActionFunction<CommonTaskArguments & SwapArguments> = async (args, hre) => {
+    const ctx = await connect(args, hre)
+    printResult(await swapExactOut(ctx, args), args.json)
+}
@@ -0,0 +1,261 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type PublicClient, getAddress, parseEther, zeroAddress } from 'viem'
+
+import {
+    ETH,
+    Q96,
+    SwapClient,
+    encodeSqrtRatioX96,
+    openApiDocument,
+    quoteWithBreakdown,
+    startApiServer
+} from '../sdk/index.js'
+import { deployExchange } from './helpers.js'
+
+// 与服务端相同的编码方式：bigint 转为十进制字符串
+const asJson = (value: unknown) =>
+    JSON.parse(JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item)))
+
+describe('ApiServer', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    // 同一代币对的两个池子，两个账户各持有一个头寸
+    const deployFixture = async () => {
+        const { token0, token1, PoolManager, connect } = await deployExchange(hviem, publicClient)
+        const Quoter = await hviem.deployContract('Quoter', [PoolManager.address])
+        const wallets = (await hviem.getWalletClients()).slice(0, 2)
+        const clients = wallets.map((walletClient) => connect(walletClient, { quoter: Quoter.address }))
+        for (const wallet of wallets) {
+            await token0.write.mint([wallet.account.address, parseEther('1000000')])
+            await token1.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        for (const [index, [tickLower, tickUpper]] of [
+            [-6932, 6932],
+            [-13864, 13864]
+        ].entries()) {
+            await clients[0].createPool({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                fee: 3000,
+                tickLower,
+                tickUpper,
+                sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+            })
+            await clients[index].addLiquidity({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                index,
+                amountADesired: parseEther('100'),
+                amountBDesired: parseEther('100')
+            })
+        }
+        // 服务只需要只读的 client
+        const reader = new SwapClient({ publicClient, addresses: clients[0].addresses })
+        const owners = wallets.map((wallet) => getAddress(wallet.account.address))
+        return { token0, token1, reader, clients, owners }
+    }
+
+    // 每个测试启动自己的服务，结束时关闭
+    const withServer = async (
+        client: SwapClient,
+        run: (get: (path: string, init?: RequestInit) => Promise<{ status: number; body: any }>) => Promise<void>
+    ) => {
+        const { server, url } = await startApiServer(client, { port: 0 })
+        try {
+            await run(async (path, init) => {
+                const response = await fetch(url + path, init)
+                assert.match(response.headers.get('content-type') ?? '', /^application\/json/)
+                return { status: response.status, body: await response.json() }
+            })
+        } finally {
+            await new Promise((resolve) => server.close(resolve))
+        }
+    }
+
+    it('serves pools and positions as JSON', async () => {
+        const { reader, owners } = await networkHelpers.loadFixture(deployFixture)
+        await withServer(reader, async (get) => {
+            const pools = await reader.getPools()
+            const listed = await get('/pools')
+            assert.equal(listed.status, 200)
+            assert.deepEqual(listed.body, asJson(pools))
+            assert.equal(typeof listed.body[0].sqrtPriceX96, 'string')
+            assert.equal(typeof listed.body[0].tick, 'number')
+
+            const single = await get(`/pools/${pools[1].pool.toLowerCase()}`)
+            assert.deepEqual(single, { status: 200, body: asJson(pools[1]) })
+            assert.equal((await get(`/pools/${zeroAddress}`)).status, 404)
+            assert.deepEqual((await get('/pools/0x1234')).body, {
+                error: 'BadRequest',
+                message: 'address must be an address'
+            })
+
+            const positions = await get('/positions')
+            assert.deepEqual(positions.body, asJson(await reader.listPositions()))
+            assert.equal(positions.body.length, 2)
+            const owned = await get(`/positions?owner=${owners[1]}`)
+            assert.deepEqual(
+                owned.body.map((position: { id: string }) => position.id),
+                ['2']
+            )
+            assert.equal((await get('/positions?owner=alice')).status, 400)
+
+            assert.deepEqual(await get('/positions/2'), { status: 200, body: positions.body[1] })
+            assert.equal((await get('/positions/0')).status, 404)
+            assert.equal((await get('/positions/3')).status, 404)
+            assert.equal((await get('/positions/-1')).status, 400)
+
+            assert.deepEqual((await get('/swap')).body.error, 'NotFound')
+            const post = await get('/pools', { method: 'POST' })
+            assert.deepEqual(post.status, 405)
+        })
+    })
+
+    it('quotes exact input and exact output across the pools of a pair', async () => {
+        const { token0, token1, reader } = await networkHelpers.loadFixture(deployFixture)
+        await withServer(reader, async (get) => {
+            const amount = parseEther('5')
+            const exactIn = await get(`/quote?tokenIn=${token0.address}&tokenOut=${token1.address}&amount=${amount}`)
+            const amountOut = await reader.quote({ tokenIn: token0.address, tokenOut: token1.address, amount })
+            assert.equal(exactIn.status, 200)
+            assert.deepEqual(exactIn.body, {
+                tokenIn: getAddress(token0.address),
+                tokenOut: getAddress(token1.address),
+                side: 'exactIn',
+                indexPath: [0, 1],
+                amountIn: amount.toString(),
+                amountOut: amountOut.toString(),
+                partial: false,
+                remaining: '0'
+            })
+
+            const query = `tokenIn=${token1.address}&tokenOut=${token0.address}&amount=${amount}&side=exactOut`
+            const exactOut = await get(`/quote?${query}`)
+            const amountIn = await reader.quote({
+                tokenIn: token1.address,
+                tokenOut: token0.address,
+                amount,
+                side: 'exactOut'
+            })
+            assert.equal(exactOut.body.amountIn, amountIn.toString())
+            assert.equal(exactOut.body.amountOut, amount.toString())
+            assert.equal(exactOut.body.partial, false)
+            assert.ok(amountIn > amount)
+
+            const pair = `tokenIn=${token0.address}&tokenOut=${token1.address}`
+            assert.equal((await get(`/quote?${pair}`)).status, 400)
+            assert.equal((await get(`/quote?${pair}&amount=1.5`)).status, 400)
+            assert.equal((await get(`/quote?${pair}&amount=1&side=sideways`)).status, 400)
+            const samePair = await get(`/quote?tokenIn=${token0.address}&tokenOut=${token0.address}&amount=1`)
+            assert.equal(samePair.status, 400)
+            const unknownPair = await get(`/quote?tokenIn=${token0.address}&tokenOut=${zeroAddress}&amount=1`)
+            assert.equal(unknownPair.status, 404)
+        })
+    })
+
+    it('reports the consumed input and the unfilled remainder of a partial fill', async () => {
+        const { token0, token1, reader } = await networkHelpers.loadFixture(deployFixture)
+        const quoter = reader.addresses.quoter!
+        await withServer(reader, async (get) => {
+            // 两个池子各只有约 100 个代币，无法成交全部数量
+            const amount = parseEther('100000')
+            const request = { tokenIn: token0.address, tokenOut: token1.address, indexPath: [0, 1], amount }
+            const exactIn = await get(`/quote?tokenIn=${token0.address}&tokenOut=${token1.address}&amount=${amount}`)
+            const filled = await quoteWithBreakdown(publicClient, quoter, request)
+            assert.ok(filled.amountIn < amount)
+            assert.deepEqual(exactIn.body, {
+                tokenIn: getAddress(token0.address),
+                tokenOut: getAddress(token1.address),
+                side: 'exactIn',
+                indexPath: [0, 1],
+                amountIn: filled.amountIn.toString(),
+                amountOut: filled.amountOut.toString(),
+                partial: true,
+                remaining: (amount - filled.amountIn).toString()
+            })
+
+            const exactOut = await get(
+                `/quote?tokenIn=${token0.address}&tokenOut=${token1.address}&amount=${amount}&side=exactOut`
+            )
+            const bought = await quoteWithBreakdown(publicClient, quoter, { ...request, side: 'exactOut' })
+            assert.ok(bought.amountOut < amount)
+            assert.deepEqual(
+                [exactOut.body.amountIn, exactOut.body.amountOut, exactOut.body.partial, exactOut.body.remaining],
+                [bought.amountIn.toString(), bought.amountOut.toString(), true, (amount - bought.amountOut).toString()]
+            )
+        })
+
+        // 没有配置 Quoter 时无法报价
+        const withoutQuoter = new SwapClient({ publicClient, addresses: { ...reader.addresses, quoter: undefined } })
+        await withServer(withoutQuoter, async (get) => {
+            const response = await get(`/quote?tokenIn=${token0.address}&tokenOut=${token1.address}&amount=1`)
+            assert.deepEqual(response, {
+                status: 501,
+                body: { error: 'NotImplemented', message: 'quoter address not configured' }
+            })
+        })
+    })
+
+    it('quotes ETH through the WETH9 pools of the pair', async () => {
+        const { token0, reader, clients } = await networkHelpers.loadFixture(deployFixture)
+        const pair = { tokenA: ETH, tokenB: token0.address }
+        await clients[0].createPool({ ...pair, fee: 3000, tickLower: -6932, tickUpper: 6932, sqrtPriceX96: Q96 })
+        await clients[0].addLiquidity({
+            ...pair,
+            index: 0,
+            amountADesired: parseEther('10'),
+            amountBDesired: parseEther('10')
+        })
+        await withServer(reader, async (get) => {
+            const amount = parseEther('1')
+            const response = await get(`/quote?tokenIn=${ETH}&tokenOut=${token0.address}&amount=${amount}`)
+            assert.equal(response.status, 200)
+            const amountOut = await reader.quote({ tokenIn: ETH, tokenOut: token0.address, amount })
+            assert.deepEqual(response.body, {
+                tokenIn: getAddress(ETH),
+                tokenOut: getAddress(token0.address),
+                side: 'exactIn',
+                indexPath: [0],
+                amountIn: amount.toString(),
+                amountOut: amountOut.toString(),
+                partial: false,
+                remaining: '0'
+            })
+        })
+    })
+
+    it('publishes an OpenAPI document that matches the responses', async () => {
+        const { token0, token1, reader } = await networkHelpers.loadFixture(deployFixture)
+        await withServer(reader, async (get) => {
+            const document = await get('/openapi.json')
+            assert.deepEqual(document, { status: 200, body: asJson(openApiDocument) })
+            assert.deepEqual(Object.keys(document.body.paths).sort(), [
+                '/openapi.json',
+                '/pools',
+                '/pools/{address}',
+                '/positions',
+                '/positions/{id}',
+                '/quote'
+            ])
+            // 响应字段与 schema 声明一致，uint 字段均为字符串
+            const { Pool, Position, Quote } = document.body.components.schemas
+            const samples = [
+                [Pool, (await get('/pools')).body[0]],
+                [Position, (await get('/positions/1')).body],
+                [Quote, (await get(`/quote?tokenIn=${token0.address}&tokenOut=${token1.address}&amount=1`)).body]
+            ]
+            for (const [schema, sample] of samples) {
+                assert.deepEqual(Object.keys(sample).sort(), [...schema.required].sort())
+                for (const [key, property] of Object.entries<{ type: string }>(schema.properties)) {
+                    const type = Array.isArray(sample[key]) ? 'array' : typeof sample[key]
+                    assert.equal(type, property.type === 'integer' ? 'number' : property.type)
+                }
+            }
+        })
+    })
+})
@@ -0,0 +1,239 @@
+import { after, describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type PublicClient, maxUint256 } from 'viem'
+
+import {
+    EventIndexer,
+    FileStore,
+    MAX_SQRT_RATIO,
+    MIN_SQRT_RATIO,
+    MathError,
+    type TradeRecord,
+    formatTradeLog,
+    parseTradeLog,
+    poolAbi,
+    runBacktest,
+    tradesFromSwapEvents
+} from '../sdk/index.js'
+import { backtestPools } from '../tasks/pools.js'
+import { deployExchange } from './helpers.js'
+
+describe('Backtest', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    // 仓库中的确定性样例：240 笔交易先上涨、再震荡、后下跌
+    const TRADES_FILE = 'test/data/backtest-trades.csv'
+    const CANDIDATES_FILE = 'test/data/backtest-candidates.json'
+    const trades = parseTradeLog(await readFile(TRADES_FILE, 'utf8'), 'csv')
+    const config = JSON.parse(await readFile(CANDIDATES_FILE, 'utf8'))
+    const options = {
+        sqrtPriceX96: BigInt(config.sqrtPriceX96),
+        deposit: { amount0: BigInt(config.deposit.amount0), amount1: BigInt(config.deposit.amount1) }
+    }
+    const [wide, , narrow, expensive] = config.candidates
+
+    // 交易记录与事件存储写入临时目录，全部测试结束后删除
+    const dir = await mkdtemp(join(tmpdir(), 'backtest-'))
+    after(() => rm(dir, { recursive: true, force: true }))
+
+    it('parses CSV and JSON trade logs', async () => {
+        assert.equal(trades.length, 240)
+        assert.deepEqual(trades[0], {
+            timestamp: 1700000288n,
+            zeroForOne: false,
+            amountSpecified: 22695000000677390913n
+        })
+        assert.ok(trades.some((trade) => trade.amountSpecified < 0n))
+        assert.deepEqual(parseTradeLog(formatTradeLog(trades), 'csv'), trades)
+
+        // 列的顺序不限，整数可以是数字或字符串
+        const csv = 'amountSpecified,timestamp,zeroForOne\n-5,10,1\n7,11,false\n'
+        assert.deepEqual(parseTradeLog(csv, 'csv'), [
+            { timestamp: 10n, zeroForOne: true, amountSpecified: -5n },
+            { timestamp: 11n, zeroForOne: false, amountSpecified: 7n }
+        ])
+        const json = JSON.stringify([{ timestamp: 10, zeroForOne: true, amountSpecified: '-5' }])
+        assert.deepEqual(parseTradeLog(json, 'json'), [{ timestamp: 10n, zeroForOne: true, amountSpecified: -5n }])
+
+        assert.throws(() => parseTradeLog('timestamp,amountSpecified\n1,2', 'csv'), /missing columns: zeroForOne/)
+        assert.throws(() => parseTradeLog('timestamp,zeroForOne,amountSpecified\n1,yes,2', 'csv'), /line 2/)
+        assert.throws(() => parseTradeLog('timestamp,zeroForOne,amountSpecified\n1,true,0', 'csv'), /Zero amount/)
+        assert.throws(() => parseTradeLog('{}', 'json'), /JSON array/)
+    })
+
+    it('compares fee tiers and ranges on the sample dataset', async () => {
+        const reports = runBacktest(trades, config.candidates, options)
+        assert.deepEqual(
+            reports.map((report) => report.name),
+            config.candidates.map((candidate: { name: string }) => candidate.name)
+        )
+        const [wideReport, cheapReport, narrowReport, expensiveReport] = reports
+        for (const report of reports) {
+            assert.equal(report.filled + report.partial + report.unfilled, trades.length)
+            assert.ok(report.valuation.pnl! === report.valuation.totalValue - report.valuation.holdValue!)
+        }
+
+        // 宽区间始终在区间内；窄区间在上涨段触及上界，部分交易只成交到边界
+        assert.equal(wideReport.timeInRange, 1)
+        assert.ok(narrowReport.timeInRange > 0.9 && narrowReport.timeInRange < 1)
+        assert.ok(narrowReport.partial > 0)
+        // 集中的流动性承接同样的交易，价格变动更小，无常损失也更小
+        assert.ok(narrowReport.liquidity > wideReport.liquidity * 5n)
+        assert.ok(narrowReport.valuation.impermanentLoss! > wideReport.valuation.impermanentLoss!)
+
+        // 区间相同时只有费率不同：价格路径几乎相同，手续费与费率成正比
+        assert.equal(cheapReport.liquidity, wideReport.liquidity)
+        const feeRatio = Number(wideReport.valuation.feesValue) / Number(cheapReport.valuation.feesValue)
+        assert.ok(Math.abs(feeRatio - 6) < 0.05, `${feeRatio}`)
+        assert.ok(wideReport.valuation.pnl! > cheapReport.valuation.pnl!)
+        // 样例中 1% 费率的收入足以覆盖更宽区间的无常损失
+        assert.ok(expensiveReport.valuation.pnl! > 0n)
+
+        // 结果只取决于输入
+        assert.deepEqual(runBacktest(trades, config.candidates, options), reports)
+    })
+
+    it('replays the sample through the pools:backtest task', async () => {
+        const rows = await backtestPools({
+            trades: TRADES_FILE,
+            candidates: CANDIDATES_FILE,
+            format: '',
+            pool: '',
+            json: false
+        })
+        const reports = runBacktest(trades, config.candidates, options)
+        assert.equal(rows.length, reports.length)
+        assert.equal(rows[2].name, narrow.name)
+        assert.equal(rows[2].trades, `${reports[2].filled}/${reports[2].partial}/${reports[2].unfilled}`)
+        assert.match(rows[2].timeInRange, /^\d+\.\d{2}%$/)
+        assert.equal(rows[0].pnl, reports[0].valuation.pnl)
+
+        // JSON 交易记录与 CSV 等价
+        const jsonFile = join(dir, 'trades.json')
+        await writeFile(
+            jsonFile,
+            JSON.stringify(trades, (_key, value) => (typeof value === 'bigint' ? `${value}` : value))
+        )
+        assert.deepEqual(
+            await backtestPools({ trades: jsonFile, candidates: CANDIDATES_FILE, format: '', pool: '', json: true }),
+            rows
+        )
+
+        await assert.rejects(
+            backtestPools({ trades: '', candidates: '', format: '', pool: '', json: false }),
+            /Missing input/
+        )
+        await assert.rejects(
+            backtestPools({ trades: TRADES_FILE, candidates: CANDIDATES_FILE, format: 'xml', pool: '', json: false }),
+            /Invalid format xml/
+        )
+    })
+
+    it('rejects unordered trades and an initial price outside the range', () => {
+        assert.throws(() => runBacktest([trades[1], trades[0]], [wide], options), /ordered by timestamp/)
+        const outside = { ...options, sqrtPriceX96: options.sqrtPriceX96 * 2n }
+        assert.throws(
+            () => runBacktest(trades, [narrow], outside),
+            (error: Error) => {
+                return error instanceof MathError && error.message === 'InitialTickOutOfRange'
+            }
+        )
+        // 没有交易时价格不变，不产生手续费
+        const [idle] = runBacktest([], [expensive], options)
+        assert.equal(idle.timeInRange, 1)
+        assert.equal(idle.valuation.feesValue, 0n)
+    })
+
+    it('matches Pool.swap when the trades are replayed on chain', async () => {
+        const { token0, token1, SwapRouter, addresses, connect } = await deployExchange(hviem, publicClient)
+        const [lp, trader] = await hviem.getWalletClients()
+        for (const token of [token0, token1]) {
+            await token.write.mint([lp.account.address, 10n ** 30n])
+            await token.write.mint([trader.account.address, 10n ** 30n])
+            await token.write.approve([SwapRouter.address, maxUint256], { account: trader.account })
+        }
+        const client = connect(lp)
+
+        // 窄区间候选，重放中会触及区间边界
+        const pair = { tokenA: token0.address, tokenB: token1.address }
+        const { pool } = await client.createPool({ ...pair, ...narrow, sqrtPriceX96: options.sqrtPriceX96 })
+        const { positionId, amountA, amountB } = await client.addLiquidity({
+            ...pair,
+            index: 0,
+            amountADesired: options.deposit.amount0,
+            amountBDesired: options.deposit.amount1
+        })
+
+        // 前 100 笔交易已包含触及区间上界的部分成交与精确输出交易；
+        // 时间戳平移到当前链上时间之后，逐笔按原时间间隔出块
+        const { timestamp: now } = await publicClient.getBlock()
+        const shifted: TradeRecord[] = trades
+            .slice(0, 100)
+            .map((trade) => ({ ...trade, timestamp: trade.timestamp - trades[0].timestamp + now + 1000n }))
+        for (const trade of shifted) {
+            const [tokenIn, tokenOut] = trade.zeroForOne ? [token0, token1] : [token1, token0]
+            const params = {
+                tokenIn: tokenIn.address,
+                tokenOut: tokenOut.address,
+                indexPath: [0],
+                recipient: trader.account.address,
+                deadline: maxUint256,
+                sqrtPriceLimitX96: trade.zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n
+            }
+            await networkHelpers.time.setNextBlockTimestamp(trade.timestamp)
+            if (trade.amountSpecified > 0n) {
+                await SwapRouter.write.exactInput(
+                    [{ ...params, amountIn: trade.amountSpecified, amountOutMinimum: 0n }],
+                    { account: trader.account }
+                )
+            } else {
+                await SwapRouter.write.exactOutput(
+                    [{ ...params, amountOut: -trade.amountSpecified, amountInMaximum: maxUint256 }],
+                    { account: trader.account }
+                )
+            }
+        }
+
+        // 链上头寸的估值与回测结果逐字段一致
+        const [report] = runBacktest(shifted, [narrow], options)
+        assert.ok(report.partial > 0)
+        assert.deepEqual(report.deposit, { amount0: amountA, amount1: amountB })
+        assert.equal(
+            await publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'sqrtPriceX96' }),
+            report.sqrtPriceX96
+        )
+        assert.deepEqual(await client.getPositionValuation(positionId, report.deposit), report.valuation)
+
+        // 从索引的 Swap 事件还原交易记录，精确输出的交易按实际输入重放
+        const store = new FileStore(join(dir, 'events.json'))
+        const indexer = new EventIndexer({ publicClient, addresses, store })
+        await indexer.sync()
+        const indexed = tradesFromSwapEvents(indexer.state.events, pool)
+        assert.equal(indexed.length, shifted.length)
+        assert.deepEqual(
+            indexed.map((trade) => trade.timestamp),
+            shifted.map((trade) => trade.timestamp)
+        )
+        const [replayed] = runBacktest(indexed, [narrow], options)
+        assert.equal(replayed.unfilled, 0)
+        assert.equal(replayed.timeInRange, report.timeInRange)
+        // 按实际输入重放只有取整误差
+        const diff = replayed.valuation.totalValue - report.valuation.totalValue
+        assert.ok(diff >= -1000n && diff <= 1000n, `${diff}`)
+        const rows = await backtestPools({
+            trades: store.file,
+            candidates: CANDIDATES_FILE,
+            format: 'indexer',
+            pool,
+            json: true
+        })
+        assert.equal(rows[2].pnl, replayed.valuation.pnl)
+    })
+})
@@ -0,0 +1,104 @@
+import { after, describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type PublicClient, maxUint256, parseEther } from 'viem'
+
+import { deployDemoExchange, loadDemoManifest, loadDemoParameters } from '../ignition/demo-exchange.js'
+import { orientPools } from '../ignition/modules/DemoExchange.js'
+import { SwapClient, invertSqrtPriceX96 } from '../sdk/index.js'
+
+describe('DemoExchange', async () => {
+    const connection = await network.connect({ network: 'hardhatMainnet' })
+    const { viem: hviem, networkHelpers } = connection
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+    const parameters = await loadDemoParameters()
+
+    // 部署清单写入临时目录，全部测试结束后删除
+    const dir = await mkdtemp(join(tmpdir(), 'demo-exchange-'))
+    after(() => rm(dir, { recursive: true, force: true }))
+
+    const deployFixture = async () => {
+        const manifestFile = join(dir, 'manifest.json')
+        const manifest = await deployDemoExchange(connection, parameters, { manifestFile })
+        return { manifest, manifestFile }
+    }
+
+    it('writes a manifest that can be loaded back', async () => {
+        const { manifest, manifestFile } = await networkHelpers.loadFixture(deployFixture)
+        assert.deepEqual(await loadDemoManifest(manifestFile), manifest)
+        assert.equal(await loadDemoManifest(join(tmpdir(), 'missing-demo-manifest.json')), undefined)
+
+        assert.deepEqual(Object.keys(manifest.tokens), ['TTA', 'TTB', 'TTC', 'TTD'])
+        assert.deepEqual(
+            manifest.pools.map((pool) => pool.pair),
+            ['TTA/TTB', 'TTA/TTB', 'TTB/TTC', 'TTC/TTD']
+        )
+        assert.deepEqual(
+            manifest.pools.map((pool) => pool.index),
+            [0, 1, 0, 0]
+        )
+    })
+
+    it('creates the configured pools with initial liquidity', async () => {
+        const { manifest } = await networkHelpers.loadFixture(deployFixture)
+        const client = new SwapClient({ publicClient, addresses: manifest })
+        const pools = await client.getPools()
+        const positions = await client.listPositions(manifest.deployer)
+        assert.equal(pools.length, parameters.pools.length)
+        assert.equal(positions.length, parameters.pools.length)
+
+        const oriented = orientPools(parameters, manifest.tokens)
+        manifest.pools.forEach((entry, i) => {
+            const pool = pools.find((item) => item.pool === entry.pool)!
+            assert.equal(pool.fee, parameters.pools[i].fee)
+            assert.equal(pool.sqrtPriceX96, oriented[i].sqrtPriceX96)
+            assert.ok(pool.liquidity > 0n)
+            const position = positions.find((item) => item.id === BigInt(entry.positionId))!
+            assert.equal(position.liquidity, pool.liquidity)
+        })
+    })
+
+    it('funds and approves the deployer', async () => {
+        const { manifest } = await networkHelpers.loadFixture(deployFixture)
+        for (const token of parameters.tokens) {
+            const contract = await hviem.getContractAt('TToken', manifest.tokens[token.symbol])
+            assert.ok((await contract.read.balanceOf([manifest.deployer])) < parseEther(token.mint))
+            assert.equal(await contract.read.allowance([manifest.deployer, manifest.swapRouter]), maxUint256)
+        }
+
+        // 无需再授权即可交易
+        const [walletClient] = await hviem.getWalletClients()
+        const client = new SwapClient({ publicClient, walletClient, addresses: manifest })
+        const { amountOut } = await client.swapExactIn({
+            tokenIn: manifest.tokens.TTA,
+            tokenOut: manifest.tokens.TTB,
+            amountIn: parseEther('10'),
+            approve: false
+        })
+        assert.ok(amountOut > 0n)
+    })
+
+    it('orients prices by token order', () => {
+        const low = '0x1000000000000000000000000000000000000000'
+        const high = '0x2000000000000000000000000000000000000000'
+        const pool = { ...parameters.pools[2] }
+        const [forward] = orientPools({ tokens: [], pools: [pool] }, { TTB: low, TTC: high })
+        const [reversed] = orientPools({ tokens: [], pools: [pool] }, { TTB: high, TTC: low })
+        assert.equal(reversed.token0, low)
+        assert.equal(reversed.sqrtPriceX96, invertSqrtPriceX96(forward.sqrtPriceX96))
+        // getTickAtSqrtRatio 向下取整，镜像后的 tick 可能相差 1
+        assert.ok(Math.abs(reversed.tickLower + forward.tickUpper) <= 1)
+        assert.equal(reversed.amount0Desired, forward.amount1Desired)
+
+        assert.throws(
+            () => orientPools({ tokens: [], pools: [pool, pool] }, { TTB: low, TTC: high }),
+            /duplicated pool TTB\/TTC/
+        )
+        assert.throws(() => orientPools({ tokens: [], pools: [pool] }, { TTB: low }), /unknown token/)
+    })
+})
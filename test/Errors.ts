@@ -0,0 +1,309 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import {
+    type PublicClient,
+    encodeAbiParameters,
+    encodeErrorResult,
+    getAddress,
+    maxUint256,
+    parseAbi,
+    parseAbiParameters,
+    parseEther,
+    zeroAddress
+} from 'viem'
+
+import {
+    PanicError,
+    RevertReasonError,
+    SwapError,
+    SwapErrors,
+    UnknownRevertError,
+    decodeRevert,
+    defaultSqrtPriceLimitX96,
+    encodePath,
+    encodeSqrtRatioX96,
+    getTickAtSqrtRatio,
+    isSwapError,
+    swapErrorsAbi,
+    withDecodedRevert
+} from '../sdk/index.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('Errors', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const deployFixture = async () => {
+        const { token0, token1, SwapRouter, PositionManager, connect } = await deployExchange(hviem, publicClient)
+
+        const [lp, trader] = await hviem.getWalletClients()
+        for (const wallet of [lp, trader]) {
+            await token0.write.mint([wallet.account.address, parseEther('1000000')])
+            await token1.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const client = connect(lp)
+        const { pool } = await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(1n, 4n)),
+            tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(4n, 1n)),
+            sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+        })
+        const position = await client.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('1000')
+        })
+        const Pool = await hviem.getContractAt('Pool', pool)
+        return { token0, token1, Pool, SwapRouter, PositionManager, lp, trader, client, position }
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>
+
+    const swapParams = (fixture: Fixture, amountIn: bigint) => ({
+        tokenIn: fixture.token0.address,
+        tokenOut: fixture.token1.address,
+        indexPath: [0],
+        recipient: fixture.trader.account.address,
+        deadline: maxUint256,
+        amountIn,
+        amountOutMinimum: 0n,
+        sqrtPriceLimitX96: defaultSqrtPriceLimitX96(true)
+    })
+
+    it('decodes raw revert data into typed errors', () => {
+        const data = encodeErrorResult({ abi: swapErrorsAbi, errorName: 'SlippageExceeded', args: [105n, 100n] })
+        const error = decodeRevert(data)
+        assert.ok(error instanceof SwapErrors.SlippageExceeded)
+        assert.ok(error instanceof SwapError)
+        assert.equal(error.amountIn, 105n)
+        assert.equal(error.max, 100n)
+        assert.deepEqual(error.args, { amountIn: 105n, max: 100n })
+        assert.equal(error.message, 'SlippageExceeded(amountIn: 105, max: 100)')
+        assert.equal(error.data, data)
+        assert.ok(!(error instanceof SwapErrors.InsufficientOutputAmount))
+        // Uniswap 库的无参数错误同样有对应的错误类
+        const tick = decodeRevert(encodeErrorResult({ abi: swapErrorsAbi, errorName: 'R' }))
+        assert.ok(tick instanceof SwapErrors.R)
+        assert.equal(tick.message, 'R()')
+
+        const builtins = parseAbi(['error Error(string)', 'error Panic(uint256)'])
+        const reason = decodeRevert(encodeErrorResult({ abi: builtins, errorName: 'Error', args: ['TF'] }))
+        assert.ok(reason instanceof RevertReasonError)
+        assert.equal(reason.reason, 'TF')
+        const panic = decodeRevert(encodeErrorResult({ abi: builtins, errorName: 'Panic', args: [0x11n] }))
+        assert.ok(panic instanceof PanicError)
+        assert.equal(panic.code, 0x11n)
+        assert.equal(panic.message, 'Panic(0x11)')
+
+        assert.ok(decodeRevert('0x') instanceof UnknownRevertError)
+        assert.ok(decodeRevert('0xdeadbeef') instanceof UnknownRevertError)
+        assert.equal(decodeRevert(new Error('network down')), undefined)
+    })
+
+    it('decodes router slippage and deadline errors', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, token1, SwapRouter, client } = fixture
+        const amountOut = parseEther('10')
+        const quoted = await client.quote({
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            amount: amountOut,
+            side: 'exactOut'
+        })
+        // 授权足够时才会走到输入上限的检查，否则先在回调中因授权不足失败
+        await client.ensureAllowance(token0.address, SwapRouter.address, maxUint256)
+        const slippage = await rejection(
+            client.swapExactOut({
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amountOut,
+                amountInMaximum: 1n,
+                approve: false
+            })
+        )
+        assert.ok(slippage instanceof SwapErrors.SlippageExceeded)
+        assert.equal(slippage.amountIn, quoted)
+        assert.equal(slippage.max, 1n)
+
+        const output = await rejection(
+            client.swapExactIn({
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amountIn: parseEther('1'),
+                amountOutMinimum: parseEther('2')
+            })
+        )
+        assert.ok(isSwapError(output, 'InsufficientOutputAmount'))
+        assert.equal(output.amountOutMinimum, parseEther('2'))
+        assert.ok(output.amountOut < parseEther('1'))
+
+        const deadline = (await publicClient.getBlock()).timestamp
+        const expired = await rejection(
+            SwapRouter.write.exactInputMultihop([
+                {
+                    path: encodePath([token0.address, token1.address], [0]),
+                    recipient: fixture.lp.account.address,
+                    deadline: 1n,
+                    amountIn: 1n,
+                    amountOutMinimum: 0n
+                }
+            ])
+        )
+        assert.ok(expired instanceof SwapErrors.TransactionTooOld)
+        assert.equal(expired.deadline, 1n)
+        assert.ok(expired.timestamp > deadline)
+
+        const missing = await rejection(SwapRouter.write.exactInput([{ ...swapParams(fixture, 1n), indexPath: [3] }]))
+        assert.ok(missing instanceof SwapErrors.PoolNotFound)
+        assert.deepEqual(missing.args, {
+            tokenA: getAddress(token0.address),
+            tokenB: getAddress(token1.address),
+            index: 3
+        })
+    })
+
+    it('bubbles pool and token errors through the router', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, Pool, SwapRouter, trader } = fixture
+
+        const zero = await rejection(SwapRouter.write.exactInput([swapParams(fixture, 0n)]))
+        assert.ok(zero instanceof SwapErrors.ZeroAmount)
+
+        const sqrtPriceX96 = await Pool.read.sqrtPriceX96()
+        const limit = await rejection(
+            SwapRouter.write.exactInput([{ ...swapParams(fixture, 1n), sqrtPriceLimitX96: sqrtPriceX96 + 1n }])
+        )
+        assert.ok(limit instanceof SwapErrors.InvalidSqrtPriceLimit)
+        assert.deepEqual(limit.args, { sqrtPriceLimitX96: sqrtPriceX96 + 1n, sqrtPriceX96 })
+
+        // 回调中 transferFrom 的错误不再被路由改写
+        const amountIn = parseEther('1')
+        const allowance = await rejection(
+            SwapRouter.write.exactInput([swapParams(fixture, amountIn)], { account: trader.account })
+        )
+        assert.ok(allowance instanceof SwapErrors.ERC20InsufficientAllowance)
+        assert.deepEqual(allowance.args, { spender: getAddress(SwapRouter.address), allowance: 0n, needed: amountIn })
+
+        const initialized = await rejection(Pool.write.initialize([sqrtPriceX96]))
+        assert.ok(initialized instanceof SwapErrors.AlreadyInitialized)
+        assert.equal(initialized.sqrtPriceX96, sqrtPriceX96)
+        await token0.write.approve([SwapRouter.address, maxUint256], { account: trader.account })
+        await SwapRouter.write.exactInput([swapParams(fixture, amountIn)], { account: trader.account })
+    })
+
+    it('rejects pool swaps that do not come from the router itself', async () => {
+        const { token0, token1, Pool, SwapRouter, lp, trader } = await networkHelpers.loadFixture(deployFixture)
+        // lp 授权了路由，外部调用者不能以 lp 为 payer 直接调用 swapInPool
+        await token0.write.approve([SwapRouter.address, maxUint256])
+        const data = encodeAbiParameters(parseAbiParameters('address, address, uint32, address'), [
+            token0.address,
+            token1.address,
+            0,
+            lp.account.address
+        ])
+        const balance = await token0.read.balanceOf([lp.account.address])
+        const unauthorized = await rejection(
+            SwapRouter.write.swapInPool(
+                [Pool.address, trader.account.address, true, parseEther('1'), defaultSqrtPriceLimitX96(true), data],
+                { account: trader.account }
+            )
+        )
+        assert.ok(isSwapError(unauthorized, 'UnauthorizedCallback'))
+        assert.equal(unauthorized.caller, getAddress(trader.account.address))
+        assert.equal(await token0.read.balanceOf([lp.account.address]), balance)
+    })
+
+    it('decodes position manager errors', async () => {
+        const { token0, token1, PositionManager, trader, position } = await networkHelpers.loadFixture(deployFixture)
+        const unauthorized = await rejection(
+            PositionManager.write.burn([position.positionId], { account: trader.account })
+        )
+        assert.ok(unauthorized instanceof SwapErrors.NotAuthorized)
+        assert.deepEqual(unauthorized.args, {
+            caller: getAddress(trader.account.address),
+            positionId: position.positionId
+        })
+
+        const notWeth = await rejection(
+            PositionManager.write.collectToETH([position.positionId, trader.account.address])
+        )
+        assert.ok(notWeth instanceof SwapErrors.NotWETH9Position)
+        assert.equal(notWeth.positionId, position.positionId)
+
+        const params = {
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            amount0Desired: parseEther('1'),
+            amount1Desired: parseEther('1'),
+            recipient: trader.account.address,
+            deadline: maxUint256
+        }
+        const missing = await rejection(PositionManager.write.mint([{ ...params, index: 1 }]))
+        assert.ok(missing instanceof SwapErrors.PoolNotFound)
+        assert.equal(missing.index, 1)
+
+        // 池子的 mint 不再被 try/catch 包装，代币错误原样冒泡
+        const allowance = await rejection(PositionManager.write.mint([params], { account: trader.account }))
+        assert.ok(allowance instanceof SwapErrors.ERC20InsufficientAllowance)
+        assert.equal(allowance.spender, getAddress(PositionManager.address))
+    })
+
+    it('decodes position transfer and WETH9 errors', async () => {
+        const { Pool, PositionManager, lp, trader, position } = await networkHelpers.loadFixture(deployFixture)
+        const { positionId } = position
+
+        // 转移不属于自己且未获授权的头寸
+        const unapproved = await rejection(
+            PositionManager.write.transferFrom([lp.account.address, trader.account.address, positionId], {
+                account: trader.account
+            })
+        )
+        assert.ok(isSwapError(unapproved, 'ERC721InsufficientApproval'))
+        assert.deepEqual(unapproved.args, { operator: getAddress(trader.account.address), tokenId: positionId })
+
+        // 持有人以错误的 from 转移自己的头寸
+        const incorrect = await rejection(
+            PositionManager.write.transferFrom([trader.account.address, lp.account.address, positionId])
+        )
+        assert.ok(isSwapError(incorrect, 'ERC721IncorrectOwner'))
+        assert.deepEqual(incorrect.args, {
+            sender: getAddress(trader.account.address),
+            tokenId: positionId,
+            owner: getAddress(lp.account.address)
+        })
+
+        const burnt = await rejection(
+            PositionManager.write.transferFrom([lp.account.address, getAddress(zeroAddress), positionId])
+        )
+        assert.ok(isSwapError(burnt, 'ERC721InvalidReceiver'))
+
+        // 无法接收 ETH 的合约（池子没有 receive）提取 WETH
+        const WETH9 = await hviem.getContractAt('WETH9', await PositionManager.read.WETH9())
+        const receiver = Pool.address
+        await networkHelpers.impersonateAccount(receiver)
+        await networkHelpers.setBalance(receiver, parseEther('10'))
+        await WETH9.write.deposit({ account: receiver, value: parseEther('1') })
+        const withdraw = await rejection(WETH9.write.withdraw([parseEther('1')], { account: receiver }))
+        assert.ok(isSwapError(withdraw, 'WETH9TransferFailed'))
+        assert.deepEqual(withdraw.args, { recipient: getAddress(receiver), amount: parseEther('1') })
+    })
+
+    it('rethrows decoded errors from pending calls', async () => {
+        const { token0, token1, client } = await networkHelpers.loadFixture(deployFixture)
+        await assert.rejects(
+            withDecodedRevert(client.getPoolAddress(token0.address, token0.address, 0)),
+            (error) => error instanceof SwapErrors.IdenticalAddresses && error.token === getAddress(token0.address)
+        )
+        assert.equal(await withDecodedRevert(Promise.resolve(1)), 1)
+        const pool = await withDecodedRevert(client.getPoolAddress(token0.address, token1.address, 0))
+        assert.notEqual(BigInt(pool), 0n)
+    })
+})
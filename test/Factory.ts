@@ -44,12 +44,18 @@ describe('Factory', async () => {
             const tokenA: `0x${string}` = '0x0000000000000000000000000000000000000001'
             const tokenB: `0x${string}` = '0x0000000000000000000000000000000000000001'
 
-            await hviem.assertions.revertWith(
+            await hviem.assertions.revertWithCustomErrorWithArgs(
                 Factory.write.createPool([tokenA, tokenB, 1, 100000, 3000]),
-                'Identical addresses'
+                Factory,
+                'IdenticalAddresses',
+                [tokenA]
             )
 
-            await hviem.assertions.revertWith(Factory.read.getPool([tokenA, tokenB, 3]), 'Identical addresses')
+            await hviem.assertions.revertWithCustomError(
+                Factory.read.getPool([tokenA, tokenB, 3]),
+                Factory,
+                'IdenticalAddresses'
+            )
         })
     })
 })
@@ -0,0 +1,228 @@
+import { after, describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type PublicClient, getAddress, parseEther, parseEventLogs } from 'viem'
+
+import {
+    EventIndexer,
+    FileStore,
+    Q128,
+    Q96,
+    isSwapError,
+    mulDiv,
+    mulDivRoundingUp,
+    poolAbi,
+    poolFees,
+    tvlHistory
+} from '../sdk/index.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('Flash', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const FEE = 3000n
+
+    // 索引 Flash 事件时使用的存储目录，套件结束后删除
+    const dir = await mkdtemp(join(tmpdir(), 'flash-'))
+    after(() => rm(dir, { recursive: true, force: true }))
+
+    // 价格为 1 的 0.3% 池子，两个 LP 按 1:3 提供流动性；借款合约持有支付手续费的代币
+    const deployFixture = async () => {
+        const { token0, token1, addresses, connect } = await deployExchange(hviem, publicClient)
+        const TestFlash = await hviem.deployContract('TestFlash')
+
+        const [owner, otherLp] = await hviem.getWalletClients()
+        for (const account of [owner.account.address, otherLp.account.address, TestFlash.address]) {
+            await token0.write.mint([account, parseEther('1000000')])
+            await token1.write.mint([account, parseEther('1000000')])
+        }
+        const client = connect(owner)
+        const otherClient = connect(otherLp)
+
+        const pair = { tokenA: token0.address, tokenB: token1.address }
+        const { pool } = await client.createPool({
+            ...pair,
+            fee: Number(FEE),
+            tickLower: -6932,
+            tickUpper: 6932,
+            sqrtPriceX96: Q96
+        })
+        const { positionId } = await client.addLiquidity({
+            ...pair,
+            index: 0,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('1000')
+        })
+        const { positionId: otherPositionId } = await otherClient.addLiquidity({
+            ...pair,
+            index: 0,
+            amountADesired: parseEther('3000'),
+            amountBDesired: parseEther('3000')
+        })
+        const Pool = await hviem.getContractAt('Pool', pool)
+        return { token0, token1, Pool, TestFlash, client, otherClient, positionId, otherPositionId, addresses }
+    }
+
+    it('lends both tokens and credits the fee to every position', async () => {
+        const { token0, token1, Pool, TestFlash, client, otherClient, positionId, otherPositionId, addresses } =
+            await networkHelpers.loadFixture(deployFixture)
+        const amount0 = parseEther('500')
+        const amount1 = parseEther('200')
+        const fee0 = mulDivRoundingUp(amount0, FEE, 1_000_000n)
+        const fee1 = mulDivRoundingUp(amount1, FEE, 1_000_000n)
+        const liquidity = await Pool.read.liquidity()
+        const poolBalance0 = await token0.read.balanceOf([Pool.address])
+        const poolBalance1 = await token1.read.balanceOf([Pool.address])
+        const borrowerBalance0 = await token0.read.balanceOf([TestFlash.address])
+        const borrowerBalance1 = await token1.read.balanceOf([TestFlash.address])
+
+        const hash = await TestFlash.write.flash([Pool.address, amount0, amount1, 0n, 0n, false])
+        const { logs } = await publicClient.getTransactionReceipt({ hash })
+
+        // 回调时借出的代币已到账，手续费按池子费率向上取整
+        const [callback] = parseEventLogs({ abi: TestFlash.abi, eventName: 'FlashCallback', logs })
+        assert.deepEqual(callback.args, {
+            fee0,
+            fee1,
+            balance0: borrowerBalance0 + amount0,
+            balance1: borrowerBalance1 + amount1
+        })
+        const [flash] = parseEventLogs({ abi: poolAbi, eventName: 'Flash', logs })
+        assert.equal(flash.args.sender.toLowerCase(), TestFlash.address.toLowerCase())
+        assert.equal(flash.args.recipient.toLowerCase(), TestFlash.address.toLowerCase())
+        assert.deepEqual(
+            [flash.args.amount0, flash.args.amount1, flash.args.paid0, flash.args.paid1],
+            [amount0, amount1, fee0, fee1]
+        )
+
+        // 池子多出的正好是手续费，价格不变，全部计入 LP 的手续费增长
+        assert.equal(await token0.read.balanceOf([Pool.address]), poolBalance0 + fee0)
+        assert.equal(await token1.read.balanceOf([Pool.address]), poolBalance1 + fee1)
+        assert.equal(await token0.read.balanceOf([TestFlash.address]), borrowerBalance0 - fee0)
+        assert.equal(await Pool.read.sqrtPriceX96(), Q96)
+        assert.equal(await Pool.read.feeGrowthGlobal0X128(), mulDiv(fee0, Q128, liquidity))
+        assert.equal(await Pool.read.feeGrowthGlobal1X128(), mulDiv(fee1, Q128, liquidity))
+        assert.deepEqual(await Pool.read.protocolFees(), [0n, 0n])
+
+        // 已有头寸按流动性比例分得手续费，只有取整误差
+        const [mine, other] = await Promise.all([
+            client.getPositionValuation(positionId),
+            otherClient.getPositionValuation(otherPositionId)
+        ])
+        for (const [fees, total] of [
+            [mine.fees0 + other.fees0, fee0],
+            [mine.fees1 + other.fees1, fee1]
+        ]) {
+            assert.ok(fees <= total && fees >= total - 2n, `${fees} / ${total}`)
+        }
+        const ratio = Number(other.fees0) / Number(mine.fees0)
+        assert.ok(Math.abs(ratio - 3) < 1e-6, `${ratio}`)
+
+        // 手续费随流动性一起提取
+        const {
+            positions: [closed]
+        } = await client.closePositions([positionId])
+        assert.deepEqual(closed.collected, { amount0: mine.collectable0, amount1: mine.collectable1 })
+
+        // 索引的 Flash 事件计入池子的手续费与余额
+        const store = new FileStore(join(dir, 'events.json'))
+        const indexer = new EventIndexer({ publicClient, addresses, store })
+        await indexer.sync()
+        assert.deepEqual(poolFees(indexer.state, Pool.address), { fee0, fee1 })
+        const points = tvlHistory(indexer.state, Pool.address)
+        assert.deepEqual(points[points.length - 1], {
+            ...points[points.length - 1],
+            amount0: await token0.read.balanceOf([Pool.address]),
+            amount1: await token1.read.balanceOf([Pool.address])
+        })
+    })
+
+    it('reverts when the borrower does not repay the principal and fee', async () => {
+        const { token0, token1, Pool, TestFlash, client } = await networkHelpers.loadFixture(deployFixture)
+        const amount = parseEther('100')
+        const fee = mulDivRoundingUp(amount, FEE, 1_000_000n)
+
+        // 少付 1 wei 手续费
+        const short = await rejection(TestFlash.write.flash([Pool.address, 0n, amount, 0n, -1n, false]))
+        assert.ok(isSwapError(short, 'InsufficientPayment'))
+        assert.deepEqual(short.args, { token: getAddress(token1.address), expected: fee, received: fee - 1n })
+
+        // 只还本金不付手续费，以及完全不还
+        const noFee = await rejection(TestFlash.write.flash([Pool.address, amount, 0n, -fee, 0n, false]))
+        assert.ok(isSwapError(noFee, 'InsufficientPayment'))
+        assert.deepEqual(noFee.args, { token: getAddress(token0.address), expected: fee, received: 0n })
+        const unpaid = await rejection(TestFlash.write.flash([Pool.address, amount, 0n, -(amount + fee), 0n, false]))
+        assert.ok(isSwapError(unpaid, 'InsufficientPayment'))
+
+        // 一种代币足额、另一种不足时同样 revert
+        const mixed = await rejection(TestFlash.write.flash([Pool.address, amount, amount, 0n, -fee, false]))
+        assert.ok(isSwapError(mixed, 'InsufficientPayment'))
+        assert.equal(mixed.args.token, getAddress(token1.address))
+
+        // 回调中重入池子
+        const reentered = await rejection(TestFlash.write.flash([Pool.address, amount, 0n, 0n, 0n, true]))
+        assert.ok(isSwapError(reentered, 'Locked'))
+
+        // 借出超过池子余额的数量时转账失败
+        const balance0 = await token0.read.balanceOf([Pool.address])
+        await assert.rejects(TestFlash.write.flash([Pool.address, balance0 + 1n, 0n, 0n, 0n, false]))
+
+        // 同一代币对中没有流动性的池子无法分配手续费
+        const { pool: empty } = await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 500,
+            tickLower: -6932,
+            tickUpper: 6932,
+            sqrtPriceX96: Q96
+        })
+        const noLiquidity = await rejection(TestFlash.write.flash([empty, 0n, 0n, 0n, 0n, false]))
+        assert.ok(isSwapError(noLiquidity, 'ZeroLiquidity'))
+
+        assert.equal(await Pool.read.feeGrowthGlobal0X128(), 0n)
+        assert.equal(await Pool.read.feeGrowthGlobal1X128(), 0n)
+    })
+
+    it('shares the fee with the protocol and credits overpayment to LPs', async () => {
+        const { token0, Pool, TestFlash, client } = await networkHelpers.loadFixture(deployFixture)
+        await client.setFeeProtocol(Pool.address, 4, 5)
+        const amount0 = parseEther('100')
+        const amount1 = parseEther('300')
+        const extra0 = parseEther('1')
+        const fee0 = mulDivRoundingUp(amount0, FEE, 1_000_000n)
+        const fee1 = mulDivRoundingUp(amount1, FEE, 1_000_000n)
+        const liquidity = await Pool.read.liquidity()
+
+        // 多付的部分与手续费一样拆分
+        const hash = await TestFlash.write.flash([Pool.address, amount0, amount1, extra0, 0n, false])
+        const { logs } = await publicClient.getTransactionReceipt({ hash })
+        const [flash] = parseEventLogs({ abi: poolAbi, eventName: 'Flash', logs })
+        const paid0 = fee0 + extra0
+        assert.deepEqual([flash.args.paid0, flash.args.paid1], [paid0, fee1])
+        assert.deepEqual(await Pool.read.protocolFees(), [paid0 / 4n, fee1 / 5n])
+        assert.equal(await Pool.read.feeGrowthGlobal0X128(), mulDiv(paid0 - paid0 / 4n, Q128, liquidity))
+        assert.equal(await Pool.read.feeGrowthGlobal1X128(), mulDiv(fee1 - fee1 / 5n, Q128, liquidity))
+
+        // 协议份额可以由工厂 owner 提取
+        const treasury = client.account.address
+        const before = await token0.read.balanceOf([treasury])
+        await client.collectProtocol(Pool.address, treasury)
+        assert.equal((await token0.read.balanceOf([treasury])) - before, paid0 / 4n)
+        assert.deepEqual(await Pool.read.protocolFees(), [0n, 0n])
+
+        // 借 0 个代币时不收取手续费
+        const free = await TestFlash.write.flash([Pool.address, 0n, 0n, 0n, 0n, false])
+        const [zero] = parseEventLogs({
+            abi: poolAbi,
+            eventName: 'Flash',
+            logs: (await publicClient.getTransactionReceipt({ hash: free })).logs
+        })
+        assert.deepEqual([zero.args.paid0, zero.args.paid1], [0n, 0n])
+    })
+})
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+
+import { measureGas } from '../scripts/gas/benchmark.js'
+import { compareGas, formatGasDiff, linearGrowth, loadGasSnapshot } from '../scripts/gas/report.js'
+
+describe('GasSnapshot', async () => {
+    const connection = await network.connect({ network: 'hardhatMainnet' })
+
+    it('stays within the committed gas snapshot', async () => {
+        const snapshot = await loadGasSnapshot()
+        assert.ok(snapshot, 'gas-snapshot.json is missing, run scripts/gas-snapshot.ts')
+        const diffs = compareGas(snapshot, await measureGas(connection))
+        if (diffs.length > 0) {
+            console.log(formatGasDiff(diffs))
+        }
+        assert.deepEqual(
+            diffs.filter((diff) => diff.regression || diff.after === undefined),
+            [],
+            'gas regressed, run GAS_UPDATE=1 npx hardhat run scripts/gas-snapshot.ts if intended'
+        )
+    })
+
+    it('flags entries above the threshold', () => {
+        const before = { a: 1000, b: 1000, c: 1000, removed: 500 }
+        const after = { a: 1000, b: 1005, c: 1020, added: 700 }
+        const diffs = compareGas(before, after, 1)
+        assert.deepEqual(
+            diffs.map(({ name, delta, regression }) => ({ name, delta, regression })),
+            [
+                { name: 'b', delta: 5, regression: false },
+                { name: 'c', delta: 20, regression: true },
+                { name: 'removed', delta: -500, regression: false },
+                { name: 'added', delta: 700, regression: false }
+            ]
+        )
+        const lines = formatGasDiff(diffs).split('\n')
+        assert.match(lines[1], /^! c .*1000 -> +1020 \+20 \(2\.00%\)$/)
+        assert.match(lines[2], /removed$/)
+        assert.equal(formatGasDiff([]), 'no gas changes')
+    })
+
+    it('reports growth per unit between checkpoints', () => {
+        const report = { 'scan/n=10': 2000, 'scan/n=0': 1000, 'scan/n=5': 1500, other: 1 }
+        assert.deepEqual(linearGrowth(report, 'scan/n='), [
+            { from: 0, to: 5, perUnit: 100 },
+            { from: 5, to: 10, perUnit: 100 }
+        ])
+    })
+})
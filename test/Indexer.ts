@@ -0,0 +1,222 @@
+import { after, describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { getAddress } from 'viem'
+
+import {
+    EventIndexer,
+    FileStore,
+    Q128,
+    SwapClient,
+    poolAbi,
+    poolFees,
+    poolVolume,
+    tvlHistory,
+    walletActivity
+} from '../sdk/index.js'
+
+describe('Indexer', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = await hviem.getPublicClient()
+
+    // 事件存储写入临时目录，全部测试结束后删除
+    const dir = await mkdtemp(join(tmpdir(), 'indexer-'))
+    after(() => rm(dir, { recursive: true, force: true }))
+
+    // 脚本化的本地会话：建池、加流动性、双向交易、移除并提取
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+        const token0 = TTA.address < TTB.address ? TTA : TTB
+        const token1 = TTA.address < TTB.address ? TTB : TTA
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+
+        const [walletClient, traderClient] = await hviem.getWalletClients()
+        const sender = walletClient.account.address
+        const trader = traderClient.account.address
+        const initBalanceValue = 10n ** 12n * 10n ** 18n
+        for (const account of [sender, trader]) {
+            await token0.write.mint([account, initBalanceValue])
+            await token1.write.mint([account, initBalanceValue])
+        }
+
+        const addresses = {
+            poolManager: PoolManager.address,
+            swapRouter: SwapRouter.address,
+            positionManager: PositionManager.address
+        }
+        const client = new SwapClient({ publicClient, walletClient, addresses })
+        const traderSwapClient = new SwapClient({ publicClient, walletClient: traderClient, addresses })
+
+        const { pool } = await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(10000, 1).toString())
+        })
+        const { positionId } = await client.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: 1000n * 10n ** 18n,
+            amountBDesired: 1000n * 10000n * 10n ** 18n
+        })
+        await traderSwapClient.swapExactIn({ tokenIn: token0.address, tokenOut: token1.address, amountIn: 10n ** 18n })
+        await traderSwapClient.swapExactIn({
+            tokenIn: token1.address,
+            tokenOut: token0.address,
+            amountIn: 5000n * 10n ** 18n
+        })
+
+        const store = new FileStore(join(dir, 'events.json'))
+        const indexer = new EventIndexer({ publicClient, addresses, store, batchSize: 5n })
+
+        return { client, traderSwapClient, token0, token1, pool, positionId, sender, trader, addresses, store, indexer }
+    }
+
+    // 池子实际持有的代币余额
+    const poolBalances = async (token0: any, token1: any, pool: `0x${string}`) => [
+        await token0.read.balanceOf([pool]),
+        await token1.read.balanceOf([pool])
+    ]
+
+    describe('sync', async () => {
+        it('decodes factory, pool and router events', async () => {
+            const { indexer, pool, addresses } = await networkHelpers.loadFixture(deployFixture)
+            const result = await indexer.sync()
+            assert.equal(result.fromBlock, 0n)
+            assert.equal(result.toBlock, await publicClient.getBlockNumber())
+
+            const { pools, events } = indexer.state
+            assert.deepEqual(
+                pools.map((item) => item.pool),
+                [pool]
+            )
+            assert.deepEqual(
+                events.map((event) => event.type),
+                ['PoolCreated', 'Mint', 'Swap', 'RouterSwap', 'Swap', 'RouterSwap']
+            )
+            assert.equal(getAddress(events[0].address), getAddress(addresses.poolManager))
+            // 事件按区块与日志顺序排列
+            for (let i = 1; i < events.length; i++) {
+                assert.ok(events[i].blockNumber >= events[i - 1].blockNumber)
+            }
+        })
+
+        it('resumes from the checkpoint after a restart', async () => {
+            const { indexer, store, addresses, traderSwapClient, token0, token1 } =
+                await networkHelpers.loadFixture(deployFixture)
+            await indexer.sync()
+            const checkpoint = indexer.state.checkpoint!
+
+            await traderSwapClient.swapExactIn({
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amountIn: 10n ** 18n
+            })
+
+            // 新实例读取同一个文件，只索引检查点之后的区块
+            const restarted = new EventIndexer({ publicClient, addresses, store })
+            const result = await restarted.sync()
+            assert.equal(result.fromBlock, checkpoint.blockNumber + 1n)
+            assert.equal(result.events, 2)
+            assert.equal(restarted.state.events.length, 8)
+            assert.equal(new Set(restarted.state.events.map((event) => event.transactionHash + event.logIndex)).size, 8)
+        })
+
+        it('rolls back events of reorged blocks', async () => {
+            const { indexer, traderSwapClient, token0, token1, pool } = await networkHelpers.loadFixture(deployFixture)
+            await indexer.sync()
+            const before = indexer.state.events.length
+            const snapshot = await networkHelpers.takeSnapshot()
+
+            await traderSwapClient.swapExactIn({
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amountIn: 10n ** 18n
+            })
+            await indexer.sync()
+            assert.equal(indexer.state.events.length, before + 2)
+            const orphaned = indexer.state.checkpoint!
+            const orphanedTx = indexer.state.events.at(-1)!.transactionHash
+
+            // 回到快照后走另一条分叉：不同的交易，区块号相同但哈希不同
+            await snapshot.restore()
+            await traderSwapClient.swapExactIn({
+                tokenIn: token1.address,
+                tokenOut: token0.address,
+                amountIn: 10000n * 10n ** 18n
+            })
+            const result = await indexer.sync()
+            assert.ok(result.rolledBackTo !== undefined && result.rolledBackTo < orphaned.blockNumber)
+            assert.equal(indexer.state.events.length, before + 2)
+            assert.notEqual(indexer.state.checkpoint!.blockHash, orphaned.blockHash)
+            assert.ok(indexer.state.events.every((event) => event.transactionHash !== orphanedTx))
+
+            // 回滚后累计的余额仍与链上一致
+            const last = tvlHistory(indexer.state, pool).at(-1)!
+            assert.deepEqual([last.amount0, last.amount1], await poolBalances(token0, token1, pool))
+        })
+    })
+
+    describe('queries', async () => {
+        it('tracks volume, fees and TVL of a pool', async () => {
+            const { indexer, client, token0, token1, pool, positionId } =
+                await networkHelpers.loadFixture(deployFixture)
+            await client.removeLiquidity(positionId)
+            await client.collect(positionId)
+            await indexer.sync()
+
+            const swaps = indexer.state.events.filter((event) => event.type === 'Swap')
+            const volume = poolVolume(indexer.state, pool)
+            assert.equal(volume.swaps, 2)
+            const amounts0 = swaps.map((event) => event.args.amount0 as bigint)
+            assert.equal(volume.volume0, amounts0.reduce((sum, amount) => sum + (amount < 0n ? -amount : amount), 0n))
+
+            // 估算的手续费与链上 feeGrowth 对应的数量误差在几 wei 以内
+            const fees = poolFees(indexer.state, pool)
+            const liquidity = indexer.state.events.find((event) => event.type === 'Mint')!.args.amount as bigint
+            for (const [fee, name] of [
+                [fees.fee0, 'feeGrowthGlobal0X128'],
+                [fees.fee1, 'feeGrowthGlobal1X128']
+            ] as const) {
+                const growth = await publicClient.readContract({ address: pool, abi: poolAbi, functionName: name })
+                const earned = (growth * liquidity) / Q128
+                assert.ok(fee >= earned && fee - earned <= 2n, `${name}: ${fee} vs ${earned}`)
+            }
+
+            const history = tvlHistory(indexer.state, pool)
+            // Mint、两次 Swap、Collect 各在一个区块
+            assert.equal(history.length, 4)
+            assert.deepEqual([history[3].amount0, history[3].amount1], await poolBalances(token0, token1, pool))
+            assert.deepEqual(tvlHistory(indexer.state, pool, { fromTimestamp: history[2].timestamp }), history.slice(2))
+        })
+
+        it('lists the activity of a wallet', async () => {
+            const { indexer, sender, trader } = await networkHelpers.loadFixture(deployFixture)
+            await indexer.sync()
+
+            const traded = walletActivity(indexer.state, trader)
+            assert.deepEqual(
+                traded.map((event) => event.type),
+                ['Swap', 'RouterSwap', 'Swap', 'RouterSwap']
+            )
+            assert.deepEqual(
+                walletActivity(indexer.state, sender).map((event) => event.type),
+                ['PoolCreated', 'Mint']
+            )
+        })
+    })
+})
@@ -0,0 +1,338 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type Hash, type PublicClient, getAddress, parseEther, parseEventLogs } from 'viem'
+
+import {
+    SwapErrors,
+    encodeSqrtRatioX96,
+    getMintAmounts,
+    getPositionAmounts,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    mulDiv,
+    positionManagerAbi
+} from '../sdk/index.js'
+import { Q128 } from '../sdk/utils.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('ModifyLiquidity', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    // 1 token0 = 4 token1，区间 [1, 16]；lp 与 otherLp 以相同的投入各铸造一个头寸
+    const deployFixture = async () => {
+        const { token0, token1, connect } = await deployExchange(hviem, publicClient)
+
+        const [lp, otherLp, trader] = await hviem.getWalletClients()
+        for (const wallet of [lp, otherLp, trader]) {
+            await token0.write.mint([wallet.account.address, parseEther('1000000')])
+            await token1.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const client = connect(lp)
+        const otherClient = connect(otherLp)
+        const traderClient = connect(trader)
+
+        const { pool } = await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(1n, 1n)),
+            tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(16n, 1n)),
+            sqrtPriceX96: encodeSqrtRatioX96(4n, 1n)
+        })
+        const mintParams = {
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('4000')
+        }
+        const position = await client.addLiquidity(mintParams)
+        const reference = await otherClient.addLiquidity(mintParams)
+        const Pool = await hviem.getContractAt('Pool', pool)
+        return { token0, token1, Pool, client, otherClient, traderClient, position, reference }
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>
+
+    const positionOf = async ({ client }: Fixture, positionId: bigint) =>
+        (await client.listPositions()).find((item) => item.id === positionId)!
+
+    const feeGrowth = async ({ Pool }: Fixture) =>
+        Promise.all([Pool.read.feeGrowthGlobal0X128(), Pool.read.feeGrowthGlobal1X128()])
+
+    // 两个方向各成交一笔，价格最终上涨
+    const trade = async ({ traderClient, token0, token1 }: Fixture, scale: bigint) => {
+        await traderClient.swapExactIn({ tokenIn: token1.address, tokenOut: token0.address, amountIn: 100n * scale })
+        await traderClient.swapExactIn({ tokenIn: token0.address, tokenOut: token1.address, amountIn: 20n * scale })
+    }
+
+    const eventOf = async (hash: Hash, eventName: 'IncreaseLiquidity' | 'DecreaseLiquidity') => {
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        const [event] = parseEventLogs({ abi: positionManagerAbi, logs: receipt.logs, eventName })
+        return event.args
+    }
+
+    it('adds liquidity to an existing position at the current price', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, client, position } = fixture
+        await trade(fixture, parseEther('1'))
+
+        const sqrtPriceX96 = await Pool.read.sqrtPriceX96()
+        const [tickLower, tickUpper] = await Promise.all([Pool.read.tickLower(), Pool.read.tickUpper()])
+        const amount0Desired = parseEther('300')
+        const amount1Desired = parseEther('5000')
+        const expected = getMintAmounts(sqrtPriceX96, tickLower, tickUpper, amount0Desired, amount1Desired)
+        // token1 充足，投入量由 token0 决定
+        assert.ok(expected.amount0 <= amount0Desired && amount0Desired - expected.amount0 <= 1n)
+        assert.ok(expected.amount1 < amount1Desired)
+
+        const increased = await client.increaseLiquidity({
+            positionId: position.positionId,
+            amount0Desired,
+            amount1Desired,
+            amount0Min: expected.amount0,
+            amount1Min: expected.amount1
+        })
+        const { hash, ...result } = increased
+        assert.deepEqual(result, expected)
+        assert.deepEqual(await eventOf(hash, 'IncreaseLiquidity'), { positionId: position.positionId, ...expected })
+
+        const info = await positionOf(fixture, position.positionId)
+        assert.equal(info.liquidity, position.liquidity + expected.liquidity)
+        // 池子中的流动性由所有头寸共享
+        assert.equal(await Pool.read.liquidity(), 2n * position.liquidity + expected.liquidity)
+        // 追加前累计的手续费已按原流动性结算
+        assert.ok(info.tokensOwed0 > 0n && info.tokensOwed1 > 0n)
+        assert.deepEqual(await client.getPositionDeposit(position.positionId), {
+            amount0: position.amountA + expected.amount0,
+            amount1: position.amountB + expected.amount1
+        })
+    })
+
+    it('splits fees by liquidity across partial increases and decreases', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, client, otherClient, position, reference } = fixture
+        const [tickLower, tickUpper] = await Promise.all([Pool.read.tickLower(), Pool.read.tickUpper()])
+
+        // 每段成交期间头寸的流动性不变，按段累加 Δ feeGrowth * liquidity 的向下取整结果
+        const expectedOwed = { amount0: 0n, amount1: 0n }
+        let liquidity = position.liquidity
+        let [growth0, growth1] = await feeGrowth(fixture)
+        const accrue = async () => {
+            const [next0, next1] = await feeGrowth(fixture)
+            expectedOwed.amount0 += mulDiv(next0 - growth0, liquidity, Q128)
+            expectedOwed.amount1 += mulDiv(next1 - growth1, liquidity, Q128)
+            ;[growth0, growth1] = [next0, next1]
+        }
+
+        await trade(fixture, parseEther('1'))
+        // 流动性相同时，与一直不动的参照头寸分得的手续费相同
+        const [mine, theirs] = await Promise.all([
+            client.getPositionValuation(position.positionId),
+            client.getPositionValuation(reference.positionId)
+        ])
+        assert.equal(mine.fees0, theirs.fees0)
+        assert.equal(mine.fees1, theirs.fees1)
+
+        const steps = [
+            { increase: [parseEther('500'), parseEther('4000')] as const },
+            { decrease: 3n },
+            { increase: [parseEther('100'), parseEther('100')] as const },
+            { decrease: 2n }
+        ]
+        for (const [i, step] of steps.entries()) {
+            await accrue()
+            const sqrtPriceX96 = await Pool.read.sqrtPriceX96()
+            if (step.increase) {
+                const [amount0Desired, amount1Desired] = step.increase
+                const expected = getMintAmounts(sqrtPriceX96, tickLower, tickUpper, amount0Desired, amount1Desired)
+                const increased = await client.increaseLiquidity({
+                    positionId: position.positionId,
+                    amount0Desired,
+                    amount1Desired
+                })
+                assert.equal(increased.liquidity, expected.liquidity)
+                liquidity += increased.liquidity
+            } else {
+                // 移除当前流动性的 1 / n，取出的本金与 burn 的计算方式一致
+                const removed = liquidity / step.decrease
+                const expected = getPositionAmounts(sqrtPriceX96, tickLower, tickUpper, removed)
+                const decreased = await client.decreaseLiquidity({
+                    positionId: position.positionId,
+                    liquidity: removed
+                })
+                assert.deepEqual(await eventOf(decreased.hash, 'DecreaseLiquidity'), {
+                    positionId: position.positionId,
+                    liquidity: removed,
+                    ...expected
+                })
+                expectedOwed.amount0 += decreased.amount0
+                expectedOwed.amount1 += decreased.amount1
+                liquidity -= removed
+            }
+            assert.equal((await positionOf(fixture, position.positionId)).liquidity, liquidity)
+            await trade(fixture, parseEther(String(i + 2)))
+        }
+        await accrue()
+
+        // 已结算的 tokensOwed 加上未结算的手续费与逐段计算的结果一致
+        const valuation = await client.getPositionValuation(position.positionId)
+        assert.equal(valuation.tokensOwed0 + valuation.fees0, expectedOwed.amount0)
+        assert.equal(valuation.tokensOwed1 + valuation.fees1, expectedOwed.amount1)
+
+        // 参照头寸的手续费只取决于总的 feeGrowth 增量
+        const final = await client.getPositionValuation(reference.positionId)
+        assert.equal(final.fees0, mulDiv(growth0, reference.liquidity, Q128))
+        assert.equal(final.fees1, mulDiv(growth1, reference.liquidity, Q128))
+
+        // 移除剩余流动性后全部提取，参照头寸不受影响
+        await client.removeLiquidity(position.positionId)
+        const collected = await client.collect(position.positionId)
+        assert.equal(collected.amount0, valuation.collectable0)
+        assert.equal(collected.amount1, valuation.collectable1)
+        const closed = await otherClient.removeLiquidity(reference.positionId)
+        assert.deepEqual(
+            { amount0: closed.amount0, amount1: closed.amount1 },
+            getPositionAmounts(await Pool.read.sqrtPriceX96(), tickLower, tickUpper, reference.liquidity)
+        )
+    })
+
+    it('lets anyone add liquidity but only the owner remove it', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, client, otherClient, position } = fixture
+        const [, otherLp] = await hviem.getWalletClients()
+
+        const balanceBefore = await token0.read.balanceOf([otherLp.account.address])
+        const increased = await otherClient.increaseLiquidity({
+            positionId: position.positionId,
+            amount0Desired: parseEther('10'),
+            amount1Desired: parseEther('40')
+        })
+        assert.equal(await token0.read.balanceOf([otherLp.account.address]), balanceBefore - increased.amount0)
+        const info = await positionOf(fixture, position.positionId)
+        assert.equal(info.liquidity, position.liquidity + increased.liquidity)
+
+        const unauthorized = await rejection(
+            otherClient.decreaseLiquidity({ positionId: position.positionId, liquidity: 1n })
+        )
+        assert.ok(unauthorized instanceof SwapErrors.NotAuthorized)
+        assert.deepEqual(unauthorized.args, {
+            caller: getAddress(otherLp.account.address),
+            positionId: position.positionId
+        })
+
+        // 超过头寸自身的流动性时拒绝，即使池子的总流动性足够
+        const excessive = await rejection(
+            client.decreaseLiquidity({ positionId: position.positionId, liquidity: info.liquidity + 1n })
+        )
+        assert.ok(excessive instanceof SwapErrors.InsufficientLiquidity)
+        assert.deepEqual(excessive.args, { liquidity: info.liquidity, amount: info.liquidity + 1n })
+
+        await assert.rejects(
+            client.increaseLiquidity({ positionId: 99n, amount0Desired: 1n, amount1Desired: 1n }),
+            /position 99 not found/
+        )
+    })
+
+    it('enforces minimum amounts and the deadline', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, client, position } = fixture
+        const [tickLower, tickUpper] = await Promise.all([Pool.read.tickLower(), Pool.read.tickUpper()])
+        const sqrtPriceX96 = await Pool.read.sqrtPriceX96()
+        const amount0Desired = parseEther('10')
+        const amount1Desired = parseEther('100000')
+        const desired = { positionId: position.positionId, amount0Desired, amount1Desired }
+        const expected = getMintAmounts(sqrtPriceX96, tickLower, tickUpper, amount0Desired, amount1Desired)
+
+        const increase = await rejection(client.increaseLiquidity({ ...desired, amount1Min: expected.amount1 + 1n }))
+        assert.ok(increase instanceof SwapErrors.PriceSlippageCheck)
+        assert.deepEqual(increase.args, {
+            amount0: expected.amount0,
+            amount1: expected.amount1,
+            amount0Min: 0n,
+            amount1Min: expected.amount1 + 1n
+        })
+
+        const removed = position.liquidity / 2n
+        const amounts = getPositionAmounts(sqrtPriceX96, tickLower, tickUpper, removed)
+        const decrease = await rejection(
+            client.decreaseLiquidity({
+                positionId: position.positionId,
+                liquidity: removed,
+                amount0Min: amounts.amount0 + 1n
+            })
+        )
+        assert.ok(decrease instanceof SwapErrors.PriceSlippageCheck)
+        assert.deepEqual(decrease.args, { ...amounts, amount0Min: amounts.amount0 + 1n, amount1Min: 0n })
+
+        const expired = await rejection(
+            client.decreaseLiquidity({ positionId: position.positionId, liquidity: removed, deadline: 1n })
+        )
+        assert.ok(expired instanceof SwapErrors.TransactionTooOld)
+
+        // 恰好等于下限时成功
+        const decreased = await client.decreaseLiquidity({
+            positionId: position.positionId,
+            liquidity: removed,
+            amount0Min: amounts.amount0,
+            amount1Min: amounts.amount1
+        })
+        assert.deepEqual({ amount0: decreased.amount0, amount1: decreased.amount1 }, amounts)
+        // 部分移除不影响累计投入
+        assert.deepEqual(await client.getPositionDeposit(position.positionId), {
+            amount0: position.amountA,
+            amount1: position.amountB
+        })
+    })
+
+    it('collects when one side of the position owes nothing', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, token1, Pool, client } = fixture
+        const [tickLower, tickUpper] = await Promise.all([Pool.read.tickLower(), Pool.read.tickUpper()])
+
+        // 价格位于区间下界的池子，头寸只持有 token0，移除流动性时 token1 一侧为 0
+        const sqrtPriceX96 = getSqrtRatioAtTick(tickLower)
+        await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 500,
+            tickLower,
+            tickUpper,
+            sqrtPriceX96
+        })
+        const position = await client.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 1,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('1000')
+        })
+        assert.equal(position.amountB, 0n)
+
+        const removed = position.liquidity / 2n
+        const decreased = await client.decreaseLiquidity({ positionId: position.positionId, liquidity: removed })
+        assert.deepEqual(
+            { amount0: decreased.amount0, amount1: decreased.amount1 },
+            getPositionAmounts(sqrtPriceX96, tickLower, tickUpper, removed)
+        )
+        assert.equal(decreased.amount1, 0n)
+        const info = await positionOf(fixture, position.positionId)
+        assert.deepEqual([info.tokensOwed0, info.tokensOwed1], [decreased.amount0, 0n])
+
+        // 有余额的一侧按 tokensOwed - 1 提取，为 0 的一侧不提取
+        const collected = await client.collect(position.positionId)
+        assert.deepEqual(
+            { amount0: collected.amount0, amount1: collected.amount1 },
+            { amount0: decreased.amount0 - 1n, amount1: 0n }
+        )
+        const after = await positionOf(fixture, position.positionId)
+        assert.deepEqual(
+            [after.liquidity, after.tokensOwed0, after.tokensOwed1],
+            [position.liquidity - removed, 0n, 0n]
+        )
+    })
+})
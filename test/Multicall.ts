@@ -0,0 +1,211 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type Address, type Hash, type PublicClient, getAddress, maxUint256, parseEther } from 'viem'
+
+import {
+    ETH,
+    SwapClient,
+    SwapErrors,
+    defaultSqrtPriceLimitX96,
+    encodeSqrtRatioX96,
+    getTickAtSqrtRatio,
+    positionManagerMulticall,
+    swapRouterMulticall
+} from '../sdk/index.js'
+import { rejection } from './helpers.js'
+
+describe('Multicall', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const gasCost = async (hash: Hash) => {
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        return receipt.gasUsed * receipt.effectiveGasPrice
+    }
+    const ethBalance = (address: Address) => publicClient.getBalance({ address })
+
+    // ETH / TTA 池子，1 ETH = 2000 TTA，LP 持有两个头寸，交易者的一笔兑换为头寸产生了手续费
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        const addresses = {
+            poolManager: PoolManager.address,
+            swapRouter: SwapRouter.address,
+            positionManager: PositionManager.address
+        }
+
+        const [lp, trader, other] = await hviem.getWalletClients()
+        for (const wallet of [lp, trader]) {
+            await TTA.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const lpClient = new SwapClient({ publicClient, walletClient: lp, addresses })
+        const traderClient = new SwapClient({ publicClient, walletClient: trader, addresses })
+        await lpClient.createPool({
+            tokenA: ETH,
+            tokenB: TTA.address,
+            fee: 3000,
+            tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(1000n, 1n)),
+            tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(4000n, 1n)),
+            sqrtPriceX96: encodeSqrtRatioX96(2000n, 1n)
+        })
+        for (const amount of [parseEther('10'), parseEther('20')]) {
+            await lpClient.addLiquidity({
+                tokenA: ETH,
+                tokenB: TTA.address,
+                index: 0,
+                amountADesired: amount,
+                amountBDesired: amount * 2000n
+            })
+        }
+        await traderClient.swapExactIn({ tokenIn: ETH, tokenOut: TTA.address, amountIn: parseEther('1') })
+
+        const [token0, token1] = BigInt(WETH9.address) < BigInt(TTA.address) ? [WETH9, TTA] : [TTA, WETH9]
+        return { TTA, WETH9, token0, token1, SwapRouter, PositionManager, lp, trader, other, lpClient, traderClient }
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>
+
+    const assertNoDust = async (fixture: Fixture) => {
+        for (const address of [fixture.SwapRouter.address, fixture.PositionManager.address]) {
+            assert.equal(await ethBalance(address), 0n)
+            assert.equal(await fixture.WETH9.read.balanceOf([address]), 0n)
+        }
+    }
+
+    it('burns and collects a position in one transaction', async () => {
+        const { token0, token1, PositionManager, lp, lpClient } = await networkHelpers.loadFixture(deployFixture)
+        const recipient = lp.account.address
+        const before = [await token0.read.balanceOf([recipient]), await token1.read.balanceOf([recipient])]
+
+        const builder = positionManagerMulticall().add('burn', [1n]).add('collect', [1n, recipient])
+        assert.equal(builder.length, 2)
+        const { hash, results } = await lpClient.multicall(builder)
+        const [[burned0, burned1], [collected0, collected1]] = results
+
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        assert.equal(receipt.to, PositionManager.address.toLowerCase())
+        assert.ok(burned0 > 0n && burned1 > 0n)
+        // 交易者支付的 ETH 手续费一并提取
+        assert.ok(collected0 + collected1 > burned0 + burned1)
+        assert.equal((await token0.read.balanceOf([recipient])) - before[0], collected0)
+        assert.equal((await token1.read.balanceOf([recipient])) - before[1], collected1)
+
+        const [, , , , , , liquidity, , , tokensOwed0, tokensOwed1] = await PositionManager.read.positions([1n])
+        assert.equal(liquidity, 0n)
+        assert.equal(tokensOwed0, 0n)
+        assert.equal(tokensOwed1, 0n)
+    })
+
+    it('closes several positions at once and unwraps ETH', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { TTA, WETH9, PositionManager, other, lpClient } = fixture
+        const recipient = other.account.address
+        const ethBefore = await ethBalance(recipient)
+
+        const { positions } = await lpClient.closePositions([1n, 2n], recipient, true)
+        assert.deepEqual(
+            positions.map((position) => position.positionId),
+            [1n, 2n]
+        )
+        const wethIs0 = BigInt(WETH9.address) < BigInt(TTA.address)
+        const total = (side: 'amount0' | 'amount1') =>
+            positions.reduce((sum, position) => sum + position.collected[side], 0n)
+        const [ethCollected, ttaCollected] = wethIs0
+            ? [total('amount0'), total('amount1')]
+            : [total('amount1'), total('amount0')]
+        assert.equal((await ethBalance(recipient)) - ethBefore, ethCollected)
+        assert.equal(await TTA.read.balanceOf([recipient]), ttaCollected)
+        // 第二个头寸的流动性是第一个的两倍
+        assert.ok(positions[1].burned.amount0 > positions[0].burned.amount0 * 2n - 10n)
+        for (const positionId of [1n, 2n]) {
+            const [, , , , , , liquidity] = await PositionManager.read.positions([positionId])
+            assert.equal(liquidity, 0n)
+        }
+        await assertNoDust(fixture)
+    })
+
+    it('shares the ETH sent with every payable call and refunds the rest once', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { TTA, WETH9, token0, token1, trader, traderClient } = fixture
+        const recipient = trader.account.address
+        const swapParams = (amountIn: bigint) => ({
+            tokenIn: WETH9.address,
+            tokenOut: TTA.address,
+            indexPath: [0],
+            recipient,
+            deadline: maxUint256,
+            amountIn,
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: defaultSqrtPriceLimitX96(BigInt(WETH9.address) < BigInt(TTA.address))
+        })
+        const ethBefore = await ethBalance(recipient)
+        const ttaBefore = await TTA.read.balanceOf([recipient])
+        // 前一个子调用结束时不应退款，否则第二笔兑换没有 ETH 可用
+        const swaps = swapRouterMulticall()
+            .add('exactInput', [swapParams(parseEther('1'))])
+            .add('exactInput', [swapParams(parseEther('2'))])
+        const swapped = await traderClient.multicall(swaps, parseEther('3.5'))
+        const [first, second] = swapped.results
+        assert.ok(first > second / 2n)
+        assert.equal((await TTA.read.balanceOf([recipient])) - ttaBefore, first + second)
+        const spent = ethBefore - (await ethBalance(recipient)) - (await gasCost(swapped.hash))
+        assert.equal(spent, parseEther('3'))
+        await assertNoDust(fixture)
+
+        // 同一笔交易中用 ETH 创建两个头寸
+        await traderClient.ensureAllowance(TTA.address, fixture.PositionManager.address, maxUint256)
+        const mintParams = (amountETH: bigint) => ({
+            token0: token0.address,
+            token1: token1.address,
+            index: 0,
+            amount0Desired: token0 === WETH9 ? amountETH : amountETH * 4000n,
+            amount1Desired: token1 === WETH9 ? amountETH : amountETH * 4000n,
+            recipient,
+            deadline: maxUint256
+        })
+        const mintBefore = await ethBalance(recipient)
+        const minted = await traderClient.multicall(
+            positionManagerMulticall()
+                .add('mint', [mintParams(parseEther('1'))])
+                .add('mint', [mintParams(parseEther('2'))]),
+            parseEther('10')
+        )
+        const [[firstId, , firstAmount0, firstAmount1], [secondId, , secondAmount0, secondAmount1]] = minted.results
+        assert.deepEqual([firstId, secondId], [3n, 4n])
+        const ethUsed = token0 === WETH9 ? firstAmount0 + secondAmount0 : firstAmount1 + secondAmount1
+        assert.equal(mintBefore - (await ethBalance(recipient)) - (await gasCost(minted.hash)), ethUsed)
+        assert.ok(ethUsed > parseEther('2.9') && ethUsed <= parseEther('3'))
+        await assertNoDust(fixture)
+    })
+
+    it('reverts the whole batch with the error of the failing call', async () => {
+        const { PositionManager, lp, trader, lpClient, traderClient } = await networkHelpers.loadFixture(deployFixture)
+        const liquidityOf = async (positionId: bigint) => (await PositionManager.read.positions([positionId]))[6]
+        const liquidity = await liquidityOf(1n)
+
+        const missing = await rejection(
+            lpClient.multicall(
+                positionManagerMulticall()
+                    .add('burn', [1n])
+                    .add('collect', [1n, lp.account.address])
+                    .add('burn', [9n])
+            )
+        )
+        assert.ok(missing instanceof SwapErrors.ERC721NonexistentToken)
+        assert.equal(missing.tokenId, 9n)
+        assert.equal(await liquidityOf(1n), liquidity)
+
+        // delegatecall 保留了原始调用者，头寸权限检查照常生效
+        const unauthorized = await rejection(traderClient.multicall(positionManagerMulticall().add('burn', [1n])))
+        assert.ok(unauthorized instanceof SwapErrors.NotAuthorized)
+        assert.equal(unauthorized.caller, getAddress(trader.account.address))
+
+        assert.throws(() => positionManagerMulticall().add('burn', [1n]).decode([]), /expected 1 results/)
+    })
+})
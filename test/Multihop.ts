@@ -0,0 +1,169 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+import { getAddress, size } from 'viem'
+
+import { SwapClient, decodePath, encodePath, pathHops } from '../sdk/index.js'
+
+describe('Multihop', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = await hviem.getPublicClient()
+
+    const deployFixture = async () => {
+        // 与 ignition/modules/TToken.ts 相同的三个代币
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+        const TTC = await hviem.deployContract('TToken', ['TToken C', 'TTC'])
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+
+        const [walletClient] = await hviem.getWalletClients()
+        const sender = walletClient.account.address
+        const initBalanceValue = 10n ** 12n * 10n ** 18n
+        for (const token of [TTA, TTB, TTC]) {
+            await token.write.mint([sender, initBalanceValue])
+        }
+
+        const client = new SwapClient({
+            publicClient,
+            walletClient,
+            addresses: {
+                poolManager: PoolManager.address,
+                swapRouter: SwapRouter.address,
+                positionManager: PositionManager.address
+            }
+        })
+
+        // A/B 与 B/C 两个池子，价格 1:1，区间 [1/100, 100] 对两种代币顺序都对称
+        const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 100))
+        const tickUpper = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(100, 1))
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(1, 1).toString())
+        for (const [tokenA, tokenB] of [
+            [TTA, TTB],
+            [TTB, TTC]
+        ]) {
+            await client.createPool({
+                tokenA: tokenA.address,
+                tokenB: tokenB.address,
+                fee: 3000,
+                tickLower,
+                tickUpper,
+                sqrtPriceX96
+            })
+            await client.addLiquidity({
+                tokenA: tokenA.address,
+                tokenB: tokenB.address,
+                index: 0,
+                amountADesired: 1000n * 10n ** 18n,
+                amountBDesired: 1000n * 10n ** 18n
+            })
+        }
+
+        const path = encodePath([TTA.address, TTB.address, TTC.address], [0, 0])
+        return { client, TTA, TTB, TTC, sender, SwapRouter, path }
+    }
+
+    describe('path', async () => {
+        it('encodes and decodes hops', async () => {
+            const { TTA, TTB, TTC, path } = await networkHelpers.loadFixture(deployFixture)
+            // 20 + (4 + 20) * 2 字节
+            assert.equal(path.length, 2 + 68 * 2)
+            assert.deepEqual(decodePath(path), {
+                tokens: [TTA.address, TTB.address, TTC.address].map((token) => getAddress(token)),
+                indexes: [0, 0]
+            })
+            assert.deepEqual(
+                pathHops(encodePath([TTA.address, TTB.address], [7])).map((hop) => hop.index),
+                [7]
+            )
+        })
+
+        it('rejects malformed paths', async () => {
+            const { TTA, TTB, SwapRouter, path } = await networkHelpers.loadFixture(deployFixture)
+            assert.throws(() => encodePath([TTA.address, TTB.address], [0, 1]), /Path: invalid path/)
+            assert.throws(() => decodePath(TTA.address), /Path: invalid path/)
+            await hviem.assertions.revertWithCustomErrorWithArgs(
+                SwapRouter.write.quoteExactInputMultihop([path.slice(0, -2) as `0x${string}`, 10n ** 18n]),
+                SwapRouter,
+                'InvalidPath',
+                [BigInt(size(path) - 1)]
+            )
+        })
+    })
+
+    describe('exactInput', async () => {
+        it('swaps A -> B -> C in one transaction', async () => {
+            const { client, TTA, TTB, TTC, sender, SwapRouter, path } = await networkHelpers.loadFixture(deployFixture)
+            const amountIn = 10n * 10n ** 18n
+
+            // 多跳报价等于逐跳报价的串联
+            const amountB = await client.quote({ tokenIn: TTA.address, tokenOut: TTB.address, amount: amountIn })
+            const amountC = await client.quote({ tokenIn: TTB.address, tokenOut: TTC.address, amount: amountB })
+            assert.equal(await client.quoteMultihop({ path, amount: amountIn }), amountC)
+
+            const balanceA = await TTA.read.balanceOf([sender])
+            const balanceC = await TTC.read.balanceOf([sender])
+            const { amountOut } = await client.swapExactInMultihop({ path, amountIn })
+            assert.equal(amountOut, amountC)
+            assert.equal(balanceA - (await TTA.read.balanceOf([sender])), amountIn)
+            assert.equal((await TTC.read.balanceOf([sender])) - balanceC, amountC)
+            // 中间代币不会滞留在路由中
+            assert.equal(await TTB.read.balanceOf([SwapRouter.address]), 0n)
+        })
+
+        it('checks a single output bound for the whole path', async () => {
+            const { client, SwapRouter, path } = await networkHelpers.loadFixture(deployFixture)
+            const amountIn = 10n * 10n ** 18n
+            const quoted = await client.quoteMultihop({ path, amount: amountIn })
+            await hviem.assertions.revertWithCustomErrorWithArgs(
+                client.swapExactInMultihop({ path, amountIn, amountOutMinimum: quoted + 1n }),
+                SwapRouter,
+                'InsufficientOutputAmount',
+                [quoted, quoted + 1n]
+            )
+        })
+
+        it('rejects an expired deadline', async () => {
+            const { client, SwapRouter, path } = await networkHelpers.loadFixture(deployFixture)
+            await hviem.assertions.revertWithCustomError(
+                client.swapExactInMultihop({ path, amountIn: 10n ** 18n, deadline: 1n }),
+                SwapRouter,
+                'TransactionTooOld'
+            )
+        })
+    })
+
+    describe('exactOutput', async () => {
+        it('receives an exact amount of C', async () => {
+            const { client, TTA, TTB, TTC, sender, SwapRouter, path } = await networkHelpers.loadFixture(deployFixture)
+            const amountOut = 10n * 10n ** 18n
+
+            const quoted = await client.quoteMultihop({ path, amount: amountOut, side: 'exactOut' })
+            const balanceA = await TTA.read.balanceOf([sender])
+            const balanceC = await TTC.read.balanceOf([sender])
+            const { amountIn } = await client.swapExactOutMultihop({ path, amountOut })
+            assert.equal(amountIn, quoted)
+            assert.equal(balanceA - (await TTA.read.balanceOf([sender])), quoted)
+            assert.equal((await TTC.read.balanceOf([sender])) - balanceC, amountOut)
+            assert.equal(await TTB.read.balanceOf([SwapRouter.address]), 0n)
+        })
+
+        it('checks a single input bound for the whole path', async () => {
+            const { client, SwapRouter, path } = await networkHelpers.loadFixture(deployFixture)
+            const amountOut = 10n * 10n ** 18n
+            const quoted = await client.quoteMultihop({ path, amount: amountOut, side: 'exactOut' })
+            await hviem.assertions.revertWithCustomErrorWithArgs(
+                client.swapExactOutMultihop({ path, amountOut, amountInMaximum: quoted - 1n }),
+                SwapRouter,
+                'SlippageExceeded',
+                [quoted, quoted - 1n]
+            )
+        })
+    })
+})
@@ -0,0 +1,297 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type Address, type Hash, type PublicClient, isAddress, maxUint256, parseEther } from 'viem'
+
+import { ETH, SwapClient, defaultSqrtPriceLimitX96, encodeSqrtRatioX96, getTickAtSqrtRatio } from '../sdk/index.js'
+import { type TaskContext, TokenResolver } from '../tasks/context.js'
+import { collectPosition } from '../tasks/liquidity.js'
+import { swapExactIn } from '../tasks/swap.js'
+
+describe('NativeETH', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const gasCost = async (hash: Hash) => {
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        return receipt.gasUsed * receipt.effectiveGasPrice
+    }
+    const ethBalance = (address: Address) => publicClient.getBalance({ address })
+
+    // ETH / TTA 池子，1 ETH = 2000 TTA，流动性全部以 ETH + TTA 注入
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        const addresses = {
+            poolManager: PoolManager.address,
+            swapRouter: SwapRouter.address,
+            positionManager: PositionManager.address
+        }
+
+        const [lp, trader, other] = await hviem.getWalletClients()
+        for (const wallet of [lp, trader]) {
+            await TTA.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const lpClient = new SwapClient({ publicClient, walletClient: lp, addresses })
+        const traderClient = new SwapClient({ publicClient, walletClient: trader, addresses })
+        await lpClient.createPool({
+            tokenA: ETH,
+            tokenB: TTA.address,
+            fee: 3000,
+            tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(1000n, 1n)),
+            tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(4000n, 1n)),
+            sqrtPriceX96: encodeSqrtRatioX96(2000n, 1n)
+        })
+        const position = await lpClient.addLiquidity({
+            tokenA: ETH,
+            tokenB: TTA.address,
+            index: 0,
+            amountADesired: parseEther('100'),
+            amountBDesired: parseEther('100000')
+        })
+        return { TTA, WETH9, SwapRouter, PositionManager, lp, trader, other, lpClient, traderClient, position }
+    }
+
+    // 路由与头寸管理合约在每笔交易后都不应滞留 ETH 或 WETH
+    const assertNoDust = async (fixture: Awaited<ReturnType<typeof deployFixture>>) => {
+        for (const address of [fixture.SwapRouter.address, fixture.PositionManager.address]) {
+            assert.equal(await ethBalance(address), 0n)
+            assert.equal(await fixture.WETH9.read.balanceOf([address]), 0n)
+        }
+    }
+
+    it('reads WETH9 from the router and resolves the ETH sentinel', async () => {
+        const { TTA, WETH9, lpClient } = await networkHelpers.loadFixture(deployFixture)
+        // 哨兵是带校验和的合法地址，可以通过 isAddress / getAddress 校验
+        assert.ok(isAddress(ETH))
+        assert.equal((await lpClient.weth()).toLowerCase(), WETH9.address.toLowerCase())
+        assert.equal((await lpClient.resolveToken(ETH)).toLowerCase(), WETH9.address.toLowerCase())
+        assert.equal(await lpClient.resolveToken(TTA.address), TTA.address)
+        const [pool] = await lpClient.getPairPools(ETH, TTA.address)
+        assert.deepEqual(await lpClient.getPairPools(WETH9.address, TTA.address), [pool])
+        assert.ok(pool.liquidity > 0n)
+    })
+
+    it('mints with ETH and refunds the unused part', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { TTA, WETH9, PositionManager, lp, position } = fixture
+        // 价格 2000 时 TTA 一侧先用尽，ETH 只投入了一部分
+        assert.ok(position.amountA < parseEther('100'))
+        assert.ok(position.amountB > parseEther('99999'))
+        await assertNoDust(fixture)
+
+        const [token0, token1] = BigInt(WETH9.address) < BigInt(TTA.address) ? [WETH9, TTA] : [TTA, WETH9]
+        await TTA.write.approve([PositionManager.address, maxUint256])
+        const before = await ethBalance(lp.account.address)
+        const sent = parseEther('5')
+        const hash = await PositionManager.write.mint(
+            [
+                {
+                    token0: token0.address,
+                    token1: token1.address,
+                    index: 0,
+                    amount0Desired: token0 === WETH9 ? sent : parseEther('2000'),
+                    amount1Desired: token1 === WETH9 ? sent : parseEther('2000'),
+                    recipient: lp.account.address,
+                    deadline: maxUint256
+                }
+            ],
+            { value: sent }
+        )
+        const [, , , , , , liquidity] = await PositionManager.read.positions([2n])
+        assert.ok(liquidity > 0n)
+        const spent = before - (await ethBalance(lp.account.address)) - (await gasCost(hash))
+        // 2000 TTA 约对应 1 ETH，其余 ETH 被退还
+        assert.ok(spent > parseEther('0.99') && spent < parseEther('1.01'))
+        await assertNoDust(fixture)
+    })
+
+    it('swaps exact ETH input and refunds unused ETH on exact output', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { TTA, trader, traderClient } = fixture
+        const owner = trader.account.address
+
+        let before = await ethBalance(owner)
+        const tokens = await TTA.read.balanceOf([owner])
+        const exactIn = await traderClient.swapExactIn({
+            tokenIn: ETH,
+            tokenOut: TTA.address,
+            amountIn: parseEther('1')
+        })
+        assert.equal(before - (await ethBalance(owner)) - (await gasCost(exactIn.hash)), parseEther('1'))
+        assert.equal(await TTA.read.balanceOf([owner]), tokens + exactIn.amountOut)
+
+        before = await ethBalance(owner)
+        const amountOut = parseEther('1000')
+        const quoted = await traderClient.quote({
+            tokenIn: ETH,
+            tokenOut: TTA.address,
+            amount: amountOut,
+            side: 'exactOut'
+        })
+        const exactOut = await traderClient.swapExactOut({
+            tokenIn: ETH,
+            tokenOut: TTA.address,
+            amountOut,
+            amountInMaximum: quoted * 2n
+        })
+        assert.equal(exactOut.amountIn, quoted)
+        // 只扣除实际输入，多发送的 ETH 在同一交易中退还
+        assert.equal(before - (await ethBalance(owner)) - (await gasCost(exactOut.hash)), quoted)
+        await assertNoDust(fixture)
+    })
+
+    it('unwraps WETH outputs to ETH on request', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { TTA, WETH9, SwapRouter, trader, other, traderClient } = fixture
+        const recipient = other.account.address
+
+        let before = await ethBalance(recipient)
+        const exactIn = await traderClient.swapExactIn({
+            tokenIn: TTA.address,
+            tokenOut: ETH,
+            amountIn: parseEther('2000'),
+            recipient
+        })
+        assert.ok(exactIn.amountOut > parseEther('0.9'))
+        assert.equal(await ethBalance(recipient), before + exactIn.amountOut)
+        assert.equal(await WETH9.read.balanceOf([recipient]), 0n)
+
+        before = await ethBalance(recipient)
+        const amountOut = parseEther('0.5')
+        const exactOut = await traderClient.swapExactOut({ tokenIn: TTA.address, tokenOut: ETH, amountOut, recipient })
+        assert.ok(exactOut.amountIn > parseEther('900'))
+        assert.equal(await ethBalance(recipient), before + amountOut)
+        await assertNoDust(fixture)
+
+        // 不带 ToETH 的入口仍然输出 WETH
+        await TTA.write.approve([SwapRouter.address, maxUint256], { account: trader.account })
+        const params = {
+            tokenIn: TTA.address,
+            tokenOut: WETH9.address,
+            indexPath: [0],
+            recipient,
+            deadline: maxUint256,
+            amountIn: parseEther('100'),
+            amountOutMinimum: 0n,
+            sqrtPriceLimitX96: defaultSqrtPriceLimitX96(BigInt(TTA.address) < BigInt(WETH9.address))
+        }
+        await SwapRouter.write.exactInput([params], { account: trader.account })
+        assert.ok((await WETH9.read.balanceOf([recipient])) > 0n)
+    })
+
+    it('quotes and unwraps only the swap itself when the router holds stray ETH or WETH', async () => {
+        const { TTA, WETH9, SwapRouter, other, lpClient, traderClient } =
+            await networkHelpers.loadFixture(deployFixture)
+        // 路由不应持有资产，但可能被强制转入 ETH 或被误转入 WETH
+        await networkHelpers.setBalance(SwapRouter.address, parseEther('1'))
+        await WETH9.write.deposit({ value: parseEther('2') })
+        await WETH9.write.transfer([SwapRouter.address, parseEther('2')])
+
+        const amountOut = parseEther('0.5')
+        const pair = { tokenIn: TTA.address, tokenOut: ETH }
+        const quotedIn = await lpClient.quote({ ...pair, amount: amountOut, side: 'exactOut' })
+        const quotedOut = await lpClient.quote({ tokenIn: ETH, tokenOut: TTA.address, amount: amountOut })
+        assert.ok(quotedIn > parseEther('900') && quotedOut > parseEther('900'))
+
+        const recipient = other.account.address
+        const before = await ethBalance(recipient)
+        const exactOut = await traderClient.swapExactOut({ ...pair, amountOut, recipient })
+        assert.equal(exactOut.amountIn, quotedIn)
+        assert.equal(await ethBalance(recipient), before + amountOut)
+        assert.equal(await WETH9.read.balanceOf([SwapRouter.address]), parseEther('2'))
+    })
+
+    it('collects the WETH side of a position as ETH', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { TTA, WETH9, lp, other, lpClient, traderClient, position } = fixture
+        await traderClient.swapExactIn({ tokenIn: ETH, tokenOut: TTA.address, amountIn: parseEther('1') })
+        await lpClient.removeLiquidity(position.positionId)
+
+        const recipient = other.account.address
+        const [ethBefore, ttaBefore] = [await ethBalance(recipient), await TTA.read.balanceOf([recipient])]
+        const collected = await lpClient.collect(position.positionId, recipient, true)
+        const [ethAmount, ttaAmount] =
+            BigInt(WETH9.address) < BigInt(TTA.address)
+                ? [collected.amount0, collected.amount1]
+                : [collected.amount1, collected.amount0]
+        // 本金与 1 ETH 交易产生的手续费
+        assert.ok(ethAmount > position.amountA)
+        assert.equal(await ethBalance(recipient), ethBefore + ethAmount)
+        assert.equal(await TTA.read.balanceOf([recipient]), ttaBefore + ttaAmount)
+        assert.equal(await WETH9.read.balanceOf([recipient]), 0n)
+        assert.equal(await WETH9.read.balanceOf([lp.account.address]), 0n)
+        await assertNoDust(fixture)
+    })
+
+    it('rejects direct ETH transfers and non-WETH outputs', async () => {
+        const { TTA, WETH9, SwapRouter, PositionManager, trader } = await networkHelpers.loadFixture(deployFixture)
+        // 两个合约的 NotWETH9 签名一致，用 SwapRouter 的 ABI 解码
+        for (const to of [SwapRouter.address, PositionManager.address]) {
+            await hviem.assertions.revertWithCustomErrorWithArgs(
+                trader.sendTransaction({ to, value: parseEther('1') }),
+                SwapRouter,
+                'NotWETH9',
+                [trader.account.address]
+            )
+        }
+        await hviem.assertions.revertWithCustomErrorWithArgs(
+            SwapRouter.write.exactInputToETH(
+                [
+                    {
+                        tokenIn: WETH9.address,
+                        tokenOut: TTA.address,
+                        indexPath: [0],
+                        recipient: trader.account.address,
+                        deadline: maxUint256,
+                        amountIn: parseEther('1'),
+                        amountOutMinimum: 0n,
+                        sqrtPriceLimitX96: defaultSqrtPriceLimitX96(BigInt(WETH9.address) < BigInt(TTA.address))
+                    }
+                ],
+                { account: trader.account, value: parseEther('1') }
+            ),
+            SwapRouter,
+            'TokenOutNotWETH9',
+            [TTA.address]
+        )
+    })
+
+    it('accepts ETH as a token symbol in tasks', async () => {
+        const { TTA, lp, lpClient, position } = await networkHelpers.loadFixture(deployFixture)
+        const ctx: TaskContext = {
+            client: lpClient,
+            publicClient,
+            tokens: new TokenResolver(publicClient, lpClient, [TTA.address])
+        }
+        assert.deepEqual(await ctx.tokens.resolve('eth'), { address: ETH, symbol: 'ETH', decimals: 18 })
+
+        const before = await ethBalance(lp.account.address)
+        const swapped = await swapExactIn(ctx, {
+            tokenIn: 'ETH',
+            tokenOut: 'TTA',
+            amount: '0.5',
+            slippage: '1',
+            indexPath: '',
+            recipient: ''
+        })
+        assert.equal(swapped.tokenIn, 'ETH')
+        assert.equal(swapped.amountIn, '0.5')
+        const spent = before - (await ethBalance(lp.account.address)) - (await gasCost(swapped.hash))
+        assert.equal(spent, parseEther('0.5'))
+
+        await lpClient.removeLiquidity(position.positionId)
+        const collected = await collectPosition(ctx, {
+            positionId: position.positionId,
+            recipient: '',
+            unwrapEth: true
+        })
+        assert.ok(Number(collected.ETH) > 0)
+        assert.ok(Number(collected.TTA) > 0)
+    })
+})
@@ -0,0 +1,221 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type PublicClient, maxUint256, parseEther, parseEventLogs } from 'viem'
+
+import {
+    SwapErrors,
+    encodeSqrtRatioX96,
+    getArithmeticMeanTick,
+    getQuoteAtTick,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    getTwap,
+    getTwaps,
+    observe,
+    poolAbi
+} from '../sdk/index.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('Oracle', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+    const { time } = networkHelpers
+
+    // 价格为 2 的 TTA / TTB 池子，区间 [1/2, 8]
+    const deployFixture = async () => {
+        const { token0, token1, SwapRouter, connect } = await deployExchange(hviem, publicClient)
+
+        const [lp, trader] = await hviem.getWalletClients()
+        for (const wallet of [lp, trader]) {
+            await token0.write.mint([wallet.account.address, parseEther('1000000')])
+            await token1.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const lpClient = connect(lp)
+        const traderClient = connect(trader)
+        const { pool } = await lpClient.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(1n, 2n)),
+            tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(8n, 1n)),
+            sqrtPriceX96: encodeSqrtRatioX96(2n, 1n)
+        })
+        await lpClient.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('2000')
+        })
+        // 提前授权，使每笔兑换都只发送一笔交易，落在预设时间戳的区块中
+        for (const token of [token0, token1]) {
+            await traderClient.ensureAllowance(token.address, SwapRouter.address, maxUint256)
+        }
+        const Pool = await hviem.getContractAt('Pool', pool)
+        const [initializedAt] = await Pool.read.observations([0n])
+        return { token0, token1, Pool, lpClient, traderClient, initializedAt }
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>
+
+    const now = async () => Number((await publicClient.getBlock()).timestamp)
+
+    // 在指定时间戳的区块中成交一笔，返回成交后的 tick；出块时间可能晚于默认 deadline，按出块时间设置
+    const swapAt = async (fixture: Fixture, timestamp: number, zeroForOne: boolean, amountIn: bigint) => {
+        const [tokenIn, tokenOut] = zeroForOne ? [fixture.token0, fixture.token1] : [fixture.token1, fixture.token0]
+        await time.setNextBlockTimestamp(timestamp)
+        await fixture.traderClient.swapExactIn({
+            tokenIn: tokenIn.address,
+            tokenOut: tokenOut.address,
+            amountIn,
+            deadline: BigInt(timestamp) + 60n
+        })
+        return fixture.Pool.read.tick()
+    }
+
+    // 按分段常数的 tick 计算某一时刻的累计值，segments 按时间升序，第一段从池子初始化开始
+    const cumulativeAt = (segments: { from: number; tick: number }[], timestamp: number) =>
+        segments.reduce((total, { from, tick }, i) => {
+            const to = Math.min(timestamp, segments[i + 1]?.from ?? timestamp)
+            return to > from ? total + BigInt(tick) * BigInt(to - from) : total
+        }, 0n)
+
+    it('accumulates the current tick over time', async () => {
+        const { Pool, initializedAt } = await networkHelpers.loadFixture(deployFixture)
+        assert.equal(await Pool.read.observationCardinality(), 1)
+        assert.equal(await Pool.read.observationCardinalityNext(), 1)
+        const [, tickCumulative, initialized] = await Pool.read.observations([0n])
+        assert.equal(tickCumulative, 0n)
+        assert.ok(initialized)
+
+        const tick = await Pool.read.tick()
+        assert.equal(tick, getTickAtSqrtRatio(encodeSqrtRatioX96(2n, 1n)))
+        await time.increase(100)
+        const elapsed = (await now()) - initializedAt
+        // 没有新观测时，从最新一条观测按当前 tick 推算
+        assert.deepEqual(await observe(publicClient, Pool.address, [0, 40, elapsed]), [
+            BigInt(tick * elapsed),
+            BigInt(tick * (elapsed - 40)),
+            0n
+        ])
+        const twap = await getTwap(publicClient, Pool.address, { secondsAgo: 60, secondsAgoEnd: 10 })
+        assert.equal(twap.arithmeticMeanTick, tick)
+        assert.equal(twap.sqrtPriceX96, getSqrtRatioAtTick(tick))
+
+        const tooOld = await rejection(observe(publicClient, Pool.address, [elapsed + 1]))
+        assert.ok(tooOld instanceof SwapErrors.ObservationTooOld)
+        assert.deepEqual(tooOld.args, { target: initializedAt - 1, oldest: initializedAt })
+        await assert.rejects(getTwap(publicClient, Pool.address, { secondsAgo: 5, secondsAgoEnd: 5 }), /start before/)
+    })
+
+    it('averages the tick across swaps over arbitrary windows', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, lpClient, traderClient, initializedAt } = fixture
+        const hash = await lpClient.increaseObservationCardinality(Pool.address, 10)
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        const [event] = parseEventLogs({
+            abi: poolAbi,
+            logs: receipt.logs,
+            eventName: 'IncreaseObservationCardinalityNext'
+        })
+        assert.deepEqual(event.args, { observationCardinalityNextOld: 1, observationCardinalityNextNew: 10 })
+        // 缓冲区在下一次写入时才扩展
+        assert.equal(await Pool.read.observationCardinality(), 1)
+
+        const start = await now()
+        const segments = [{ from: initializedAt, tick: await Pool.read.tick() }]
+        segments.push({ from: start + 100, tick: await swapAt(fixture, start + 100, true, parseEther('150')) })
+        segments.push({ from: start + 400, tick: await swapAt(fixture, start + 400, false, parseEther('600')) })
+        await time.increaseTo(start + 1000)
+        assert.ok(segments[1].tick < segments[0].tick && segments[2].tick > segments[0].tick)
+        assert.equal(await Pool.read.observationCardinality(), 10)
+        assert.equal(await Pool.read.observationIndex(), 2)
+
+        // 起点落在两条观测之间的区间需要插值，终点也可以在过去
+        const windows = [
+            { secondsAgo: 900 },
+            { secondsAgo: 950, secondsAgoEnd: 650 },
+            { secondsAgo: 700, secondsAgoEnd: 300 },
+            { secondsAgo: 1000 - (start - initializedAt) }
+        ]
+        const twaps = await getTwaps(publicClient, Pool.address, windows)
+        const end = start + 1000
+        for (const [i, { secondsAgo, secondsAgoEnd = 0 }] of windows.entries()) {
+            const tickCumulativeStart = cumulativeAt(segments, end - secondsAgo)
+            const tickCumulativeEnd = cumulativeAt(segments, end - secondsAgoEnd)
+            assert.equal(twaps[i].tickCumulativeStart, tickCumulativeStart)
+            assert.equal(twaps[i].tickCumulativeEnd, tickCumulativeEnd)
+            const meanTick = Math.floor(Number(tickCumulativeEnd - tickCumulativeStart) / (secondsAgo - secondsAgoEnd))
+            assert.equal(twaps[i].arithmeticMeanTick, meanTick)
+        }
+        assert.deepEqual(await traderClient.getTwap(Pool.address, 950, 650), twaps[1])
+        // 300 秒 tick1 与 600 秒 tick2 的加权平均
+        assert.equal(twaps[0].arithmeticMeanTick, Math.floor((segments[1].tick * 300 + segments[2].tick * 600) / 900))
+    })
+
+    it('resists a price manipulation inside a single block', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, lpClient } = fixture
+        await lpClient.increaseObservationCardinality(Pool.address, 2)
+        const tickBefore = await Pool.read.tick()
+        const start = await now()
+
+        // 30 分钟后一笔大额兑换把价格压到原来的一半以下
+        const tickManipulated = await swapAt(fixture, start + 1800, true, parseEther('900'))
+        assert.ok(tickBefore - tickManipulated > 7000)
+        await time.increase(1)
+        const twap = await getTwap(publicClient, Pool.address, { secondsAgo: 1800 })
+        // 被操纵的价格只在最后 1 秒生效
+        assert.equal(
+            twap.arithmeticMeanTick,
+            getArithmeticMeanTick(0n, BigInt(tickBefore * 1799 + tickManipulated), 1800)
+        )
+        assert.ok(tickBefore - twap.arithmeticMeanTick <= Math.ceil((tickBefore - tickManipulated) / 1800))
+
+        // 按 TWAP 报价的 1 个 token0 仍约为 2 个 token1，现货价格已不足一半
+        const twapQuote = getQuoteAtTick(twap.arithmeticMeanTick, parseEther('1'), true)
+        const spotQuote = getQuoteAtTick(tickManipulated, parseEther('1'), true)
+        assert.ok(twapQuote > parseEther('1.98') && twapQuote <= parseEther('2'))
+        assert.ok(spotQuote < parseEther('1'))
+    })
+
+    it('keeps a rolling window of observations in the ring buffer', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, lpClient } = fixture
+        const start = await now()
+
+        // 默认只保留一条观测，成交后更早的历史被覆盖
+        await swapAt(fixture, start + 10, true, parseEther('10'))
+        await time.increase(5)
+        const overwritten = await rejection(observe(publicClient, Pool.address, [6]))
+        assert.ok(overwritten instanceof SwapErrors.ObservationTooOld)
+        assert.equal(overwritten.oldest, start + 10)
+
+        // 不大于当前目标长度时不做修改
+        await lpClient.increaseObservationCardinality(Pool.address, 3)
+        await lpClient.increaseObservationCardinality(Pool.address, 2)
+        assert.equal(await Pool.read.observationCardinalityNext(), 3)
+
+        const swapTimes = [start + 100, start + 200, start + 300, start + 400]
+        for (const [i, timestamp] of swapTimes.entries()) {
+            await swapAt(fixture, timestamp, i % 2 === 1, parseEther('10'))
+        }
+        // 写入顺序为索引 1、2、0、1，最旧的观测在索引 2
+        assert.equal(await Pool.read.observationIndex(), 1)
+        const observed = await Promise.all([0n, 1n, 2n].map((index) => Pool.read.observations([index])))
+        assert.deepEqual(
+            observed.map(([blockTimestamp]) => blockTimestamp),
+            [swapTimes[2], swapTimes[3], swapTimes[1]]
+        )
+        assert.ok(observed.every(([, , initialized]) => initialized))
+
+        await time.increaseTo(start + 500)
+        await observe(publicClient, Pool.address, [300])
+        const tooOld = await rejection(observe(publicClient, Pool.address, [301]))
+        assert.ok(tooOld instanceof SwapErrors.ObservationTooOld)
+        assert.deepEqual(tooOld.args, { target: start + 199, oldest: swapTimes[1] })
+    })
+})
@@ -0,0 +1,228 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type Address, type PublicClient, encodeFunctionData, getAddress, maxUint256, parseEther } from 'viem'
+
+import {
+    SwapClient,
+    SwapErrors,
+    collectAll,
+    decodeRevert,
+    encodeSqrtRatioX96,
+    iteratePools,
+    paginate,
+    poolManagerAbi
+} from '../sdk/index.js'
+
+describe('Pagination', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const POOLS_PER_PAIR = 40
+    const POSITIONS_PER_OWNER = 50
+
+    const deployFixture = async () => {
+        const tokens = []
+        for (const symbol of ['A', 'B', 'C']) {
+            tokens.push(await hviem.deployContract('TToken', [`TToken ${symbol}`, `TT${symbol}`]))
+        }
+        const [token0, token1, token2] = tokens.sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1))
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        const addresses = {
+            poolManager: PoolManager.address,
+            swapRouter: SwapRouter.address,
+            positionManager: PositionManager.address
+        }
+        const wallets = await hviem.getWalletClients()
+        const owners = wallets.slice(0, 3)
+        for (const wallet of owners) {
+            for (const token of [token0, token1, token2]) {
+                await token.write.mint([wallet.account.address, parseEther('1000000')])
+                await token.write.approve([PositionManager.address, maxUint256], { account: wallet.account })
+            }
+        }
+        const client = new SwapClient({ publicClient, walletClient: owners[0], addresses })
+        return { token0, token1, token2, PoolManager, PositionManager, client, owners }
+    }
+
+    // 三个代币对交替建池，使创建顺序与 getAllPools 按代币对分组的顺序不同
+    const poolsFixture = async () => {
+        const fixture = await deployFixture()
+        const { token0, token1, token2, PoolManager } = fixture
+        const pairs = [
+            [token0.address, token1.address],
+            [token0.address, token2.address],
+            [token1.address, token2.address]
+        ] as const
+        for (let i = 0; i < POOLS_PER_PAIR; i++) {
+            for (const [tokenA, tokenB] of pairs) {
+                await PoolManager.write.createPoolIfNecessary([
+                    {
+                        token0: tokenA,
+                        token1: tokenB,
+                        fee: 3000,
+                        tickLower: -6932 - i,
+                        tickUpper: 6932 + i,
+                        sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+                    }
+                ])
+            }
+        }
+        return fixture
+    }
+
+    // 三个账户交替在同一个池子中铸造头寸
+    const positionsFixture = async () => {
+        const fixture = await deployFixture()
+        const { token0, token1, PoolManager, PositionManager, owners } = fixture
+        await PoolManager.write.createPoolIfNecessary([
+            {
+                token0: token0.address,
+                token1: token1.address,
+                fee: 3000,
+                tickLower: -6932,
+                tickUpper: 6932,
+                sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+            }
+        ])
+        for (let i = 0; i < POSITIONS_PER_OWNER; i++) {
+            for (const wallet of owners) {
+                const params = {
+                    token0: token0.address,
+                    token1: token1.address,
+                    index: 0,
+                    amount0Desired: parseEther('1'),
+                    amount1Desired: parseEther('1'),
+                    recipient: wallet.account.address,
+                    deadline: maxUint256
+                }
+                await PositionManager.write.mint([params], { account: wallet.account })
+            }
+        }
+        return fixture
+    }
+
+    const ownedIds = (positions: { id: bigint }[]) => positions.map(({ id }) => id).sort((a, b) => (a < b ? -1 : 1))
+
+    it('pages through pools in creation order', async () => {
+        const { PoolManager, client } = await networkHelpers.loadFixture(poolsFixture)
+        const total = 3 * POOLS_PER_PAIR
+        assert.equal(await PoolManager.read.allPoolsLength(), BigInt(total))
+
+        const paged = await collectAll(client.iteratePools({ pageSize: 7 }))
+        assert.equal(paged.length, total)
+        for (const [i, pool] of paged.entries()) {
+            assert.deepEqual(await PoolManager.read.allPools([BigInt(i)]), [pool.pool, pool.index])
+            assert.equal(pool.pool, await PoolManager.read.getPool([pool.token0, pool.token1, pool.index]))
+        }
+        // 与 getAllPools 包含相同的池子，只是顺序不同
+        const all = (await PoolManager.read.getAllPools()).map((pool) => ({ ...pool }))
+        const byAddress = (a: { pool: Address }, b: { pool: Address }) => (BigInt(a.pool) < BigInt(b.pool) ? -1 : 1)
+        assert.deepEqual([...paged].sort(byAddress), [...all].sort(byAddress))
+        assert.notDeepEqual(paged, all)
+        assert.deepEqual(await client.getPools(), paged)
+
+        // 读取到末尾时返回不足一页或空数组，limit 可以超过剩余数量
+        assert.equal((await PoolManager.read.getPools([BigInt(total - 2), 10n])).length, 2)
+        assert.deepEqual(await PoolManager.read.getPools([BigInt(total), 10n]), [])
+        assert.equal((await PoolManager.read.getPools([0n, maxUint256])).length, total)
+        const tail = await collectAll(iteratePools(publicClient, PoolManager.address, { offset: total - 5 }))
+        assert.deepEqual(tail, paged.slice(-5))
+    })
+
+    it('keeps the cost of a page independent of the number of pools', async () => {
+        const { PoolManager } = await networkHelpers.loadFixture(poolsFixture)
+        const gasOf = (data: `0x${string}`) => publicClient.estimateGas({ to: PoolManager.address, data })
+        const page = (offset: bigint) =>
+            gasOf(encodeFunctionData({ abi: poolManagerAbi, functionName: 'getPools', args: [offset, 10n] }))
+        const first = await page(0n)
+        const last = await page(BigInt(3 * POOLS_PER_PAIR - 10))
+        assert.ok(last < (first * 11n) / 10n && first < (last * 11n) / 10n)
+        // 一次读完全部池子的开销随池子数量线性增长
+        const all = await gasOf(encodeFunctionData({ abi: poolManagerAbi, functionName: 'getAllPools' }))
+        assert.ok(all > 10n * first)
+    })
+
+    it('enumerates positions per owner through transfers and burns', async () => {
+        const fixture = await networkHelpers.loadFixture(positionsFixture)
+        const { PositionManager, client, owners } = fixture
+        const [alice, bob, carol] = owners.map((wallet) => getAddress(wallet.account.address))
+        const total = 3 * POSITIONS_PER_OWNER
+        assert.equal(await PositionManager.read.positionCount(), BigInt(total))
+        assert.equal(await PositionManager.read.totalSupply(), BigInt(total))
+
+        // alice 把前 10 个头寸转给 bob，再关闭之后的 5 个头寸
+        const aliceIds = ownedIds(await client.listPositions(alice))
+        assert.equal(aliceIds.length, POSITIONS_PER_OWNER)
+        for (const id of aliceIds.slice(0, 10)) {
+            await PositionManager.write.transferFrom([alice, bob, id])
+        }
+        for (const id of aliceIds.slice(10, 15)) {
+            await client.removeLiquidity(id)
+            await client.collect(id)
+        }
+
+        const positions = await client.listPositions(undefined, 16)
+        assert.equal(positions.length, total)
+        assert.deepEqual(
+            positions.map(({ id }) => id),
+            Array.from({ length: total }, (_, i) => BigInt(i + 1))
+        )
+        assert.deepEqual(positions, (await PositionManager.read.getAllPositions()).map((item) => ({ ...item })))
+        assert.equal(await PositionManager.read.totalSupply(), BigInt(total - 5))
+
+        const expected = {
+            [alice]: aliceIds.slice(15),
+            [bob]: [...aliceIds.slice(0, 10), ...ownedIds(positions.filter((item) => item.id % 3n === 2n))].sort(
+                (a, b) => (a < b ? -1 : 1)
+            ),
+            [carol]: ownedIds(positions.filter((item) => item.id % 3n === 0n))
+        }
+        for (const [owner, ids] of Object.entries(expected)) {
+            const owned = await collectAll(client.iteratePositions({ owner: owner as Address, pageSize: 9 }))
+            assert.deepEqual(ownedIds(owned), ids)
+            // 转移后 PositionInfo.owner 与 NFT 的持有人保持一致
+            assert.ok(owned.every((position) => position.owner === owner))
+            assert.equal(await PositionManager.read.balanceOf([owner as Address]), BigInt(ids.length))
+        }
+        // 已销毁的头寸仍保留最后的持有人，但不再属于任何人的枚举结果
+        assert.equal(positions[Number(aliceIds[10]) - 1].owner, alice)
+
+        const count = BigInt(expected[bob].length)
+        assert.deepEqual(await PositionManager.read.getPositionsByOwner([bob, count, 10n]), [])
+        const outOfBounds = await PositionManager.read.tokenOfOwnerByIndex([bob, count]).then(
+            () => assert.fail('expected a revert'),
+            (error) => decodeRevert(error)
+        )
+        assert.ok(outOfBounds instanceof SwapErrors.ERC721OutOfBoundsIndex)
+        assert.deepEqual(outOfBounds.args, { owner: bob, index: count })
+    })
+
+    it('stops after the first short page', async () => {
+        const calls: [bigint, bigint][] = []
+        const source = Array.from({ length: 10 }, (_, i) => i)
+        const fetchPage = async (offset: bigint, limit: bigint) => {
+            calls.push([offset, limit])
+            return source.slice(Number(offset), Number(offset + limit))
+        }
+        assert.deepEqual(await collectAll(paginate(fetchPage, { pageSize: 4 })), source)
+        assert.deepEqual(calls, [
+            [0n, 4n],
+            [4n, 4n],
+            [8n, 4n]
+        ])
+        // 总数恰好是页大小的整数倍时需要多读一个空页才能确认结束
+        calls.length = 0
+        assert.deepEqual(await collectAll(paginate(fetchPage, { pageSize: 5, offset: 5 })), source.slice(5))
+        assert.deepEqual(calls, [
+            [5n, 5n],
+            [10n, 5n]
+        ])
+        await assert.rejects(collectAll(paginate(fetchPage, { pageSize: 0 })), /positive integer/)
+    })
+})
@@ -0,0 +1,227 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+import { type PublicClient, getAddress, maxUint256, parseEther, verifyTypedData } from 'viem'
+
+import { EMPTY_PERMIT, SwapClient, buildPermitTypedData, defaultSqrtPriceLimitX96, signPermit } from '../sdk/index.js'
+
+describe('Permit', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TTokenPermit', ['Permit Token A', 'PTA'])
+        const TTB = await hviem.deployContract('TTokenPermit', ['Permit Token B', 'PTB'])
+        const [token0, token1] = TTA.address < TTB.address ? [TTA, TTB] : [TTB, TTA]
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        const addresses = {
+            poolManager: PoolManager.address,
+            swapRouter: SwapRouter.address,
+            positionManager: PositionManager.address
+        }
+
+        const [lp, trader, other] = await hviem.getWalletClients()
+        for (const wallet of [lp, trader, other]) {
+            await token0.write.mint([wallet.account.address, 10n ** 24n])
+            await token1.write.mint([wallet.account.address, 10n ** 24n])
+        }
+        const lpClient = new SwapClient({ publicClient, walletClient: lp, addresses })
+        const traderClient = new SwapClient({ publicClient, walletClient: trader, addresses })
+        await lpClient.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(16, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(4, 1).toString())
+        })
+        // 初始流动性也通过 permit 注入，全程没有 approve 交易
+        await lpClient.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('4000'),
+            permit: true
+        })
+        return { token0, token1, SwapRouter, PositionManager, lp, trader, other, lpClient, traderClient }
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>
+
+    const swapParams = (fixture: Fixture, amountIn: bigint, deadline = maxUint256) => ({
+        tokenIn: fixture.token0.address,
+        tokenOut: fixture.token1.address,
+        indexPath: [0],
+        recipient: fixture.trader.account.address,
+        deadline,
+        amountIn,
+        amountOutMinimum: 0n,
+        sqrtPriceLimitX96: defaultSqrtPriceLimitX96(true)
+    })
+
+    it('signs typed data that recovers to the owner', async () => {
+        const { token0, SwapRouter, trader } = await networkHelpers.loadFixture(deployFixture)
+        const request = { token: token0.address, spender: SwapRouter.address, value: 1n, deadline: 100n }
+        const typedData = await buildPermitTypedData(publicClient, trader.account.address, request)
+        assert.deepEqual(typedData.domain, {
+            name: await token0.read.name(),
+            version: '1',
+            chainId: await publicClient.getChainId(),
+            verifyingContract: getAddress(token0.address)
+        })
+        assert.equal(typedData.message.nonce, 0n)
+
+        const permit = await signPermit(publicClient, trader, request)
+        assert.ok(permit.v === 27 || permit.v === 28)
+        const signature = await trader.signTypedData({ account: trader.account, ...typedData })
+        assert.ok(await verifyTypedData({ address: trader.account.address, signature, ...typedData }))
+    })
+
+    it('swaps and mints without a prior approve', async () => {
+        const { token0, token1, SwapRouter, lp, trader, lpClient, traderClient } =
+            await networkHelpers.loadFixture(deployFixture)
+        const owner = trader.account.address
+        assert.equal(await token0.read.nonces([lp.account.address]), 1n)
+
+        const balance0 = await token0.read.balanceOf([owner])
+        const { amountOut } = await traderClient.swapExactIn({
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            amountIn: parseEther('10'),
+            permit: true
+        })
+        assert.ok(amountOut > 0n)
+        assert.equal(await token0.read.balanceOf([owner]), balance0 - parseEther('10'))
+        // permit 的额度恰好被本次交易用完
+        assert.equal(await token0.read.allowance([owner, SwapRouter.address]), 0n)
+        assert.equal(await token0.read.nonces([owner]), 1n)
+
+        const { amountIn } = await traderClient.swapExactOut({
+            tokenIn: token1.address,
+            tokenOut: token0.address,
+            amountOut: parseEther('1'),
+            permit: true
+        })
+        assert.ok(amountIn > 0n)
+        assert.equal(await token1.read.allowance([owner, SwapRouter.address]), 0n)
+
+        const position = await lpClient.addLiquidity({
+            tokenA: token1.address,
+            tokenB: token0.address,
+            index: 0,
+            amountADesired: parseEther('400'),
+            amountBDesired: parseEther('100'),
+            permit: true
+        })
+        assert.ok(position.liquidity > 0n)
+        assert.equal(await token0.read.nonces([lp.account.address]), 2n)
+    })
+
+    it('rejects expired permits', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, SwapRouter, trader } = fixture
+        const deadline = (await publicClient.getBlock()).timestamp - 1n
+        const amountIn = parseEther('1')
+        const permit = await signPermit(publicClient, trader, {
+            token: token0.address,
+            spender: SwapRouter.address,
+            value: amountIn,
+            deadline
+        })
+        await hviem.assertions.revertWithCustomError(
+            SwapRouter.write.exactInputWithPermit([swapParams(fixture, amountIn), permit], { account: trader.account }),
+            token0,
+            'ERC2612ExpiredSignature'
+        )
+    })
+
+    it('rejects replayed permits', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, SwapRouter, trader } = fixture
+        const amountIn = parseEther('1')
+        const permit = await signPermit(publicClient, trader, {
+            token: token0.address,
+            spender: SwapRouter.address,
+            value: amountIn,
+            deadline: maxUint256
+        })
+        const params = swapParams(fixture, amountIn)
+        await SwapRouter.write.exactInputWithPermit([params, permit], { account: trader.account })
+        // nonce 已递增，同一签名恢复出的签名者不再是 owner
+        await hviem.assertions.revertWithCustomError(
+            SwapRouter.write.exactInputWithPermit([params, permit], { account: trader.account }),
+            token0,
+            'ERC2612InvalidSigner'
+        )
+    })
+
+    it('rejects permits signed by another account', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, token1, SwapRouter, PositionManager, trader, other } = fixture
+        const amountIn = parseEther('1')
+        const permit = await signPermit(publicClient, other, {
+            token: token0.address,
+            spender: SwapRouter.address,
+            value: amountIn,
+            deadline: maxUint256
+        })
+        await hviem.assertions.revertWithCustomError(
+            SwapRouter.write.exactInputWithPermit([swapParams(fixture, amountIn), permit], { account: trader.account }),
+            token0,
+            'ERC2612InvalidSigner'
+        )
+
+        // 签给 SwapRouter 的 permit 不能用于 PositionManager
+        const routerPermit = await signPermit(publicClient, trader, {
+            token: token1.address,
+            spender: SwapRouter.address,
+            value: amountIn,
+            deadline: maxUint256
+        })
+        await hviem.assertions.revertWithCustomError(
+            PositionManager.write.mintWithPermit(
+                [
+                    {
+                        token0: token0.address,
+                        token1: token1.address,
+                        index: 0,
+                        amount0Desired: 0n,
+                        amount1Desired: amountIn,
+                        recipient: trader.account.address,
+                        deadline: maxUint256
+                    },
+                    EMPTY_PERMIT,
+                    routerPermit
+                ],
+                { account: trader.account }
+            ),
+            token1,
+            'ERC2612InvalidSigner'
+        )
+    })
+
+    it('skips empty permits and falls back to the allowance', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, SwapRouter, trader } = fixture
+        const amountIn = parseEther('1')
+        const params = swapParams(fixture, amountIn)
+        // 回调中 transferFrom 的错误经 SwapRouter.swapInPool 原样冒泡
+        await hviem.assertions.revertWithCustomErrorWithArgs(
+            SwapRouter.write.exactInputWithPermit([params, EMPTY_PERMIT], { account: trader.account }),
+            token0,
+            'ERC20InsufficientAllowance',
+            [SwapRouter.address, 0n, amountIn]
+        )
+        await token0.write.approve([SwapRouter.address, amountIn], { account: trader.account })
+        await SwapRouter.write.exactInputWithPermit([params, EMPTY_PERMIT], { account: trader.account })
+        assert.equal(await token0.read.allowance([trader.account.address, SwapRouter.address]), 0n)
+    })
+})
@@ -6,6 +6,8 @@ import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
 import assert from 'node:assert/strict'
 import { log } from 'node:console'
 
+import { Q128, getAmount0Delta, mulDiv, mulDivRoundingUp } from '../sdk/index.js'
+
 describe('Pool', async () => {
     const { viem: hviem, networkHelpers } = await network.connect()
     const publicClient = await hviem.getPublicClient()
@@ -189,11 +191,56 @@ describe('Pool', async () => {
             assert.equal(newPrice, 7922737261735934252089901697281n)
             assert.equal(sqrtPriceX96 - newPrice, 78989690499507264493336319n)
             assert.equal(liquidity, liquidityDelta)
-            assert.equal(costToken0, 1000n ** 18n)
+            assert.equal(costToken0, 100n * 10n ** 18n)
             assert.equal(receivedToken1, 996990060009101709255958n)
-            // 提取流动性
+            // 提取流动性：burn 只记账，collect 后 LP 取回 token0 本金与交易者支付的 token0，token1 少了交易者收到的部分
+            await testLP.write.burn([liquidityDelta, Pool.address])
+            await testLP.write.collect([testLP.address, Pool.address])
+            const lpToken0 = await token0.read.balanceOf([testLP.address])
+            const lpToken1 = await token1.read.balanceOf([testLP.address])
+            const expectedToken0 = initBalanceValue + costToken0
+            const expectedToken1 = initBalanceValue - receivedToken1
+            assert.ok(lpToken0 <= expectedToken0 && expectedToken0 - lpToken0 < 10n)
+            assert.ok(lpToken1 <= expectedToken1 && expectedToken1 - lpToken1 < 10n)
+        })
+
+        it('charges the fee on exact output swaps', async () => {
+            const { Pool, token0, token1, fee, sqrtPriceX96 } = await deployFactoryFixture()
+            const testLP = await hviem.deployContract('TestLP')
+            await token0.write.mint([testLP.address, 10n ** 30n])
+            await token1.write.mint([testLP.address, 10n ** 30n])
+            const liquidityDelta = 10n ** 24n
+            await testLP.write.mint([testLP.address, liquidityDelta, Pool.address, token0.address, token1.address])
+
+            // amountSpecified 为负数：精确输出 1000 个 token1
+            const TestSwap = await hviem.deployContract('TestSwap')
+            const balance0 = 10n ** 24n
+            await token0.write.mint([TestSwap.address, balance0])
+            const amountOut = 1000n * 10n ** 18n
+            await TestSwap.write.testSwap([
+                TestSwap.address,
+                -amountOut,
+                BigInt(encodeSqrtRatioX96(1000, 1).toString()),
+                Pool.address,
+                token0.address,
+                token1.address
+            ])
+            assert.equal(await token1.read.balanceOf([TestSwap.address]), amountOut)
+
+            // 支付的 token0 = 价格变动所需的数量 + 手续费，手续费与精确输入时的算法一致
+            const paid = balance0 - (await token0.read.balanceOf([TestSwap.address]))
+            const sqrtPriceAfter = (await Pool.read.sqrtPriceX96()) as bigint
+            const amountInWithoutFee = getAmount0Delta(sqrtPriceAfter, sqrtPriceX96, liquidityDelta, true)
+            const feeAmount = paid - amountInWithoutFee
+            assert.ok(feeAmount > 0n)
+            assert.equal(feeAmount, mulDivRoundingUp(amountInWithoutFee, BigInt(fee), 1_000_000n - BigInt(fee)))
+            assert.equal(await Pool.read.feeGrowthGlobal0X128(), mulDiv(feeAmount, Q128, liquidityDelta))
+
+            // 计入 feeGrowth 的手续费有资金支撑：LP 取回本金与手续费后池子只剩取整误差
             await testLP.write.burn([liquidityDelta, Pool.address])
-            assert.equal(await token0.read.balanceOf([testLP.address]), initBalanceValue)
+            await testLP.write.collect([testLP.address, Pool.address])
+            assert.ok(((await token0.read.balanceOf([Pool.address])) as bigint) < 10n)
+            assert.ok(((await token1.read.balanceOf([Pool.address])) as bigint) < 10n)
         })
     })
 })
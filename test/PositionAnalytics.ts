@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+import type { PublicClient } from 'viem'
+
+import { SwapClient, getPositionAmounts, valueInToken1, valuePosition } from '../sdk/index.js'
+
+describe('PositionAnalytics', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+        const token0 = TTA.address < TTB.address ? TTA : TTB
+        const token1 = TTA.address < TTB.address ? TTB : TTA
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        const addresses = {
+            poolManager: PoolManager.address,
+            swapRouter: SwapRouter.address,
+            positionManager: PositionManager.address
+        }
+
+        // 两个做市账户和一个交易账户
+        const [lp, otherLp, trader] = await hviem.getWalletClients()
+        for (const wallet of [lp, otherLp, trader]) {
+            await token0.write.mint([wallet.account.address, 10n ** 30n])
+            await token1.write.mint([wallet.account.address, 10n ** 30n])
+        }
+        const client = new SwapClient({ publicClient, walletClient: lp, addresses })
+        const otherClient = new SwapClient({ publicClient, walletClient: otherLp, addresses })
+        const traderClient = new SwapClient({ publicClient, walletClient: trader, addresses })
+
+        // 1 token0 = 4 token1，区间 [1, 16]
+        await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1)),
+            tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(16, 1)),
+            sqrtPriceX96: BigInt(encodeSqrtRatioX96(4, 1).toString())
+        })
+        const liquidity = { tokenA: token0.address, tokenB: token1.address, index: 0 }
+        const position = await client.addLiquidity({
+            ...liquidity,
+            amountADesired: 1000n * 10n ** 18n,
+            amountBDesired: 4000n * 10n ** 18n
+        })
+        const otherPosition = await otherClient.addLiquidity({
+            ...liquidity,
+            amountADesired: 300n * 10n ** 18n,
+            amountBDesired: 1200n * 10n ** 18n
+        })
+        const pool = await client.getPoolAddress(token0.address, token1.address, 0)
+        return { client, otherClient, traderClient, token0, token1, lp, position, otherPosition, pool }
+    }
+
+    // 在两个方向上交易，并让价格最终上涨
+    const tradedFixture = async () => {
+        const fixture = await deployFixture()
+        const { traderClient, token0, token1 } = fixture
+        for (const [tokenIn, tokenOut, amountIn] of [
+            [token1.address, token0.address, 900n * 10n ** 18n],
+            [token0.address, token1.address, 50n * 10n ** 18n],
+            [token1.address, token0.address, 700n * 10n ** 18n],
+            [token0.address, token1.address, 20n * 10n ** 18n]
+        ] as const) {
+            await traderClient.swapExactIn({ tokenIn, tokenOut, amountIn })
+        }
+        return fixture
+    }
+
+    it('reads the initial deposit from the mint transaction', async () => {
+        const { client, position, otherPosition } = await networkHelpers.loadFixture(deployFixture)
+        assert.deepEqual(await client.getPositionDeposit(position.positionId), {
+            amount0: position.amountA,
+            amount1: position.amountB
+        })
+        assert.deepEqual(await client.getPositionDeposit(otherPosition.positionId), {
+            amount0: otherPosition.amountA,
+            amount1: otherPosition.amountB
+        })
+        await assert.rejects(client.getPositionDeposit(99n), /position 99 not found/)
+        await assert.rejects(client.getPositionValuation(99n), /position 99 not found/)
+    })
+
+    it('values an untouched position at its deposit', async () => {
+        const { client, position } = await networkHelpers.loadFixture(deployFixture)
+        const valuation = await client.getPositionValuation(position.positionId)
+        assert.equal(valuation.fees0, 0n)
+        assert.equal(valuation.fees1, 0n)
+        // mint 向下取整、burn 向上取整，最多相差 1 wei
+        assert.ok(valuation.amount0 - position.amountA <= 1n && valuation.amount0 >= position.amountA)
+        assert.ok(valuation.amount1 - position.amountB <= 1n && valuation.amount1 >= position.amountB)
+        assert.ok(valuation.pnl! >= 0n && valuation.pnl! <= 10n)
+    })
+
+    it('accrues fees pro rata to liquidity', async () => {
+        const { client, position, otherPosition } = await networkHelpers.loadFixture(tradedFixture)
+        const valuation = await client.getPositionValuation(position.positionId)
+        const other = await client.getPositionValuation(otherPosition.positionId)
+        assert.ok(valuation.fees0 > 0n && valuation.fees1 > 0n)
+        // 手续费按流动性比例分配，误差来自两次向下取整
+        for (const [mine, theirs] of [
+            [valuation.fees0, other.fees0],
+            [valuation.fees1, other.fees1]
+        ]) {
+            const expected = (theirs * position.liquidity) / otherPosition.liquidity
+            assert.ok(mine - expected <= 4n && expected - mine <= 4n)
+        }
+    })
+
+    it('reports impermanent loss and pnl against holding', async () => {
+        const { client, position } = await networkHelpers.loadFixture(tradedFixture)
+        const valuation = await client.getPositionValuation(position.positionId)
+        assert.ok(valuation.impermanentLoss! < 0n)
+        assert.equal(valuation.pnl, valuation.totalValue - valuation.holdValue!)
+        assert.equal(valuation.pnl! - valuation.impermanentLoss!, valuation.totalValue - valuation.liquidityValue)
+        assert.ok(valuation.feesValue > 0n)
+    })
+
+    it('matches what burn and collect pay out', async () => {
+        const { client, token0, token1, lp, position } = await networkHelpers.loadFixture(tradedFixture)
+        const before = await client.getPositionValuation(position.positionId)
+
+        const burned = await client.removeLiquidity(position.positionId)
+        assert.equal(burned.amount0, before.amount0)
+        assert.equal(burned.amount1, before.amount1)
+
+        // burn 后本金与手续费计入 tokensOwed，可提取数量不变
+        const afterBurn = await client.getPositionValuation(position.positionId, before.deposit)
+        assert.equal(afterBurn.amount0, 0n)
+        assert.equal(afterBurn.fees0, 0n)
+        assert.equal(afterBurn.collectable0, before.collectable0)
+        assert.equal(afterBurn.collectable1, before.collectable1)
+        assert.equal(afterBurn.totalValue, before.totalValue)
+
+        const owner = lp.account.address
+        const balance0 = await token0.read.balanceOf([owner])
+        const balance1 = await token1.read.balanceOf([owner])
+        const collected = await client.collect(position.positionId)
+        assert.equal(collected.amount0, before.collectable0)
+        assert.equal(collected.amount1, before.collectable1)
+        assert.equal(await token0.read.balanceOf([owner]), balance0 + before.collectable0)
+        assert.equal(await token1.read.balanceOf([owner]), balance1 + before.collectable1)
+    })
+
+    it('computes amounts and values from raw state', () => {
+        const sqrtPriceX96 = 2n ** 97n
+        const amounts = getPositionAmounts(sqrtPriceX96, 0, 27728, 10n ** 18n)
+        // 价格 4，区间 [1, 16]：amount0 = L(1/2 - 1/4)，amount1 = L(2 - 1)
+        assert.ok(amounts.amount0 - 25n * 10n ** 16n <= 10n ** 14n)
+        assert.ok(amounts.amount1 - 10n ** 18n <= 10n ** 14n)
+        assert.equal(valueInToken1({ amount0: 10n, amount1: 3n }, sqrtPriceX96), 43n)
+
+        const state = {
+            liquidity: 0n,
+            tickLower: 0,
+            tickUpper: 27728,
+            tokensOwed0: 0n,
+            tokensOwed1: 0n,
+            feeGrowthInside0LastX128: 0n,
+            feeGrowthInside1LastX128: 0n
+        }
+        const empty = valuePosition(state, { sqrtPriceX96, feeGrowthGlobal0X128: 5n, feeGrowthGlobal1X128: 5n })
+        assert.equal(empty.totalValue, 0n)
+        assert.equal(empty.collectable0, 0n)
+        assert.equal(empty.pnl, undefined)
+    })
+})
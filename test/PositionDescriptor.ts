@@ -0,0 +1,204 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { type PublicClient, maxUint256, parseEther, parseUnits } from 'viem'
+
+import {
+    SwapClient,
+    SwapErrors,
+    decodeDataUri,
+    decodePositionImage,
+    decodePositionMetadata,
+    decodeRevert,
+    encodeSqrtRatioX96,
+    getPositionAttribute
+} from '../sdk/index.js'
+
+// 修改 SVG 模板后以 SNAPSHOT_UPDATE=1 运行本测试重新生成
+const SVG_SNAPSHOT_FILE = 'test/snapshots/PositionDescriptor.svg'
+
+describe('PositionDescriptor', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+    const [wallet] = await hviem.getWalletClients()
+
+    // 部署一对代币与全套合约，在 1 个 token0 价值 humanPrice 个 token1 的池子中铸造一个头寸
+    const deploy = async (tokens: { symbol: string; decimals: number }[], humanPrice: [bigint, bigint]) => {
+        const deployed = []
+        for (const { symbol, decimals } of tokens) {
+            const token = await hviem.deployContract('TTokenDecimals', [`Token ${symbol}`, symbol, decimals])
+            deployed.push({ token, decimals })
+        }
+        const [token0, token1] = deployed.sort((a, b) => (BigInt(a.token.address) < BigInt(b.token.address) ? -1 : 1))
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        for (const { token, decimals } of [token0, token1]) {
+            await token.write.mint([wallet.account.address, parseUnits('1000000', decimals)])
+            await token.write.approve([PositionManager.address, maxUint256])
+            await token.write.approve([SwapRouter.address, maxUint256])
+        }
+        // 按 decimals 把 1 个 token0 兑换 price 个 token1 换算为最小单位之比
+        const [numerator, denominator] = humanPrice
+        const sqrtPriceX96 = encodeSqrtRatioX96(
+            numerator * 10n ** BigInt(token1.decimals),
+            denominator * 10n ** BigInt(token0.decimals)
+        )
+        // 价格区间约为当前价格的 [0.5, 2] 倍
+        const tick = Math.round(Math.log(Number(sqrtPriceX96) / 2 ** 96) / Math.log(Math.sqrt(1.0001)))
+        const [tickLower, tickUpper] = [tick - 6932, tick + 6932]
+        await PoolManager.write.createPoolIfNecessary([
+            {
+                token0: token0.token.address,
+                token1: token1.token.address,
+                fee: 3000,
+                tickLower,
+                tickUpper,
+                sqrtPriceX96
+            }
+        ])
+        await PositionManager.write.mint([
+            {
+                token0: token0.token.address,
+                token1: token1.token.address,
+                index: 0,
+                amount0Desired: parseUnits('1000', token0.decimals),
+                amount1Desired: parseUnits('1000', token1.decimals),
+                recipient: wallet.account.address,
+                deadline: maxUint256
+            }
+        ])
+        const client = new SwapClient({
+            publicClient,
+            walletClient: wallet,
+            addresses: {
+                poolManager: PoolManager.address,
+                swapRouter: SwapRouter.address,
+                positionManager: PositionManager.address
+            }
+        })
+        const pool = await PoolManager.read.getPool([token0.token.address, token1.token.address, 0])
+        return { token0: token0.token, token1: token1.token, PositionManager, client, pool }
+    }
+
+    const symbolsFixture = () =>
+        deploy(
+            [
+                { symbol: 'TTA', decimals: 18 },
+                { symbol: 'TTB', decimals: 18 }
+            ],
+            [1n, 1n]
+        )
+
+    const matchSnapshot = async (svg: string) => {
+        if (process.env.SNAPSHOT_UPDATE) {
+            await mkdir(dirname(SVG_SNAPSHOT_FILE), { recursive: true })
+            await writeFile(SVG_SNAPSHOT_FILE, svg + '\n')
+            return
+        }
+        const snapshot = await readFile(SVG_SNAPSHOT_FILE, 'utf8').catch(() => undefined)
+        assert.ok(snapshot, `${SVG_SNAPSHOT_FILE} is missing, run SNAPSHOT_UPDATE=1 npx hardhat test`)
+        assert.equal(svg + '\n', snapshot, 'SVG changed, run SNAPSHOT_UPDATE=1 npx hardhat test if intended')
+    }
+
+    it('returns JSON metadata with an SVG image', async () => {
+        const { token0, token1, PositionManager, client, pool } = await networkHelpers.loadFixture(symbolsFixture)
+        const uri = await PositionManager.read.tokenURI([1n])
+        const metadata = decodePositionMetadata(uri)
+        const [symbol0, symbol1] = [await token0.read.symbol(), await token1.read.symbol()]
+        const [position] = await client.listPositions()
+
+        assert.equal(metadata.name, `JSwap V1 - 0.3% - ${symbol0}/${symbol1} - 0.49999<>2`)
+        for (const address of [pool, token0.address, token1.address]) {
+            assert.ok(metadata.description.toLowerCase().includes(address.toLowerCase()))
+        }
+        assert.match(metadata.description, /\nToken ID: 1$/)
+        assert.deepEqual(metadata.attributes, [
+            { trait_type: 'Token0', value: symbol0 },
+            { trait_type: 'Token1', value: symbol1 },
+            { trait_type: 'Fee Tier', value: '0.3%' },
+            { trait_type: 'Pool Index', value: 0 },
+            { trait_type: 'Min Price', value: '0.49999' },
+            { trait_type: 'Max Price', value: '2' },
+            { trait_type: 'Current Price', value: '1' },
+            { trait_type: 'In Range', value: 'Yes' },
+            { trait_type: 'Liquidity', value: position.liquidity.toString() }
+        ])
+        assert.deepEqual(await client.getPositionMetadata(1n), metadata)
+
+        const svg = decodePositionImage(metadata)
+        assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"[^>]*>.*<\/svg>$/)
+        assert.ok(svg.includes(`>${symbol0}/${symbol1}</text>`))
+        assert.ok(svg.includes('>In range</text>'))
+        await matchSnapshot(svg)
+
+        // 已销毁的头寸不再有元数据
+        await client.removeLiquidity(1n)
+        await client.collect(1n)
+        const error = await PositionManager.read.tokenURI([1n]).then(
+            () => assert.fail('expected a revert'),
+            (error) => decodeRevert(error)
+        )
+        assert.ok(error instanceof SwapErrors.ERC721NonexistentToken)
+    })
+
+    it('marks the position out of range once the price leaves it', async () => {
+        const { token0, token1, client } = await networkHelpers.loadFixture(symbolsFixture)
+        // 用 token1 买空池子中的 token0，价格停在区间上界，tick == tickUpper 时不再处于区间内
+        await client.swapExactIn({
+            tokenIn: token1.address,
+            tokenOut: token0.address,
+            amountIn: parseEther('10000'),
+            amountOutMinimum: 0n,
+            indexPath: [0]
+        })
+        const metadata = await client.getPositionMetadata(1n)
+        assert.equal(getPositionAttribute(metadata, 'In Range'), 'No')
+        assert.equal(getPositionAttribute(metadata, 'Current Price'), getPositionAttribute(metadata, 'Max Price'))
+        const svg = decodePositionImage(metadata)
+        assert.ok(svg.includes('>Out of range</text>'))
+        assert.ok(svg.includes('<circle cx="262"'))
+    })
+
+    it('adjusts prices for token decimals', async () => {
+        // 1 个 18 位小数的代币价值 2000 个 6 位小数的代币，两者谁是 token0 取决于部署地址
+        const { token0, client } = await deploy(
+            [
+                { symbol: 'WETH', decimals: 18 },
+                { symbol: 'USDC', decimals: 6 }
+            ],
+            [2000n, 1n]
+        )
+        const metadata = await client.getPositionMetadata(1n)
+        const price = Number(getPositionAttribute(metadata, 'Current Price'))
+        if ((await token0.read.symbol()) === 'WETH') {
+            assert.ok(Math.abs(price - 2000) < 0.1, `price ${price}`)
+        } else {
+            assert.ok(Math.abs(price - 0.0005) < 1e-8, `price ${price}`)
+        }
+        const [min, max] = ['Min Price', 'Max Price'].map((trait) => Number(getPositionAttribute(metadata, trait)))
+        assert.ok(min < price && price < max)
+    })
+
+    it('escapes symbols in JSON and SVG', async () => {
+        const { PositionManager } = await deploy(
+            [
+                { symbol: '<b>"&\'\\', decimals: 18 },
+                { symbol: 'OK', decimals: 18 }
+            ],
+            [1n, 1n]
+        )
+        const metadata = decodePositionMetadata(await PositionManager.read.tokenURI([1n]))
+        const symbols = [getPositionAttribute(metadata, 'Token0'), getPositionAttribute(metadata, 'Token1')]
+        assert.deepEqual([...symbols].sort(), ['<b>"&\'\\', 'OK'].sort())
+        const svg = decodePositionImage(metadata)
+        assert.ok(svg.includes('&lt;b&gt;&quot;&amp;&apos;\\'))
+        assert.ok(!svg.includes('<b>'))
+        assert.throws(() => decodeDataUri(metadata.image, 'application/json'), /base64 data URI/)
+    })
+})
@@ -6,6 +6,8 @@ import { Position, TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
 import assert from 'node:assert/strict'
 import { log } from 'node:console'
 
+import { deadlineFromChain, sqrtPriceLimitX96For } from '../sdk/index.js'
+
 describe('PositionManager', async () => {
     const { viem: hviem, networkHelpers } = await network.connect()
 
@@ -39,50 +41,56 @@ describe('PositionManager', async () => {
         const createEvents = await PoolManager.getEvents.PoolCreated()
         const poolAddress: `0x${string}` = createEvents[0].args.pool || '0x'
         const Pool = await hviem.getContractAt('Pool' as string, poolAddress)
-        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address])
+        const WETH9 = await hviem.deployContract('WETH9')
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
 
-        return { PositionManager, PoolManager, token0, token1, tickLower, tickUpper, fee, sender, Pool }
+        return { PositionManager, PoolManager, token0, token1, tickLower, tickUpper, fee, sender, Pool, publicClient }
     }
     describe('functions', async () => {
-        it('Test1', async () => {
-            const { PositionManager, sender, token0, token1, Pool } = await networkHelpers.loadFixture(
-                deployFactoryFixture
-            )
-            // 初始化账户余额
-            const initBalanceValue = 1000n * 10n ** 18n
-            await token0.write.mint([sender, initBalanceValue])
-            await token1.write.mint([sender, initBalanceValue])
-            // 初始化账户授权
-            await token0.write.approve([PositionManager.address, initBalanceValue])
-            await token1.write.approve([PositionManager.address, initBalanceValue])
-
-            await PositionManager.write.mint([
-                {
-                    token0: token0.address,
-                    token1: token1.address,
-                    index: 0,
-                    recipient: sender,
-                    amount0Desired: 1000n * 10n ** 18n,
-                    amount1Desired: 1000n * 10n ** 18n,
-                    deadline: BigInt(Date.now() + 1000)
-                }
-            ])
+        describe('Test1', async () => {
+            // 每个用例从同一个已铸造头寸 1 的状态开始
+            const mintFixture = async () => {
+                const fixture = await deployFactoryFixture()
+                const { PositionManager, sender, token0, token1, publicClient } = fixture
+                // 初始化账户余额
+                const initBalanceValue = 1000n * 10n ** 18n
+                await token0.write.mint([sender, initBalanceValue])
+                await token1.write.mint([sender, initBalanceValue])
+                // 初始化账户授权
+                await token0.write.approve([PositionManager.address, initBalanceValue])
+                await token1.write.approve([PositionManager.address, initBalanceValue])
+
+                await PositionManager.write.mint([
+                    {
+                        token0: token0.address,
+                        token1: token1.address,
+                        index: 0,
+                        recipient: sender,
+                        amount0Desired: 1000n * 10n ** 18n,
+                        amount1Desired: 1000n * 10n ** 18n,
+                        deadline: await deadlineFromChain(publicClient, 1000n)
+                    }
+                ])
+                return fixture
+            }
+
             it('mint', async () => {
+                const { PositionManager, sender, token0, Pool } = await networkHelpers.loadFixture(mintFixture)
                 assert.equal(await token0.read.balanceOf([sender]), 999949496579641839196n)
                 assert.equal(await token0.read.balanceOf([Pool.address]), 50503420358160804n)
                 assert.equal(await PositionManager.read.ownerOf([1n]), sender)
             })
             it('burn', async () => {
+                const { PositionManager, sender, token0 } = await networkHelpers.loadFixture(mintFixture)
                 await PositionManager.write.burn([1n])
                 await PositionManager.write.collect([1n, sender])
                 assert.equal(await token0.read.balanceOf([sender]), 1000000000000000000000n)
             })
         })
-        it('Test2', async () => {
+        describe('Test2', async () => {
             it('collect', async () => {
-                const { PositionManager, sender, token0, token1, Pool } = await networkHelpers.loadFixture(
-                    deployFactoryFixture
-                )
+                const fixture = await networkHelpers.loadFixture(deployFactoryFixture)
+                const { PositionManager, sender, token0, token1, Pool, publicClient, tickLower, tickUpper } = fixture
                 const initBalanceValue = 100000000000n * 10n ** 18n
                 await token0.write.mint([sender, initBalanceValue])
                 await token1.write.mint([sender, initBalanceValue])
@@ -97,7 +105,7 @@ describe('PositionManager', async () => {
                         recipient: sender,
                         amount0Desired: initBalanceValue - 1000n * 10n ** 18n,
                         amount1Desired: initBalanceValue - 1000n * 10n ** 18n,
-                        deadline: BigInt(Date.now() + 3000)
+                        deadline: await deadlineFromChain(publicClient, 1000n)
                     }
                 ])
 
@@ -109,14 +117,20 @@ describe('PositionManager', async () => {
                         recipient: sender,
                         amount0Desired: 1000n * 10n ** 18n,
                         amount1Desired: 1000n * 10n ** 18n,
-                        deadline: BigInt(Date.now() + 3000)
+                        deadline: await deadlineFromChain(publicClient, 1000n)
                     }
                 ])
 
                 // 通过testswap交易
                 const TestSwap = await hviem.deployContract('TestSwap')
-                const minPrice = 1000
-                const minSqrtPriceX96 = BigInt(encodeSqrtRatioX96(minPrice, 1).toString())
+                // 价格最多下跌 90%（10000 -> 1000）
+                const minSqrtPriceX96 = sqrtPriceLimitX96For({
+                    zeroForOne: true,
+                    sqrtPriceX96: (await Pool.read.sqrtPriceX96()) as bigint,
+                    tickLower,
+                    tickUpper,
+                    priceImpactBps: 9000
+                })
                 // 给testswap转账一些token0
                 await token0.write.mint([TestSwap.address, 300n * 10n ** 18n])
 
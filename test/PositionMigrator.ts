@@ -0,0 +1,222 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type PublicClient, parseEther, parseEventLogs } from 'viem'
+
+import {
+    Q96,
+    SwapClient,
+    getAmount0Delta,
+    getAmount1Delta,
+    getLiquidityForAmounts,
+    getRebalanceSwap,
+    getSqrtRatioAtTick,
+    isSwapError,
+    positionMigratorAbi,
+    valueInToken1
+} from '../sdk/index.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('PositionMigrator', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    // 两个池子价格均为 1：原池子区间约 [0.5, 2]，目标池子约 [0.5, 8]，目标区间需要更多的 token0
+    const SOURCE = { tickLower: -6932, tickUpper: 6932 }
+    const TARGET = { tickLower: -6932, tickUpper: 20796 }
+
+    const deployFixture = async () => {
+        const { token0, token1, SwapRouter, PositionManager, connect } = await deployExchange(hviem, publicClient)
+        const PositionMigrator = await hviem.deployContract('PositionMigrator', [
+            PositionManager.address,
+            SwapRouter.address
+        ])
+
+        const [lp, otherLp, trader] = await hviem.getWalletClients()
+        for (const wallet of [lp, otherLp, trader]) {
+            await token0.write.mint([wallet.account.address, parseEther('1000000')])
+            await token1.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const migrator = { positionMigrator: PositionMigrator.address }
+        const client = connect(lp, migrator)
+        const otherClient = connect(otherLp, migrator)
+        const traderClient = connect(trader, migrator)
+
+        const pair = { tokenA: token0.address, tokenB: token1.address }
+        for (const range of [SOURCE, TARGET]) {
+            await client.createPool({ ...pair, fee: 3000, ...range, sqrtPriceX96: Q96 })
+        }
+        const { positionId } = await client.addLiquidity({
+            ...pair,
+            index: 0,
+            amountADesired: parseEther('100'),
+            amountBDesired: parseEther('100')
+        })
+        // 目标池子已有较深的流动性，再平衡交易在其中成交，价格冲击可以忽略
+        await otherClient.addLiquidity({
+            ...pair,
+            index: 1,
+            amountADesired: parseEther('100000'),
+            amountBDesired: parseEther('100000')
+        })
+        // 在原池子两个方向交易，为头寸累计手续费
+        for (const [tokenIn, tokenOut] of [
+            [token0.address, token1.address],
+            [token1.address, token0.address]
+        ]) {
+            await traderClient.swapExactIn({ tokenIn, tokenOut, amountIn: parseEther('20'), indexPath: [0] })
+        }
+        return { token0, token1, PositionManager, PositionMigrator, client, otherClient, lp, otherLp, positionId }
+    }
+
+    it('moves liquidity and fees into a new position on another pool in one transaction', async () => {
+        const { token0, token1, PositionManager, PositionMigrator, client, lp, positionId } =
+            await networkHelpers.loadFixture(deployFixture)
+        const owner = lp.account.address
+        const valuation = await client.getPositionValuation(positionId)
+        assert.ok(valuation.fees0 > 0n && valuation.fees1 > 0n)
+        const balance0 = await token0.read.balanceOf([owner])
+        const balance1 = await token1.read.balanceOf([owner])
+
+        const result = await client.migratePosition({ positionId, targetIndex: 1, slippageBps: 50 })
+        // 目标区间需要更多的 token0，以 token1 换入
+        assert.equal(result.swap.zeroForOne, false)
+        assert.ok(result.swap.amountIn > 0n)
+
+        // 原头寸已销毁，新头寸属于原持有者
+        const rejected = await rejection(PositionManager.read.ownerOf([positionId]))
+        assert.ok(isSwapError(rejected, 'ERC721NonexistentToken'))
+        const migrated = await client.findPosition(result.positionId)
+        assert.equal(migrated?.owner.toLowerCase(), owner.toLowerCase())
+        assert.equal(migrated?.index, 1)
+        assert.equal(migrated?.liquidity, result.liquidity)
+        assert.deepEqual([migrated?.tickLower, migrated?.tickUpper], [TARGET.tickLower, TARGET.tickUpper])
+
+        const receipt = await publicClient.getTransactionReceipt({ hash: result.hash })
+        const [event] = parseEventLogs({ abi: positionMigratorAbi, eventName: 'Migrate', logs: receipt.logs })
+        assert.deepEqual(event.args, {
+            positionId,
+            newPositionId: result.positionId,
+            index: 1,
+            liquidity: result.liquidity,
+            amount0: result.amount0,
+            amount1: result.amount1
+        })
+
+        // 本金与手续费全部迁移，未投入的部分退还给持有者，迁移合约不留存代币
+        assert.equal(await token0.read.balanceOf([PositionMigrator.address]), 0n)
+        assert.equal(await token1.read.balanceOf([PositionMigrator.address]), 0n)
+        const refund = {
+            amount0: (await token0.read.balanceOf([owner])) - balance0,
+            amount1: (await token1.read.balanceOf([owner])) - balance1
+        }
+        const [target] = (await client.getPairPools(token0.address, token1.address)).filter((pool) => pool.index === 1)
+        const collected = { amount0: valuation.collectable0, amount1: valuation.collectable1 }
+        const received = { amount0: result.amount0 + refund.amount0, amount1: result.amount1 + refund.amount1 }
+        const collectedValue = valueInToken1(collected, target.sqrtPriceX96)
+        // 再平衡交易只损失手续费与价格冲击
+        assert.ok(valueInToken1(received, target.sqrtPriceX96) * 1000n > collectedValue * 995n)
+        assert.ok(valueInToken1(refund, target.sqrtPriceX96) * 100n < collectedValue)
+        // 不做再平衡时能投入的流动性更少
+        const unbalanced = getLiquidityForAmounts(
+            target.sqrtPriceX96,
+            TARGET.tickLower,
+            TARGET.tickUpper,
+            collected.amount0,
+            collected.amount1
+        )
+        assert.ok(result.liquidity > (unbalanced * 12n) / 10n)
+    })
+
+    it('rejects unauthorized callers, the same pool and failed slippage checks', async () => {
+        const { token0, token1, PositionManager, PositionMigrator, client, otherClient, lp, otherLp, positionId } =
+            await networkHelpers.loadFixture(deployFixture)
+        const migrator = PositionMigrator.address
+        const params = {
+            positionId,
+            targetIndex: 1,
+            zeroForOne: false,
+            swapAmountIn: parseEther('20'),
+            swapAmountOutMinimum: 0n,
+            swapIndexPath: [1],
+            amount0Min: 0n,
+            amount1Min: 0n,
+            recipient: lp.account.address,
+            deadline: await client.deadline()
+        }
+        const migrate = (overrides: Partial<typeof params> = {}, account = lp.account) =>
+            PositionMigrator.write.migrate([{ ...params, ...overrides }], { account })
+
+        // 迁移合约未被授权时 PositionManager 拒绝 burn
+        const notApproved = await rejection(migrate())
+        assert.ok(isSwapError(notApproved, 'NotAuthorized'))
+        assert.equal(notApproved.args.caller.toLowerCase(), migrator.toLowerCase())
+
+        await PositionManager.write.setApprovalForAll([migrator, true])
+        const stranger = await rejection(migrate({ recipient: otherLp.account.address }, otherLp.account))
+        assert.ok(isSwapError(stranger, 'NotAuthorized'))
+        assert.equal(stranger.args.caller.toLowerCase(), otherLp.account.address.toLowerCase())
+
+        const sameIndex = await rejection(migrate({ targetIndex: 0 }))
+        assert.ok(isSwapError(sameIndex, 'SamePoolIndex'))
+        assert.deepEqual(sameIndex.args, { positionId, index: 0 })
+
+        const expired = await rejection(migrate({ deadline: 1n }))
+        assert.ok(isSwapError(expired, 'TransactionTooOld'))
+
+        const swapSlippage = await rejection(migrate({ swapAmountOutMinimum: parseEther('20') }))
+        assert.ok(isSwapError(swapSlippage, 'InsufficientOutputAmount'))
+
+        const mintSlippage = await rejection(migrate({ amount0Min: parseEther('1000') }))
+        assert.ok(isSwapError(mintSlippage, 'PriceSlippageCheck'))
+
+        const withoutMigrator = new SwapClient({
+            publicClient,
+            walletClient: lp,
+            addresses: { ...client.addresses, positionMigrator: undefined }
+        })
+        await assert.rejects(withoutMigrator.migratePosition({ positionId, targetIndex: 1 }), /positionMigrator/)
+
+        // 被授权操作该头寸的账户可以迁移，新头寸归 recipient
+        await PositionManager.write.approve([otherLp.account.address, positionId])
+        const { positionId: newPositionId } = await otherClient.migratePosition({ positionId, targetIndex: 1 })
+        assert.equal(
+            (await PositionManager.read.ownerOf([newPositionId])).toLowerCase(),
+            otherLp.account.address.toLowerCase()
+        )
+        assert.equal(await token0.read.balanceOf([migrator]), 0n)
+        assert.equal(await token1.read.balanceOf([migrator]), 0n)
+    })
+
+    it('estimates the rebalancing swap from the target range and price', () => {
+        const target = { sqrtPriceX96: Q96, ...TARGET, fee: 3000 }
+        const sqrtLower = getSqrtRatioAtTick(TARGET.tickLower)
+        const sqrtUpper = getSqrtRatioAtTick(TARGET.tickUpper)
+        const liquidity = parseEther('1000')
+        const r0 = getAmount0Delta(Q96, sqrtUpper, liquidity, false)
+        const r1 = getAmount1Delta(sqrtLower, Q96, liquidity, false)
+
+        // 已按目标比例持有时无需交易
+        assert.ok(getRebalanceSwap({ amount0: r0, amount1: r1 }, target).amountIn <= 1n)
+
+        // 只持有 token1 时换入 token0，扣除手续费后比例与目标一致
+        const amount1 = parseEther('100')
+        const swap = getRebalanceSwap({ amount0: 0n, amount1 }, target)
+        assert.equal(swap.zeroForOne, false)
+        const received0 = (swap.amountIn * 997n) / 1000n
+        const ratio = ((amount1 - swap.amountIn) * r0 * 10n ** 9n) / (received0 * r1)
+        assert.ok(ratio >= 10n ** 9n - 1n && ratio <= 10n ** 9n + 1n, `${ratio}`)
+
+        // 只持有 token0 时方向相反
+        const reverse = getRebalanceSwap({ amount0: parseEther('100'), amount1: 0n }, target)
+        assert.equal(reverse.zeroForOne, true)
+
+        // 价格在区间边界上时只需要一种代币，另一种全部换出
+        const atLower = { ...target, sqrtPriceX96: sqrtLower }
+        assert.deepEqual(getRebalanceSwap({ amount0: 5n, amount1: 7n }, atLower), { zeroForOne: false, amountIn: 7n })
+        const atUpper = { ...target, sqrtPriceX96: sqrtUpper }
+        assert.deepEqual(getRebalanceSwap({ amount0: 5n, amount1: 7n }, atUpper), { zeroForOne: true, amountIn: 5n })
+    })
+})
@@ -0,0 +1,242 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type PublicClient, getAddress, maxUint128, parseEther, parseEventLogs } from 'viem'
+
+import {
+    Q128,
+    type SwapClient,
+    SwapErrors,
+    decodeFeeProtocol,
+    defaultSqrtPriceLimitX96,
+    encodeSqrtRatioX96,
+    getTickAtSqrtRatio,
+    mulDiv,
+    poolAbi,
+    simulateSwap
+} from '../sdk/index.js'
+import { type TaskContext, TokenResolver } from '../tasks/context.js'
+import { collectProtocol, protocolStatus, setFeeProtocol } from '../tasks/protocol.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('ProtocolFee', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    // 价格为 1 的 TTA / TTB 池子，部署者同时是 PoolManager 的 owner 和唯一的 LP
+    const deployFixture = async () => {
+        const { token0, token1, PoolManager, connect } = await deployExchange(hviem, publicClient)
+
+        const [owner, trader, treasury] = await hviem.getWalletClients()
+        for (const wallet of [owner, trader]) {
+            await token0.write.mint([wallet.account.address, parseEther('1000000')])
+            await token1.write.mint([wallet.account.address, parseEther('1000000')])
+        }
+        const ownerClient = connect(owner)
+        const traderClient = connect(trader)
+        const { pool } = await ownerClient.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(1n, 4n)),
+            tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(4n, 1n)),
+            sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+        })
+        const position = await ownerClient.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: parseEther('1000'),
+            amountBDesired: parseEther('1000')
+        })
+        const Pool = await hviem.getContractAt('Pool', pool)
+        const context = (client: SwapClient): TaskContext => ({
+            client,
+            publicClient,
+            tokens: new TokenResolver(publicClient, client, [token0.address, token1.address])
+        })
+        return {
+            token0,
+            token1,
+            PoolManager,
+            Pool,
+            owner,
+            trader,
+            treasury,
+            ownerClient,
+            traderClient,
+            position,
+            ownerCtx: context(ownerClient),
+            traderCtx: context(traderClient)
+        }
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployFixture>>
+
+    // 交易者在两个方向各成交一笔，返回成交结果与模拟得到的手续费拆分
+    const swapBothWays = async (fixture: Fixture) => {
+        const { token0, token1, Pool, traderClient, ownerClient } = fixture
+        const results = []
+        for (const [tokenIn, tokenOut] of [
+            [token0, token1],
+            [token1, token0]
+        ]) {
+            const zeroForOne = tokenIn === token0
+            const amountIn = parseEther('25')
+            const [state] = await ownerClient.getPairPools(token0.address, token1.address)
+            const expected = simulateSwap(state, {
+                zeroForOne,
+                amountSpecified: amountIn,
+                sqrtPriceLimitX96: defaultSqrtPriceLimitX96(zeroForOne)
+            })
+            const growth = zeroForOne ? Pool.read.feeGrowthGlobal0X128 : Pool.read.feeGrowthGlobal1X128
+            const growthBefore = await growth()
+            const { amountOut } = await traderClient.swapExactIn({
+                tokenIn: tokenIn.address,
+                tokenOut: tokenOut.address,
+                amountIn
+            })
+            assert.equal(amountOut, zeroForOne ? -expected.amount1 : -expected.amount0)
+            // LP 的手续费增长只包含协议份额之外的部分
+            assert.equal(
+                (await growth()) - growthBefore,
+                mulDiv(expected.feeAmount - expected.protocolFee, Q128, state.liquidity)
+            )
+            results.push({ amountOut, feeAmount: expected.feeAmount, protocolFee: expected.protocolFee })
+        }
+        return results
+    }
+
+    // 移除 LP 的全部流动性，返回提取数量中超出本金的手续费
+    const lpFees = async ({ ownerClient, position }: Fixture) => {
+        const burned = await ownerClient.removeLiquidity(position.positionId)
+        const collected = await ownerClient.collect(position.positionId)
+        return [collected.amount0 - burned.amount0, collected.amount1 - burned.amount1]
+    }
+
+    it('lets only the owner switch the protocol fee and reports it in getAllPools', async () => {
+        const { Pool, PoolManager, owner, trader, ownerClient, traderClient } =
+            await networkHelpers.loadFixture(deployFixture)
+        assert.equal(getAddress(await ownerClient.getOwner()), getAddress(owner.account.address))
+        const [before] = await ownerClient.getPools()
+        assert.equal(before.feeProtocol, 0)
+
+        const hash = await ownerClient.setFeeProtocol(Pool.address, 4, 6)
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        const [event] = parseEventLogs({ abi: poolAbi, logs: receipt.logs, eventName: 'SetFeeProtocol' })
+        assert.deepEqual(event.args, { feeProtocol0Old: 0, feeProtocol1Old: 0, feeProtocol0New: 4, feeProtocol1New: 6 })
+        const [after] = await ownerClient.getPools()
+        assert.equal(after.feeProtocol, 4 + (6 << 4))
+        assert.deepEqual(decodeFeeProtocol(after.feeProtocol), [4, 6])
+        assert.deepEqual(await ownerClient.getProtocolFees(Pool.address), {
+            pool: Pool.address,
+            feeProtocol0: 4,
+            feeProtocol1: 6,
+            protocolFees0: 0n,
+            protocolFees1: 0n
+        })
+
+        const notOwner = await rejection(traderClient.setFeeProtocol(Pool.address, 0, 0))
+        assert.ok(notOwner instanceof SwapErrors.NotFactoryOwner)
+        assert.equal(notOwner.caller, getAddress(trader.account.address))
+        const collect = await rejection(traderClient.collectProtocol(Pool.address))
+        assert.ok(collect instanceof SwapErrors.NotFactoryOwner)
+        for (const [feeProtocol0, feeProtocol1] of [
+            [3, 0],
+            [0, 11],
+            [1, 4]
+        ]) {
+            const invalid = await rejection(ownerClient.setFeeProtocol(Pool.address, feeProtocol0, feeProtocol1))
+            assert.ok(invalid instanceof SwapErrors.InvalidFeeProtocol)
+            assert.deepEqual(invalid.args, { feeProtocol0, feeProtocol1 })
+        }
+
+        // 转移 owner 后权限随之转移
+        const setOwner = await rejection(
+            PoolManager.write.setOwner([trader.account.address], { account: trader.account })
+        )
+        assert.ok(setOwner instanceof SwapErrors.NotOwner)
+        await PoolManager.write.setOwner([trader.account.address])
+        await traderClient.setFeeProtocol(Pool.address, 10, 0)
+        assert.equal((await ownerClient.getPools())[0].feeProtocol, 10)
+        const previous = await rejection(ownerClient.setFeeProtocol(Pool.address, 0, 0))
+        assert.ok(previous instanceof SwapErrors.NotFactoryOwner)
+    })
+
+    it('takes exactly the protocol share out of LP fees', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, ownerClient } = fixture
+        const start = await networkHelpers.takeSnapshot()
+
+        const off = await swapBothWays(fixture)
+        const lpFeesOff = await lpFees(fixture)
+        assert.ok(off.every((swap) => swap.protocolFee === 0n))
+
+        await start.restore()
+        await ownerClient.setFeeProtocol(Pool.address, 4, 6)
+        const on = await swapBothWays(fixture)
+        const lpFeesOn = await lpFees(fixture)
+
+        // 交易者的成交结果不受影响，协议从手续费中拿走 1/4（token0）与 1/6（token1）
+        assert.deepEqual(
+            on.map((swap) => swap.amountOut),
+            off.map((swap) => swap.amountOut)
+        )
+        assert.deepEqual(
+            on.map((swap) => swap.protocolFee),
+            [off[0].feeAmount / 4n, off[1].feeAmount / 6n]
+        )
+        const { protocolFees0, protocolFees1 } = await ownerClient.getProtocolFees(Pool.address)
+        assert.deepEqual([protocolFees0, protocolFees1], [on[0].protocolFee, on[1].protocolFee])
+        // LP 提取的手续费减少的正是协议份额，误差只来自 feeGrowth 的向下取整
+        for (const [i, protocolFee] of [protocolFees0, protocolFees1].entries()) {
+            const drop = lpFeesOff[i] - lpFeesOn[i]
+            assert.ok(drop >= protocolFee - 1n && drop <= protocolFee + 1n, `token${i}: ${drop} vs ${protocolFee}`)
+        }
+    })
+
+    it('collects protocol fees through the admin tasks', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, token1, Pool, treasury, ownerClient, ownerCtx, traderCtx } = fixture
+
+        const set = await setFeeProtocol(ownerCtx, {
+            tokenA: 'TTA',
+            tokenB: 'TTB',
+            indexPath: '',
+            feeProtocol0: 5,
+            feeProtocol1: 0
+        })
+        assert.equal(set.length, 1)
+        assert.equal(set[0].protocolShare0, '1/5')
+        assert.equal(set[0].protocolShare1, 'off')
+        await assert.rejects(
+            setFeeProtocol(traderCtx, { tokenA: '', tokenB: '', indexPath: '', feeProtocol0: 0, feeProtocol1: 0 }),
+            /is not the PoolManager owner/
+        )
+
+        const [swap] = await swapBothWays(fixture)
+        const [status] = await protocolStatus(ownerCtx, { tokenA: '', tokenB: '', indexPath: '0' })
+        assert.equal(status.protocolShare0, '1/5')
+        assert.equal(status.protocolFees1, '0')
+        assert.ok(swap.protocolFee > 0n)
+
+        const recipient = treasury.account.address
+        const [collected] = await collectProtocol(ownerCtx, { tokenA: '', tokenB: '', indexPath: '', recipient })
+        assert.equal(collected.pool, Pool.address)
+        assert.equal(await token0.read.balanceOf([recipient]), swap.protocolFee)
+        assert.equal(await token1.read.balanceOf([recipient]), 0n)
+        assert.deepEqual(await collectProtocol(ownerCtx, { tokenA: '', tokenB: '', indexPath: '', recipient }), [])
+
+        // 直接调用时请求数量超过累计值按累计值提取
+        await swapBothWays(fixture)
+        const { protocolFees0 } = await ownerClient.getProtocolFees(Pool.address)
+        const hash = await Pool.write.collectProtocol([recipient, 1n, maxUint128])
+        const receipt = await publicClient.getTransactionReceipt({ hash })
+        const [event] = parseEventLogs({ abi: poolAbi, logs: receipt.logs, eventName: 'CollectProtocol' })
+        assert.equal(event.args.amount0, 1n)
+        assert.equal(event.args.amount1, 0n)
+        assert.equal((await ownerClient.getProtocolFees(Pool.address)).protocolFees0, protocolFees0 - 1n)
+    })
+})
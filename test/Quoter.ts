@@ -0,0 +1,247 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import {
+    type PublicClient,
+    createPublicClient,
+    custom,
+    encodeAbiParameters,
+    getAddress,
+    maxUint256,
+    parseAbiParameters,
+    parseEther
+} from 'viem'
+
+import {
+    Q128,
+    type QuoteBreakdown,
+    SwapErrors,
+    defaultSqrtPriceLimitX96,
+    encodeSqrtRatioX96,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    mulDiv,
+    quoteBatch,
+    quoteCurve,
+    quoteWithBreakdown
+} from '../sdk/index.js'
+import { deployExchange, rejection } from './helpers.js'
+
+describe('Quoter', async () => {
+    const { viem: hviem, networkHelpers, provider } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    // 同一代币对的两个池子：价格都为 1，池子 0 的区间较窄、流动性较少
+    const deployFixture = async () => {
+        const { token0, token1, PoolManager, SwapRouter, connect } = await deployExchange(hviem, publicClient)
+        const Quoter = await hviem.deployContract('Quoter', [PoolManager.address])
+
+        const [lp] = await hviem.getWalletClients()
+        await token0.write.mint([lp.account.address, parseEther('1000000')])
+        await token1.write.mint([lp.account.address, parseEther('1000000')])
+        const client = connect(lp)
+        const ranges: [bigint, bigint, bigint][] = [
+            [9n, 10n, parseEther('100')],
+            [1n, 4n, parseEther('1000')]
+        ]
+        for (const [index, [lower, upper, amount]] of ranges.entries()) {
+            await client.createPool({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                fee: 3000,
+                tickLower: getTickAtSqrtRatio(encodeSqrtRatioX96(lower, upper)),
+                tickUpper: getTickAtSqrtRatio(encodeSqrtRatioX96(upper, lower)),
+                sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+            })
+            await client.addLiquidity({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                index,
+                amountADesired: amount,
+                amountBDesired: amount
+            })
+        }
+        const pools = await client.getPairPools(token0.address, token1.address)
+        return { token0, token1, SwapRouter, Quoter, lp, client, pools }
+    }
+
+    it('matches the router quote and the state after a real swap', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { token0, token1, SwapRouter, Quoter, lp, client, pools } = fixture
+        const amountIn = parseEther('1')
+        const quoted = await quoteWithBreakdown(publicClient, Quoter.address, {
+            tokenIn: token0.address,
+            tokenOut: token1.address,
+            indexPath: [0],
+            amount: amountIn
+        })
+        assert.equal(quoted.pools.length, 1)
+        const [poolQuote] = quoted.pools
+        assert.equal(poolQuote.index, 0)
+        assert.equal(poolQuote.amountIn, amountIn)
+        assert.equal(quoted.amountOut, poolQuote.amountOut)
+        assert.equal(quoted.gasEstimate, poolQuote.gasEstimate)
+        assert.ok(poolQuote.gasEstimate > 0n)
+        assert.equal(
+            quoted.amountOut,
+            await client.quote({ tokenIn: token0.address, tokenOut: token1.address, amount: amountIn, indexPath: [0] })
+        )
+        // 精确输入未触及边界时，手续费为输入的 0.3%（向上取整）
+        assert.ok(poolQuote.feeAmount >= (amountIn * 3000n) / 1_000_000n)
+        assert.ok(poolQuote.feeAmount <= (amountIn * 3000n) / 1_000_000n + 1n)
+
+        const Pool = await hviem.getContractAt('Pool', pools[0].pool)
+        const feeGrowthBefore = await Pool.read.feeGrowthGlobal0X128()
+        await token0.write.approve([SwapRouter.address, maxUint256])
+        await SwapRouter.write.exactInput([
+            {
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                indexPath: [0],
+                recipient: lp.account.address,
+                deadline: maxUint256,
+                amountIn,
+                amountOutMinimum: quoted.amountOut,
+                sqrtPriceLimitX96: defaultSqrtPriceLimitX96(true)
+            }
+        ])
+        assert.equal(await Pool.read.sqrtPriceX96(), poolQuote.sqrtPriceX96After)
+        assert.equal(await Pool.read.tick(), poolQuote.tickAfter)
+        assert.equal(
+            (await Pool.read.feeGrowthGlobal0X128()) - feeGrowthBefore,
+            mulDiv(poolQuote.feeAmount, Q128, pools[0].liquidity)
+        )
+    })
+
+    it('breaks down a quote that spills into the next pool', async () => {
+        const { token0, token1, Quoter, client, pools } = await networkHelpers.loadFixture(deployFixture)
+        const sqrtPriceBefore = pools.map((pool) => pool.sqrtPriceX96)
+        for (const side of ['exactIn', 'exactOut'] as const) {
+            const amount = parseEther('300')
+            const quoted = await quoteWithBreakdown(publicClient, Quoter.address, {
+                tokenIn: token1.address,
+                tokenOut: token0.address,
+                indexPath: [0, 1],
+                amount,
+                side
+            })
+            assert.deepEqual(
+                quoted.pools.map((pool) => pool.index),
+                [0, 1]
+            )
+            // 池子 0 的价格被推到区间上界，剩余部分由池子 1 成交
+            assert.equal(quoted.pools[0].sqrtPriceX96After, getSqrtRatioAtTick(pools[0].tickUpper))
+            assert.equal(quoted.pools[0].tickAfter, pools[0].tickUpper)
+            assert.ok(quoted.pools[1].sqrtPriceX96After > sqrtPriceBefore[1])
+            const sum = (key: 'amountIn' | 'amountOut' | 'feeAmount' | 'gasEstimate') =>
+                quoted.pools.reduce((total, pool) => total + pool[key], 0n)
+            assert.equal(quoted.amountIn, sum('amountIn'))
+            assert.equal(quoted.amountOut, sum('amountOut'))
+            assert.equal(quoted.gasEstimate, sum('gasEstimate'))
+            assert.ok(sum('feeAmount') > 0n)
+            assert.equal(side === 'exactIn' ? quoted.amountIn : quoted.amountOut, amount)
+            assert.equal(
+                side === 'exactIn' ? quoted.amountOut : quoted.amountIn,
+                await client.quote({ tokenIn: token1.address, tokenOut: token0.address, amount, side })
+            )
+        }
+        // 报价不改变池子状态
+        const after = await client.getPairPools(token0.address, token1.address)
+        assert.deepEqual(
+            after.map((pool) => pool.sqrtPriceX96),
+            sqrtPriceBefore
+        )
+    })
+
+    it('quotes many sizes and directions in a single eth_call', async () => {
+        const { token0, token1, Quoter } = await networkHelpers.loadFixture(deployFixture)
+        const methods: string[] = []
+        const countingClient = createPublicClient({
+            chain: publicClient.chain,
+            transport: custom({
+                request: ({ method, params }) => {
+                    methods.push(method)
+                    return provider.request({ method, params })
+                }
+            })
+        }) as PublicClient
+
+        const amounts = [1n, 10n, 100n, 500n].map((amount) => parseEther(amount.toString()))
+        const curve = await quoteCurve(countingClient, Quoter.address, {
+            tokenA: token0.address,
+            tokenB: token1.address,
+            indexPath: [0, 1],
+            amounts
+        })
+        assert.deepEqual(methods, ['eth_call'])
+
+        for (const [tokenIn, tokenOut, points] of [
+            [token0, token1, curve.aToB],
+            [token1, token0, curve.bToA]
+        ] as const) {
+            assert.deepEqual(
+                points.map((point) => point.amount),
+                amounts
+            )
+            // 数量越大，平均成交价格越差
+            const rates = points.map(({ quote }) => Number((quote.amountOut * 10n ** 18n) / quote.amountIn))
+            assert.deepEqual(
+                rates,
+                [...rates].sort((a, b) => b - a)
+            )
+            assert.ok(rates[0] > rates[rates.length - 1])
+
+            const single = await quoteWithBreakdown(publicClient, Quoter.address, {
+                tokenIn: tokenIn.address,
+                tokenOut: tokenOut.address,
+                indexPath: [0, 1],
+                amount: amounts[2]
+            })
+            // 同一调用中先前的报价已预热池子的存储，gas 估算可能略有差异
+            const withoutGas = ({ gasEstimate, pools, ...rest }: QuoteBreakdown) => ({
+                ...rest,
+                pools: pools.map(({ gasEstimate, ...pool }) => pool)
+            })
+            assert.deepEqual(withoutGas(points[2].quote), withoutGas(single))
+        }
+
+        const mixed = await quoteBatch(publicClient, Quoter.address, [
+            { tokenIn: token0.address, tokenOut: token1.address, indexPath: [1], amount: parseEther('5') },
+            {
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                indexPath: [1],
+                amount: parseEther('5'),
+                side: 'exactOut'
+            }
+        ])
+        assert.equal(mixed[0].amountIn, parseEther('5'))
+        assert.equal(mixed[1].amountOut, parseEther('5'))
+        assert.ok(mixed[1].amountIn > mixed[0].amountIn)
+    })
+
+    it('rejects unknown pools and foreign callbacks', async () => {
+        const { token0, token1, Quoter, lp } = await networkHelpers.loadFixture(deployFixture)
+        const missing = await rejection(
+            quoteWithBreakdown(publicClient, Quoter.address, {
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                indexPath: [1, 2],
+                amount: parseEther('5000')
+            })
+        )
+        assert.ok(missing instanceof SwapErrors.PoolNotFound)
+        assert.equal(missing.index, 2)
+
+        const data = encodeAbiParameters(parseAbiParameters('address, address, uint32'), [
+            token0.address,
+            token1.address,
+            0
+        ])
+        const callback = await rejection(Quoter.read.swapCallback([1n, -1n, data], { account: lp.account }))
+        assert.ok(callback instanceof SwapErrors.UnauthorizedCallback)
+        assert.equal(callback.caller, getAddress(lp.account.address))
+    })
+})
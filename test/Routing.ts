@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+
+import { SwapClient, buildRouteCalls, findBestRoute } from '../sdk/index.js'
+
+describe('Routing', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = await hviem.getPublicClient()
+
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+        const token0 = TTA.address < TTB.address ? TTA : TTB
+        const token1 = TTA.address < TTB.address ? TTB : TTA
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+
+        const [walletClient] = await hviem.getWalletClients()
+        const sender = walletClient.account.address
+        const initBalanceValue = 10n ** 12n * 10n ** 18n
+        await token0.write.mint([sender, initBalanceValue])
+        await token1.write.mint([sender, initBalanceValue])
+
+        const client = new SwapClient({
+            publicClient,
+            walletClient,
+            addresses: {
+                poolManager: PoolManager.address,
+                swapRouter: SwapRouter.address,
+                positionManager: PositionManager.address
+            }
+        })
+
+        // 两个池子价格、区间和流动性相同，index 0 的费率更高
+        const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1))
+        const tickUpper = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1))
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(10000, 1).toString())
+        for (const [index, fee] of [10000, 3000].entries()) {
+            await client.createPool({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                fee,
+                tickLower,
+                tickUpper,
+                sqrtPriceX96
+            })
+            await client.addLiquidity({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                index,
+                amountADesired: 1000n * 10n ** 18n,
+                amountBDesired: 1000n * 10000n * 10n ** 18n
+            })
+        }
+
+        return { client, token0, token1, sender }
+    }
+
+    describe('exactIn', async () => {
+        it('routes a small trade to the cheaper pool only', async () => {
+            const { client, token0, token1 } = await networkHelpers.loadFixture(deployFixture)
+            const params = { tokenIn: token0.address, tokenOut: token1.address, amount: 10n ** 18n }
+
+            const route = await client.findRoute(params)
+            assert.equal(route.split, false)
+            assert.deepEqual(route.indexPath, [1])
+
+            const naive = await client.quote({ ...params, indexPath: [0, 1] })
+            assert.ok(route.amountOut > naive)
+            // 路由结果与 SwapRouter 的报价一致
+            assert.equal(route.amountOut, await client.quote({ ...params, indexPath: route.indexPath }))
+
+            const { amountOut } = await client.swapRoute(route)
+            assert.equal(amountOut, route.amountOut)
+        })
+
+        it('splits a large trade across pools and beats both orderings', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            const params = { tokenIn: token0.address, tokenOut: token1.address, amount: 500n * 10n ** 18n }
+
+            const route = await client.findRoute(params)
+            assert.equal(route.split, true)
+            assert.equal(route.allocations.length, 2)
+            assert.equal(route.amountIn, params.amount)
+
+            for (const indexPath of [[0, 1], [1, 0]]) {
+                assert.ok(route.amountOut > (await client.quote({ ...params, indexPath })))
+            }
+
+            const before = await token1.read.balanceOf([sender])
+            const { hashes, amountOut } = await client.swapRoute(route)
+            assert.equal(hashes.length, 2)
+            assert.equal(amountOut, route.amountOut)
+            assert.equal((await token1.read.balanceOf([sender])) - before, route.amountOut)
+        })
+    })
+
+    describe('exactOut', async () => {
+        it('needs less input than the naive ordering', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            const params = {
+                tokenIn: token1.address,
+                tokenOut: token0.address,
+                amount: 300n * 10n ** 18n,
+                side: 'exactOut' as const
+            }
+
+            const route = await client.findRoute(params)
+            assert.equal(route.amountOut, params.amount)
+            assert.ok(route.amountIn < (await client.quote({ ...params, indexPath: [0, 1] })))
+
+            const before = await token1.read.balanceOf([sender])
+            const { amountIn } = await client.swapRoute(route)
+            assert.equal(amountIn, route.amountIn)
+            assert.equal(before - (await token1.read.balanceOf([sender])), route.amountIn)
+        })
+    })
+
+    describe('params', async () => {
+        it('builds one router call per pool when split', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            const pools = await client.getPools()
+            const route = findBestRoute(pools, {
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amount: 500n * 10n ** 18n
+            })
+            const calls = buildRouteCalls(route, { recipient: sender, deadline: 1n })
+            assert.deepEqual(
+                calls.map((call) => call.functionName),
+                ['exactInput', 'exactInput']
+            )
+            assert.deepEqual(
+                calls.map((call) => call.args[0].indexPath),
+                route.allocations.map((item) => [item.index])
+            )
+        })
+
+        it('throws when the pair has no pool', async () => {
+            const { client, token0 } = await networkHelpers.loadFixture(deployFixture)
+            const pools = await client.getPools()
+            assert.throws(
+                () => findBestRoute(pools, { tokenIn: token0.address, tokenOut: client.account.address, amount: 1n }),
+                /Routing: pool not found/
+            )
+        })
+    })
+})
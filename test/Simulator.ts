@@ -0,0 +1,213 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+import { type Address, maxUint256, parseEventLogs } from 'viem'
+
+import {
+    MAX_SQRT_RATIO,
+    MIN_SQRT_RATIO,
+    MathError,
+    getSqrtRatioAtTick,
+    getTickAtSqrtRatio,
+    poolAbi,
+    simulateSwap
+} from '../sdk/index.js'
+
+// 可复现的伪随机数（mulberry32）
+const createRandom = (seed: number) => {
+    let state = seed >>> 0
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+    const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+    const bigint = (min: bigint, max: bigint) => {
+        let value = 0n
+        for (let i = 0; i < 8; i++) {
+            value = (value << 32n) | BigInt(int(0, 0xffffffff))
+        }
+        return min + (value % (max - min + 1n))
+    }
+    return { next, int, bigint }
+}
+
+describe('Simulator', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect()
+    const publicClient = await hviem.getPublicClient()
+
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TestToken')
+        const TTB = await hviem.deployContract('TestToken')
+        const token0 = TTA.address < TTB.address ? TTA : TTB
+        const token1 = TTA.address < TTB.address ? TTB : TTA
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const TestLP = await hviem.deployContract('TestLP')
+
+        // 两个不同费率和区间的池子，价格均为 1 token0 = 10000 token1
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(10000, 1).toString())
+        const configs = [
+            { fee: 3000, low: 1, high: 40000 },
+            { fee: 500, low: 5000, high: 20000 }
+        ]
+        for (const { fee, low, high } of configs) {
+            await PoolManager.write.createPoolIfNecessary([
+                {
+                    token0: token0.address,
+                    token1: token1.address,
+                    fee,
+                    tickLower: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(low, 1)),
+                    tickUpper: TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(high, 1)),
+                    sqrtPriceX96
+                }
+            ])
+        }
+
+        const initBalanceValue = 10n ** 40n
+        await token0.write.mint([TestLP.address, initBalanceValue])
+        await token1.write.mint([TestLP.address, initBalanceValue])
+        const pools: Address[] = []
+        for (let index = 0; index < configs.length; index++) {
+            const address = await PoolManager.read.getPool([token0.address, token1.address, index])
+            await TestLP.write.mint([TestLP.address, 10n ** 26n, address, token0.address, token1.address])
+            pools.push(address)
+        }
+        // 第二个池子开启协议手续费，模拟器需按 PoolInfo.feeProtocol 拆分手续费
+        const feePool = await hviem.getContractAt('Pool', pools[1])
+        await feePool.write.setFeeProtocol([4, 7])
+
+        const [owner] = await hviem.getWalletClients()
+        const sender = owner.account.address
+        await token0.write.mint([sender, initBalanceValue])
+        await token1.write.mint([sender, initBalanceValue])
+        await token0.write.approve([SwapRouter.address, maxUint256])
+        await token1.write.approve([SwapRouter.address, maxUint256])
+
+        return { PoolManager, SwapRouter, token0, token1, pools, sender }
+    }
+
+    // 读取 getAllPools 中的状态并补充 feeGrowth
+    const readState = async (PoolManager: any, pool: Address) => {
+        const info = (await PoolManager.read.getAllPools()).find((item: any) => item.pool === pool)
+        const [feeGrowthGlobal0X128, feeGrowthGlobal1X128] = await Promise.all([
+            publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeGrowthGlobal0X128' }),
+            publicClient.readContract({ address: pool, abi: poolAbi, functionName: 'feeGrowthGlobal1X128' })
+        ])
+        return { ...info, feeGrowthGlobal0X128, feeGrowthGlobal1X128 }
+    }
+
+    describe('math', async () => {
+        it('matches TickMath of @uniswap/v3-sdk', async () => {
+            const random = createRandom(1)
+            for (let i = 0; i < 200; i++) {
+                const tick = random.int(TickMath.MIN_TICK, TickMath.MAX_TICK)
+                const sqrtRatioX96 = TickMath.getSqrtRatioAtTick(tick)
+                assert.equal(getSqrtRatioAtTick(tick), BigInt(sqrtRatioX96.toString()))
+                assert.equal(
+                    getTickAtSqrtRatio(BigInt(sqrtRatioX96.toString())),
+                    TickMath.getTickAtSqrtRatio(sqrtRatioX96)
+                )
+
+                // 任意价格落在 [sqrt(tick), sqrt(tick + 1)) 之间
+                const sqrtPriceX96 = random.bigint(MIN_SQRT_RATIO, MAX_SQRT_RATIO - 1n)
+                const found = getTickAtSqrtRatio(sqrtPriceX96)
+                assert.ok(getSqrtRatioAtTick(found) <= sqrtPriceX96)
+                assert.ok(found === TickMath.MAX_TICK - 1 || getSqrtRatioAtTick(found + 1) > sqrtPriceX96)
+            }
+        })
+    })
+
+    describe('differential', async () => {
+        it('reproduces Pool.swap for random inputs', async () => {
+            const { PoolManager, SwapRouter, token0, token1, pools, sender } =
+                await networkHelpers.loadFixture(deployFixture)
+            const random = createRandom(20240601)
+
+            let reverted = 0
+            for (let i = 0; i < 60; i++) {
+                const index = random.int(0, pools.length - 1)
+                const pool = pools[index]
+                const zeroForOne = random.next() < 0.5
+                const exactInput = random.next() < 0.5
+                const amount = 10n ** BigInt(random.int(3, 23)) * BigInt(random.int(1, 9))
+
+                const state = await readState(PoolManager, pool)
+                // 多数情况使用极限价格，部分使用区间内的随机限价，少量使用非法方向
+                const bound = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n
+                const roll = random.next()
+                const sqrtPriceLimitX96 =
+                    roll < 0.6
+                        ? bound
+                        : roll < 0.9
+                          ? zeroForOne
+                              ? random.bigint(getSqrtRatioAtTick(state.tickLower), state.sqrtPriceX96 - 1n)
+                              : random.bigint(state.sqrtPriceX96 + 1n, getSqrtRatioAtTick(state.tickUpper))
+                          : state.sqrtPriceX96
+
+                const params = {
+                    tokenIn: zeroForOne ? token0.address : token1.address,
+                    tokenOut: zeroForOne ? token1.address : token0.address,
+                    indexPath: [index],
+                    recipient: sender,
+                    deadline: maxUint256,
+                    sqrtPriceLimitX96
+                }
+
+                const swap = () =>
+                    exactInput
+                        ? SwapRouter.write.exactInput([{ ...params, amountIn: amount, amountOutMinimum: 0n }])
+                        : SwapRouter.write.exactOutput([{ ...params, amountOut: amount, amountInMaximum: maxUint256 }])
+
+                let expected
+                try {
+                    expected = simulateSwap(state, {
+                        zeroForOne,
+                        amountSpecified: exactInput ? amount : -amount,
+                        sqrtPriceLimitX96
+                    })
+                } catch (error) {
+                    assert.ok(error instanceof MathError)
+                    await assert.rejects(swap())
+                    reverted++
+                    continue
+                }
+
+                const receipt = await publicClient.waitForTransactionReceipt({ hash: await swap() })
+                const [event] = parseEventLogs({ abi: poolAbi, logs: receipt.logs, eventName: 'Swap' })
+
+                assert.equal(event.args.amount0, expected.amount0, `step ${i}: amount0`)
+                assert.equal(event.args.amount1, expected.amount1, `step ${i}: amount1`)
+                assert.equal(event.args.sqrtPriceX96, expected.sqrtPriceX96, `step ${i}: sqrtPriceX96`)
+                assert.equal(event.args.tick, expected.tick, `step ${i}: tick`)
+
+                const after = await readState(PoolManager, pool)
+                assert.equal(after.sqrtPriceX96, expected.sqrtPriceX96)
+                assert.equal(after.tick, expected.tick)
+                assert.equal(after.liquidity, expected.liquidity)
+                assert.equal(after.feeGrowthGlobal0X128, expected.feeGrowthGlobal0X128, `step ${i}: feeGrowth0`)
+                assert.equal(after.feeGrowthGlobal1X128, expected.feeGrowthGlobal1X128, `step ${i}: feeGrowth1`)
+            }
+            // 非法限价的分支也需要被覆盖到
+            assert.ok(reverted > 0)
+        })
+
+        it('rejects a zero amount like Pool.swap', async () => {
+            assert.throws(
+                () =>
+                    simulateSwap(
+                        { sqrtPriceX96: 2n ** 96n, liquidity: 1n, fee: 3000, tickLower: -10, tickUpper: 10 },
+                        { zeroForOne: true, amountSpecified: 0n, sqrtPriceLimitX96: MIN_SQRT_RATIO + 1n }
+                    ),
+                /ZeroAmount/
+            )
+        })
+    })
+})
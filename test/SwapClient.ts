@@ -0,0 +1,253 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import { TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
+import assert from 'node:assert/strict'
+import { getAddress } from 'viem'
+
+import { SwapClient, decodeRevert, invertSqrtPriceX96, isSwapError } from '../sdk/index.js'
+
+describe('SwapClient', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = await hviem.getPublicClient()
+
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+        const token0 = TTA.address < TTB.address ? TTA : TTB
+        const token1 = TTA.address < TTB.address ? TTB : TTA
+
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+
+        const [walletClient] = await hviem.getWalletClients()
+        const sender = walletClient.account.address
+        const initBalanceValue = 10n ** 12n * 10n ** 18n
+        await token0.write.mint([sender, initBalanceValue])
+        await token1.write.mint([sender, initBalanceValue])
+
+        const client = new SwapClient({
+            publicClient,
+            walletClient,
+            addresses: {
+                poolManager: PoolManager.address,
+                swapRouter: SwapRouter.address,
+                positionManager: PositionManager.address
+            }
+        })
+
+        // 按 1 token0 = 10000 token1 建两个不同费率的池子
+        const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 1))
+        const tickUpper = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(40000, 1))
+        const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(10000, 1).toString())
+        for (const fee of [3000, 10000]) {
+            await client.createPool({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                fee,
+                tickLower,
+                tickUpper,
+                sqrtPriceX96
+            })
+        }
+
+        return { client, token0, token1, sender, PoolManager, SwapRouter, PositionManager }
+    }
+
+    describe('pools', async () => {
+        it('lists pools of a pair in index order', async () => {
+            const { client, token0, token1 } = await networkHelpers.loadFixture(deployFixture)
+            const pools = await client.getPairPools(token1.address, token0.address)
+            assert.equal(pools.length, 2)
+            assert.deepEqual(
+                pools.map((pool) => [pool.index, pool.fee]),
+                [
+                    [0, 3000],
+                    [1, 10000]
+                ]
+            )
+            assert.equal(pools[1].pool, await client.getPoolAddress(token1.address, token0.address, 1))
+        })
+
+        it('mirrors range and price when tokens are given in reverse order', async () => {
+            const { client, token0, token1 } = await networkHelpers.loadFixture(deployFixture)
+            // 以 token0 计价 token1：价格 1/10000，区间 [1/40000, 1]
+            const tickLower = TickMath.getTickAtSqrtRatio(encodeSqrtRatioX96(1, 40000))
+            const sqrtPriceX96 = BigInt(encodeSqrtRatioX96(1, 10000).toString())
+            const { pool } = await client.createPool({
+                tokenA: token1.address,
+                tokenB: token0.address,
+                fee: 500,
+                tickLower,
+                tickUpper: 0,
+                sqrtPriceX96
+            })
+            const info = (await client.getPools()).find((item) => item.pool === pool)
+            assert.ok(info)
+            assert.equal(info.token0, getAddress(token0.address))
+            assert.equal(info.tickLower, 0)
+            assert.equal(info.tickUpper, -tickLower)
+            assert.equal(info.sqrtPriceX96, invertSqrtPriceX96(sqrtPriceX96))
+        })
+    })
+
+    describe('liquidity', async () => {
+        it('adds liquidity with amounts in caller order', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            const { positionId, amountA, amountB, liquidity } = await client.addLiquidity({
+                tokenA: token1.address,
+                tokenB: token0.address,
+                index: 0,
+                amountADesired: 1000n * 10n ** 18n,
+                amountBDesired: 1000n * 10n ** 18n
+            })
+            assert.equal(positionId, 1n)
+            assert.ok(liquidity > 0n)
+            // 价格为 10000，token0 只需投入很少一部分
+            assert.ok(amountB < amountA)
+
+            const positions = await client.listPositions(sender)
+            assert.equal(positions.length, 1)
+            assert.equal(positions[0].liquidity, liquidity)
+            assert.equal(positions[0].token0, getAddress(token0.address))
+            assert.deepEqual(await client.listPositions('0x0000000000000000000000000000000000000001'), [])
+        })
+
+        it('removes liquidity and collects tokens', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            const balanceBefore = await token0.read.balanceOf([sender])
+            const { positionId, amountA } = await client.addLiquidity({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                index: 0,
+                amountADesired: 1000n * 10n ** 18n,
+                amountBDesired: 1000n * 10n ** 18n
+            })
+            assert.equal(await token0.read.balanceOf([sender]), balanceBefore - amountA)
+
+            const burned = await client.removeLiquidity(positionId)
+            assert.ok(burned.amount0 > 0n)
+            await client.collect(positionId)
+            // collect 为避免精度问题会少提 1 wei
+            assert.ok(balanceBefore - (await token0.read.balanceOf([sender])) <= 2n)
+        })
+
+        it('rejects an expired deadline', async () => {
+            const { client, token0, token1 } = await networkHelpers.loadFixture(deployFixture)
+            const deadline = await client.deadline(0n)
+            await networkHelpers.time.increase(10)
+            await assert.rejects(
+                client.addLiquidity({
+                    tokenA: token0.address,
+                    tokenB: token1.address,
+                    index: 0,
+                    amountADesired: 10n ** 18n,
+                    amountBDesired: 10n ** 18n,
+                    deadline
+                }),
+                (error) => isSwapError(decodeRevert(error), 'TransactionTooOld')
+            )
+        })
+    })
+
+    describe('swap', async () => {
+        it('quotes and swaps exact input across all pools', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            for (const index of [0, 1]) {
+                await client.addLiquidity({
+                    tokenA: token0.address,
+                    tokenB: token1.address,
+                    index,
+                    amountADesired: 10n ** 24n,
+                    amountBDesired: 10n ** 24n
+                })
+            }
+            const amountIn = 10n * 10n ** 18n
+            const quoted = await client.quote({ tokenIn: token0.address, tokenOut: token1.address, amount: amountIn })
+            const balanceBefore = await token1.read.balanceOf([sender])
+            const { amountOut } = await client.swapExactIn({
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amountIn
+            })
+            assert.equal(amountOut, quoted)
+            assert.equal((await token1.read.balanceOf([sender])) - balanceBefore, amountOut)
+        })
+
+        it('quotes and swaps exact output', async () => {
+            const { client, token0, token1, sender } = await networkHelpers.loadFixture(deployFixture)
+            await client.addLiquidity({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                index: 0,
+                amountADesired: 10n ** 24n,
+                amountBDesired: 10n ** 24n
+            })
+            const amountOut = 10n ** 18n
+            const quoted = await client.quote({
+                tokenIn: token1.address,
+                tokenOut: token0.address,
+                amount: amountOut,
+                side: 'exactOut',
+                indexPath: [0]
+            })
+            const balanceBefore = await token0.read.balanceOf([sender])
+            const { amountIn } = await client.swapExactOut({
+                tokenIn: token1.address,
+                tokenOut: token0.address,
+                amountOut,
+                indexPath: [0]
+            })
+            assert.equal(amountIn, quoted)
+            assert.equal((await token0.read.balanceOf([sender])) - balanceBefore, amountOut)
+        })
+
+        it('rejects an expired deadline', async () => {
+            const { client, token0, token1 } = await networkHelpers.loadFixture(deployFixture)
+            await client.addLiquidity({
+                tokenA: token0.address,
+                tokenB: token1.address,
+                index: 0,
+                amountADesired: 10n ** 24n,
+                amountBDesired: 10n ** 24n
+            })
+            const deadline = await client.deadline(0n)
+            await networkHelpers.time.increase(10)
+            const expired = (error: unknown) => isSwapError(decodeRevert(error), 'TransactionTooOld')
+            await assert.rejects(
+                client.swapExactIn({
+                    tokenIn: token0.address,
+                    tokenOut: token1.address,
+                    amountIn: 10n ** 18n,
+                    amountOutMinimum: 0n,
+                    indexPath: [0],
+                    deadline
+                }),
+                expired
+            )
+            await assert.rejects(
+                client.swapExactOut({
+                    tokenIn: token1.address,
+                    tokenOut: token0.address,
+                    amountOut: 10n ** 18n,
+                    amountInMaximum: 10n ** 24n,
+                    indexPath: [0],
+                    deadline
+                }),
+                expired
+            )
+            // 未过期时同样的交易可以成交
+            const { amountOut } = await client.swapExactIn({
+                tokenIn: token0.address,
+                tokenOut: token1.address,
+                amountIn: 10n ** 18n,
+                indexPath: [0],
+                deadline: await client.deadline()
+            })
+            assert.ok(amountOut > 0n)
+        })
+    })
+})
@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test'
+
+import { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type PublicClient, maxUint256, parseEther } from 'viem'
+
+import {
+    MAX_SQRT_RATIO,
+    MIN_SQRT_RATIO,
+    SwapErrors,
+    assertDeadline,
+    decodeRevert,
+    deadlineFromChain,
+    encodeSqrtRatioX96,
+    getSqrtRatioAtTick,
+    isValidSqrtPriceLimit,
+    maximumAmountIn,
+    minimumAmountOut,
+    sqrtPriceLimitX96For
+} from '../sdk/index.js'
+import { deployExchange } from './helpers.js'
+
+describe('SwapPolicy', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+
+    const TICK_LOWER = -6932
+    const TICK_UPPER = 6932
+
+    const deployFixture = async () => {
+        const { token0, token1, SwapRouter, connect } = await deployExchange(hviem, publicClient)
+        const [walletClient] = await hviem.getWalletClients()
+        const client = connect(walletClient)
+        for (const token of [token0, token1]) {
+            await token.write.mint([walletClient.account.address, parseEther('1000000')])
+            await token.write.approve([SwapRouter.address, maxUint256])
+        }
+        const { pool } = await client.createPool({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            fee: 3000,
+            tickLower: TICK_LOWER,
+            tickUpper: TICK_UPPER,
+            sqrtPriceX96: encodeSqrtRatioX96(1n, 1n)
+        })
+        await client.addLiquidity({
+            tokenA: token0.address,
+            tokenB: token1.address,
+            index: 0,
+            amountADesired: parseEther('100'),
+            amountBDesired: parseEther('100')
+        })
+        const Pool = await hviem.getContractAt('Pool', pool)
+        return { token0, token1, SwapRouter, Pool, client }
+    }
+
+    // 通过 eth_call 执行一次精确输入交易，返回 revert 的错误（成功时为 undefined）
+    const trySwap = async (
+        { token0, token1, SwapRouter }: Awaited<ReturnType<typeof deployFixture>>,
+        zeroForOne: boolean,
+        sqrtPriceLimitX96: bigint
+    ) => {
+        const [tokenIn, tokenOut] = zeroForOne ? [token0, token1] : [token1, token0]
+        return SwapRouter.simulate
+            .exactInput([
+                {
+                    tokenIn: tokenIn.address,
+                    tokenOut: tokenOut.address,
+                    indexPath: [0],
+                    recipient: tokenIn.address,
+                    deadline: maxUint256,
+                    amountIn: parseEther('1'),
+                    amountOutMinimum: 0n,
+                    sqrtPriceLimitX96
+                }
+            ])
+            .then(
+                () => undefined,
+                (error) => decodeRevert(error)
+            )
+    }
+
+    it('turns quotes into amount limits', () => {
+        assert.equal(minimumAmountOut(10000n, 50), 9950n)
+        assert.equal(minimumAmountOut(999n, 1), 998n)
+        assert.equal(minimumAmountOut(10000n, 0), 10000n)
+        assert.equal(maximumAmountIn(10000n, 50), 10050n)
+        // 上限向上取整，下限向下取整，舍入方向都偏向保护调用方
+        assert.equal(maximumAmountIn(999n, 1), 1000n)
+        assert.equal(minimumAmountOut(1n, 10000), 0n)
+        for (const bps of [-1, 10001, 0.5, Number.NaN]) {
+            assert.throws(() => minimumAmountOut(1n, bps), /basis points/)
+            assert.throws(() => maximumAmountIn(1n, bps), /basis points/)
+        }
+    })
+
+    it('agrees with Pool.swap on which price limits are valid', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const sqrtPriceX96 = await fixture.Pool.read.sqrtPriceX96()
+        const candidates = [
+            MIN_SQRT_RATIO,
+            MIN_SQRT_RATIO + 1n,
+            getSqrtRatioAtTick(TICK_LOWER),
+            sqrtPriceX96 - 1n,
+            sqrtPriceX96,
+            sqrtPriceX96 + 1n,
+            getSqrtRatioAtTick(TICK_UPPER),
+            MAX_SQRT_RATIO - 1n,
+            MAX_SQRT_RATIO
+        ]
+        for (const zeroForOne of [true, false]) {
+            for (const limit of candidates) {
+                const error = await trySwap(fixture, zeroForOne, limit)
+                const rejected = error instanceof SwapErrors.InvalidSqrtPriceLimit
+                const valid = isValidSqrtPriceLimit(zeroForOne, limit, sqrtPriceX96)
+                assert.equal(valid, !rejected, `${zeroForOne} ${limit}`)
+                assert.ok(rejected || error === undefined, `${error}`)
+            }
+        }
+    })
+
+    it('derives price limits inside the pool range for each direction', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool } = fixture
+        const sqrtPriceX96 = await Pool.read.sqrtPriceX96()
+        const range = { sqrtPriceX96, tickLower: TICK_LOWER, tickUpper: TICK_UPPER }
+
+        // 不限制价格变动时取池子区间的边界
+        assert.equal(sqrtPriceLimitX96For({ ...range, zeroForOne: true }), getSqrtRatioAtTick(TICK_LOWER))
+        assert.equal(sqrtPriceLimitX96For({ ...range, zeroForOne: false }), getSqrtRatioAtTick(TICK_UPPER))
+        // 1% 的价格变动对应 sqrtPrice 变动约 0.5%
+        const down = sqrtPriceLimitX96For({ ...range, zeroForOne: true, priceImpactBps: 100 })
+        const up = sqrtPriceLimitX96For({ ...range, zeroForOne: false, priceImpactBps: 100 })
+        assert.equal((down * down * 10000n) / (sqrtPriceX96 * sqrtPriceX96), 9899n)
+        assert.equal((up * up * 10000n) / (sqrtPriceX96 * sqrtPriceX96), 10099n)
+        // 价格变动超出区间时截断到区间边界
+        assert.equal(
+            sqrtPriceLimitX96For({ ...range, zeroForOne: true, priceImpactBps: 9000 }),
+            getSqrtRatioAtTick(TICK_LOWER)
+        )
+        // 区间为全范围时不会返回 Pool.swap 不接受的 MIN_SQRT_RATIO / MAX_SQRT_RATIO
+        const full = { sqrtPriceX96, tickLower: -887272, tickUpper: 887272 }
+        assert.equal(sqrtPriceLimitX96For({ ...full, zeroForOne: true }), MIN_SQRT_RATIO + 1n)
+        assert.equal(sqrtPriceLimitX96For({ ...full, zeroForOne: false }), MAX_SQRT_RATIO - 1n)
+        assert.throws(() => sqrtPriceLimitX96For({ ...range, zeroForOne: true, priceImpactBps: 0 }), /No valid/)
+
+        // 按限价成交后价格停在限价上
+        const [tokenIn, tokenOut] = [fixture.token0, fixture.token1]
+        await fixture.SwapRouter.write.exactInput([
+            {
+                tokenIn: tokenIn.address,
+                tokenOut: tokenOut.address,
+                indexPath: [0],
+                recipient: tokenIn.address,
+                deadline: maxUint256,
+                amountIn: parseEther('50'),
+                amountOutMinimum: 0n,
+                sqrtPriceLimitX96: down
+            }
+        ])
+        assert.equal(await Pool.read.sqrtPriceX96(), down)
+    })
+
+    it('refuses to derive a limit once the price sits on the range boundary', async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture)
+        const { Pool, client, token0, token1 } = fixture
+        // 买空池子中的 token0，价格停在区间上界
+        await client.swapExactIn({
+            tokenIn: token1.address,
+            tokenOut: token0.address,
+            amountIn: parseEther('1000'),
+            amountOutMinimum: 0n
+        })
+        const sqrtPriceX96 = await Pool.read.sqrtPriceX96()
+        assert.equal(sqrtPriceX96, getSqrtRatioAtTick(TICK_UPPER))
+
+        const range = { sqrtPriceX96, tickLower: TICK_LOWER, tickUpper: TICK_UPPER }
+        assert.throws(() => sqrtPriceLimitX96For({ ...range, zeroForOne: false }), /No valid sqrtPriceLimitX96 above/)
+        // 同样的限价会被 Pool.swap 拒绝
+        const rejected = await trySwap(fixture, false, getSqrtRatioAtTick(TICK_UPPER))
+        assert.ok(rejected instanceof SwapErrors.InvalidSqrtPriceLimit)
+        // 反方向仍可成交
+        const limit = sqrtPriceLimitX96For({ ...range, zeroForOne: true })
+        assert.equal(await trySwap(fixture, true, limit), undefined)
+    })
+
+    it('builds deadlines from chain time in seconds', async () => {
+        await networkHelpers.time.increase(3600 * 24 * 365)
+        const { timestamp } = await publicClient.getBlock()
+        const deadline = await deadlineFromChain(publicClient, 600n)
+        assert.equal(deadline, timestamp + 600n)
+        assert.equal(assertDeadline(deadline, timestamp), deadline)
+        assert.equal(assertDeadline(maxUint256, timestamp), maxUint256)
+
+        // 链上时间已领先本机时钟一年，按 Date.now() 计算的秒级 deadline 已经过期
+        assert.throws(() => assertDeadline(BigInt(Math.floor(Date.now() / 1000) + 600), timestamp), /not after/)
+        assert.throws(() => assertDeadline(BigInt(Date.now() + 1000), timestamp), /milliseconds/)
+        assert.throws(() => assertDeadline(timestamp, timestamp), /not after/)
+        await assert.rejects(deadlineFromChain(publicClient, -1n), /must not be negative/)
+    })
+})
@@ -6,6 +6,8 @@ import { Position, TickMath, encodeSqrtRatioX96 } from '@uniswap/v3-sdk'
 import assert from 'node:assert/strict'
 import { log } from 'node:console'
 
+import { deadlineFromChain, maximumAmountIn, minimumAmountOut, sqrtPriceLimitX96For } from '../sdk/index.js'
+
 describe('SwapRouter', async () => {
     const { viem: hviem, networkHelpers } = await network.connect()
 
@@ -46,7 +48,8 @@ describe('SwapRouter', async () => {
             }
         ])
         // 部署SwapRouter合约
-        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address])
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
         // 部署测试LP
         const TestLP = await hviem.deployContract('TestLP')
         // 初始化LP
@@ -66,33 +69,40 @@ describe('SwapRouter', async () => {
         await TestLP.write.mint([TestLP.address, 50000n * 10n ** 18n, pool2Addr, token0.address, token1.address])
 
         // 准备测试账户
+        const publicClient = await hviem.getPublicClient()
         const [owner] = await hviem.getWalletClients()
         const [sender] = await owner.getAddresses()
 
+        // token0 -> token1 方向的限价，不越过池子的 tickLower
+        const sqrtPriceLimitX96 = sqrtPriceLimitX96For({ zeroForOne: true, sqrtPriceX96, tickLower, tickUpper })
+
         return {
             SwapRouter,
             token0,
             token1,
-            sender
+            sender,
+            publicClient,
+            sqrtPriceLimitX96
         }
     }
 
-    it('functions', async () => {
+    describe('functions', async () => {
         it('exacInput', async () => {
-            const { SwapRouter, token0, token1, sender } = await deployFactoryFixture()
+            const { SwapRouter, token0, token1, sender, publicClient, sqrtPriceLimitX96 } = await deployFactoryFixture()
             await token0.write.mint([sender, 10n ** 12n * 10n ** 18n])
             await token0.write.approve([SwapRouter.address, 100n * 10n ** 18n])
 
+            const route = { tokenIn: token0.address, tokenOut: token1.address, indexPath: [0, 1], sqrtPriceLimitX96 }
+            const { result: quoted } = await SwapRouter.simulate.quoteExactInput([
+                { ...route, amountIn: 10n * 10n ** 18n }
+            ])
             await SwapRouter.write.exactInput([
                 {
-                    tokenIn: token0.address,
-                    tokenOut: token1.address,
+                    ...route,
                     amountIn: 10n * 10n ** 18n,
-                    amountOutMinimum: 0n,
-                    indexPath: [0, 1],
-                    sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+                    amountOutMinimum: minimumAmountOut(quoted, 50),
                     recipient: sender,
-                    deadline: BigInt(Math.floor(Date.now() / 1000) + 1000)
+                    deadline: await deadlineFromChain(publicClient, 1000n)
                 }
             ])
             const token1Amount = await token1.read.balanceOf([sender])
@@ -101,24 +111,25 @@ describe('SwapRouter', async () => {
         })
 
         it('exacOutput', async () => {
-            const { SwapRouter, token0, token1, sender } = await deployFactoryFixture()
+            const { SwapRouter, token0, token1, sender, publicClient, sqrtPriceLimitX96 } = await deployFactoryFixture()
             await token0.write.mint([sender, 10n ** 12n * 10n ** 18n])
             await token0.write.approve([SwapRouter.address, 100n * 10n ** 18n])
+            const route = { tokenIn: token0.address, tokenOut: token1.address, indexPath: [0, 1], sqrtPriceLimitX96 }
+            const { result: quoted } = await SwapRouter.simulate.quoteExactOutput([
+                { ...route, amountOut: 10n * 10n ** 18n }
+            ])
             await SwapRouter.write.exactOutput([
                 {
-                    tokenIn: token0.address,
-                    tokenOut: token1.address,
+                    ...route,
                     amountOut: 10n * 10n ** 18n,
-                    amountInMaximum: 10n * 10n ** 18n,
-                    indexPath: [0, 1],
-                    sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(100, 1).toString()),
+                    amountInMaximum: maximumAmountIn(quoted, 50),
                     recipient: sender,
-                    deadline: BigInt(Math.floor(Date.now() / 1000) + 1000)
+                    deadline: await deadlineFromChain(publicClient, 1000n)
                 }
             ])
             const token0Amount = await token0.read.balanceOf([sender])
             // log('tokenIn:', 10n ** 12n * 10n ** 18n - token0Amount)
-            assert.equal(10n ** 12n * 10n ** 18n - token0Amount, 1000002000004001n)
+            assert.equal(10n ** 12n * 10n ** 18n - token0Amount, 1003011033103311n)
 
             const token1Amount = await token1.read.balanceOf([sender])
             // log('tokenOut:', token1Amount)
@@ -126,14 +137,14 @@ describe('SwapRouter', async () => {
         })
 
         it('quoteExactInput', async () => {
-            const { SwapRouter, token0, token1, sender } = await deployFactoryFixture()
+            const { SwapRouter, token0, token1, sqrtPriceLimitX96 } = await deployFactoryFixture()
             const data = await SwapRouter.simulate.quoteExactInput([
                 {
                     tokenIn: token0.address,
                     tokenOut: token1.address,
                     amountIn: 10n * 10n ** 18n,
                     indexPath: [0, 1],
-                    sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(100, 1).toString())
+                    sqrtPriceLimitX96
                 }
             ])
             // log('quoteExactInput:', data.result)
@@ -141,18 +152,18 @@ describe('SwapRouter', async () => {
         })
 
         it('quoteExactOutput', async () => {
-            const { SwapRouter, token0, token1, sender } = await deployFactoryFixture()
+            const { SwapRouter, token0, token1, sqrtPriceLimitX96 } = await deployFactoryFixture()
             const data = await SwapRouter.simulate.quoteExactOutput([
                 {
                     tokenIn: token0.address,
                     tokenOut: token1.address,
                     amountOut: 10000n * 10n ** 18n,
                     indexPath: [0, 1],
-                    sqrtPriceLimitX96: BigInt(encodeSqrtRatioX96(100, 1).toString())
+                    sqrtPriceLimitX96
                 }
             ])
             // log('quoteExactOutput:', data.result)
-            assert.equal(data.result, 1002004008016032065n)
+            assert.equal(data.result, 1005019065211667067n)
         })
     })
 })
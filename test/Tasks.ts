@@ -0,0 +1,257 @@
+import { describe, it } from 'node:test'
+
+import hre, { network } from 'hardhat'
+
+import assert from 'node:assert/strict'
+import { type PublicClient, parseEther } from 'viem'
+
+import { SwapClient } from '../sdk/index.js'
+import { type TaskContext, TokenResolver, applySlippage } from '../tasks/context.js'
+import {
+    addLiquidity,
+    collectPosition,
+    decreaseLiquidity,
+    increaseLiquidity,
+    migratePosition,
+    removeLiquidity
+} from '../tasks/liquidity.js'
+import { createPool, listPools } from '../tasks/pools.js'
+import { quoteSwap, swapExactIn, swapExactOut } from '../tasks/swap.js'
+
+describe('Tasks', async () => {
+    const { viem: hviem, networkHelpers } = await network.connect({ network: 'hardhatMainnet' })
+    const publicClient = (await hviem.getPublicClient()) as PublicClient
+    const wei = (amount: unknown) => parseEther(String(amount))
+
+    // 任务内部的 hre.network.connect() 会新建一条链，这里直接用测试链构造上下文
+    const deployFixture = async () => {
+        const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+        const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+        const PoolManager = await hviem.deployContract('PoolManager')
+        const WETH9 = await hviem.deployContract('WETH9')
+        const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+        const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+        const PositionMigrator = await hviem.deployContract('PositionMigrator', [
+            PositionManager.address,
+            SwapRouter.address
+        ])
+
+        const [walletClient] = await hviem.getWalletClients()
+        const sender = walletClient.account.address
+        await TTA.write.mint([sender, 10n ** 30n])
+        await TTB.write.mint([sender, 10n ** 30n])
+
+        const client = new SwapClient({
+            publicClient,
+            walletClient,
+            addresses: {
+                poolManager: PoolManager.address,
+                swapRouter: SwapRouter.address,
+                positionManager: PositionManager.address,
+                positionMigrator: PositionMigrator.address
+            }
+        })
+        const ctx: TaskContext = {
+            client,
+            publicClient,
+            tokens: new TokenResolver(publicClient, client, [TTA.address, TTB.address])
+        }
+        return { ctx, TTA, TTB, sender }
+    }
+
+    // 按 1 TTA = 2 TTB 建池并注入流动性
+    const poolFixture = async () => {
+        const fixture = await deployFixture()
+        await createPool(fixture.ctx, {
+            tokenA: 'TTA',
+            tokenB: 'TTB',
+            fee: 3000,
+            price: '2',
+            priceLower: '1',
+            priceUpper: '4'
+        })
+        const position = await addLiquidity(fixture.ctx, {
+            tokenA: 'tta',
+            tokenB: 'ttb',
+            index: 0,
+            amountA: '1000',
+            amountB: '2000'
+        })
+        return { ...fixture, position }
+    }
+
+    it('registers the tasks', () => {
+        for (const id of [
+            'pools:list',
+            'pools:create',
+            'pools:backtest',
+            'liquidity:add',
+            'liquidity:increase',
+            'liquidity:decrease',
+            'liquidity:migrate',
+            'swap:quote',
+            'swap:exact-out'
+        ]) {
+            assert.equal(hre.tasks.getTask(id).id.join(':'), id)
+        }
+    })
+
+    it('creates and lists pools using symbols and human prices', async () => {
+        const { ctx, TTA, TTB } = await networkHelpers.loadFixture(deployFixture)
+        const created = await createPool(ctx, {
+            tokenA: 'TTB',
+            tokenB: TTA.address,
+            fee: 500,
+            price: '0.5',
+            priceLower: '0.25',
+            priceUpper: '1'
+        })
+        assert.equal(created.index, 0)
+        assert.equal(created.pair, 'TTB/TTA')
+
+        const [pool] = await listPools(ctx, { tokenA: 'TTA', tokenB: 'TTB' })
+        assert.equal(pool.pool, created.pool)
+        assert.equal(pool.fee, '0.05%')
+        assert.equal(pool.liquidity, 0n)
+        // 列表按 token1 / token0 展示价格
+        const expected = TTA.address.toLowerCase() < TTB.address.toLowerCase() ? 2 : 0.5
+        assert.ok(Math.abs(Number(pool.price) - expected) < 1e-9)
+        assert.deepEqual(await listPools(ctx, { tokenA: '', tokenB: '' }), [pool])
+    })
+
+    it('rejects unknown symbols and invalid arguments', async () => {
+        const { ctx } = await networkHelpers.loadFixture(deployFixture)
+        await assert.rejects(ctx.tokens.resolve('XYZ'), /Unknown token XYZ/)
+        await assert.rejects(
+            createPool(ctx, { tokenA: 'TTA', tokenB: 'TTB', fee: 3000, price: '1', priceLower: '', priceUpper: '' }),
+            /Missing price range/
+        )
+        await assert.rejects(
+            quoteSwap(ctx, { tokenIn: 'TTA', tokenOut: 'TTB', amount: '1', side: 'both', indexPath: '' }),
+            /Invalid side both/
+        )
+    })
+
+    it('adds liquidity with human amounts', async () => {
+        const { ctx, position } = await networkHelpers.loadFixture(poolFixture)
+        assert.equal(position.positionId, 1n)
+        assert.ok(position.liquidity > 0n)
+        // 价格处于区间内，两种代币都按期望比例投入
+        assert.ok(Number(position.TTA) > 999 && Number(position.TTA) <= 1000)
+        assert.ok(Number(position.TTB) > 1999 && Number(position.TTB) <= 2000)
+    })
+
+    it('quotes and swaps with slippage bounds', async () => {
+        const { ctx, TTB, sender } = await networkHelpers.loadFixture(poolFixture)
+        const quote = { tokenIn: 'TTA', tokenOut: 'TTB', amount: '1', indexPath: '' }
+        const quoteIn = await quoteSwap(ctx, { ...quote, side: 'exactIn' })
+        assert.equal(quoteIn.amountIn, '1')
+
+        const balanceBefore = await TTB.read.balanceOf([sender])
+        const swapped = await swapExactIn(ctx, {
+            tokenIn: 'TTA',
+            tokenOut: 'TTB',
+            amount: '1',
+            slippage: '1',
+            indexPath: '0',
+            recipient: ''
+        })
+        assert.equal(swapped.amountOut, quoteIn.amountOut)
+        assert.ok(Number(swapped.amountOutMinimum) < Number(swapped.amountOut))
+        assert.equal(await TTB.read.balanceOf([sender]), balanceBefore + parseEther(swapped.amountOut))
+
+        const quoteOut = await quoteSwap(ctx, { ...quote, tokenIn: 'TTB', tokenOut: 'TTA', side: 'exactOut' })
+        const bought = await swapExactOut(ctx, {
+            tokenIn: 'TTB',
+            tokenOut: 'TTA',
+            amount: '1',
+            slippage: '0.5',
+            indexPath: '',
+            recipient: ''
+        })
+        assert.equal(bought.amountOut, '1')
+        assert.equal(bought.amountIn, quoteOut.amountIn)
+        assert.ok(Number(bought.amountInMaximum) > Number(bought.amountIn))
+    })
+
+    it('removes liquidity and collects the tokens', async () => {
+        const { ctx, TTA, sender, position } = await networkHelpers.loadFixture(poolFixture)
+        const removed = await removeLiquidity(ctx, { positionId: position.positionId })
+        // burn 的返回值向下取整，与投入和实际提取的数量最多相差 1 wei
+        assert.ok(wei(position.TTA) - wei(removed.TTA) <= 1n)
+
+        const balanceBefore = await TTA.read.balanceOf([sender])
+        const collected = await collectPosition(ctx, {
+            positionId: position.positionId,
+            recipient: '',
+            unwrapEth: false
+        })
+        assert.ok(wei(collected.TTA) - wei(removed.TTA) <= 1n)
+        assert.ok((await TTA.read.balanceOf([sender])) > balanceBefore)
+        await assert.rejects(removeLiquidity(ctx, { positionId: 99n }), /Position 99 not found/)
+    })
+
+    it('increases and decreases a position with slippage bounds', async () => {
+        const { ctx, position } = await networkHelpers.loadFixture(poolFixture)
+        const increased = await increaseLiquidity(ctx, {
+            positionId: position.positionId,
+            amount0: '100',
+            amount1: '100',
+            slippage: '0.5'
+        })
+        // 参数按头寸的 token0 / token1 顺序，输出以代币符号为键
+        assert.ok(increased.liquidity > 0n && Number(increased.TTA) > 0 && Number(increased.TTB) > 0)
+
+        const halved = await decreaseLiquidity(ctx, {
+            positionId: position.positionId,
+            liquidity: '',
+            percent: '50',
+            slippage: '0.5'
+        })
+        assert.equal(halved.liquidity, (position.liquidity + increased.liquidity) / 2n)
+        await assert.rejects(
+            decreaseLiquidity(ctx, { positionId: position.positionId, liquidity: '', percent: '0', slippage: '1' }),
+            /Invalid percent 0%/
+        )
+        await assert.rejects(
+            decreaseLiquidity(ctx, {
+                positionId: position.positionId,
+                liquidity: String(position.liquidity * 2n),
+                percent: '',
+                slippage: '1'
+            }),
+            /Liquidity must be in/
+        )
+    })
+
+    it('migrates a position into another pool of the pair', async () => {
+        const { ctx, sender, position } = await networkHelpers.loadFixture(poolFixture)
+        await createPool(ctx, {
+            tokenA: 'TTA',
+            tokenB: 'TTB',
+            fee: 500,
+            price: '2',
+            priceLower: '1',
+            priceUpper: '8'
+        })
+        await addLiquidity(ctx, { tokenA: 'TTA', tokenB: 'TTB', index: 1, amountA: '10000', amountB: '20000' })
+        const args = { positionId: position.positionId, slippage: '0.5', indexPath: '', recipient: '' }
+        await assert.rejects(migratePosition(ctx, { ...args, targetIndex: 0 }), /SamePoolIndex/)
+
+        const migrated = await migratePosition(ctx, { ...args, targetIndex: 1 })
+        assert.equal(migrated.fromIndex, 0)
+        assert.equal(migrated.index, 1)
+        assert.ok(migrated.liquidity > 0n)
+        assert.match(String(migrated.rebalance), /^[\d.]+ TT[AB]$/)
+        const positions = await ctx.client.listPositions(sender)
+        assert.ok(positions.some((item) => item.id === migrated.newPositionId && item.index === 1))
+        assert.ok(!positions.some((item) => item.id === position.positionId))
+    })
+
+    it('applies slippage in basis points', () => {
+        assert.equal(applySlippage(10000n, '0.5', 'exactIn'), 9950n)
+        assert.equal(applySlippage(10000n, '0.5', 'exactOut'), 10050n)
+        assert.equal(applySlippage(3n, '0.01', 'exactOut'), 4n)
+        assert.throws(() => applySlippage(1n, '101', 'exactIn'), /Invalid slippage/)
+    })
+})
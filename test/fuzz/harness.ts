@@ -0,0 +1,419 @@
+import { type Address, BaseError, ContractFunctionRevertedError, type PublicClient, getContract } from 'viem'
+
+import { type SwapClient, erc20Abi, poolAbi, valuePosition } from '../../sdk/index.js'
+import type { PositionInfo } from '../../sdk/index.js'
+
+/**
+ * 有状态不变量模糊测试：按种子生成 mint / burn / collect / swap 序列，每步之后检查池子不变量，
+ * 失败时缩减到最小复现序列。同一种子总是生成同一序列。
+ */
+
+export type FuzzAction =
+    | { kind: 'mint'; account: number; amount0: bigint; amount1: bigint }
+    // slot 对该账户当前可操作的头寸数量取模，序列被缩减后仍然有效
+    | { kind: 'burn'; account: number; slot: number }
+    | { kind: 'collect'; account: number; slot: number }
+    | { kind: 'swap'; account: number; zeroForOne: boolean; exactInput: boolean; amount: bigint }
+
+export interface FuzzEnvironment {
+    publicClient: PublicClient
+    pool: Address
+    token0: Address
+    token1: Address
+    // 每个账户一个 SwapClient，代币已授权给 PositionManager 与 SwapRouter
+    lps: SwapClient[]
+    traders: SwapClient[]
+    // 恢复到执行序列之前的链上状态
+    reset(): Promise<void>
+}
+
+// 每一步之后读取的池子状态
+export interface PoolSnapshot {
+    balance0: bigint
+    balance1: bigint
+    sqrtPriceX96: bigint
+    tick: number
+    tickLower: number
+    tickUpper: number
+    liquidity: bigint
+    feeGrowthGlobal0X128: bigint
+    feeGrowthGlobal1X128: bigint
+    // PositionManager 在池子中的头寸流动性
+    managerLiquidity: bigint
+    positions: PositionInfo[]
+    // 序列中已成功执行的 mint 次数
+    mints: number
+}
+
+export interface Invariant {
+    name: string
+    // 返回违反时的说明
+    check(current: PoolSnapshot, previous: PoolSnapshot | undefined): string | undefined
+}
+
+export interface FuzzFailure {
+    // 出错的步骤下标
+    step: number
+    invariant: string
+    message: string
+}
+
+export interface FuzzReport extends FuzzFailure {
+    seed: number
+    // 缩减后的最小复现序列
+    actions: FuzzAction[]
+    // 缩减前失败时已执行的步数
+    originalLength: number
+}
+
+export interface FuzzOptions {
+    seed: number
+    runs: number
+    steps: number
+    invariants?: Invariant[]
+    // 缩减阶段最多重放的次数
+    maxShrinkRuns?: number
+}
+
+// ---------- 序列生成 ----------
+
+// 可复现的伪随机数（mulberry32）
+export const createRandom = (seed: number) => {
+    let state = seed >>> 0
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+    const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+    // 数量在数量级上均匀分布，覆盖 1 wei 到约 10^24
+    const amount = () => BigInt(int(1, 999)) * 10n ** BigInt(int(0, 21))
+    return { next, int, amount }
+}
+
+export const generateActions = (
+    seed: number,
+    steps: number,
+    accounts: { lps: number; traders: number }
+): FuzzAction[] => {
+    const random = createRandom(seed)
+    return Array.from({ length: steps }, (): FuzzAction => {
+        const roll = random.next()
+        if (roll < 0.3) {
+            return {
+                kind: 'mint',
+                account: random.int(0, accounts.lps - 1),
+                amount0: random.amount(),
+                amount1: random.amount()
+            }
+        }
+        if (roll < 0.4) {
+            return { kind: 'burn', account: random.int(0, accounts.lps - 1), slot: random.int(0, 7) }
+        }
+        if (roll < 0.5) {
+            return { kind: 'collect', account: random.int(0, accounts.lps - 1), slot: random.int(0, 7) }
+        }
+        return {
+            kind: 'swap',
+            account: random.int(0, accounts.traders - 1),
+            zeroForOne: random.next() < 0.5,
+            exactInput: random.next() < 0.5,
+            amount: random.amount()
+        }
+    })
+}
+
+export const formatAction = (action: FuzzAction): string => {
+    switch (action.kind) {
+        case 'mint':
+            return `mint lp${action.account} amount0=${action.amount0} amount1=${action.amount1}`
+        case 'burn':
+        case 'collect':
+            return `${action.kind} lp${action.account} slot=${action.slot}`
+        case 'swap':
+            return (
+                `swap trader${action.account} ${action.zeroForOne ? 'token0->token1' : 'token1->token0'} ` +
+                `${action.exactInput ? 'exactIn' : 'exactOut'} amount=${action.amount}`
+            )
+    }
+}
+
+export const formatReport = (report: FuzzReport): string =>
+    [
+        `invariant "${report.invariant}" violated with seed ${report.seed}: ${report.message}`,
+        `minimal reproduction (${report.actions.length} of ${report.originalLength} steps):`,
+        ...report.actions.map((action, i) => `  ${i}: ${formatAction(action)}`)
+    ].join('\n')
+
+// ---------- 不变量 ----------
+
+export const defaultInvariants: Invariant[] = [
+    {
+        name: 'solvency',
+        // 按各头寸实际可提取的数量（tokensOwed + 活跃流动性对应的储备 + 未结算手续费 - 1）检查；
+        // Pool.mint 向下取整，每次 mint 池子最多少收 1 wei，允许相应的误差
+        check: (state) => {
+            const claims = state.positions.reduce(
+                (sum, position) => {
+                    const valuation = valuePosition(position, state)
+                    return [sum[0] + valuation.collectable0, sum[1] + valuation.collectable1]
+                },
+                [0n, 0n]
+            )
+            const dust = BigInt(state.mints)
+            if (state.balance0 + dust < claims[0] || state.balance1 + dust < claims[1]) {
+                return `balances ${state.balance0}/${state.balance1} below position claims ${claims[0]}/${claims[1]}`
+            }
+        }
+    },
+    {
+        name: 'liquidity',
+        check: (state) => {
+            const sum = state.positions.reduce((total, position) => total + position.liquidity, 0n)
+            if (state.liquidity !== sum || state.managerLiquidity !== sum) {
+                return `pool ${state.liquidity}, manager ${state.managerLiquidity}, sum of positions ${sum}`
+            }
+        }
+    },
+    {
+        name: 'feeGrowth',
+        check: (state, previous) => {
+            if (
+                previous &&
+                (state.feeGrowthGlobal0X128 < previous.feeGrowthGlobal0X128 ||
+                    state.feeGrowthGlobal1X128 < previous.feeGrowthGlobal1X128)
+            ) {
+                return `fee growth decreased from ${previous.feeGrowthGlobal0X128}/${previous.feeGrowthGlobal1X128}`
+            }
+        }
+    },
+    {
+        name: 'tickRange',
+        check: (state) => {
+            if (state.tick < state.tickLower || state.tick > state.tickUpper) {
+                return `tick ${state.tick} outside [${state.tickLower}, ${state.tickUpper}]`
+            }
+        }
+    }
+]
+
+// ---------- 执行 ----------
+
+const readSnapshot = async (env: FuzzEnvironment, mints: number): Promise<PoolSnapshot> => {
+    const { publicClient, pool: address } = env
+    const pool = getContract({ address, abi: poolAbi, client: publicClient })
+    const balanceOf = (token: Address) =>
+        publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'balanceOf', args: [address] })
+    const [balance0, balance1, sqrtPriceX96, tick, tickLower, tickUpper, liquidity, growth0, growth1, position] =
+        await Promise.all([
+            balanceOf(env.token0),
+            balanceOf(env.token1),
+            pool.read.sqrtPriceX96(),
+            pool.read.tick(),
+            pool.read.tickLower(),
+            pool.read.tickUpper(),
+            pool.read.liquidity(),
+            pool.read.feeGrowthGlobal0X128(),
+            pool.read.feeGrowthGlobal1X128(),
+            pool.read.getPosition([env.lps[0].addresses.positionManager])
+        ])
+    return {
+        balance0,
+        balance1,
+        sqrtPriceX96,
+        tick,
+        tickLower,
+        tickUpper,
+        liquidity,
+        feeGrowthGlobal0X128: growth0,
+        feeGrowthGlobal1X128: growth1,
+        managerLiquidity: position[0],
+        positions: await env.lps[0].listPositions(),
+        mints
+    }
+}
+
+const isRevert = (error: unknown) =>
+    error instanceof BaseError && error.walk((cause) => cause instanceof ContractFunctionRevertedError) !== null
+
+// 从账户当前仍可操作的头寸中按 slot 选择
+const pickPosition = async (client: SwapClient, slot: number, usable: (position: PositionInfo) => boolean) => {
+    const positions = (await client.listPositions(client.account.address)).filter(usable)
+    return positions.length === 0 ? undefined : positions[slot % positions.length]
+}
+
+/**
+ * @notice 执行单个动作
+ * @return 合约 revert 时返回 false，状态不变
+ */
+export const executeAction = async (env: FuzzEnvironment, action: FuzzAction): Promise<boolean> => {
+    try {
+        switch (action.kind) {
+            case 'mint':
+                await env.lps[action.account].addLiquidity({
+                    tokenA: env.token0,
+                    tokenB: env.token1,
+                    index: 0,
+                    amountADesired: action.amount0,
+                    amountBDesired: action.amount1,
+                    approve: false
+                })
+                return true
+            case 'burn': {
+                const client = env.lps[action.account]
+                const position = await pickPosition(client, action.slot, (item) => item.liquidity > 0n)
+                if (position) {
+                    await client.removeLiquidity(position.id)
+                }
+                return position !== undefined
+            }
+            case 'collect': {
+                const client = env.lps[action.account]
+                const position = await pickPosition(
+                    client,
+                    action.slot,
+                    (item) => item.liquidity > 0n || item.tokensOwed0 > 0n || item.tokensOwed1 > 0n
+                )
+                if (position) {
+                    await client.collect(position.id)
+                }
+                return position !== undefined
+            }
+            case 'swap': {
+                const client = env.traders[action.account]
+                const [tokenIn, tokenOut] = action.zeroForOne ? [env.token0, env.token1] : [env.token1, env.token0]
+                const params = { tokenIn, tokenOut, indexPath: [0], approve: false }
+                if (action.exactInput) {
+                    await client.swapExactIn({ ...params, amountIn: action.amount })
+                } else {
+                    await client.swapExactOut({ ...params, amountOut: action.amount })
+                }
+                return true
+            }
+        }
+    } catch (error) {
+        if (isRevert(error)) {
+            return false
+        }
+        throw error
+    }
+}
+
+/**
+ * @notice 从初始状态重放序列，每步之后检查不变量
+ * @return 第一个被违反的不变量，全部通过时返回 undefined
+ */
+export const runSequence = async (
+    env: FuzzEnvironment,
+    actions: FuzzAction[],
+    invariants: Invariant[] = defaultInvariants
+): Promise<FuzzFailure | undefined> => {
+    await env.reset()
+    let mints = 0
+    let previous = await readSnapshot(env, mints)
+    for (const [step, action] of actions.entries()) {
+        if ((await executeAction(env, action)) && action.kind === 'mint') {
+            mints++
+        }
+        const current = await readSnapshot(env, mints)
+        for (const invariant of invariants) {
+            const message = invariant.check(current, previous)
+            if (message !== undefined) {
+                return { step, invariant: invariant.name, message }
+            }
+        }
+        previous = current
+    }
+    return undefined
+}
+
+// 数量字段向更小的值缩减
+const simplerActions = (action: FuzzAction): FuzzAction[] => {
+    const smaller = (value: bigint) => (value > 1n ? [value / 10n || 1n] : [])
+    switch (action.kind) {
+        case 'mint':
+            return [
+                ...smaller(action.amount0).map((amount0) => ({ ...action, amount0 })),
+                ...smaller(action.amount1).map((amount1) => ({ ...action, amount1 }))
+            ]
+        case 'swap':
+            return smaller(action.amount).map((amount) => ({ ...action, amount }))
+        default:
+            return action.slot > 0 ? [{ ...action, slot: 0 }] : []
+    }
+}
+
+/**
+ * @notice 缩减失败序列：先按块删除动作，再逐个缩小数量，只保留仍违反同一不变量的候选
+ */
+export const shrink = async (
+    env: FuzzEnvironment,
+    actions: FuzzAction[],
+    failure: FuzzFailure,
+    invariants: Invariant[] = defaultInvariants,
+    maxRuns = 300
+): Promise<{ actions: FuzzAction[]; failure: FuzzFailure }> => {
+    let current = actions.slice(0, failure.step + 1)
+    let runs = 0
+    const attempt = async (candidate: FuzzAction[]) => {
+        if (runs++ >= maxRuns) {
+            return false
+        }
+        const result = await runSequence(env, candidate, invariants)
+        if (result?.invariant !== failure.invariant) {
+            return false
+        }
+        current = candidate.slice(0, result.step + 1)
+        failure = result
+        return true
+    }
+
+    let chunk = Math.ceil(current.length / 2)
+    while (chunk >= 1 && runs < maxRuns) {
+        let removed = false
+        for (let start = 0; start < current.length; start += chunk) {
+            if (await attempt([...current.slice(0, start), ...current.slice(start + chunk)])) {
+                removed = true
+                break
+            }
+        }
+        if (!removed) {
+            chunk = chunk === 1 ? 0 : Math.ceil(chunk / 2)
+        }
+    }
+
+    for (let i = 0; i < current.length && runs < maxRuns; i++) {
+        let simplified = true
+        while (simplified && i < current.length) {
+            simplified = false
+            for (const action of simplerActions(current[i])) {
+                if (await attempt([...current.slice(0, i), action, ...current.slice(i + 1)])) {
+                    simplified = true
+                    break
+                }
+            }
+        }
+    }
+    return { actions: current, failure }
+}
+
+/**
+ * @notice 依次运行 seed, seed + 1, ... 共 runs 个序列
+ * @return 第一个失败序列缩减后的报告，全部通过时返回 undefined
+ */
+export const fuzz = async (env: FuzzEnvironment, options: FuzzOptions): Promise<FuzzReport | undefined> => {
+    const invariants = options.invariants ?? defaultInvariants
+    const accounts = { lps: env.lps.length, traders: env.traders.length }
+    for (let run = 0; run < options.runs; run++) {
+        const seed = options.seed + run
+        const actions = generateActions(seed, options.steps, accounts)
+        const failure = await runSequence(env, actions, invariants)
+        if (failure) {
+            const shrunk = await shrink(env, actions, failure, invariants, options.maxShrinkRuns)
+            return { seed, ...shrunk.failure, actions: shrunk.actions, originalLength: failure.step + 1 }
+        }
+    }
+    return undefined
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+
+import type { NetworkConnection } from 'hardhat/types/network'
+import type { PublicClient, WalletClient } from 'viem'
+
+import { type SwapAddresses, SwapClient, decodeRevert } from '../sdk/index.js'
+
+/**
+ * @notice 等待交易或调用被回滚，返回解码后的错误
+ * @dev 没有回滚或回滚数据无法解码时断言失败
+ */
+export const rejection = async (promise: Promise<unknown>) => {
+    try {
+        await promise
+    } catch (error) {
+        const decoded = decodeRevert(error)
+        assert.ok(decoded, `no revert data in ${error}`)
+        return decoded
+    }
+    assert.fail('expected a revert')
+}
+
+/**
+ * @notice 部署两种测试代币（按地址排序为 token0 / token1）与 PoolManager、WETH9、SwapRouter、PositionManager
+ * @dev connect 以指定钱包创建 SwapClient，extra 用于补充 quoter、positionMigrator 等可选地址
+ */
+export const deployExchange = async (hviem: NetworkConnection['viem'], publicClient: PublicClient) => {
+    const TTA = await hviem.deployContract('TToken', ['TToken A', 'TTA'])
+    const TTB = await hviem.deployContract('TToken', ['TToken B', 'TTB'])
+    const [token0, token1] = BigInt(TTA.address) < BigInt(TTB.address) ? [TTA, TTB] : [TTB, TTA]
+    const PoolManager = await hviem.deployContract('PoolManager')
+    const WETH9 = await hviem.deployContract('WETH9')
+    const SwapRouter = await hviem.deployContract('SwapRouter', [PoolManager.address, WETH9.address])
+    const PositionManager = await hviem.deployContract('PositionManager', [PoolManager.address, WETH9.address])
+    const addresses: SwapAddresses = {
+        poolManager: PoolManager.address,
+        swapRouter: SwapRouter.address,
+        positionManager: PositionManager.address
+    }
+    const connect = (walletClient: WalletClient, extra: Partial<SwapAddresses> = {}) =>
+        new SwapClient({ publicClient, walletClient, addresses: { ...addresses, ...extra } })
+    return { token0, token1, PoolManager, WETH9, SwapRouter, PositionManager, addresses, connect }
+}